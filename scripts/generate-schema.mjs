@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+// Regenerates config.schema.json from the PowerlineConfig interfaces.
+// Run with `npm run schema` after changing any config or segment interface.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { createGenerator } from "ts-json-schema-generator";
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const output = path.join(root, "config.schema.json");
+
+const schema = createGenerator({
+  path: path.join(root, "src/config/loader.ts"),
+  tsconfig: path.join(root, "tsconfig.json"),
+  type: "PowerlineConfig",
+  additionalProperties: false,
+  skipTypeCheck: true,
+}).createSchema("PowerlineConfig");
+
+const defs = schema.definitions;
+
+// Config files are merged over the defaults, so nothing at the top level is
+// required even though the merged PowerlineConfig has theme and display.
+delete defs.PowerlineConfig.required;
+delete defs.DisplayConfig.required;
+
+// Usage segments render as "cost" when type is omitted.
+for (const name of [
+  "UsageSegmentConfig",
+  "BlockSegmentConfig",
+  "TodaySegmentConfig",
+  "ProjectSegmentConfig",
+  "PeriodSegmentConfig",
+]) {
+  defs[name].required = defs[name].required.filter((key) => key !== "type");
+}
+
+// Custom themes fall back to the dark theme per segment and may also color
+// individual parts ("git.branch") or plugin segments.
+delete defs.ColorTheme.required;
+delete defs.SegmentColor.required;
+defs.ColorTheme.additionalProperties = { $ref: "#/definitions/SegmentColor" };
+
+const result = {
+  $schema: schema.$schema,
+  $id: "https://raw.githubusercontent.com/Owloops/claude-powerline/main/config.schema.json",
+  title: "claude-powerline configuration",
+  $ref: schema.$ref,
+  definitions: defs,
+};
+
+fs.writeFileSync(output, `${JSON.stringify(result, null, 2)}\n`);
+console.log(`Wrote ${path.relative(root, output)}`);
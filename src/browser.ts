@@ -32,7 +32,19 @@ export type { ContextInfo } from "./segments/context";
 export type { MetricsInfo } from "./segments/metrics";
 export type { BlockInfo } from "./segments/block";
 export type { TodayInfo } from "./segments/today";
+export type { ModelFamily, ModelUsage } from "./segments/pricing";
+export type { ProjectInfo, ProjectPeriod } from "./segments/project";
+export type { PeriodInfo, BudgetPeriod } from "./segments/period";
+export type { SparklineInfo, SparklineMetric } from "./segments/sparkline";
+export type { SubagentInfo, SubagentState } from "./segments/subagents";
 export type { CacheTimerInfo } from "./segments/cacheTimer";
+export type { CommandInfo } from "./segments/command";
+export type {
+  PluginSegmentConfig,
+  SegmentPlugin,
+  SegmentPluginContext,
+  SegmentPluginOutput,
+} from "./segments/plugin";
 
 export type {
   SegmentConfig,
@@ -44,10 +56,14 @@ export type {
   MetricsSegmentConfig,
   BlockSegmentConfig,
   TodaySegmentConfig,
+  ProjectSegmentConfig,
+  PeriodSegmentConfig,
   VersionSegmentConfig,
   SessionIdSegmentConfig,
   EnvSegmentConfig,
+  CommandSegmentConfig,
   WeeklySegmentConfig,
+  SparklineSegmentConfig,
   AgentSegmentConfig,
   ThinkingSegmentConfig,
   CacheTimerSegmentConfig,
@@ -126,8 +142,12 @@ export {
 export { stripAnsi, visibleLength, ESC } from "./utils/terminal";
 export {
   formatCost,
+  setCurrencyFormat,
+  convertCost,
   formatTokens,
   formatTokenBreakdown,
+  formatModelBreakdown,
+  formatSubagents,
   formatTimeSince,
   formatDuration,
   formatModelName,
@@ -140,6 +160,7 @@ export {
   formatLongTimeRemaining,
   minutesUntilReset,
   formatCacheTimerElapsed,
+  drawSparkline,
 } from "./utils/formatters";
 export { getBudgetStatus } from "./utils/budget";
 
@@ -0,0 +1,298 @@
+import fs from "node:fs";
+import net from "node:net";
+import path from "node:path";
+import { clearInterval, setInterval } from "node:timers";
+import { loadConfig } from "../config/loader";
+import type { PowerlineConfig } from "../config/loader";
+import { PowerlineRenderer } from "../powerline";
+import { PricingService } from "../segments/pricing";
+import { getClaudePaths } from "../utils/claude";
+import { getDaemonSocketPath, readMessage } from "../utils/daemon";
+import type {
+  DaemonRender,
+  DaemonRequest,
+  DaemonResponse,
+} from "../utils/daemon";
+import { setTerminalWriter } from "../utils/alerts";
+import { setCurrencyFormat } from "../utils/formatters";
+import { debug } from "../utils/logger";
+import { enableMemo, invalidateMemo, disableMemo } from "../utils/memo";
+import { setMeasuredProcess } from "../utils/terminal-width";
+
+/** Pricing is re-read at this interval, as the one-shot CLI would. */
+const PRICING_RELOAD_MS = 60 * 60 * 1000;
+
+const MAX_RENDERERS = 20;
+const MAX_GIT_WATCHERS = 16;
+
+export interface DaemonServer {
+  socketPath: string;
+  close(): Promise<void>;
+}
+
+/** Whether another daemon already answers on the socket. */
+function isListening(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const socket = net.createConnection(socketPath);
+    socket.on("connect", () => {
+      socket.destroy();
+      resolve(true);
+    });
+    socket.on("error", () => resolve(false));
+  });
+}
+
+/**
+ * The `.git` directory for `dir`, following the `gitdir:` file linked
+ * worktrees use. Null outside a repository.
+ */
+function findGitDir(dir: string): string | null {
+  let current = path.resolve(dir);
+  while (true) {
+    const candidate = path.join(current, ".git");
+    try {
+      const stat = fs.statSync(candidate);
+      if (stat.isDirectory()) return candidate;
+      const match = /^gitdir:\s*(.+)$/m.exec(
+        fs.readFileSync(candidate, "utf-8"),
+      );
+      return match?.[1] ? path.resolve(current, match[1].trim()) : null;
+    } catch {}
+    const parent = path.dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * Invalidates memoized results when the files behind them change: every
+ * `projects` tree for transcripts, and the `.git` directory of each rendered
+ * workspace for git. A scope that cannot be watched is not reused at all.
+ */
+class FileWatchers {
+  private readonly watchers: fs.FSWatcher[] = [];
+  private readonly gitWatchers = new Map<string, fs.FSWatcher>();
+  private transcriptsWatched = false;
+
+  watchTranscripts(): void {
+    const projectsDirs = getClaudePaths()
+      .map((claudePath) => path.join(claudePath, "projects"))
+      .filter((dir) => fs.existsSync(dir));
+    try {
+      for (const dir of projectsDirs) {
+        this.watchers.push(
+          fs.watch(dir, { recursive: true }, () =>
+            invalidateMemo("transcripts"),
+          ),
+        );
+      }
+      this.transcriptsWatched = projectsDirs.length > 0;
+    } catch (error) {
+      // Recursive watching needs Node 20 on Linux.
+      debug(`Daemon: not watching transcripts:`, error);
+      this.transcriptsWatched = false;
+    }
+  }
+
+  watchGit(dir: string): void {
+    const gitDir = findGitDir(dir);
+    if (!gitDir || this.gitWatchers.has(gitDir)) return;
+
+    if (this.gitWatchers.size >= MAX_GIT_WATCHERS) {
+      const oldest = this.gitWatchers.keys().next().value;
+      if (oldest) {
+        this.gitWatchers.get(oldest)?.close();
+        this.gitWatchers.delete(oldest);
+      }
+    }
+    try {
+      // HEAD, index and packed-refs live at the top; ref updates elsewhere
+      // are left to the git TTL.
+      const watcher = fs.watch(gitDir, () => invalidateMemo("git"));
+      this.gitWatchers.set(gitDir, watcher);
+    } catch (error) {
+      debug(`Daemon: not watching ${gitDir}:`, error);
+    }
+  }
+
+  /** Called before each render. */
+  beforeRender(): void {
+    if (!this.transcriptsWatched) invalidateMemo("transcripts");
+  }
+
+  close(): void {
+    for (const watcher of [...this.watchers, ...this.gitWatchers.values()]) {
+      watcher.close();
+    }
+    this.watchers.length = 0;
+    this.gitWatchers.clear();
+  }
+}
+
+/**
+ * Renders one request as the CLI would have in its own process: with its
+ * environment, working directory and terminal. Alert sequences are returned
+ * for the CLI to write, since the daemon's terminal is not the user's.
+ * Requests are rendered one at a time, since all of these are process-wide.
+ */
+async function render(
+  request: DaemonRequest,
+  renderers: Map<string, PowerlineRenderer>,
+): Promise<DaemonRender> {
+  const savedEnv = process.env;
+  const savedCwd = process.cwd();
+  let terminal = "";
+  process.env = { ...request.env };
+  setMeasuredProcess(request.pid);
+  setTerminalWriter((sequence) => {
+    terminal += sequence;
+  });
+  try {
+    process.chdir(request.cwd);
+  } catch {}
+
+  try {
+    const config: PowerlineConfig = loadConfig(
+      request.args,
+      request.hookData.workspace?.project_dir,
+    );
+    const key = JSON.stringify(config);
+    let renderer = renderers.get(key);
+    if (!renderer) {
+      if (renderers.size >= MAX_RENDERERS) renderers.clear();
+      renderer = new PowerlineRenderer(config);
+      renderers.set(key, renderer);
+    } else {
+      // Another config may have been applied since this renderer was built.
+      PricingService.configure(config.pricing);
+      setCurrencyFormat(config);
+    }
+    const output = await renderer.generateStatusline(request.hookData);
+    return { output, terminal };
+  } finally {
+    process.env = savedEnv;
+    setMeasuredProcess(null);
+    setTerminalWriter(null);
+    try {
+      process.chdir(savedCwd);
+    } catch {}
+  }
+}
+
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs `task` after every render queued before it, across all daemons in the
+ * process, so no two renders share the process environment at once.
+ */
+function serializeRender<T>(task: () => Promise<T>): Promise<T> {
+  const result = renderQueue.then(task);
+  renderQueue = result.catch(() => {});
+  return result;
+}
+
+/**
+ * Listens on `socketPath` and renders statuslines for CLI invocations,
+ * keeping renderers, plugins, pricing and provider results in memory.
+ */
+export async function startDaemon(socketPath: string): Promise<DaemonServer> {
+  if (fs.existsSync(socketPath)) {
+    if (await isListening(socketPath)) {
+      throw new Error(`a daemon is already listening on ${socketPath}`);
+    }
+    fs.rmSync(socketPath, { force: true });
+  }
+  fs.mkdirSync(path.dirname(socketPath), { recursive: true });
+
+  enableMemo();
+  const watchers = new FileWatchers();
+  watchers.watchTranscripts();
+  const renderers = new Map<string, PowerlineRenderer>();
+
+  const server = net.createServer((socket) => {
+    socket.on("error", (error) => debug(`Daemon: client error:`, error));
+    readMessage(socket, (message) => {
+      const request = message as DaemonRequest;
+      serializeRender(async () => {
+        let response: DaemonResponse;
+        try {
+          watchers.beforeRender();
+          response = await render(request, renderers);
+          const hookData = request.hookData;
+          watchers.watchGit(
+            hookData.workspace?.current_dir || hookData.cwd || request.cwd,
+          );
+        } catch (error) {
+          response = {
+            error: error instanceof Error ? error.message : String(error),
+          };
+        }
+        socket.end(`${JSON.stringify(response)}\n`);
+      });
+    });
+  });
+
+  // The socket is created owner-only, not opened up until a chmod.
+  const savedUmask = process.umask(0o177);
+  try {
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(socketPath, () => {
+        server.off("error", reject);
+        resolve();
+      });
+    });
+  } finally {
+    process.umask(savedUmask);
+  }
+  fs.chmodSync(socketPath, 0o600);
+
+  const pricingReload = setInterval(
+    () => PricingService.reload(),
+    PRICING_RELOAD_MS,
+  );
+  pricingReload.unref();
+
+  return {
+    socketPath,
+    close: () =>
+      new Promise<void>((resolve) => {
+        clearInterval(pricingReload);
+        watchers.close();
+        disableMemo();
+        server.close(() => resolve());
+        fs.rmSync(socketPath, { force: true });
+      }),
+  };
+}
+
+/**
+ * Runs the daemon in the foreground until SIGINT or SIGTERM, listening on
+ * `CLAUDE_POWERLINE_SOCKET` or `daemon.sock` in the cache directory. The
+ * statusline CLI uses it whenever it answers there.
+ */
+export async function runDaemon(): Promise<number> {
+  if (process.platform === "win32") {
+    console.error("Error: the daemon needs Unix domain sockets");
+    return 1;
+  }
+
+  const socketPath = getDaemonSocketPath();
+  let daemon: DaemonServer;
+  try {
+    daemon = await startDaemon(socketPath);
+  } catch (error) {
+    console.error(
+      `Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  }
+  console.error(`claude-powerline daemon listening on ${socketPath}`);
+
+  await new Promise<void>((resolve) => {
+    process.once("SIGINT", resolve);
+    process.once("SIGTERM", resolve);
+  });
+  await daemon.close();
+  return 0;
+}
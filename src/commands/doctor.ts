@@ -0,0 +1,308 @@
+import fs from "node:fs";
+import path from "node:path";
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+import {
+  getProfileName,
+  loadConfig,
+  resolveConfigFile,
+} from "../config/loader";
+import type { PowerlineConfig } from "../config/loader";
+import { validateConfigText } from "../config/validate";
+import { PricingService } from "../segments/pricing";
+import { CacheManager } from "../utils/cache";
+import { getClaudePaths, findProjectPaths } from "../utils/claude";
+import { getColorSupport } from "../utils/color-support";
+import { detectTerminalWidth, getTerminalWidth } from "../utils/terminal-width";
+
+const execAsync = promisify(exec);
+
+type CheckStatus = "ok" | "warn" | "fail" | "info";
+
+interface DoctorRow {
+  label: string;
+  value: string;
+  status: CheckStatus;
+}
+
+interface DoctorSection {
+  title: string;
+  rows: DoctorRow[];
+}
+
+const STATUS_MARKERS: Record<CheckStatus, string> = {
+  ok: "✓",
+  warn: "!",
+  fail: "✗",
+  info: " ",
+};
+
+function row(
+  label: string,
+  value: string,
+  status: CheckStatus = "info",
+): DoctorRow {
+  return { label, value, status };
+}
+
+function envValue(name: string): string {
+  const value = process.env[name];
+  return value === undefined ? "(unset)" : JSON.stringify(value);
+}
+
+function checkSystem(): DoctorSection {
+  return {
+    title: "System",
+    rows: [
+      row("node", process.version, "ok"),
+      row("platform", `${process.platform} ${process.arch}`),
+      row("cwd", process.cwd()),
+    ],
+  };
+}
+
+function checkColors(): DoctorSection {
+  const support = getColorSupport();
+  return {
+    title: "Colors",
+    rows: [
+      row("support", support, support === "none" ? "warn" : "ok"),
+      row("TERM", envValue("TERM")),
+      row("COLORTERM", envValue("COLORTERM")),
+      row("TERM_PROGRAM", envValue("TERM_PROGRAM")),
+      row("NO_COLOR", envValue("NO_COLOR")),
+      row("FORCE_COLOR", envValue("FORCE_COLOR")),
+    ],
+  };
+}
+
+function checkTerminal(): DoctorSection {
+  const measured = detectTerminalWidth();
+  if (!measured) {
+    return {
+      title: "Terminal",
+      rows: [
+        row(
+          "width",
+          "not detected (autoWrap and tui fall back to their defaults)",
+          "warn",
+        ),
+        row("COLUMNS", envValue("COLUMNS")),
+      ],
+    };
+  }
+
+  return {
+    title: "Terminal",
+    rows: [
+      row("width", `${measured.columns} columns`, "ok"),
+      row("source", measured.source),
+      row("usable", `${getTerminalWidth()} columns after UI reserve`),
+      row("COLUMNS", envValue("COLUMNS")),
+    ],
+  };
+}
+
+function checkConfig(args: string[], config: PowerlineConfig): DoctorSection {
+  const configFile = resolveConfigFile(args, process.cwd());
+  const rows: DoctorRow[] = [];
+
+  if (!configFile) {
+    const explicit =
+      args.some((arg) => arg.startsWith("--config")) ||
+      process.env.CLAUDE_POWERLINE_CONFIG;
+    rows.push(
+      explicit
+        ? row("file", "configured path does not exist, using defaults", "fail")
+        : row("file", "none found, using defaults", "info"),
+    );
+  } else {
+    try {
+      const text = fs.readFileSync(configFile, "utf-8");
+      JSON.parse(text);
+      rows.push(row("file", configFile, "ok"));
+      const issues = validateConfigText(text, configFile).length;
+      rows.push(
+        issues > 0
+          ? row(
+              "schema",
+              `${issues} problem${issues === 1 ? "" : "s"} (run "claude-powerline validate ${configFile}")`,
+              "warn",
+            )
+          : row("schema", "valid", "ok"),
+      );
+    } catch (error) {
+      rows.push(
+        row(
+          "file",
+          `${configFile} (${error instanceof Error ? error.message : String(error)})`,
+          "fail",
+        ),
+      );
+    }
+  }
+
+  const profile = getProfileName(args);
+  if (profile) {
+    rows.push(row("profile", profile));
+  }
+
+  rows.push(
+    row("theme", config.theme),
+    row("style", config.display.style ?? "minimal"),
+    row("charset", config.display.charset || "unicode"),
+    row("lines", String(config.display.lines.length)),
+  );
+
+  return { title: "Config", rows };
+}
+
+async function checkClaudePaths(): Promise<DoctorSection> {
+  const claudePaths = getClaudePaths();
+  const rows: DoctorRow[] = [
+    row("CLAUDE_CONFIG_DIR", envValue("CLAUDE_CONFIG_DIR")),
+  ];
+
+  if (claudePaths.length === 0) {
+    rows.push(
+      row(
+        "paths",
+        "no Claude directory found (cost and usage segments stay empty)",
+        "fail",
+      ),
+    );
+    return { title: "Claude", rows };
+  }
+
+  for (const claudePath of claudePaths) {
+    const projectPaths = await findProjectPaths([claudePath]);
+    rows.push(
+      row(
+        "path",
+        `${claudePath} (${projectPaths.length} projects)`,
+        projectPaths.length > 0 ? "ok" : "warn",
+      ),
+    );
+  }
+
+  return { title: "Claude", rows };
+}
+
+async function countFiles(dir: string): Promise<number | null> {
+  try {
+    const entries = await fs.promises.readdir(dir);
+    return entries.length;
+  } catch {
+    return null;
+  }
+}
+
+async function checkCache(): Promise<DoctorSection> {
+  const cacheDir = CacheManager.getCacheDirectory();
+  const rows: DoctorRow[] = [];
+
+  if (!fs.existsSync(cacheDir)) {
+    rows.push(
+      row("directory", `${cacheDir} (created on first render)`, "info"),
+    );
+    return { title: "Cache", rows };
+  }
+
+  try {
+    await fs.promises.access(cacheDir, fs.constants.W_OK);
+    rows.push(row("directory", cacheDir, "ok"));
+  } catch {
+    rows.push(row("directory", `${cacheDir} (not writable)`, "fail"));
+  }
+
+  for (const sub of ["usage", "commands", "transcripts"]) {
+    const count = await countFiles(path.join(cacheDir, sub));
+    rows.push(row(sub, count === null ? "missing" : `${count} files`));
+  }
+
+  const locks = await countFiles(path.join(cacheDir, "locks"));
+  rows.push(
+    row(
+      "locks",
+      locks ? `${locks} held (stale locks are removed on next read)` : "none",
+      locks ? "warn" : "ok",
+    ),
+  );
+
+  return { title: "Cache", rows };
+}
+
+async function checkPricing(): Promise<DoctorSection> {
+  const pricing = await PricingService.getCurrentPricing();
+  const source = PricingService.getPricingSource();
+  const models = `${Object.keys(pricing).length} models`;
+
+  const sourceRow =
+    source === "offline"
+      ? row("source", "offline fallback (pricing.json unreachable)", "warn")
+      : row("source", source === "cache" ? "disk cache" : "fetched", "ok");
+
+  return { title: "Pricing", rows: [sourceRow, row("models", models)] };
+}
+
+async function checkGit(): Promise<DoctorSection> {
+  try {
+    const { stdout } = await execAsync("git --version", {
+      encoding: "utf8",
+      timeout: 2000,
+    });
+    const rows = [row("binary", stdout.trim(), "ok")];
+
+    try {
+      const repo = await execAsync("git rev-parse --show-toplevel", {
+        cwd: process.cwd(),
+        encoding: "utf8",
+        timeout: 2000,
+      });
+      rows.push(row("repository", repo.stdout.trim()));
+    } catch {
+      rows.push(row("repository", "cwd is not inside a git repository"));
+    }
+
+    return { title: "Git", rows };
+  } catch {
+    return {
+      title: "Git",
+      rows: [row("binary", "git not found on PATH", "fail")],
+    };
+  }
+}
+
+function formatSection(section: DoctorSection): string {
+  const width = Math.max(...section.rows.map((r) => r.label.length));
+  const lines = section.rows.map(
+    (r) => `  ${STATUS_MARKERS[r.status]} ${r.label.padEnd(width)}  ${r.value}`,
+  );
+  return [section.title, ...lines].join("\n");
+}
+
+export async function runDoctor(args: string[]): Promise<number> {
+  const config = loadConfig(args, process.cwd());
+  const sections = [
+    checkSystem(),
+    checkColors(),
+    checkTerminal(),
+    checkConfig(args, config),
+    await checkClaudePaths(),
+    await checkCache(),
+    await checkPricing(),
+    await checkGit(),
+  ];
+
+  console.log(sections.map(formatSection).join("\n\n"));
+  console.log(`\nMerged config\n${JSON.stringify(config, null, 2)}`);
+
+  const failures = sections
+    .flatMap((s) => s.rows)
+    .filter((r) => r.status === "fail").length;
+  if (failures > 0) {
+    console.log(`\n${failures} problem${failures === 1 ? "" : "s"} found`);
+    return 1;
+  }
+  return 0;
+}
@@ -0,0 +1,119 @@
+import { getArgValue, loadConfig } from "../config/loader";
+import { PricingService } from "../segments/pricing";
+import {
+  formatLocalDate,
+  getPeriodStart,
+  loadUsageResponses,
+  priceResponse,
+} from "../utils/usage-history";
+import type { UsageResponse } from "../utils/usage-history";
+
+const FORMATS = ["csv", "jsonl"] as const;
+
+type ExportFormat = (typeof FORMATS)[number];
+
+const COLUMNS = [
+  "timestamp",
+  "session",
+  "project",
+  "model",
+  "input_tokens",
+  "output_tokens",
+  "cache_creation_tokens",
+  "cache_read_tokens",
+  "cost_usd",
+] as const;
+
+type ExportRow = Record<(typeof COLUMNS)[number], string | number>;
+
+function isExportFormat(value: string): value is ExportFormat {
+  return (FORMATS as readonly string[]).includes(value);
+}
+
+/** Local midnight of a `YYYY-MM-DD` date, or null when it is not one. */
+function parseLocalDate(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (!match) return null;
+  const date = new Date(
+    Number(match[1]),
+    Number(match[2]) - 1,
+    Number(match[3]),
+  );
+  return formatLocalDate(date) === value ? date : null;
+}
+
+async function toRow(response: UsageResponse): Promise<ExportRow> {
+  const costUSD = await priceResponse(response);
+  return {
+    timestamp: new Date(response.timestamp).toISOString(),
+    session: response.sessionId,
+    project: response.project,
+    model: response.model,
+    input_tokens: response.tokens.input,
+    output_tokens: response.tokens.output,
+    cache_creation_tokens: response.tokens.cacheCreation,
+    cache_read_tokens: response.tokens.cacheRead,
+    cost_usd: Number(costUSD.toFixed(6)),
+  };
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Prints one row per assistant response between two dates, for spreadsheets
+ * and chargeback tooling. Responses logged twice (resumed sessions, subagent
+ * copies) appear once, and costs match `report`.
+ */
+export async function runExport(args: string[]): Promise<number> {
+  const format = getArgValue(args, "--format") ?? "csv";
+  if (!isExportFormat(format)) {
+    console.error(
+      `Error: unknown format "${format}" (available: ${FORMATS.join(", ")})`,
+    );
+    return 1;
+  }
+
+  const fromArg = getArgValue(args, "--from");
+  const toArg = getArgValue(args, "--to");
+  const from = fromArg ? parseLocalDate(fromArg) : getPeriodStart("month");
+  const to = toArg ? parseLocalDate(toArg) : getPeriodStart("day");
+  if (!from || !to) {
+    console.error(
+      `Error: invalid date "${!from ? fromArg : toArg}" (expected YYYY-MM-DD)`,
+    );
+    return 1;
+  }
+  if (to < from) {
+    console.error(
+      `Error: --to ${formatLocalDate(to)} is before --from ${formatLocalDate(from)}`,
+    );
+    return 1;
+  }
+
+  const config = loadConfig(args, process.cwd());
+  PricingService.configure(config.pricing);
+
+  // --to is inclusive, so read up to the following midnight.
+  const until = new Date(to);
+  until.setDate(until.getDate() + 1);
+  const responses = await loadUsageResponses({ since: from, until });
+  const rows = await Promise.all(responses.map(toRow));
+
+  const lines =
+    format === "csv"
+      ? [
+          COLUMNS.join(","),
+          ...rows.map((row) =>
+            COLUMNS.map((column) => csvField(row[column])).join(","),
+          ),
+        ]
+      : rows.map((row) => JSON.stringify(row));
+
+  if (lines.length > 0) {
+    console.log(lines.join("\n"));
+  }
+  return 0;
+}
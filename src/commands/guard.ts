@@ -0,0 +1,191 @@
+import { json } from "node:stream/consumers";
+import type { Readable } from "node:stream";
+import { getArgValue, loadConfig } from "../config/loader";
+import type { BudgetItemConfig, PowerlineConfig } from "../config/loader";
+import { PricingService } from "../segments/pricing";
+import { UsageProvider, getLastOfficialCost } from "../segments/session";
+import { TodayProvider } from "../segments/today";
+import {
+  getBudgetStatus,
+  getSessionBudgetCost,
+  getTodayBudgetCost,
+  pickBudgetValue,
+} from "../utils/budget";
+import { setCurrencyFormat } from "../utils/formatters";
+import { getLastUtilization } from "../utils/rate-limit-forecast";
+import { debug } from "../utils/logger";
+import type { ClaudeHookData } from "../utils/claude";
+
+const LEVELS = ["limit", "warning"] as const;
+
+type GuardLevel = (typeof LEVELS)[number];
+
+/** Events whose hook output can stop Claude Code; other events are always allowed. */
+const GUARDED_EVENTS = ["PreToolUse", "UserPromptSubmit"];
+
+/** A budget at or past the level the guard blocks at. */
+interface ExceededBudget {
+  name: "session" | "today" | "block";
+  percentage: number;
+}
+
+function isGuardLevel(value: string): value is GuardLevel {
+  return (LEVELS as readonly string[]).includes(value);
+}
+
+/** The budget percentage when it is at or past `level`, otherwise null. */
+function exceededPercentage(
+  value: number | null,
+  budget: BudgetItemConfig | undefined,
+  level: GuardLevel,
+): number | null {
+  if (value === null || !budget?.amount) return null;
+  const status = getBudgetStatus(
+    value,
+    budget.amount,
+    level === "warning" ? budget.warningThreshold : 100,
+  );
+  return status.isWarning ? status.percentage : null;
+}
+
+/**
+ * Checks the session, today and block budgets with the same providers and
+ * budget math as the statusline: the session cost follows the session
+ * segment's `costSource`, and the today budget is measured against the
+ * projection while the today segment shows one, as its `!100%` is. The
+ * block budget is measured against the five-hour rate limit, like the block
+ * segment.
+ */
+async function findExceededBudget(
+  config: PowerlineConfig,
+  hookData: ClaudeHookData,
+  level: GuardLevel,
+): Promise<ExceededBudget | null> {
+  const budget = config.budget ?? {};
+
+  if (budget.session?.amount) {
+    const { session } = await new UsageProvider().getUsageInfo(
+      hookData.session_id,
+      hookData,
+    );
+    // Hook input has no cost; the statusline records the official one.
+    session.officialCost ??= await getLastOfficialCost(hookData.session_id);
+    session.cost ??= session.officialCost;
+    const percentage = exceededPercentage(
+      pickBudgetValue(
+        getSessionBudgetCost(session, config),
+        session.tokens,
+        budget.session.type,
+      ),
+      budget.session,
+      level,
+    );
+    if (percentage !== null) return { name: "session", percentage };
+  }
+
+  if (budget.today?.amount) {
+    const today = await new TodayProvider().getTodayInfo();
+    const percentage = exceededPercentage(
+      pickBudgetValue(
+        getTodayBudgetCost(today, config),
+        today.tokens,
+        budget.today.type,
+      ),
+      budget.today,
+      level,
+    );
+    if (percentage !== null) return { name: "today", percentage };
+  }
+
+  if (budget.block) {
+    // Hook input rarely carries rate limits; the statusline records them.
+    const fiveHour =
+      hookData.rate_limits?.five_hour ??
+      (await getLastUtilization("five_hour"));
+    const percentage = exceededPercentage(
+      fiveHour?.used_percentage ?? null,
+      { ...budget.block, amount: 100 },
+      level,
+    );
+    if (percentage !== null) return { name: "block", percentage };
+  }
+
+  return null;
+}
+
+function formatReason(exceeded: ExceededBudget, level: GuardLevel): string {
+  const state =
+    level === "limit"
+      ? "is used up"
+      : `is at ${exceeded.percentage.toFixed(0)}%, past its warning threshold`;
+  if (exceeded.name === "block") {
+    return `The five-hour rate limit ${state}. It resets with the next five-hour window.`;
+  }
+  return `The ${exceeded.name} budget ${state}. Raise budget.${exceeded.name}.amount in the claude-powerline config to continue.`;
+}
+
+/** The hook output that makes Claude Code refuse the tool call or prompt. */
+function blockDecision(eventName: string, reason: string): object {
+  if (eventName === "PreToolUse") {
+    return {
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: reason,
+      },
+    };
+  }
+  return { decision: "block", reason };
+}
+
+/**
+ * Runs as a Claude Code `PreToolUse` or `UserPromptSubmit` hook: reads the
+ * hook input from stdin and blocks the event once a session, today or block
+ * budget is used up. Prints nothing when the event may proceed.
+ */
+export async function runGuard(
+  args: string[],
+  input: Readable = process.stdin,
+): Promise<number> {
+  const level = getArgValue(args, "--at") ?? "limit";
+  if (!isGuardLevel(level)) {
+    console.error(
+      `Error: unknown level "${level}" (available: ${LEVELS.join(", ")})`,
+    );
+    return 1;
+  }
+
+  let hookData: ClaudeHookData;
+  try {
+    hookData = (await json(input)) as ClaudeHookData;
+  } catch (error) {
+    console.error(
+      `Error: cannot parse hook input: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  }
+  if (!hookData?.session_id) {
+    console.error("Error: hook input has no session_id");
+    return 1;
+  }
+  if (!GUARDED_EVENTS.includes(hookData.hook_event_name)) {
+    debug(`Guard: ${hookData.hook_event_name} events are not guarded`);
+    return 0;
+  }
+
+  const config = loadConfig(
+    args,
+    hookData.workspace?.project_dir ?? hookData.cwd,
+  );
+  PricingService.configure(config.pricing);
+  setCurrencyFormat(config);
+
+  const exceeded = await findExceededBudget(config, hookData, level);
+  if (exceeded) {
+    const reason = formatReason(exceeded, level);
+    console.log(
+      JSON.stringify(blockDecision(hookData.hook_event_name, reason)),
+    );
+  }
+  return 0;
+}
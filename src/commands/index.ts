@@ -0,0 +1,22 @@
+import { runDaemon } from "./daemon";
+import { runDoctor } from "./doctor";
+import { runExport } from "./export";
+import { runGuard } from "./guard";
+import { runPricing } from "./pricing";
+import { runRender } from "./render";
+import { runReport } from "./report";
+import { runValidate } from "./validate";
+
+/** Runs a subcommand with the arguments after its name; resolves to the exit code. */
+export type CommandHandler = (args: string[]) => Promise<number>;
+
+export const COMMANDS: Record<string, CommandHandler> = {
+  daemon: runDaemon,
+  doctor: runDoctor,
+  export: runExport,
+  guard: runGuard,
+  pricing: runPricing,
+  render: runRender,
+  report: runReport,
+  validate: runValidate,
+};
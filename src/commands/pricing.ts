@@ -0,0 +1,110 @@
+import fs from "node:fs";
+import os from "node:os";
+import { loadConfig } from "../config/loader";
+import { PricingService } from "../segments/pricing";
+import { formatTable } from "../utils/formatters";
+
+const SUBCOMMANDS = ["import", "show"];
+
+const SOURCE_LABELS = {
+  cache: "disk cache",
+  remote: "fetched from GitHub",
+  offline: "bundled offline rates",
+};
+
+function formatRate(rate: number): string {
+  return String(Number(rate.toFixed(4)));
+}
+
+/** Prints every model's rates after overrides, the multiplier and aliases. */
+async function showPricing(args: string[]): Promise<number> {
+  const config = loadConfig(args, process.cwd());
+  PricingService.configure(config.pricing);
+
+  const pricing = await PricingService.getCurrentPricing();
+  const source = PricingService.getPricingSource() ?? "offline";
+  const modelIds = [
+    ...Object.keys(pricing).sort(),
+    ...Object.keys(config.pricing?.aliases ?? {}),
+  ];
+
+  const header = [
+    "Model",
+    "Input",
+    "Output",
+    "Cache write 5m",
+    "Cache write 1h",
+    "Cache read",
+  ];
+  const rows = await Promise.all(
+    modelIds.map(async (modelId) => {
+      const rates = await PricingService.getModelPricing(modelId);
+      return [
+        modelId,
+        formatRate(rates.input),
+        formatRate(rates.output),
+        formatRate(rates.cache_write_5m),
+        formatRate(rates.cache_write_1h),
+        formatRate(rates.cache_read),
+      ];
+    }),
+  );
+
+  console.log(
+    `Pricing from ${SOURCE_LABELS[source]}, USD per million tokens\n\n${formatTable([header, ...rows])}`,
+  );
+  return 0;
+}
+
+/** Replaces the cached pricing table with a local copy of `pricing.json`. */
+async function importPricing(args: string[]): Promise<number> {
+  const file = args.find((arg) => !arg.startsWith("-"));
+  if (!file) {
+    console.error("Error: no pricing file given (pricing import <file>)");
+    return 1;
+  }
+  const pricingFile = file.replace(/^~(?=$|\/)/, os.homedir());
+
+  let json: unknown;
+  try {
+    json = JSON.parse(fs.readFileSync(pricingFile, "utf-8"));
+  } catch (error) {
+    console.error(
+      `Error: cannot read ${pricingFile}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  }
+
+  const imported = await PricingService.importPricing(json);
+  if (!imported) {
+    console.error(
+      `Error: ${pricingFile} is not a pricing table (every model needs numeric input, output, cache_write_5m, cache_write_1h and cache_read rates)`,
+    );
+    return 1;
+  }
+
+  console.log(
+    `✓ Imported pricing for ${Object.keys(imported).length} models from ${pricingFile}`,
+  );
+  return 0;
+}
+
+/**
+ * Loads a pricing table into the disk cache for machines that cannot reach
+ * GitHub, or prints the rates the statusline and reports currently use.
+ */
+export async function runPricing(args: string[]): Promise<number> {
+  const [subcommand, ...rest] = args;
+
+  switch (subcommand) {
+    case "import":
+      return importPricing(rest);
+    case "show":
+      return showPricing(rest);
+    default:
+      console.error(
+        `Error: unknown pricing command "${subcommand ?? ""}" (available: ${SUBCOMMANDS.join(", ")})`,
+      );
+      return 1;
+  }
+}
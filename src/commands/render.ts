@@ -0,0 +1,66 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { PowerlineRenderer } from "../powerline";
+import { getArgValue, loadConfig } from "../config/loader";
+import { PricingService } from "../segments/pricing";
+import { SAMPLE_NAMES, createSample, isSampleName } from "./samples";
+
+const SANDBOX_ENV = ["CLAUDE_CONFIG_DIR", "CLAUDE_POWERLINE_CACHE_DIR"];
+
+/**
+ * Renders the statusline from a built-in fixture instead of stdin. Everything
+ * the fixture needs (transcripts, git repo, caches) lives in a temp directory
+ * that is removed afterwards, so the user's own usage data is never read or
+ * overwritten.
+ */
+export async function runRender(args: string[]): Promise<number> {
+  const sampleName = getArgValue(args, "--sample");
+  if (!sampleName || !isSampleName(sampleName)) {
+    console.error(
+      `Error: ${sampleName ? `unknown sample "${sampleName}"` : "missing --sample"} (available: ${SAMPLE_NAMES.join(", ")})`,
+    );
+    return 1;
+  }
+
+  const root = fs.realpathSync(
+    fs.mkdtempSync(path.join(os.tmpdir(), "claude-powerline-sample-")),
+  );
+  const savedEnv = SANDBOX_ENV.map(
+    (name) => [name, process.env[name]] as const,
+  );
+
+  try {
+    const claudeDir = path.join(root, "claude");
+    fs.mkdirSync(claudeDir, { recursive: true });
+    process.env.CLAUDE_CONFIG_DIR = claudeDir;
+    process.env.CLAUDE_POWERLINE_CACHE_DIR = path.join(root, "cache");
+    PricingService.useOfflinePricing();
+
+    const sample = createSample(sampleName, { root, claudeDir });
+
+    let configArgs = args;
+    if (!getArgValue(args, "--config")) {
+      const configPath = path.join(root, "config.json");
+      fs.writeFileSync(configPath, JSON.stringify(sample.config));
+      configArgs = [...args, `--config=${configPath}`];
+    }
+
+    const config = loadConfig(
+      configArgs,
+      sample.hookData.workspace.project_dir,
+    );
+    const renderer = new PowerlineRenderer(config);
+    console.log(await renderer.generateStatusline(sample.hookData));
+    return 0;
+  } finally {
+    for (const [name, value] of savedEnv) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    fs.rmSync(root, { recursive: true, force: true });
+  }
+}
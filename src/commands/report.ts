@@ -0,0 +1,120 @@
+import { getArgValue, loadConfig } from "../config/loader";
+import { PricingService } from "../segments/pricing";
+import {
+  collapseHome,
+  formatCost,
+  formatTable,
+  formatTokenCount,
+  setCurrencyFormat,
+} from "../utils/formatters";
+import {
+  emptyTotals,
+  addToTotals,
+  formatLocalDate,
+  getPeriodStart,
+  getTotalTokens,
+  groupUsage,
+  loadUsageRecords,
+} from "../utils/usage-history";
+import type {
+  UsagePeriod,
+  UsageRecord,
+  UsageTotals,
+} from "../utils/usage-history";
+
+const PERIODS: UsagePeriod[] = ["week", "month"];
+
+const GROUPINGS = {
+  day: {
+    title: "Day",
+    keyOf: (r: UsageRecord) => r.date,
+  },
+  model: { title: "Model", keyOf: (r: UsageRecord) => r.model },
+  project: {
+    title: "Project",
+    keyOf: (r: UsageRecord) => collapseHome(r.project),
+  },
+};
+
+type Grouping = keyof typeof GROUPINGS;
+
+function isOneOf<T extends string>(
+  values: readonly T[],
+  value: string,
+): value is T {
+  return (values as readonly string[]).includes(value);
+}
+
+function formatRow(label: string, totals: UsageTotals): string[] {
+  return [
+    label,
+    formatTokenCount(totals.inputTokens),
+    formatTokenCount(totals.outputTokens),
+    formatTokenCount(totals.cacheCreationTokens),
+    formatTokenCount(totals.cacheReadTokens),
+    formatTokenCount(getTotalTokens(totals)),
+    formatCost(totals.costUSD),
+  ];
+}
+
+/**
+ * Prints cost and token totals for the current calendar week or month,
+ * grouped by day, model or project, from the transcripts Claude Code keeps.
+ */
+export async function runReport(args: string[]): Promise<number> {
+  const period = getArgValue(args, "--period") ?? "week";
+  const by = getArgValue(args, "--by") ?? "day";
+
+  if (!isOneOf(PERIODS, period)) {
+    console.error(
+      `Error: unknown period "${period}" (available: ${PERIODS.join(", ")})`,
+    );
+    return 1;
+  }
+  const groupings = Object.keys(GROUPINGS) as Grouping[];
+  if (!isOneOf(groupings, by)) {
+    console.error(
+      `Error: unknown grouping "${by}" (available: ${groupings.join(", ")})`,
+    );
+    return 1;
+  }
+
+  const config = loadConfig(args, process.cwd());
+  PricingService.configure(config.pricing);
+  setCurrencyFormat(config);
+  const since = getPeriodStart(period);
+  const records = await loadUsageRecords({ since });
+  const heading = `Usage this ${period} (since ${formatLocalDate(since)}), by ${by}`;
+
+  if (records.length === 0) {
+    console.log(`${heading}\n\nNo usage found.`);
+    return 0;
+  }
+
+  const { title, keyOf } = GROUPINGS[by];
+  const groups = [...groupUsage(records, keyOf)];
+  if (by === "day") {
+    groups.sort(([a], [b]) => a.localeCompare(b));
+  } else {
+    groups.sort(([, a], [, b]) => b.costUSD - a.costUSD);
+  }
+
+  const total = emptyTotals();
+  records.forEach((record) => addToTotals(total, record));
+
+  const header = [
+    title,
+    "Input",
+    "Output",
+    "Cache write",
+    "Cache read",
+    "Total",
+    "Cost",
+  ];
+  const table = formatTable(
+    [header, ...groups.map(([key, totals]) => formatRow(key, totals))],
+    formatRow("Total", total),
+  );
+  console.log(`${heading}\n\n${table}`);
+  return 0;
+}
@@ -0,0 +1,437 @@
+import fs from "node:fs";
+import path from "node:path";
+import { execFileSync } from "node:child_process";
+import { debug } from "../utils/logger";
+import { encodeProjectPath } from "../utils/claude";
+import type { ClaudeHookData } from "../utils/claude";
+import type { PowerlineConfig } from "../config/loader";
+
+export const SAMPLE_NAMES = [
+  "long-session",
+  "rate-limited",
+  "worktree",
+] as const;
+
+export type SampleName = (typeof SAMPLE_NAMES)[number];
+
+export function isSampleName(name: string): name is SampleName {
+  return (SAMPLE_NAMES as readonly string[]).includes(name);
+}
+
+export interface Sample {
+  hookData: ClaudeHookData;
+  /** Config used when no --config is given, so output is machine-independent. */
+  config: Partial<PowerlineConfig>;
+}
+
+/** Directories a sample writes into; all of them live under one temp root. */
+export interface SampleWorkspace {
+  root: string;
+  claudeDir: string;
+}
+
+const MODEL = { id: "claude-sonnet-4-5-20250929", display_name: "Sonnet 4.5" };
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+interface TurnUsage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens: number;
+  cache_read_input_tokens: number;
+}
+
+function git(cwd: string, args: string[]): void {
+  execFileSync(
+    "git",
+    [
+      "-c",
+      "user.name=Powerline Sample",
+      "-c",
+      "user.email=sample@example.com",
+      "-c",
+      "commit.gpgsign=false",
+      "-c",
+      "core.hooksPath=/dev/null",
+      ...args,
+    ],
+    { cwd, stdio: "ignore", timeout: 5000 },
+  );
+}
+
+/**
+ * Creates a repo on `branch` with one commit, a staged change and an
+ * untracked file. Returns false when git is unavailable; the git segment
+ * then simply stays hidden.
+ */
+function createGitRepo(repoDir: string, branch: string): boolean {
+  fs.mkdirSync(repoDir, { recursive: true });
+  try {
+    git(repoDir, ["init", "--quiet"]);
+    git(repoDir, ["symbolic-ref", "HEAD", "refs/heads/main"]);
+    fs.writeFileSync(path.join(repoDir, "README.md"), "# my-project\n");
+    git(repoDir, ["add", "README.md"]);
+    git(repoDir, ["commit", "--quiet", "-m", "init"]);
+    if (branch !== "main") {
+      git(repoDir, ["checkout", "--quiet", "-b", branch]);
+    }
+    fs.appendFileSync(path.join(repoDir, "README.md"), "change\n");
+    git(repoDir, ["add", "README.md"]);
+    fs.writeFileSync(path.join(repoDir, "notes.txt"), "todo\n");
+    return true;
+  } catch (error) {
+    debug("Sample git repo setup failed:", error);
+    return false;
+  }
+}
+
+/**
+ * Writes a transcript of `turns` assistant messages spread evenly between
+ * `start` and `end`, in the same JSONL shape Claude Code produces.
+ */
+function writeTranscript(
+  workspace: SampleWorkspace,
+  cwd: string,
+  sessionId: string,
+  turns: number,
+  start: number,
+  end: number,
+  usage: TurnUsage,
+): string {
+  const projectDir = path.join(
+    workspace.claudeDir,
+    "projects",
+    encodeProjectPath(cwd),
+  );
+  fs.mkdirSync(projectDir, { recursive: true });
+
+  const step = turns > 1 ? (end - start) / (turns - 1) : 0;
+  const lines: string[] = [];
+  for (let i = 0; i < turns; i++) {
+    const time = start + step * i;
+    lines.push(
+      JSON.stringify({
+        timestamp: new Date(time - 5000).toISOString(),
+        type: "user",
+        sessionId,
+        cwd,
+        message: { role: "user", content: [{ type: "text", text: "next" }] },
+      }),
+      JSON.stringify({
+        timestamp: new Date(time).toISOString(),
+        type: "assistant",
+        sessionId,
+        cwd,
+        requestId: `req_${sessionId}_${i}`,
+        message: {
+          id: `msg_${sessionId}_${i}`,
+          role: "assistant",
+          model: MODEL.id,
+          content: [{ type: "text", text: "done" }],
+          usage,
+        },
+      }),
+    );
+  }
+
+  const transcriptPath = path.join(projectDir, `${sessionId}.jsonl`);
+  fs.writeFileSync(transcriptPath, `${lines.join("\n")}\n`);
+  return transcriptPath;
+}
+
+function baseHookData(
+  cwd: string,
+  sessionId: string,
+  transcriptPath: string,
+): ClaudeHookData {
+  return {
+    hook_event_name: "Status",
+    session_id: sessionId,
+    transcript_path: transcriptPath,
+    cwd,
+    model: MODEL,
+    workspace: { current_dir: cwd, project_dir: cwd },
+    version: "2.1.78",
+  };
+}
+
+function buildLongSession(workspace: SampleWorkspace, now: number): Sample {
+  const cwd = path.join(workspace.root, "my-project");
+  createGitRepo(cwd, "feat/streaming-parser");
+
+  const start = now - (3 * HOUR_MS + 40 * MINUTE_MS);
+  const transcriptPath = writeTranscript(
+    workspace,
+    cwd,
+    "sample-long-session",
+    140,
+    start,
+    now - 20 * 1000,
+    {
+      input_tokens: 1800,
+      output_tokens: 900,
+      cache_creation_input_tokens: 2500,
+      cache_read_input_tokens: 42000,
+    },
+  );
+  // An earlier session so today's total is larger than the current one.
+  const dayStart = new Date(now).setHours(0, 0, 0, 0);
+  const morningStart = Math.max(dayStart, start - 3 * HOUR_MS);
+  const morningEnd = Math.min(morningStart + HOUR_MS, start - MINUTE_MS);
+  if (morningEnd > morningStart) {
+    writeTranscript(
+      workspace,
+      cwd,
+      "sample-morning",
+      40,
+      morningStart,
+      morningEnd,
+      {
+        input_tokens: 1200,
+        output_tokens: 600,
+        cache_creation_input_tokens: 1500,
+        cache_read_input_tokens: 30000,
+      },
+    );
+  }
+
+  return {
+    hookData: {
+      ...baseHookData(cwd, "sample-long-session", transcriptPath),
+      cost: {
+        total_cost_usd: 6.42,
+        total_duration_ms: 3 * HOUR_MS + 40 * MINUTE_MS,
+        total_api_duration_ms: 52 * MINUTE_MS,
+        total_lines_added: 1248,
+        total_lines_removed: 386,
+      },
+      context_window: {
+        total_input_tokens: 156000,
+        total_output_tokens: 9000,
+        context_window_size: 200000,
+        used_percentage: 78,
+        current_usage: {
+          input_tokens: 2000,
+          output_tokens: 900,
+          cache_creation_input_tokens: 4000,
+          cache_read_input_tokens: 150000,
+        },
+      },
+      rate_limits: {
+        five_hour: {
+          used_percentage: 46,
+          resets_at: Math.floor((now + 80 * MINUTE_MS) / 1000),
+        },
+        seven_day: {
+          used_percentage: 31,
+          resets_at: Math.floor((now + 4 * 24 * HOUR_MS) / 1000),
+        },
+      },
+    },
+    config: {
+      display: {
+        style: "powerline",
+        lines: [
+          {
+            segments: {
+              directory: { enabled: true, style: "fish" },
+              git: { enabled: true, showWorkingTree: true },
+              model: { enabled: true },
+              session: { enabled: true, type: "both" },
+              today: { enabled: true, type: "cost" },
+              context: { enabled: true, displayStyle: "bar" },
+            },
+          },
+          {
+            segments: {
+              block: { enabled: true, type: "cost", burnType: "cost" },
+              metrics: {
+                enabled: true,
+                showDuration: true,
+                showMessageCount: true,
+                showLinesAdded: true,
+                showLinesRemoved: true,
+              },
+              version: { enabled: true },
+            },
+          },
+        ],
+      },
+      budget: {
+        session: { amount: 10, warningThreshold: 80 },
+        today: { amount: 25, warningThreshold: 80 },
+      },
+    },
+  };
+}
+
+function buildRateLimited(workspace: SampleWorkspace, now: number): Sample {
+  const cwd = path.join(workspace.root, "my-project");
+  createGitRepo(cwd, "main");
+
+  const transcriptPath = writeTranscript(
+    workspace,
+    cwd,
+    "sample-rate-limited",
+    60,
+    now - 50 * MINUTE_MS,
+    now - 90 * 1000,
+    {
+      input_tokens: 4000,
+      output_tokens: 2500,
+      cache_creation_input_tokens: 6000,
+      cache_read_input_tokens: 90000,
+    },
+  );
+
+  return {
+    hookData: {
+      ...baseHookData(cwd, "sample-rate-limited", transcriptPath),
+      context_window: {
+        total_input_tokens: 100000,
+        total_output_tokens: 14000,
+        context_window_size: 200000,
+        used_percentage: 50,
+        current_usage: {
+          input_tokens: 4000,
+          output_tokens: 2500,
+          cache_creation_input_tokens: 6000,
+          cache_read_input_tokens: 90000,
+        },
+      },
+      rate_limits: {
+        five_hour: {
+          used_percentage: 97,
+          resets_at: Math.floor((now + 38 * MINUTE_MS) / 1000),
+        },
+        seven_day: {
+          used_percentage: 91,
+          resets_at: Math.floor((now + 28 * HOUR_MS) / 1000),
+        },
+      },
+    },
+    config: {
+      display: {
+        style: "powerline",
+        lines: [
+          {
+            segments: {
+              directory: { enabled: true, style: "basename" },
+              model: { enabled: true },
+              block: { enabled: true, type: "time", displayStyle: "bar" },
+              weekly: { enabled: true, displayStyle: "bar" },
+              today: { enabled: true, type: "cost" },
+              context: { enabled: true },
+            },
+          },
+        ],
+      },
+      budget: {
+        today: { amount: 20, warningThreshold: 80 },
+        block: { warningThreshold: 80 },
+      },
+    },
+  };
+}
+
+function buildWorktree(workspace: SampleWorkspace, now: number): Sample {
+  const repoDir = path.join(workspace.root, "my-project");
+  const worktreeDir = path.join(workspace.root, "my-project-login");
+  let cwd = repoDir;
+
+  if (createGitRepo(repoDir, "main")) {
+    try {
+      git(repoDir, [
+        "worktree",
+        "add",
+        "--quiet",
+        "-b",
+        "feat/login",
+        worktreeDir,
+      ]);
+      fs.writeFileSync(path.join(worktreeDir, "login.ts"), "export {};\n");
+      cwd = worktreeDir;
+    } catch (error) {
+      debug("Sample worktree setup failed:", error);
+    }
+  }
+
+  const transcriptPath = writeTranscript(
+    workspace,
+    cwd,
+    "sample-worktree",
+    24,
+    now - 35 * MINUTE_MS,
+    now - 45 * 1000,
+    {
+      input_tokens: 1500,
+      output_tokens: 700,
+      cache_creation_input_tokens: 2000,
+      cache_read_input_tokens: 38000,
+    },
+  );
+
+  return {
+    hookData: {
+      ...baseHookData(cwd, "sample-worktree", transcriptPath),
+      workspace: { current_dir: cwd, project_dir: repoDir },
+      worktree: {
+        name: "my-project-login",
+        path: worktreeDir,
+        branch: "feat/login",
+        original_cwd: repoDir,
+        original_branch: "main",
+      },
+      context_window: {
+        total_input_tokens: 41500,
+        total_output_tokens: 5000,
+        context_window_size: 200000,
+        used_percentage: 21,
+        current_usage: {
+          input_tokens: 1500,
+          output_tokens: 700,
+          cache_creation_input_tokens: 2000,
+          cache_read_input_tokens: 38000,
+        },
+      },
+    },
+    config: {
+      display: {
+        style: "powerline",
+        lines: [
+          {
+            segments: {
+              directory: { enabled: true, style: "fish" },
+              git: {
+                enabled: true,
+                showRepoName: true,
+                showWorktree: true,
+                showWorkingTree: true,
+              },
+              model: { enabled: true },
+              session: { enabled: true, type: "cost" },
+              context: { enabled: true },
+            },
+          },
+        ],
+      },
+    },
+  };
+}
+
+const SAMPLE_BUILDERS: Record<
+  SampleName,
+  (workspace: SampleWorkspace, now: number) => Sample
+> = {
+  "long-session": buildLongSession,
+  "rate-limited": buildRateLimited,
+  worktree: buildWorktree,
+};
+
+export function createSample(
+  name: SampleName,
+  workspace: SampleWorkspace,
+  now = Date.now(),
+): Sample {
+  return SAMPLE_BUILDERS[name](workspace, now);
+}
@@ -0,0 +1,46 @@
+import fs from "node:fs";
+import os from "node:os";
+import { resolveConfigFile } from "../config/loader";
+import { validateConfigText } from "../config/validate";
+
+/**
+ * Checks a config file for unknown keys, bad enum values and invalid grid
+ * layouts. Without a path it validates the file the statusline would load.
+ */
+export async function runValidate(args: string[]): Promise<number> {
+  const explicit = args.find((arg) => !arg.startsWith("-"));
+  const configFile = explicit
+    ? explicit.replace(/^~(?=$|\/)/, os.homedir())
+    : resolveConfigFile(args, process.cwd());
+
+  if (!configFile) {
+    console.error("Error: no config file found (pass a path or --config)");
+    return 1;
+  }
+
+  let text: string;
+  try {
+    text = fs.readFileSync(configFile, "utf-8");
+  } catch (error) {
+    console.error(
+      `Error: cannot read ${configFile}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return 1;
+  }
+
+  const issues = validateConfigText(text, configFile);
+  if (issues.length === 0) {
+    console.log(`✓ ${configFile} is valid`);
+    return 0;
+  }
+
+  for (const issue of issues) {
+    console.log(
+      `${configFile}:${issue.line}:${issue.column}: ${issue.path}: ${issue.message}`,
+    );
+  }
+  console.log(
+    `\n${issues.length} problem${issues.length === 1 ? "" : "s"} found`,
+  );
+  return 1;
+}
@@ -0,0 +1,205 @@
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface JsonNodeLocation {
+  /** Where the value starts. */
+  value: SourcePosition;
+  /** Where the member name starts, for values that are object members. */
+  key?: SourcePosition;
+}
+
+export interface ParsedJsonSource {
+  value: unknown;
+  /** Keyed by JSON pointer ("" for the root, "/display/lines/0"). */
+  locations: Map<string, JsonNodeLocation>;
+}
+
+export interface JsonSyntaxProblem {
+  error: string;
+  position: SourcePosition;
+}
+
+class SyntaxFailure extends Error {
+  constructor(
+    message: string,
+    readonly position: SourcePosition,
+  ) {
+    super(message);
+  }
+}
+
+export function escapePointerSegment(segment: string | number): string {
+  return String(segment).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/**
+ * A small JSON parser that also records the line and column of every value,
+ * so config problems can be reported against the file the user edits.
+ * JSON.parse only knows positions for syntax errors.
+ */
+export function parseJsonWithLocations(
+  text: string,
+): ParsedJsonSource | JsonSyntaxProblem {
+  const lineStarts = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") {
+      lineStarts.push(i + 1);
+    }
+  }
+
+  const locations = new Map<string, JsonNodeLocation>();
+  let pos = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  const positionAt = (offset: number): SourcePosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid]! <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return { line: low + 1, column: offset - lineStarts[low]! + 1 };
+  };
+
+  const fail = (message: string, offset = pos): never => {
+    throw new SyntaxFailure(message, positionAt(offset));
+  };
+
+  const skipWhitespace = () => {
+    while (pos < text.length && /\s/.test(text[pos]!)) {
+      pos++;
+    }
+  };
+
+  const describe = (offset: number) =>
+    offset >= text.length
+      ? "unexpected end of input"
+      : `unexpected character ${JSON.stringify(text[offset])}`;
+
+  const parseString = (): string => {
+    const start = pos;
+    pos++;
+    while (pos < text.length) {
+      const ch = text[pos]!;
+      if (ch === '"') {
+        pos++;
+        try {
+          return JSON.parse(text.slice(start, pos)) as string;
+        } catch {
+          return fail("invalid string", start);
+        }
+      }
+      if (ch === "\\") {
+        pos += 2;
+        continue;
+      }
+      if (ch === "\n") {
+        break;
+      }
+      pos++;
+    }
+    return fail("unterminated string", start);
+  };
+
+  const parseLiteral = (): unknown => {
+    const match =
+      /^(?:true|false|null|-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?)/.exec(
+        text.slice(pos, pos + 64),
+      );
+    if (!match) {
+      return fail(describe(pos));
+    }
+    pos += match[0].length;
+    return JSON.parse(match[0]);
+  };
+
+  const parseValue = (pointer: string, key?: SourcePosition): unknown => {
+    skipWhitespace();
+    locations.set(pointer, { value: positionAt(pos), key });
+
+    const ch = text[pos];
+    if (ch === "{") {
+      pos++;
+      const result: Record<string, unknown> = {};
+      skipWhitespace();
+      if (text[pos] === "}") {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        skipWhitespace();
+        if (text[pos] !== '"') {
+          return fail(`expected property name, ${describe(pos)}`);
+        }
+        const keyPosition = positionAt(pos);
+        const name = parseString();
+        skipWhitespace();
+        if (text[pos] !== ":") {
+          return fail(`expected ":" after property name, ${describe(pos)}`);
+        }
+        pos++;
+        result[name] = parseValue(
+          `${pointer}/${escapePointerSegment(name)}`,
+          keyPosition,
+        );
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          continue;
+        }
+        if (text[pos] === "}") {
+          pos++;
+          return result;
+        }
+        return fail(`expected "," or "}", ${describe(pos)}`);
+      }
+    }
+
+    if (ch === "[") {
+      pos++;
+      const result: unknown[] = [];
+      skipWhitespace();
+      if (text[pos] === "]") {
+        pos++;
+        return result;
+      }
+      for (;;) {
+        result.push(parseValue(`${pointer}/${result.length}`));
+        skipWhitespace();
+        if (text[pos] === ",") {
+          pos++;
+          continue;
+        }
+        if (text[pos] === "]") {
+          pos++;
+          return result;
+        }
+        return fail(`expected "," or "]", ${describe(pos)}`);
+      }
+    }
+
+    if (ch === '"') {
+      return parseString();
+    }
+    return parseLiteral();
+  };
+
+  try {
+    const value = parseValue("");
+    skipWhitespace();
+    if (pos < text.length) {
+      fail(describe(pos));
+    }
+    return { value, locations };
+  } catch (error) {
+    if (error instanceof SyntaxFailure) {
+      return { error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
@@ -2,12 +2,19 @@ import fs from "node:fs";
 import path from "node:path";
 import os from "node:os";
 import { DEFAULT_CONFIG } from "./defaults";
+import { PRESET_NAMES, PRESET_PREFIX, getPreset } from "./presets";
 import type { ColorTheme } from "../themes";
 import type { TuiGridConfig } from "../tui/types";
-import { isValidSegmentRef } from "../tui/types";
+import type { BudgetWindow } from "../utils/usage-history";
+import type { PricingConfig } from "../segments/pricing";
+import type { AlertsConfig } from "../utils/alerts";
+import type { OpenMetricsConfig } from "../utils/openmetrics";
+import { VALID_SEGMENT_NAMES, isValidSegmentRef } from "../tui/types";
 import { BOX_PRESETS } from "../utils/constants";
+import { isForeignCurrency } from "../utils/formatters";
 import type {
   SegmentConfig,
+  AnySegmentConfig,
   DirectorySegmentConfig,
   GitSegmentConfig,
   UsageSegmentConfig,
@@ -16,10 +23,14 @@ import type {
   MetricsSegmentConfig,
   BlockSegmentConfig,
   TodaySegmentConfig,
+  ProjectSegmentConfig,
+  PeriodSegmentConfig,
   VersionSegmentConfig,
   SessionIdSegmentConfig,
   EnvSegmentConfig,
+  CommandSegmentConfig,
   WeeklySegmentConfig,
+  SparklineSegmentConfig,
   AgentSegmentConfig,
   ThinkingSegmentConfig,
   CacheTimerSegmentConfig,
@@ -33,16 +44,22 @@ export interface LineConfig {
     session?: UsageSegmentConfig;
     block?: BlockSegmentConfig;
     today?: TodaySegmentConfig;
+    project?: ProjectSegmentConfig;
+    week?: PeriodSegmentConfig;
+    month?: PeriodSegmentConfig;
     tmux?: TmuxSegmentConfig;
     context?: ContextSegmentConfig;
     metrics?: MetricsSegmentConfig;
     version?: VersionSegmentConfig;
     sessionId?: SessionIdSegmentConfig;
     env?: EnvSegmentConfig;
+    command?: CommandSegmentConfig;
     weekly?: WeeklySegmentConfig;
+    sparkline?: SparklineSegmentConfig;
     agent?: AgentSegmentConfig;
     thinking?: ThinkingSegmentConfig;
     cacheTimer?: CacheTimerSegmentConfig;
+    [plugin: string]: AnySegmentConfig | undefined;
   };
 }
 
@@ -65,30 +82,75 @@ export interface BudgetItemConfig {
   showValue?: boolean;
 }
 
+export interface PeriodBudgetConfig extends BudgetItemConfig, BudgetWindow {}
+
 export interface BudgetConfig {
   session?: BudgetItemConfig;
   today?: BudgetItemConfig;
   block?: BudgetItemConfig;
+  /** Cap for the `project` segment; set it in a project's `.claude-powerline.json` for a per-project limit. */
+  project?: BudgetItemConfig;
+  /** Spend this week, read by the `week` segment. */
+  week?: PeriodBudgetConfig;
+  /** Spend this month, read by the `month` segment. */
+  month?: PeriodBudgetConfig;
 }
 
+export type ThemeName =
+  | "light"
+  | "dark"
+  | "nord"
+  | "tokyo-night"
+  | "rose-pine"
+  | "gruvbox"
+  | "custom";
+
 export interface PowerlineConfig {
-  theme:
-    | "light"
-    | "dark"
-    | "nord"
-    | "tokyo-night"
-    | "rose-pine"
-    | "gruvbox"
-    | "custom";
+  /** Editor hint pointing at config.schema.json; ignored at runtime. */
+  $schema?: string;
+  theme: ThemeName;
   display: DisplayConfig;
   colors?: {
     custom: ColorTheme;
   };
   budget?: BudgetConfig;
+  /** One-time terminal notifications when a budget, context or rate limit crosses its threshold. */
+  alerts?: AlertsConfig;
+  /** Gauges for cost, tokens, context, rate limits and cache TTL, written for node_exporter's textfile collector. */
+  openMetrics?: OpenMetricsConfig;
+  /** ISO 4217 code costs are shown in, e.g. "EUR" (default: "USD"). Budgets and cost thresholds are in this currency. */
+  currency?: string;
+  /** BCP 47 locale for the currency symbol, decimal separator and grouping, e.g. "de-DE" (default: the system locale). */
+  locale?: string;
+  /** Units of `currency` per US dollar, used to convert USD pricing (default: 1). */
+  exchangeRate?: number;
+  /** Negotiated rates, a discount multiplier and custom model IDs used when pricing transcripts. */
+  pricing?: PricingConfig;
   modelContextLimits?: Record<string, number>;
+  /** Plugin segment name -> module path, relative to the declaring config file. */
+  plugins?: Record<string, string>;
+  /**
+   * Config files (relative to this one) or `preset:<name>` templates to layer
+   * underneath this file, applied in order.
+   */
+  extends?: string | string[];
+  /** Named overlays selected with `--profile` or `CLAUDE_POWERLINE_PROFILE`. */
+  profiles?: Record<string, PowerlineProfile>;
 }
 
-function isValidTheme(theme: string): theme is PowerlineConfig["theme"] {
+/** Overlay applied on top of the merged config when its profile is selected. */
+export interface PowerlineProfile {
+  theme?: ThemeName;
+  display?: DisplayConfig;
+  colors?: {
+    custom: ColorTheme;
+  };
+  budget?: BudgetConfig;
+  modelContextLimits?: Record<string, number>;
+  plugins?: Record<string, string>;
+}
+
+function isValidTheme(theme: string): theme is ThemeName {
   return [
     "light",
     "dark",
@@ -115,7 +177,10 @@ function isValidCharset(charset: string): charset is "unicode" | "text" {
   return charset === "unicode" || charset === "text";
 }
 
-function getArgValue(args: string[], argName: string): string | undefined {
+export function getArgValue(
+  args: string[],
+  argName: string,
+): string | undefined {
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     if (arg === argName && i + 1 < args.length) {
@@ -177,7 +242,7 @@ function findConfigFile(
   return locations.find(fs.existsSync) || null;
 }
 
-function loadConfigFile(filePath: string): Partial<PowerlineConfig> {
+function readConfigFile(filePath: string): Partial<PowerlineConfig> {
   try {
     const content = fs.readFileSync(filePath, "utf-8");
     return JSON.parse(content);
@@ -188,6 +253,129 @@ function loadConfigFile(filePath: string): Partial<PowerlineConfig> {
   }
 }
 
+function expandHome(filePath: string): string {
+  return filePath.startsWith("~")
+    ? filePath.replace("~", os.homedir())
+    : filePath;
+}
+
+/**
+ * Absolute path of an `extends` entry, or null for `preset:` references.
+ */
+export function resolveExtendsPath(
+  ref: string,
+  configFile: string,
+): string | null {
+  if (ref.startsWith(PRESET_PREFIX)) {
+    return null;
+  }
+  return path.resolve(path.dirname(path.resolve(configFile)), expandHome(ref));
+}
+
+function loadExtendsBase(
+  ref: string,
+  configFile: string,
+  chain: string[],
+): Partial<PowerlineConfig> | null {
+  if (typeof ref !== "string" || !ref) {
+    console.warn(
+      `Warning: "extends" entries in ${configFile} must be file paths or preset names, ignoring`,
+    );
+    return null;
+  }
+
+  const basePath = resolveExtendsPath(ref, configFile);
+  if (!basePath) {
+    const name = ref.slice(PRESET_PREFIX.length);
+    const preset = getPreset(name);
+    if (!preset) {
+      console.warn(
+        `Warning: unknown preset "${name}" in ${configFile} (available: ${PRESET_NAMES.join(", ")}), ignoring`,
+      );
+    }
+    return preset;
+  }
+
+  if (chain.includes(basePath)) {
+    console.warn(
+      `Warning: circular extends ${[...chain, basePath].join(" -> ")}, ignoring`,
+    );
+    return null;
+  }
+
+  try {
+    return loadConfigFile(basePath, chain);
+  } catch (err) {
+    console.warn(
+      `Warning: ${err instanceof Error ? err.message : String(err)}`,
+    );
+    return null;
+  }
+}
+
+/**
+ * Reads a config file with everything it extends merged underneath it.
+ * Plugin paths are resolved against the file that declares them.
+ */
+export function loadConfigFile(
+  filePath: string,
+  chain: string[] = [],
+): Partial<PowerlineConfig> {
+  const absolutePath = path.resolve(filePath);
+  const { extends: bases, ...fileConfig } = readConfigFile(absolutePath);
+
+  if (fileConfig.plugins) {
+    fileConfig.plugins = resolvePluginPaths(fileConfig.plugins, absolutePath);
+  }
+  for (const profile of Object.values(fileConfig.profiles ?? {})) {
+    if (profile?.plugins) {
+      profile.plugins = resolvePluginPaths(profile.plugins, absolutePath);
+    }
+  }
+
+  const refs = bases === undefined ? [] : [bases].flat();
+  let merged: Partial<PowerlineConfig> = {};
+  for (const ref of refs) {
+    const base = loadExtendsBase(ref, absolutePath, [...chain, absolutePath]);
+    if (base) {
+      merged = deepMerge(merged, base);
+    }
+  }
+
+  return deepMerge(merged, fileConfig);
+}
+
+/** Segment names taken by built-ins, in powerline lines and TUI grids. */
+const BUILT_IN_SEGMENT_NAMES: ReadonlySet<string> = new Set([
+  ...VALID_SEGMENT_NAMES,
+  "directory",
+  "sessionId",
+]);
+
+function resolvePluginPaths(
+  plugins: Record<string, string>,
+  configFile: string,
+): Record<string, string> {
+  const baseDir = path.dirname(path.resolve(configFile));
+  const resolved: Record<string, string> = {};
+  for (const [name, modulePath] of Object.entries(plugins)) {
+    if (typeof modulePath !== "string" || !modulePath) {
+      console.warn(
+        `Warning: plugin segment "${name}" must map to a module path, ignoring`,
+      );
+      continue;
+    }
+    if (BUILT_IN_SEGMENT_NAMES.has(name)) {
+      console.warn(
+        `Warning: plugin segment "${name}" has the name of a built-in segment, ignoring`,
+      );
+      continue;
+    }
+    resolved[name] = path.resolve(baseDir, expandHome(modulePath));
+  }
+  return resolved;
+}
+
 function loadEnvConfig(): Partial<PowerlineConfig> {
   const config: Partial<PowerlineConfig> = {};
   const display: Partial<DisplayConfig> = {};
@@ -220,6 +408,28 @@ function getConfigPathFromEnv(): string | undefined {
   return process.env.CLAUDE_POWERLINE_CONFIG;
 }
 
+/** Profile requested via `--profile` (preferred) or CLAUDE_POWERLINE_PROFILE. */
+export function getProfileName(args: string[]): string | undefined {
+  return (
+    getArgValue(args, "--profile") ||
+    process.env.CLAUDE_POWERLINE_PROFILE ||
+    undefined
+  );
+}
+
+function applyProfile(config: PowerlineConfig, name: string): PowerlineConfig {
+  const profiles = config.profiles ?? {};
+  const profile = Object.hasOwn(profiles, name) ? profiles[name] : undefined;
+  if (!profile) {
+    const available = Object.keys(profiles);
+    console.warn(
+      `Warning: unknown profile '${name}'${available.length > 0 ? ` (available: ${available.join(", ")})` : ", no profiles are defined"}`,
+    );
+    return config;
+  }
+  return deepMerge(config, profile);
+}
+
 function parseCLIOverrides(args: string[]): Partial<PowerlineConfig> {
   const config: Partial<PowerlineConfig> = {};
   const display: Partial<DisplayConfig> = {};
@@ -260,7 +470,16 @@ function parseCLIOverrides(args: string[]): Partial<PowerlineConfig> {
   return config;
 }
 
-function validateGridConfig(tui: TuiGridConfig): string | null {
+function isPluginSegmentRef(cell: string, pluginNames: Set<string>): boolean {
+  const dotIdx = cell.indexOf(".");
+  const seg = dotIdx === -1 ? cell : cell.slice(0, dotIdx);
+  return pluginNames.has(seg) && (dotIdx === -1 || dotIdx < cell.length - 1);
+}
+
+export function validateGridConfig(
+  tui: TuiGridConfig,
+  pluginNames: Set<string> = new Set(),
+): string | null {
   if (typeof tui.box === "string" && !BOX_PRESETS[tui.box]) {
     const valid = Object.keys(BOX_PRESETS).join(", ");
     return `unknown box preset "${tui.box}" (valid: ${valid})`;
@@ -344,7 +563,11 @@ function validateGridConfig(tui: TuiGridConfig): string | null {
       let spanName = "";
       for (const cell of cells) {
         if (cell !== ".") {
-          if (!isValidSegmentRef(cell) && !templateNames.has(cell)) {
+          if (
+            !isValidSegmentRef(cell) &&
+            !templateNames.has(cell) &&
+            !isPluginSegmentRef(cell, pluginNames)
+          ) {
             return `${prefix}: unknown segment name "${cell}"`;
           }
           // Check for non-contiguous spans
@@ -404,22 +627,30 @@ function validateGridConfig(tui: TuiGridConfig): string | null {
   return null; // valid
 }
 
+/**
+ * The config file loadConfig would read for these args, honouring --config
+ * and CLAUDE_POWERLINE_CONFIG before the default search locations.
+ */
+export function resolveConfigFile(
+  args: string[] = process.argv,
+  projectDir?: string,
+): string | null {
+  const rawConfigPath = getArgValue(args, "--config") || getConfigPathFromEnv();
+  const configPath = rawConfigPath ? expandHome(rawConfigPath) : undefined;
+
+  return findConfigFile(configPath, projectDir);
+}
+
 export function loadConfig(
   args: string[] = process.argv,
   projectDir?: string,
 ): PowerlineConfig {
   let config: PowerlineConfig = JSON.parse(JSON.stringify(DEFAULT_CONFIG));
 
-  const rawConfigPath = getArgValue(args, "--config") || getConfigPathFromEnv();
-  const configPath = rawConfigPath?.startsWith("~")
-    ? rawConfigPath.replace("~", os.homedir())
-    : rawConfigPath;
-
-  const configFile = findConfigFile(configPath, projectDir);
+  const configFile = resolveConfigFile(args, projectDir);
   if (configFile) {
     try {
-      const fileConfig = loadConfigFile(configFile);
-      config = deepMerge(config, fileConfig);
+      config = deepMerge(config, loadConfigFile(configFile));
     } catch (err) {
       console.warn(
         `Warning: ${err instanceof Error ? err.message : String(err)}`,
@@ -427,6 +658,12 @@ export function loadConfig(
     }
   }
 
+  const profileName = getProfileName(args);
+  if (profileName) {
+    config = applyProfile(config, profileName);
+  }
+  delete config.profiles;
+
   if (config.display?.style && !isValidStyle(config.display.style)) {
     console.warn(
       `Invalid display style '${config.display.style}' in config file, falling back to 'minimal'`,
@@ -448,6 +685,31 @@ export function loadConfig(
     config.theme = "dark";
   }
 
+  if (config.currency !== undefined || config.locale !== undefined) {
+    try {
+      new Intl.NumberFormat(config.locale, {
+        style: "currency",
+        currency: config.currency ?? "USD",
+      });
+    } catch {
+      console.warn(
+        `Invalid currency '${config.currency}' or locale '${config.locale}' in config file, falling back to USD`,
+      );
+      delete config.currency;
+      delete config.locale;
+      delete config.exchangeRate;
+    }
+  }
+  if (
+    config.exchangeRate !== undefined &&
+    !isForeignCurrency(config.currency)
+  ) {
+    console.warn(
+      "Ignoring exchangeRate in config file: set a currency other than USD to show costs converted",
+    );
+    delete config.exchangeRate;
+  }
+
   const envConfig = loadEnvConfig();
   config = deepMerge(config, envConfig);
 
@@ -456,7 +718,10 @@ export function loadConfig(
 
   // Validate grid config if present
   if (config.display?.tui) {
-    const error = validateGridConfig(config.display.tui);
+    const error = validateGridConfig(
+      config.display.tui,
+      new Set(Object.keys(config.plugins ?? {})),
+    );
     if (error) {
       process.stderr.write(
         `Warning: invalid grid config: ${error}. Falling back to hardcoded layout.\n`,
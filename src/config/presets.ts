@@ -0,0 +1,53 @@
+import essential from "../../plugin/templates/config-essential.json";
+import standard from "../../plugin/templates/config-standard.json";
+import full from "../../plugin/templates/config-full.json";
+import tui from "../../plugin/templates/config-tui.json";
+import tuiCompact from "../../plugin/templates/config-tui-compact.json";
+import tuiStandard from "../../plugin/templates/config-tui-standard.json";
+import tuiFull from "../../plugin/templates/config-tui-full.json";
+import type { PowerlineConfig } from "./loader";
+
+export const PRESET_PREFIX = "preset:";
+
+/** The setup wizard templates, keyed by the name after `config-`. */
+const TEMPLATES: Record<string, unknown> = {
+  essential,
+  standard,
+  full,
+  tui,
+  "tui-compact": tuiCompact,
+  "tui-standard": tuiStandard,
+  "tui-full": tuiFull,
+};
+
+export const PRESET_NAMES = Object.keys(TEMPLATES);
+
+/**
+ * Drops the wizard's `"replace:THEME"` style placeholders so those settings
+ * fall through to the extending config or the defaults instead of being
+ * rejected as invalid values.
+ */
+function stripPlaceholders(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(stripPlaceholders);
+  }
+  if (typeof value === "object" && value !== null) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (typeof child === "string" && child.startsWith("replace:")) {
+        continue;
+      }
+      result[key] = stripPlaceholders(child);
+    }
+    return result;
+  }
+  return value;
+}
+
+export function getPreset(name: string): Partial<PowerlineConfig> | null {
+  // Own keys only, so "constructor" is an unknown preset too.
+  const template = Object.hasOwn(TEMPLATES, name) ? TEMPLATES[name] : null;
+  return template
+    ? (stripPlaceholders(template) as Partial<PowerlineConfig>)
+    : null;
+}
@@ -0,0 +1,498 @@
+import fs from "node:fs";
+import path from "node:path";
+import schema from "../../config.schema.json";
+import {
+  loadConfigFile,
+  resolveExtendsPath,
+  validateGridConfig,
+} from "./loader";
+import { PRESET_NAMES, PRESET_PREFIX } from "./presets";
+import type { TuiGridConfig } from "../tui/types";
+import { parseWhen } from "../utils/when";
+import { escapePointerSegment, parseJsonWithLocations } from "./json-source";
+import type { JsonNodeLocation, SourcePosition } from "./json-source";
+
+export interface ConfigIssue {
+  /** Dotted path into the config, e.g. `display.lines[0].segments.git`. */
+  path: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+interface JsonSchema {
+  $ref?: string;
+  type?: string | string[];
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  required?: string[];
+  items?: JsonSchema;
+  anyOf?: JsonSchema[];
+  not?: JsonSchema;
+}
+
+interface PendingIssue {
+  pointer: string;
+  /** Point at the member name instead of its value (unknown keys). */
+  atKey?: boolean;
+  message: string;
+}
+
+const ROOT_SCHEMA = schema as JsonSchema & {
+  definitions: Record<string, JsonSchema>;
+};
+
+function resolveRef(node: JsonSchema): JsonSchema {
+  let current = node;
+  while (current.$ref) {
+    const name = current.$ref.replace("#/definitions/", "");
+    const target = ROOT_SCHEMA.definitions[name];
+    if (!target) {
+      return {};
+    }
+    current = target;
+  }
+  return current;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") {
+    return Number.isInteger(value) ? "integer" : "number";
+  }
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string | string[]): boolean {
+  const actual = typeOf(value);
+  const types = Array.isArray(type) ? type : [type];
+  return types.some(
+    (t) => t === actual || (t === "number" && actual === "integer"),
+  );
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0]!;
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j]!;
+      previous[j] = Math.min(
+        above + 1,
+        previous[j - 1]! + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length]!;
+}
+
+function suggest(name: string, candidates: string[]): string {
+  let best: string | undefined;
+  let bestDistance = Infinity;
+  for (const candidate of candidates) {
+    const distance = editDistance(name.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+  return best && bestDistance <= Math.max(2, Math.floor(name.length / 3))
+    ? ` (did you mean "${best}"?)`
+    : "";
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === "string" ? `"${value}"` : JSON.stringify(value);
+}
+
+function validateNode(
+  value: unknown,
+  node: JsonSchema,
+  pointer: string,
+  issues: PendingIssue[],
+): void {
+  const current = resolveRef(node);
+
+  if (current.anyOf) {
+    validateAnyOf(value, current.anyOf, pointer, issues);
+    return;
+  }
+
+  if (current.not) {
+    const inner: PendingIssue[] = [];
+    validateNode(value, current.not, pointer, inner);
+    if (inner.length === 0) {
+      issues.push({ pointer, message: "value is not allowed here" });
+    }
+    return;
+  }
+
+  if (current.type && !matchesType(value, current.type)) {
+    const expected = Array.isArray(current.type)
+      ? current.type.join(" or ")
+      : current.type;
+    issues.push({
+      pointer,
+      message: `expected ${expected}, got ${typeOf(value)}`,
+    });
+    return;
+  }
+
+  if (current.enum && !current.enum.includes(value)) {
+    const allowed = current.enum.map(describeValue).join(", ");
+    issues.push({
+      pointer,
+      message: `invalid value ${describeValue(value)} (expected one of: ${allowed})`,
+    });
+    return;
+  }
+
+  if ("const" in current && current.const !== value) {
+    issues.push({
+      pointer,
+      message: `invalid value ${describeValue(value)} (expected ${describeValue(current.const)})`,
+    });
+    return;
+  }
+
+  if (Array.isArray(value) && current.items) {
+    value.forEach((item, index) =>
+      validateNode(item, current.items!, `${pointer}/${index}`, issues),
+    );
+    return;
+  }
+
+  if (typeOf(value) === "object") {
+    validateObject(value as Record<string, unknown>, current, pointer, issues);
+  }
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  node: JsonSchema,
+  pointer: string,
+  issues: PendingIssue[],
+): void {
+  const properties = node.properties ?? {};
+
+  for (const name of node.required ?? []) {
+    if (!(name in value)) {
+      issues.push({ pointer, message: `missing required key "${name}"` });
+    }
+  }
+
+  for (const [name, child] of Object.entries(value)) {
+    const childPointer = `${pointer}/${escapePointerSegment(name)}`;
+    const propertySchema = properties[name];
+    if (propertySchema) {
+      validateNode(child, propertySchema, childPointer, issues);
+    } else if (node.additionalProperties === false) {
+      issues.push({
+        pointer: childPointer,
+        atKey: true,
+        message: `unknown key "${name}"${suggest(name, Object.keys(properties))}`,
+      });
+    } else if (typeof node.additionalProperties === "object") {
+      validateNode(child, node.additionalProperties, childPointer, issues);
+    }
+  }
+}
+
+/**
+ * Accepts the value when any branch does. Otherwise reports the branch that
+ * came closest, so `box: {topLeft: 1}` complains about topLeft rather than
+ * about not being a string.
+ */
+function validateAnyOf(
+  value: unknown,
+  branches: JsonSchema[],
+  pointer: string,
+  issues: PendingIssue[],
+): void {
+  let closest: PendingIssue[] | undefined;
+  for (const branch of branches) {
+    const resolved = resolveRef(branch);
+    const branchIssues: PendingIssue[] = [];
+    validateNode(value, branch, pointer, branchIssues);
+    if (branchIssues.length === 0) {
+      return;
+    }
+    const typeMatches =
+      !resolved.type || resolved.anyOf || matchesType(value, resolved.type);
+    if (
+      typeMatches &&
+      !resolved.not &&
+      (!closest || branchIssues.length < closest.length)
+    ) {
+      closest = branchIssues;
+    }
+  }
+
+  if (closest) {
+    issues.push(...closest);
+    return;
+  }
+
+  const expected = branches
+    .map((branch) => resolveRef(branch).type)
+    .filter((type): type is string => typeof type === "string");
+  issues.push({
+    pointer,
+    message:
+      expected.length > 0
+        ? `expected ${[...new Set(expected)].join(" or ")}, got ${typeOf(value)}`
+        : "value does not match any allowed shape",
+  });
+}
+
+function gridIssue(message: string, tuiPointer: string): PendingIssue {
+  const breakpoint = /^breakpoint\[(\d+)\]: /.exec(message);
+  if (breakpoint) {
+    return {
+      pointer: `${tuiPointer}/breakpoints/${breakpoint[1]}`,
+      message: message.slice(breakpoint[0].length),
+    };
+  }
+  const template = /^segments\["(.+?)"\]: /.exec(message);
+  if (template) {
+    return {
+      pointer: `${tuiPointer}/segments/${escapePointerSegment(template[1]!)}`,
+      message: message.slice(template[0].length),
+    };
+  }
+  return { pointer: tuiPointer, message };
+}
+
+function objectKeys(value: unknown): string[] {
+  return typeOf(value) === "object"
+    ? Object.keys(value as Record<string, unknown>)
+    : [];
+}
+
+function validateDisplay(
+  display: Record<string, unknown>,
+  pointer: string,
+  plugins: string[],
+  issues: PendingIssue[],
+): void {
+  const builtIn = Object.keys(
+    resolveRef({ $ref: "#/definitions/LineConfig" }).properties?.segments
+      ?.properties ?? {},
+  );
+  const known = [...builtIn, ...plugins];
+
+  if (Array.isArray(display.lines)) {
+    display.lines.forEach((line: unknown, index: number) => {
+      const segments = (line as { segments?: unknown } | null)?.segments;
+      for (const name of objectKeys(segments)) {
+        const segmentPointer = `${pointer}/lines/${index}/segments/${escapePointerSegment(name)}`;
+        if (!known.includes(name)) {
+          issues.push({
+            pointer: segmentPointer,
+            atKey: true,
+            message: `unknown segment "${name}"${suggest(name, known)}; declare it under "plugins" if it is a plugin segment`,
+          });
+        }
+
+        const when = (segments as Record<string, { when?: unknown } | null>)[
+          name
+        ]?.when;
+        const parsed = typeof when === "string" ? parseWhen(when) : null;
+        if (typeof parsed === "string") {
+          issues.push({
+            pointer: `${segmentPointer}/when`,
+            message: `invalid when clause: ${parsed}`,
+          });
+        }
+      }
+    });
+  }
+
+  const tuiPointer = `${pointer}/tui`;
+  const hasTuiIssue = issues.some((issue) =>
+    issue.pointer.startsWith(tuiPointer),
+  );
+  if (typeOf(display.tui) === "object" && !hasTuiIssue) {
+    const error = validateGridConfig(
+      display.tui as TuiGridConfig,
+      new Set(plugins),
+    );
+    if (error) {
+      issues.push(gridIssue(error, tuiPointer));
+    }
+  }
+}
+
+/**
+ * Reports `extends` entries that cannot be loaded and returns the plugin
+ * names the bases declare, since segments may reference them.
+ */
+function validateExtends(
+  config: Record<string, unknown>,
+  filePath: string | undefined,
+  issues: PendingIssue[],
+): string[] {
+  const refs = config.extends;
+  const entries: Array<[string, unknown]> = Array.isArray(refs)
+    ? refs.map((ref, index) => [`/extends/${index}`, ref])
+    : refs === undefined
+      ? []
+      : [["/extends", refs]];
+
+  const plugins: string[] = [];
+  for (const [pointer, ref] of entries) {
+    if (typeof ref !== "string") {
+      continue;
+    }
+    if (ref.startsWith(PRESET_PREFIX)) {
+      const name = ref.slice(PRESET_PREFIX.length);
+      if (!PRESET_NAMES.includes(name)) {
+        issues.push({
+          pointer,
+          message: `unknown preset "${name}"${suggest(name, PRESET_NAMES)} (available: ${PRESET_NAMES.join(", ")})`,
+        });
+      }
+      continue;
+    }
+    if (!filePath) {
+      continue;
+    }
+
+    const basePath = resolveExtendsPath(ref, filePath)!;
+    if (!fs.existsSync(basePath)) {
+      issues.push({ pointer, message: `extended file ${basePath} not found` });
+      continue;
+    }
+    try {
+      plugins.push(
+        ...objectKeys(
+          loadConfigFile(basePath, [path.resolve(filePath)]).plugins,
+        ),
+      );
+    } catch (error) {
+      issues.push({
+        pointer,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+  return plugins;
+}
+
+/**
+ * Checks the schema cannot express: `extends` targets, line segment names
+ * (plugins make the key set open-ended) and the TUI grid layout, which
+ * loadConfig would otherwise drop at runtime with a single warning.
+ */
+function validateSemantics(
+  config: Record<string, unknown>,
+  filePath: string | undefined,
+  issues: PendingIssue[],
+): void {
+  const profiles =
+    typeOf(config.profiles) === "object"
+      ? Object.entries(config.profiles as Record<string, unknown>)
+      : [];
+  const plugins = [
+    ...validateExtends(config, filePath, issues),
+    ...objectKeys(config.plugins),
+    ...profiles.flatMap(([, profile]) =>
+      objectKeys((profile as { plugins?: unknown } | null)?.plugins),
+    ),
+  ];
+
+  if (typeOf(config.display) === "object") {
+    validateDisplay(
+      config.display as Record<string, unknown>,
+      "/display",
+      plugins,
+      issues,
+    );
+  }
+  for (const [name, profile] of profiles) {
+    const display = (profile as { display?: unknown } | null)?.display;
+    if (typeOf(display) === "object") {
+      validateDisplay(
+        display as Record<string, unknown>,
+        `/profiles/${escapePointerSegment(name)}/display`,
+        plugins,
+        issues,
+      );
+    }
+  }
+}
+
+function pointerToPath(pointer: string): string {
+  if (!pointer) {
+    return "(root)";
+  }
+  return pointer
+    .slice(1)
+    .split("/")
+    .map((segment) => segment.replace(/~1/g, "/").replace(/~0/g, "~"))
+    .reduce((path, segment) => {
+      if (/^\d+$/.test(segment)) {
+        return `${path}[${segment}]`;
+      }
+      if (!/^[A-Za-z_$][\w$]*$/.test(segment)) {
+        return `${path}[${JSON.stringify(segment)}]`;
+      }
+      return path ? `${path}.${segment}` : segment;
+    }, "");
+}
+
+function locate(
+  issue: PendingIssue,
+  locations: Map<string, JsonNodeLocation>,
+): SourcePosition {
+  const location = locations.get(issue.pointer);
+  if (!location) {
+    return { line: 1, column: 1 };
+  }
+  return (issue.atKey && location.key) || location.value;
+}
+
+/**
+ * Validates the text of a config file against config.schema.json plus the
+ * grid rules loadConfig enforces. Returns an empty list when it is valid.
+ * With `filePath`, relative `extends` entries are checked as well.
+ */
+export function validateConfigText(
+  text: string,
+  filePath?: string,
+): ConfigIssue[] {
+  const parsed = parseJsonWithLocations(text);
+  if ("error" in parsed) {
+    return [
+      {
+        path: "(root)",
+        ...parsed.position,
+        message: `invalid JSON: ${parsed.error}`,
+      },
+    ];
+  }
+
+  const issues: PendingIssue[] = [];
+  validateNode(parsed.value, ROOT_SCHEMA, "", issues);
+  if (typeOf(parsed.value) === "object") {
+    validateSemantics(
+      parsed.value as Record<string, unknown>,
+      filePath,
+      issues,
+    );
+  }
+
+  return issues
+    .map((issue) => ({
+      path: pointerToPath(issue.pointer),
+      ...locate(issue, parsed.locations),
+      message: issue.message,
+    }))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+}
@@ -6,15 +6,40 @@ import process from "node:process";
 import { json } from "node:stream/consumers";
 import { PowerlineRenderer } from "./powerline";
 import { loadConfigFromCLI } from "./config/loader";
+import { COMMANDS } from "./commands";
 import { debug } from "./utils/logger";
+import { renderViaDaemon } from "./utils/daemon";
+import { writeToTerminal } from "./utils/alerts";
 
 function showHelpText(): void {
   console.log(`
 claude-powerline - Beautiful powerline statusline for Claude Code
 
 Usage: claude-powerline [options]
+       claude-powerline <command> [options]
 
 Standalone Commands:
+  daemon                   Keep usage, git and pricing data warm and render
+                           statuslines over a Unix socket; the statusline
+                           uses it whenever it is running
+  doctor                   Report colors, terminal width, config, Claude paths,
+                           cache, pricing and git detection
+  export [--from=DATE] [--to=DATE] [--format=csv|jsonl]
+                           Print one row per response, with tokens and cost,
+                           between two YYYY-MM-DD dates (default: this month)
+  guard [--at=limit|warning]
+                           Claude Code hook that blocks tool calls or prompts
+                           once a session, today or block budget is reached
+  pricing import FILE      Load a pricing.json into the pricing cache, for
+                           machines that cannot fetch it
+  pricing show             Print the per-model rates in effect, after
+                           overrides, multiplier and aliases
+  render --sample=NAME     Render from a built-in fixture instead of stdin:
+                           long-session, rate-limited, worktree
+  report [--period=week|month] [--by=day|model|project]
+                           Print cost and token totals for this week or month
+  validate [PATH]          Check a config file for unknown keys, invalid
+                           values and grid layout errors
   -h, --help               Show this help
 
 Debugging:
@@ -25,6 +50,8 @@ Claude Code Options (for settings.json):
   --style=STYLE            Set separator style: minimal, powerline, capsule, tui
   --charset=CHARSET        Set character set: unicode (default), text
   --config=PATH            Use custom config file path
+  --profile=NAME           Apply a named profile from the config file
+                           (or set CLAUDE_POWERLINE_PROFILE)
 
 See example config at: https://github.com/Owloops/claude-powerline/blob/main/.claude-powerline.json
 
@@ -33,6 +60,17 @@ See example config at: https://github.com/Owloops/claude-powerline/blob/main/.cl
 
 async function main(): Promise<void> {
   try {
+    const subcommand = process.argv[2];
+    const handler =
+      subcommand && Object.hasOwn(COMMANDS, subcommand)
+        ? COMMANDS[subcommand]
+        : undefined;
+    if (handler) {
+      // Exiting outright could cut off output still being piped to stdout.
+      process.exitCode = await handler(process.argv.slice(3));
+      return;
+    }
+
     const showHelp =
       process.argv.includes("--help") || process.argv.includes("-h");
 
@@ -55,7 +93,7 @@ Add to ~/.claude/settings.json:
   }
 }
 
-Run with --help for more options.
+Run with --help for more options, or "claude-powerline doctor" to check your setup.
 
 To test output manually:
 echo '{"session_id":"test-session","workspace":{"project_dir":"/path/to/project"},"model":{"id":"claude-sonnet-4-5","display_name":"Claude"}}' | claude-powerline --style=powerline`);
@@ -74,6 +112,19 @@ echo '{"session_id":"test-session","workspace":{"project_dir":"/path/to/project"
       process.exit(1);
     }
 
+    const served = await renderViaDaemon({
+      args: process.argv.slice(2),
+      cwd: process.cwd(),
+      env: process.env,
+      pid: process.pid,
+      hookData,
+    });
+    if (served !== null) {
+      if (served.terminal) writeToTerminal(served.terminal);
+      console.log(served.output);
+      return;
+    }
+
     const projectDir = hookData.workspace?.project_dir;
     const config = loadConfigFromCLI(process.argv, projectDir);
     const renderer = new PowerlineRenderer(config);
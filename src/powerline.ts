@@ -14,18 +14,33 @@ import type {
   MetricsSegmentConfig,
   BlockSegmentConfig,
   TodaySegmentConfig,
+  ProjectSegmentConfig,
+  PeriodSegmentConfig,
   VersionSegmentConfig,
   SessionIdSegmentConfig,
   EnvSegmentConfig,
+  CommandSegmentConfig,
   WeeklySegmentConfig,
+  SparklineSegmentConfig,
   AgentSegmentConfig,
   ThinkingSegmentConfig,
   CacheTimerSegmentConfig,
 } from "./segments";
 import type { BlockInfo } from "./segments/block";
 import type { TodayInfo } from "./segments/today";
+import type { ProjectInfo } from "./segments/project";
+import type { BudgetPeriod, PeriodInfo } from "./segments/period";
+import type { SparklineInfo } from "./segments/sparkline";
+import type { SubagentInfo } from "./segments/subagents";
 import type { CacheTimerInfo } from "./segments/cacheTimer";
+import type { CommandInfo } from "./segments/command";
+import type { GitInfo } from "./segments/git";
 import type { TuiData } from "./tui";
+import type {
+  SegmentPlugin,
+  SegmentPluginContext,
+  SegmentPluginOutput,
+} from "./segments/plugin";
 
 import {
   hexToAnsi,
@@ -45,9 +60,31 @@ import {
   SegmentRenderer,
   shouldShowWorktree,
 } from "./segments";
+import { recordOfficialCost } from "./segments/session";
 import { BlockProvider } from "./segments/block";
 import { TodayProvider } from "./segments/today";
+import { ProjectProvider } from "./segments/project";
+import { PeriodProvider } from "./segments/period";
+import { SparklineProvider } from "./segments/sparkline";
+import { SubagentProvider } from "./segments/subagents";
+import { PricingService } from "./segments/pricing";
 import { CacheTimerProvider } from "./segments/cacheTimer";
+import { CommandProvider } from "./segments/command";
+import { loadSegmentPlugins, runSegmentPlugin } from "./segments/plugin";
+import { evaluateWhen, getWhenRoots, parseWhen } from "./utils/when";
+import type { WhenNode } from "./utils/when";
+import {
+  getRateLimitForecast,
+  recordUtilizationSample,
+} from "./utils/rate-limit-forecast";
+import type { RateLimitForecast } from "./utils/rate-limit-forecast";
+import { collectAlertReadings, processAlerts } from "./utils/alerts";
+import { memoize } from "./utils/memo";
+import type { MemoScope } from "./utils/memo";
+import {
+  formatOpenMetrics,
+  writeOpenMetricsTextfile,
+} from "./utils/openmetrics";
 import {
   SYMBOLS,
   TEXT_SYMBOLS,
@@ -55,9 +92,14 @@ import {
   BOX_CHARS,
   BOX_CHARS_TEXT,
 } from "./utils/constants";
+import { setCurrencyFormat } from "./utils/formatters";
 import { visibleLength } from "./utils/terminal";
 import { getTerminalWidth, getRawTerminalWidth } from "./utils/terminal-width";
-import { renderTuiPanel } from "./tui";
+import {
+  getGridSegmentNames,
+  renderTuiPanel,
+  registerPluginSegment,
+} from "./tui";
 
 interface RenderedSegment {
   type: string;
@@ -67,20 +109,45 @@ interface RenderedSegment {
   bold?: boolean;
 }
 
+/** Provider results a `when` clause can read next to the hook data. */
+interface WhenInputs {
+  usageInfo: UsageInfo | null;
+  blockInfo: BlockInfo | null;
+  todayInfo: TodayInfo | null;
+  projectInfo: ProjectInfo | null;
+  weekInfo: PeriodInfo | null;
+  monthInfo: PeriodInfo | null;
+  contextInfo: ContextInfo | null;
+  metricsInfo: MetricsInfo | null;
+  cacheTimerInfo: CacheTimerInfo | null;
+  gitInfo: GitInfo | null;
+}
+
 export class PowerlineRenderer {
   private readonly symbols: PowerlineSymbols;
   private _usageProvider?: UsageProvider;
   private _blockProvider?: BlockProvider;
   private _todayProvider?: TodayProvider;
+  private _projectProvider?: ProjectProvider;
+  private _periodProvider?: PeriodProvider;
+  private _sparklineProvider?: SparklineProvider;
+  private _subagentProvider?: SubagentProvider;
   private _contextProvider?: ContextProvider;
   private _gitService?: GitService;
   private _tmuxService?: TmuxService;
   private _metricsProvider?: MetricsProvider;
   private _cacheTimerProvider?: CacheTimerProvider;
+  private _commandProvider?: CommandProvider;
   private _segmentRenderer?: SegmentRenderer;
+  private plugins = new Map<string, SegmentPlugin>();
+  private pluginsLoaded = false;
+  private whenRules = new Map<string, WhenNode | null>();
+  private _whenRoots?: Set<string>;
 
   constructor(private readonly config: PowerlineConfig) {
     this.symbols = this.initializeSymbols();
+    PricingService.configure(config.pricing);
+    setCurrencyFormat(config);
   }
 
   private get usageProvider(): UsageProvider {
@@ -104,6 +171,34 @@ export class PowerlineRenderer {
     return this._todayProvider;
   }
 
+  private get projectProvider(): ProjectProvider {
+    if (!this._projectProvider) {
+      this._projectProvider = new ProjectProvider();
+    }
+    return this._projectProvider;
+  }
+
+  private get periodProvider(): PeriodProvider {
+    if (!this._periodProvider) {
+      this._periodProvider = new PeriodProvider();
+    }
+    return this._periodProvider;
+  }
+
+  private get sparklineProvider(): SparklineProvider {
+    if (!this._sparklineProvider) {
+      this._sparklineProvider = new SparklineProvider();
+    }
+    return this._sparklineProvider;
+  }
+
+  private get subagentProvider(): SubagentProvider {
+    if (!this._subagentProvider) {
+      this._subagentProvider = new SubagentProvider();
+    }
+    return this._subagentProvider;
+  }
+
   private get contextProvider(): ContextProvider {
     if (!this._contextProvider) {
       this._contextProvider = new ContextProvider(this.config);
@@ -139,6 +234,13 @@ export class PowerlineRenderer {
     return this._cacheTimerProvider;
   }
 
+  private get commandProvider(): CommandProvider {
+    if (!this._commandProvider) {
+      this._commandProvider = new CommandProvider();
+    }
+    return this._commandProvider;
+  }
+
   private get segmentRenderer(): SegmentRenderer {
     if (!this._segmentRenderer) {
       this._segmentRenderer = new SegmentRenderer(this.config, this.symbols);
@@ -147,34 +249,423 @@ export class PowerlineRenderer {
   }
 
   private needsSegmentInfo(segmentType: keyof LineConfig["segments"]): boolean {
-    return this.config.display.lines.some(
-      (line) => line.segments[segmentType]?.enabled,
+    return (
+      this.config.display.lines.some(
+        (line) => line.segments[segmentType]?.enabled,
+      ) || this.whenRoots.has(String(segmentType))
+    );
+  }
+
+  /** Whether the TUI panel shows `segmentType` or anything else reads it. */
+  private tuiNeedsSegmentInfo(
+    segmentType: keyof LineConfig["segments"],
+  ): boolean {
+    const grid = this.config.display.tui;
+    return (
+      this.needsSegmentInfo(segmentType) ||
+      (!!grid && getGridSegmentNames(grid).has(String(segmentType)))
+    );
+  }
+
+  private getWhenRule(expression: string): WhenNode | null {
+    if (!this.whenRules.has(expression)) {
+      const parsed = parseWhen(expression);
+      if (typeof parsed === "string") {
+        console.warn(
+          `Warning: ignoring invalid when clause "${expression}": ${parsed}`,
+        );
+      }
+      this.whenRules.set(
+        expression,
+        typeof parsed === "string" ? null : parsed,
+      );
+    }
+    return this.whenRules.get(expression) ?? null;
+  }
+
+  /** Names read by the `when` clauses of enabled segments. */
+  private get whenRoots(): Set<string> {
+    if (!this._whenRoots) {
+      this._whenRoots = new Set();
+      for (const line of this.config.display.lines) {
+        for (const config of Object.values(line.segments)) {
+          const rule =
+            config?.enabled && config.when
+              ? this.getWhenRule(config.when)
+              : null;
+          for (const root of rule ? getWhenRoots(rule) : []) {
+            this._whenRoots.add(root);
+          }
+        }
+      }
+    }
+    return this._whenRoots;
+  }
+
+  private buildWhenContext(
+    hookData: ClaudeHookData,
+    inputs: WhenInputs,
+  ): Record<string, unknown> {
+    if (this.whenRoots.size === 0) return {};
+
+    const cacheTimer = inputs.cacheTimerInfo
+      ? {
+          ...inputs.cacheTimerInfo,
+          remainingSeconds: this.getCacheRemainingSeconds(
+            inputs.cacheTimerInfo,
+          ),
+        }
+      : null;
+
+    return {
+      ...hookData,
+      session: inputs.usageInfo?.session ?? null,
+      block: inputs.blockInfo,
+      today: inputs.todayInfo,
+      project: inputs.projectInfo,
+      week: inputs.weekInfo,
+      month: inputs.monthInfo,
+      context: inputs.contextInfo,
+      metrics: inputs.metricsInfo,
+      cacheTimer,
+      git: inputs.gitInfo,
+    };
+  }
+
+  private getContextInfo(
+    hookData: ClaudeHookData,
+  ): Promise<ContextInfo | null> {
+    const contextSegmentConfig = this.config.display.lines
+      .map((line) => line.segments.context)
+      .find((c) => c?.enabled) as ContextSegmentConfig | undefined;
+    const autocompactBuffer = contextSegmentConfig?.autocompactBuffer ?? 33000;
+    return this.contextProvider.getContextInfo(hookData, autocompactBuffer);
+  }
+
+  /** Seconds until the prompt cache expires, with the cache timer's TTL. */
+  private getCacheRemainingSeconds(cacheTimerInfo: CacheTimerInfo): number {
+    const cacheTimerConfig = this.config.display.lines
+      .map((line) => line.segments.cacheTimer)
+      .find((c) => c?.enabled);
+    return Math.max(
+      0,
+      (cacheTimerConfig?.ttlSeconds ??
+        cacheTimerInfo.detectedTtlSeconds ??
+        3600) - cacheTimerInfo.elapsedSeconds,
+    );
+  }
+
+  /**
+   * Writes the OpenMetrics textfile, fetching what the visible segments did
+   * not need.
+   */
+  private async exportOpenMetrics(
+    hookData: ClaudeHookData,
+    inputs: WhenInputs,
+  ): Promise<void> {
+    const textfile = this.config.openMetrics?.textfile;
+    if (!textfile) return;
+
+    const [usageInfo, todayInfo, contextInfo, cacheTimerInfo] =
+      await Promise.all([
+        inputs.usageInfo ?? this.getUsageInfo(hookData),
+        inputs.todayInfo ?? this.getTodayInfo(),
+        inputs.contextInfo ?? this.getContextInfo(hookData),
+        inputs.cacheTimerInfo ??
+          this.cacheTimerProvider.getCacheTimerInfo(hookData),
+      ]);
+
+    await writeOpenMetricsTextfile(
+      textfile,
+      formatOpenMetrics({
+        sessionId: hookData.session_id,
+        session: usageInfo.session,
+        today: todayInfo,
+        contextPercentage: contextInfo?.usablePercentage ?? null,
+        rateLimits: hookData.rate_limits ?? {},
+        cacheRemainingSeconds: cacheTimerInfo
+          ? this.getCacheRemainingSeconds(cacheTimerInfo)
+          : null,
+      }),
+    );
+  }
+
+  /**
+   * Notifies once for each threshold crossed since the previous refresh,
+   * fetching what the visible segments did not need for the configured
+   * budgets and context threshold.
+   */
+  private async checkAlerts(
+    hookData: ClaudeHookData,
+    inputs: WhenInputs,
+  ): Promise<void> {
+    const alerts = this.config.alerts;
+    if (!alerts?.enabled) return;
+
+    const budget = (alerts.budgets ?? true) ? (this.config.budget ?? {}) : {};
+    const [
+      usageInfo,
+      todayInfo,
+      projectInfo,
+      weekInfo,
+      monthInfo,
+      contextInfo,
+    ] = await Promise.all([
+      inputs.usageInfo ??
+        (budget.session?.amount ? this.getUsageInfo(hookData) : null),
+      inputs.todayInfo ?? (budget.today?.amount ? this.getTodayInfo() : null),
+      inputs.projectInfo ??
+        (budget.project?.amount ? this.getProjectInfo(hookData) : null),
+      inputs.weekInfo ??
+        (budget.week?.amount ? this.getPeriodInfo("week") : null),
+      inputs.monthInfo ??
+        (budget.month?.amount ? this.getPeriodInfo("month") : null),
+      inputs.contextInfo ??
+        (alerts.context !== undefined ? this.getContextInfo(hookData) : null),
+    ]);
+
+    await processAlerts(
+      alerts,
+      collectAlertReadings(this.config, hookData, {
+        usageInfo,
+        todayInfo,
+        projectInfo,
+        weekInfo,
+        monthInfo,
+        contextInfo,
+      }),
     );
   }
 
+  /**
+   * Memoizes a provider result under `key` and the pricing and currency
+   * settings, which are process-wide and differ between the configs a
+   * daemon renders for.
+   */
+  private memo<T>(
+    scope: MemoScope,
+    key: unknown[],
+    load: () => Promise<T>,
+  ): Promise<T> {
+    const { pricing, currency, locale, exchangeRate } = this.config;
+    return memoize(
+      scope,
+      JSON.stringify([{ pricing, currency, locale, exchangeRate }, ...key]),
+      load,
+    );
+  }
+
+  private getUsageInfo(hookData: ClaudeHookData): Promise<UsageInfo> {
+    // The official cost in the hook data takes part in the result.
+    return this.memo(
+      "transcripts",
+      ["usage", hookData.session_id, hookData.cost],
+      () => this.usageProvider.getUsageInfo(hookData.session_id, hookData),
+    );
+  }
+
+  private getBlockInfo(hookData: ClaudeHookData): Promise<BlockInfo | null> {
+    const blockConfig = this.config.display.lines
+      .map((line) => line.segments.block)
+      .find((c) => c?.enabled);
+    return this.blockProvider.getActiveBlockInfo(hookData, {
+      forecast: blockConfig?.showForecast,
+    });
+  }
+
+  /**
+   * Saves the five-hour utilization for the `guard` command's block budget,
+   * whose hook input rarely carries rate limits, whether or not the block
+   * segment forecasts from it.
+   */
+  private async recordBlockUtilization(
+    hookData: ClaudeHookData,
+  ): Promise<void> {
+    const fiveHour = hookData.rate_limits?.five_hour;
+    if (!fiveHour || !this.config.budget?.block) return;
+    await recordUtilizationSample("five_hour", fiveHour);
+  }
+
+  /**
+   * Saves the official session cost for the `guard` command's session
+   * budget, since its hook input has no cost.
+   */
+  private async recordSessionCost(hookData: ClaudeHookData): Promise<void> {
+    const cost = hookData.cost?.total_cost_usd;
+    if (cost === undefined || !this.config.budget?.session) return;
+    await recordOfficialCost(hookData.session_id, cost);
+  }
+
+  private async getWeeklyForecast(
+    hookData: ClaudeHookData,
+  ): Promise<RateLimitForecast | null> {
+    const sevenDay = hookData.rate_limits?.seven_day;
+    const weeklyConfig = this.config.display.lines
+      .map((line) => line.segments.weekly)
+      .find((c) => c?.enabled);
+    if (!sevenDay || !weeklyConfig?.showForecast) return null;
+    return getRateLimitForecast("seven_day", sevenDay);
+  }
+
+  private getSparklineInfo(
+    hookData: ClaudeHookData,
+  ): Promise<SparklineInfo | null> {
+    const sparklineConfig = this.config.display.lines
+      .map((line) => line.segments.sparkline)
+      .find((c) => c?.enabled);
+    const { metric, turns } = sparklineConfig ?? {};
+    return this.memo(
+      "transcripts",
+      ["sparkline", hookData.session_id, metric, turns],
+      () =>
+        this.sparklineProvider.getSparklineInfo(
+          hookData.session_id,
+          metric,
+          turns,
+        ),
+    );
+  }
+
+  /** The session's subagents, when the agent segment lists or counts them. */
+  private async getSubagents(
+    hookData: ClaudeHookData,
+  ): Promise<SubagentInfo[] | null> {
+    const agentConfig = this.config.display.lines
+      .map((line) => line.segments.agent)
+      .find((c) => c?.enabled);
+    if ((agentConfig?.subagents ?? "off") === "off") return null;
+    return this.memo("transcripts", ["subagents", hookData.session_id], () =>
+      this.subagentProvider.getSubagents(hookData.session_id),
+    );
+  }
+
+  private getTodayInfo(): Promise<TodayInfo> {
+    const todayConfig = this.config.display.lines
+      .map((line) => line.segments.today)
+      .find((c) => c?.enabled);
+    const workdayEnd = todayConfig?.workdayEnd;
+    return this.memo("transcripts", ["today", workdayEnd], () =>
+      this.todayProvider.getTodayInfo({ workdayEnd }),
+    );
+  }
+
+  /** Usage of the workspace's project over the enabled segment's period. */
+  private async getProjectInfo(
+    hookData: ClaudeHookData,
+  ): Promise<ProjectInfo | null> {
+    const projectDir = hookData.workspace?.project_dir || hookData.cwd;
+    if (!projectDir) return null;
+    const projectConfig = this.config.display.lines
+      .map((line) => line.segments.project)
+      .find((c) => c?.enabled);
+    const period = projectConfig?.period;
+    return this.memo("transcripts", ["project", projectDir, period], () =>
+      this.projectProvider.getProjectInfo(projectDir, period),
+    );
+  }
+
+  private getPeriodInfo(period: BudgetPeriod): Promise<PeriodInfo> {
+    const budget = this.config.budget?.[period];
+    return this.memo("transcripts", [period, budget], () =>
+      this.periodProvider.getPeriodInfo(period, budget),
+    );
+  }
+
+  private getGitInfo(
+    currentDir: string,
+    options: Parameters<GitService["getGitInfo"]>[1],
+    projectDir: string | undefined,
+  ): Promise<GitInfo | null> {
+    return this.memo("git", [currentDir, options, projectDir], () =>
+      this.gitService.getGitInfo(currentDir, options, projectDir),
+    );
+  }
+
+  private async getWhenGitInfo(
+    hookData: ClaudeHookData,
+    currentDir: string,
+  ): Promise<GitInfo | null> {
+    if (!this.whenRoots.has("git")) return null;
+    return this.getGitInfo(currentDir, {}, hookData.workspace?.project_dir);
+  }
+
+  private isSegmentVisible(
+    config: AnySegmentConfig,
+    whenContext: Record<string, unknown>,
+  ): boolean {
+    const rule = config.when ? this.getWhenRule(config.when) : null;
+    return !rule || evaluateWhen(rule, whenContext);
+  }
+
+  private async loadPlugins(): Promise<void> {
+    if (this.pluginsLoaded) return;
+    this.pluginsLoaded = true;
+    if (!this.config.plugins) return;
+
+    this.plugins = await loadSegmentPlugins(this.config);
+    for (const [name, plugin] of this.plugins) {
+      registerPluginSegment(name, plugin.parts ?? []);
+    }
+  }
+
+  private pluginContext(
+    name: string,
+    hookData: ClaudeHookData,
+    config: AnySegmentConfig | undefined,
+  ): SegmentPluginContext {
+    return {
+      name,
+      hookData,
+      config: { enabled: true, ...config },
+      charset: this.config.display.charset || "unicode",
+    };
+  }
+
+  private getEnabledSegments(
+    lineConfig: LineConfig,
+  ): Array<{ type: string; config: AnySegmentConfig }> {
+    return Object.entries(lineConfig.segments)
+      .filter((entry): entry is [string, AnySegmentConfig] =>
+        Boolean(entry[1]?.enabled),
+      )
+      .map(([type, config]) => ({ type, config }));
+  }
+
   async generateStatusline(hookData: ClaudeHookData): Promise<string> {
+    await this.loadPlugins();
+    await this.recordBlockUtilization(hookData);
+    await this.recordSessionCost(hookData);
+
     if (this.config.display.style === "tui") {
       return this.generateTuiStatusline(hookData);
     }
 
     const usageInfo = this.needsSegmentInfo("session")
-      ? await this.usageProvider.getUsageInfo(hookData.session_id, hookData)
+      ? await this.getUsageInfo(hookData)
       : null;
 
     const blockInfo = this.needsSegmentInfo("block")
-      ? await this.blockProvider.getActiveBlockInfo(hookData)
+      ? await this.getBlockInfo(hookData)
       : null;
 
     const todayInfo = this.needsSegmentInfo("today")
-      ? await this.todayProvider.getTodayInfo()
+      ? await this.getTodayInfo()
+      : null;
+
+    const projectInfo = this.needsSegmentInfo("project")
+      ? await this.getProjectInfo(hookData)
+      : null;
+
+    const weekInfo = this.needsSegmentInfo("week")
+      ? await this.getPeriodInfo("week")
+      : null;
+
+    const monthInfo = this.needsSegmentInfo("month")
+      ? await this.getPeriodInfo("month")
       : null;
 
-    const contextSegmentConfig = this.config.display.lines
-      .map((line) => line.segments.context)
-      .find((c) => c?.enabled) as ContextSegmentConfig | undefined;
-    const autocompactBuffer = contextSegmentConfig?.autocompactBuffer ?? 33000;
     const contextInfo = this.needsSegmentInfo("context")
-      ? await this.contextProvider.getContextInfo(hookData, autocompactBuffer)
+      ? await this.getContextInfo(hookData)
       : null;
 
     const metricsInfo = this.needsSegmentInfo("metrics")
@@ -185,15 +676,36 @@ export class PowerlineRenderer {
       ? await this.cacheTimerProvider.getCacheTimerInfo(hookData)
       : null;
 
+    const currentDir = hookData.workspace?.current_dir || hookData.cwd || "/";
+    const inputs: WhenInputs = {
+      usageInfo,
+      blockInfo,
+      todayInfo,
+      projectInfo,
+      weekInfo,
+      monthInfo,
+      contextInfo,
+      metricsInfo,
+      cacheTimerInfo,
+      gitInfo: await this.getWhenGitInfo(hookData, currentDir),
+    };
+    const whenContext = this.buildWhenContext(hookData, inputs);
+    await this.checkAlerts(hookData, inputs);
+    await this.exportOpenMetrics(hookData, inputs);
+
     if (this.config.display.autoWrap) {
       return this.generateAutoWrapStatusline(
         hookData,
         usageInfo,
         blockInfo,
         todayInfo,
+        projectInfo,
+        weekInfo,
+        monthInfo,
         contextInfo,
         metricsInfo,
         cacheTimerInfo,
+        whenContext,
       );
     }
 
@@ -205,9 +717,13 @@ export class PowerlineRenderer {
           usageInfo,
           blockInfo,
           todayInfo,
+          projectInfo,
+          weekInfo,
+          monthInfo,
           contextInfo,
           metricsInfo,
           cacheTimerInfo,
+          whenContext,
         ),
       ),
     );
@@ -220,9 +736,13 @@ export class PowerlineRenderer {
     usageInfo: UsageInfo | null,
     blockInfo: BlockInfo | null,
     todayInfo: TodayInfo | null,
+    projectInfo: ProjectInfo | null,
+    weekInfo: PeriodInfo | null,
+    monthInfo: PeriodInfo | null,
     contextInfo: ContextInfo | null,
     metricsInfo: MetricsInfo | null,
     cacheTimerInfo: CacheTimerInfo | null,
+    whenContext: Record<string, unknown>,
   ): Promise<string> {
     const colors = this.getThemeColors();
     const currentDir = hookData.workspace?.current_dir || hookData.cwd || "/";
@@ -231,15 +751,9 @@ export class PowerlineRenderer {
     const outputLines: string[] = [];
 
     for (const lineConfig of this.config.display.lines) {
-      const segments = Object.entries(lineConfig.segments)
-        .filter(
-          ([_, config]: [string, AnySegmentConfig | undefined]) =>
-            config?.enabled,
-        )
-        .map(([type, config]: [string, AnySegmentConfig]) => ({
-          type,
-          config,
-        }));
+      const segments = this.getEnabledSegments(lineConfig).filter((segment) =>
+        this.isSegmentVisible(segment.config, whenContext),
+      );
 
       const renderedSegments: RenderedSegment[] = [];
       for (const segment of segments) {
@@ -249,6 +763,9 @@ export class PowerlineRenderer {
           usageInfo,
           blockInfo,
           todayInfo,
+          projectInfo,
+          weekInfo,
+          monthInfo,
           contextInfo,
           metricsInfo,
           cacheTimerInfo,
@@ -316,21 +833,23 @@ export class PowerlineRenderer {
     const currentDir = hookData.workspace?.current_dir || hookData.cwd || "/";
     const charset = this.config.display.charset || "unicode";
     const boxChars = charset === "text" ? BOX_CHARS_TEXT : BOX_CHARS;
-    const contextSegmentConfig = this.config.display.lines
-      .map((line) => line.segments.context)
-      .find((c) => c?.enabled) as ContextSegmentConfig | undefined;
-    const autocompactBuffer = contextSegmentConfig?.autocompactBuffer ?? 33000;
     const gitSegmentConfig = this.config.display.lines
       .map((line) => line.segments.git)
       .find((g) => g?.enabled) as GitSegmentConfig | undefined;
 
     const results = await Promise.allSettled([
-      this.usageProvider.getUsageInfo(hookData.session_id, hookData),
-      this.blockProvider.getActiveBlockInfo(hookData),
-      this.todayProvider.getTodayInfo(),
-      this.contextProvider.getContextInfo(hookData, autocompactBuffer),
+      this.getUsageInfo(hookData),
+      this.getBlockInfo(hookData),
+      this.getTodayInfo(),
+      // Full transcript scans, so only when the panel shows them.
+      this.tuiNeedsSegmentInfo("project")
+        ? this.getProjectInfo(hookData)
+        : null,
+      this.tuiNeedsSegmentInfo("week") ? this.getPeriodInfo("week") : null,
+      this.tuiNeedsSegmentInfo("month") ? this.getPeriodInfo("month") : null,
+      this.getContextInfo(hookData),
       this.metricsProvider.getMetricsInfo(hookData.session_id, hookData),
-      this.gitService.getGitInfo(
+      this.getGitInfo(
         currentDir,
         {
           showSha: false,
@@ -347,6 +866,11 @@ export class PowerlineRenderer {
       ),
       this.tmuxService.getSessionId(),
       this.cacheTimerProvider.getCacheTimerInfo(hookData),
+      this.collectPluginOutputs(hookData),
+      this.getTuiCommandInfo(currentDir),
+      this.getWeeklyForecast(hookData),
+      this.getSparklineInfo(hookData),
+      this.getSubagents(hookData),
     ]);
     const val = <T>(r: PromiseSettledResult<T>) =>
       r.status === "fulfilled" ? r.value : null;
@@ -354,11 +878,19 @@ export class PowerlineRenderer {
       usageInfo,
       blockInfo,
       todayInfo,
+      projectInfo,
+      weekInfo,
+      monthInfo,
       contextInfo,
       metricsInfo,
       gitInfo,
       tmuxSessionId,
       cacheTimerInfo,
+      pluginData,
+      commandInfo,
+      weeklyForecast,
+      sparklineInfo,
+      subagents,
     ] = [
       val(results[0]!),
       val(results[1]!),
@@ -368,18 +900,58 @@ export class PowerlineRenderer {
       val(results[5]!),
       val(results[6]!),
       val(results[7]!),
+      val(results[8]!),
+      val(results[9]!),
+      val(results[10]!),
+      val(results[11]!),
+      val(results[12]!),
+      val(results[13]!),
+      val(results[14]!),
+      val(results[15]!),
     ] as const;
 
+    const inputs: WhenInputs = {
+      usageInfo,
+      blockInfo,
+      todayInfo,
+      projectInfo,
+      weekInfo,
+      monthInfo,
+      contextInfo,
+      metricsInfo,
+      cacheTimerInfo,
+      gitInfo,
+    };
+    const whenContext = this.buildWhenContext(hookData, inputs);
+    await this.checkAlerts(hookData, inputs);
+    await this.exportOpenMetrics(hookData, inputs);
+    const hiddenSegments = this.config.display.lines.flatMap((line) =>
+      this.getEnabledSegments(line)
+        .filter(
+          (segment) => !this.isSegmentVisible(segment.config, whenContext),
+        )
+        .map((segment) => segment.type),
+    );
+
     const tuiData: TuiData = {
       hookData,
       usageInfo,
       blockInfo,
       todayInfo,
+      projectInfo,
+      weekInfo,
+      monthInfo,
       contextInfo,
       metricsInfo,
       gitInfo,
       cacheTimerInfo,
+      commandInfo,
+      weeklyForecast,
+      sparklineInfo,
+      subagents,
       tmuxSessionId,
+      pluginData: pluginData ?? undefined,
+      hiddenSegments,
       colors,
     };
 
@@ -393,6 +965,35 @@ export class PowerlineRenderer {
     );
   }
 
+  private async getTuiCommandInfo(
+    currentDir: string,
+  ): Promise<CommandInfo | null> {
+    const commandConfig = this.config.display.lines
+      .map((line) => line.segments.command)
+      .find((c) => c?.enabled);
+    if (!commandConfig) return null;
+    return this.commandProvider.getCommandInfo(commandConfig, currentDir);
+  }
+
+  private async collectPluginOutputs(
+    hookData: ClaudeHookData,
+  ): Promise<Record<string, SegmentPluginOutput>> {
+    const outputs: Record<string, SegmentPluginOutput> = {};
+    await Promise.all(
+      [...this.plugins].map(async ([name, plugin]) => {
+        const segConfig = this.config.display.lines
+          .map((line) => line.segments[name])
+          .find((c) => c?.enabled);
+        const output = await runSegmentPlugin(
+          plugin,
+          this.pluginContext(name, hookData, segConfig),
+        );
+        if (output) outputs[name] = output;
+      }),
+    );
+    return outputs;
+  }
+
   private calculateSegmentWidth(
     segment: RenderedSegment,
     isFirst: boolean,
@@ -452,19 +1053,20 @@ export class PowerlineRenderer {
     usageInfo: UsageInfo | null,
     blockInfo: BlockInfo | null,
     todayInfo: TodayInfo | null,
+    projectInfo: ProjectInfo | null,
+    weekInfo: PeriodInfo | null,
+    monthInfo: PeriodInfo | null,
     contextInfo: ContextInfo | null,
     metricsInfo: MetricsInfo | null,
     cacheTimerInfo: CacheTimerInfo | null,
+    whenContext: Record<string, unknown>,
   ): Promise<string> {
     const colors = this.getThemeColors();
     const currentDir = hookData.workspace?.current_dir || hookData.cwd || "/";
 
-    const segments = Object.entries(lineConfig.segments)
-      .filter(
-        ([_, config]: [string, AnySegmentConfig | undefined]) =>
-          config?.enabled,
-      )
-      .map(([type, config]: [string, AnySegmentConfig]) => ({ type, config }));
+    const segments = this.getEnabledSegments(lineConfig).filter((segment) =>
+      this.isSegmentVisible(segment.config, whenContext),
+    );
 
     const renderedSegments: RenderedSegment[] = [];
     for (const segment of segments) {
@@ -474,6 +1076,9 @@ export class PowerlineRenderer {
         usageInfo,
         blockInfo,
         todayInfo,
+        projectInfo,
+        weekInfo,
+        monthInfo,
         contextInfo,
         metricsInfo,
         cacheTimerInfo,
@@ -501,6 +1106,9 @@ export class PowerlineRenderer {
     usageInfo: UsageInfo | null,
     blockInfo: BlockInfo | null,
     todayInfo: TodayInfo | null,
+    projectInfo: ProjectInfo | null,
+    weekInfo: PeriodInfo | null,
+    monthInfo: PeriodInfo | null,
     contextInfo: ContextInfo | null,
     metricsInfo: MetricsInfo | null,
     cacheTimerInfo: CacheTimerInfo | null,
@@ -582,6 +1190,25 @@ export class PowerlineRenderer {
       );
     }
 
+    if (segment.type === "project") {
+      if (!projectInfo) return null;
+      return this.segmentRenderer.renderProject(
+        projectInfo,
+        colors,
+        segment.config as ProjectSegmentConfig,
+      );
+    }
+
+    if (segment.type === "week" || segment.type === "month") {
+      const periodInfo = segment.type === "week" ? weekInfo : monthInfo;
+      if (!periodInfo) return null;
+      return this.segmentRenderer.renderPeriod(
+        periodInfo,
+        colors,
+        segment.config as PeriodSegmentConfig,
+      );
+    }
+
     if (segment.type === "version") {
       return this.renderVersionSegment(
         segment.config as VersionSegmentConfig,
@@ -597,11 +1224,28 @@ export class PowerlineRenderer {
       );
     }
 
+    if (segment.type === "command") {
+      return await this.renderCommandSegment(
+        segment.config as CommandSegmentConfig,
+        colors,
+        currentDir,
+      );
+    }
+
     if (segment.type === "weekly") {
       return this.segmentRenderer.renderWeekly(
         hookData,
         colors,
         segment.config as WeeklySegmentConfig,
+        await this.getWeeklyForecast(hookData),
+      );
+    }
+
+    if (segment.type === "sparkline") {
+      return await this.renderSparklineSegment(
+        segment.config as SparklineSegmentConfig,
+        hookData,
+        colors,
       );
     }
 
@@ -610,6 +1254,7 @@ export class PowerlineRenderer {
         hookData,
         colors,
         segment.config as AgentSegmentConfig,
+        await this.getSubagents(hookData),
       );
     }
 
@@ -630,9 +1275,42 @@ export class PowerlineRenderer {
       );
     }
 
+    const plugin = this.plugins.get(segment.type);
+    if (plugin) {
+      return this.renderPluginSegment(
+        segment.type,
+        plugin,
+        segment.config,
+        hookData,
+        colors,
+      );
+    }
+
     return null;
   }
 
+  private async renderPluginSegment(
+    name: string,
+    plugin: SegmentPlugin,
+    config: AnySegmentConfig,
+    hookData: ClaudeHookData,
+    colors: PowerlineColors,
+  ) {
+    const output = await runSegmentPlugin(
+      plugin,
+      this.pluginContext(name, hookData, config),
+    );
+    if (!output?.text) return null;
+
+    const pluginColors = colors.pluginColors?.[name];
+    return {
+      text: output.text,
+      bgColor: pluginColors?.bg ?? colors.envBg,
+      fgColor: pluginColors?.fg ?? colors.envFg,
+      bold: pluginColors?.bold ?? colors.envBold,
+    };
+  }
+
   private async renderGitSegment(
     config: GitSegmentConfig,
     hookData: ClaudeHookData,
@@ -641,7 +1319,7 @@ export class PowerlineRenderer {
   ) {
     if (!this.needsSegmentInfo("git")) return null;
 
-    const gitInfo = await this.gitService.getGitInfo(
+    const gitInfo = await this.getGitInfo(
       currentDir,
       {
         showSha: config?.showSha,
@@ -671,6 +1349,35 @@ export class PowerlineRenderer {
     return this.segmentRenderer.renderSession(usageInfo, colors, config);
   }
 
+  private async renderCommandSegment(
+    config: CommandSegmentConfig,
+    colors: PowerlineColors,
+    currentDir: string,
+  ) {
+    const commandInfo = await this.commandProvider.getCommandInfo(
+      config,
+      currentDir,
+    );
+    return commandInfo
+      ? this.segmentRenderer.renderCommand(commandInfo, colors, config)
+      : null;
+  }
+
+  private async renderSparklineSegment(
+    config: SparklineSegmentConfig,
+    hookData: ClaudeHookData,
+    colors: PowerlineColors,
+  ) {
+    const sparklineInfo = await this.sparklineProvider.getSparklineInfo(
+      hookData.session_id,
+      config.metric,
+      config.turns,
+    );
+    return sparklineInfo
+      ? this.segmentRenderer.renderSparkline(sparklineInfo, colors, config)
+      : null;
+  }
+
   private async renderTmuxSegment(colors: PowerlineColors) {
     if (!this.needsSegmentInfo("tmux")) return null;
     const tmuxSessionId = await this.tmuxService.getSessionId();
@@ -751,6 +1458,10 @@ export class PowerlineRenderer {
       session_cost: symbolSet.session_cost,
       block_cost: symbolSet.block_cost,
       today_cost: symbolSet.today_cost,
+      today_projected: symbolSet.today_projected,
+      project_cost: symbolSet.project_cost,
+      week_cost: symbolSet.week_cost,
+      month_cost: symbolSet.month_cost,
       context_time: symbolSet.context_time,
       metrics_response: symbolSet.metrics_response,
       metrics_last_response: symbolSet.metrics_last_response,
@@ -763,9 +1474,14 @@ export class PowerlineRenderer {
       bar_filled: symbolSet.bar_filled,
       bar_empty: symbolSet.bar_empty,
       env: symbolSet.env,
+      command: symbolSet.command,
       session_id: symbolSet.session_id,
       weekly_cost: symbolSet.weekly_cost,
+      sparkline: symbolSet.sparkline,
+      sparkline_levels: symbolSet.sparkline_levels,
       agent: symbolSet.agent,
+      agent_active: symbolSet.agent_active,
+      agent_finished: symbolSet.agent_finished,
       thinking: symbolSet.thinking,
       cache_timer: symbolSet.cache_timer,
     };
@@ -808,9 +1524,15 @@ export class PowerlineRenderer {
     const isLightTheme = theme === "light";
     const terminalRef = isLightTheme ? "#f0f0f0" : "#1e1e1e";
 
-    const getSegmentColors = (segment: Exclude<keyof ColorTheme, "tui">) => {
+    // `inherit` lets custom themes that only define contextWarning and
+    // contextCritical keep using them for the other threshold segments.
+    const getSegmentColors = (
+      segment: Exclude<keyof ColorTheme, "tui">,
+      inherit?: keyof ColorTheme,
+    ) => {
       const fallback = fallbackTheme[segment];
-      const custom = colorTheme[segment];
+      const custom =
+        colorTheme[segment] ?? (inherit ? colorTheme[inherit] : undefined);
       const colors = {
         fg: custom?.fg || fallback.fg,
         bg: custom?.bg || fallback.bg,
@@ -835,19 +1557,55 @@ export class PowerlineRenderer {
     const git = getSegmentColors("git");
     const model = getSegmentColors("model");
     const session = getSegmentColors("session");
+    const sessionWarning = getSegmentColors("sessionWarning", "contextWarning");
+    const sessionCritical = getSegmentColors(
+      "sessionCritical",
+      "contextCritical",
+    );
     const block = getSegmentColors("block");
+    const blockWarning = getSegmentColors("blockWarning", "contextWarning");
+    const blockCritical = getSegmentColors("blockCritical", "contextCritical");
     const today = getSegmentColors("today");
+    const todayWarning = getSegmentColors("todayWarning", "contextWarning");
+    const todayCritical = getSegmentColors("todayCritical", "contextCritical");
+    const project = getSegmentColors("project");
+    const projectWarning = getSegmentColors("projectWarning", "contextWarning");
+    const projectCritical = getSegmentColors(
+      "projectCritical",
+      "contextCritical",
+    );
+    const week = getSegmentColors("week");
+    const weekWarning = getSegmentColors("weekWarning", "contextWarning");
+    const weekCritical = getSegmentColors("weekCritical", "contextCritical");
+    const month = getSegmentColors("month");
+    const monthWarning = getSegmentColors("monthWarning", "contextWarning");
+    const monthCritical = getSegmentColors("monthCritical", "contextCritical");
     const tmux = getSegmentColors("tmux");
     const context = getSegmentColors("context");
     const contextWarning = getSegmentColors("contextWarning");
     const contextCritical = getSegmentColors("contextCritical");
     const metrics = getSegmentColors("metrics");
+    const sparkline = getSegmentColors("sparkline", "metrics");
     const version = getSegmentColors("version");
     const env = getSegmentColors("env");
     const weekly = getSegmentColors("weekly");
+    const weeklyWarning = getSegmentColors("weeklyWarning", "contextWarning");
+    const weeklyCritical = getSegmentColors(
+      "weeklyCritical",
+      "contextCritical",
+    );
     const agent = getSegmentColors("agent");
     const thinking = getSegmentColors("thinking");
     const cacheTimer = getSegmentColors("cacheTimer");
+    const cacheTimerWarning = getSegmentColors(
+      "cacheTimerWarning",
+      "contextWarning",
+    );
+    const cacheTimerCritical = getSegmentColors(
+      "cacheTimerCritical",
+      "contextCritical",
+    );
+    const command = getSegmentColors("command");
 
     return {
       reset: colorSupport === "none" ? "" : RESET_CODE,
@@ -863,12 +1621,57 @@ export class PowerlineRenderer {
       sessionBg: session.bg,
       sessionFg: session.fg,
       sessionBold: session.bold,
+      sessionWarningBg: sessionWarning.bg,
+      sessionWarningFg: sessionWarning.fg,
+      sessionWarningBold: sessionWarning.bold,
+      sessionCriticalBg: sessionCritical.bg,
+      sessionCriticalFg: sessionCritical.fg,
+      sessionCriticalBold: sessionCritical.bold,
       blockBg: block.bg,
       blockFg: block.fg,
       blockBold: block.bold,
+      blockWarningBg: blockWarning.bg,
+      blockWarningFg: blockWarning.fg,
+      blockWarningBold: blockWarning.bold,
+      blockCriticalBg: blockCritical.bg,
+      blockCriticalFg: blockCritical.fg,
+      blockCriticalBold: blockCritical.bold,
       todayBg: today.bg,
       todayFg: today.fg,
       todayBold: today.bold,
+      todayWarningBg: todayWarning.bg,
+      todayWarningFg: todayWarning.fg,
+      todayWarningBold: todayWarning.bold,
+      todayCriticalBg: todayCritical.bg,
+      todayCriticalFg: todayCritical.fg,
+      todayCriticalBold: todayCritical.bold,
+      projectBg: project.bg,
+      projectFg: project.fg,
+      projectBold: project.bold,
+      projectWarningBg: projectWarning.bg,
+      projectWarningFg: projectWarning.fg,
+      projectWarningBold: projectWarning.bold,
+      projectCriticalBg: projectCritical.bg,
+      projectCriticalFg: projectCritical.fg,
+      projectCriticalBold: projectCritical.bold,
+      weekBg: week.bg,
+      weekFg: week.fg,
+      weekBold: week.bold,
+      weekWarningBg: weekWarning.bg,
+      weekWarningFg: weekWarning.fg,
+      weekWarningBold: weekWarning.bold,
+      weekCriticalBg: weekCritical.bg,
+      weekCriticalFg: weekCritical.fg,
+      weekCriticalBold: weekCritical.bold,
+      monthBg: month.bg,
+      monthFg: month.fg,
+      monthBold: month.bold,
+      monthWarningBg: monthWarning.bg,
+      monthWarningFg: monthWarning.fg,
+      monthWarningBold: monthWarning.bold,
+      monthCriticalBg: monthCritical.bg,
+      monthCriticalFg: monthCritical.fg,
+      monthCriticalBold: monthCritical.bold,
       tmuxBg: tmux.bg,
       tmuxFg: tmux.fg,
       tmuxBold: tmux.bold,
@@ -884,6 +1687,9 @@ export class PowerlineRenderer {
       metricsBg: metrics.bg,
       metricsFg: metrics.fg,
       metricsBold: metrics.bold,
+      sparklineBg: sparkline.bg,
+      sparklineFg: sparkline.fg,
+      sparklineBold: sparkline.bold,
       versionBg: version.bg,
       versionFg: version.fg,
       versionBold: version.bold,
@@ -893,6 +1699,12 @@ export class PowerlineRenderer {
       weeklyBg: weekly.bg,
       weeklyFg: weekly.fg,
       weeklyBold: weekly.bold,
+      weeklyWarningBg: weeklyWarning.bg,
+      weeklyWarningFg: weeklyWarning.fg,
+      weeklyWarningBold: weeklyWarning.bold,
+      weeklyCriticalBg: weeklyCritical.bg,
+      weeklyCriticalFg: weeklyCritical.fg,
+      weeklyCriticalBold: weeklyCritical.bold,
       agentBg: agent.bg,
       agentFg: agent.fg,
       agentBold: agent.bold,
@@ -902,10 +1714,45 @@ export class PowerlineRenderer {
       cacheTimerBg: cacheTimer.bg,
       cacheTimerFg: cacheTimer.fg,
       cacheTimerBold: cacheTimer.bold,
+      cacheTimerWarningBg: cacheTimerWarning.bg,
+      cacheTimerWarningFg: cacheTimerWarning.fg,
+      cacheTimerWarningBold: cacheTimerWarning.bold,
+      cacheTimerCriticalBg: cacheTimerCritical.bg,
+      cacheTimerCriticalFg: cacheTimerCritical.fg,
+      cacheTimerCriticalBold: cacheTimerCritical.bold,
+      commandBg: command.bg,
+      commandFg: command.fg,
+      commandBold: command.bold,
       partFg: theme === "custom" ? this.resolvePartColors(convertHex) : {},
+      pluginColors: this.resolvePluginColors(convertHex, colorSupport),
     };
   }
 
+  private resolvePluginColors(
+    convertHex: (hex: string, isBg: boolean) => string,
+    colorSupport: string,
+  ): Record<string, { bg: string; fg: string; bold: boolean }> {
+    const custom = this.config.colors?.custom as
+      | Record<string, { bg?: string; fg?: string; bold?: boolean }>
+      | undefined;
+
+    const result: Record<string, { bg: string; fg: string; bold: boolean }> =
+      {};
+    for (const [name, plugin] of this.plugins) {
+      const color =
+        this.config.theme === "custom" && custom?.[name]
+          ? custom[name]
+          : plugin.colors;
+      if (!color?.bg || !color.fg) continue;
+      result[name] = {
+        bg: convertHex(color.bg, true),
+        fg: convertHex(color.fg, false),
+        bold: colorSupport !== "none" && Boolean(color.bold),
+      };
+    }
+    return result;
+  }
+
   private resolvePartColors(
     convertHex: (hex: string, isBg: boolean) => string,
   ): Record<string, string> {
@@ -941,12 +1788,20 @@ export class PowerlineRenderer {
         return colors.blockBg;
       case "today":
         return colors.todayBg;
+      case "project":
+        return colors.projectBg;
+      case "week":
+        return colors.weekBg;
+      case "month":
+        return colors.monthBg;
       case "tmux":
         return colors.tmuxBg;
       case "context":
         return colors.contextBg;
       case "metrics":
         return colors.metricsBg;
+      case "sparkline":
+        return colors.sparklineBg;
       case "version":
         return colors.versionBg;
       case "env":
@@ -959,6 +1814,8 @@ export class PowerlineRenderer {
         return colors.thinkingBg;
       case "cacheTimer":
         return colors.cacheTimerBg;
+      case "command":
+        return colors.commandBg;
       default:
         return colors.modeBg;
     }
@@ -982,12 +1839,20 @@ export class PowerlineRenderer {
         return colors.blockBold;
       case "today":
         return colors.todayBold;
+      case "project":
+        return colors.projectBold;
+      case "week":
+        return colors.weekBold;
+      case "month":
+        return colors.monthBold;
       case "tmux":
         return colors.tmuxBold;
       case "context":
         return colors.contextBold;
       case "metrics":
         return colors.metricsBold;
+      case "sparkline":
+        return colors.sparklineBold;
       case "version":
         return colors.versionBold;
       case "env":
@@ -1000,6 +1865,8 @@ export class PowerlineRenderer {
         return colors.thinkingBold;
       case "cacheTimer":
         return colors.cacheTimerBold;
+      case "command":
+        return colors.commandBold;
       default:
         return colors.modeBold;
     }
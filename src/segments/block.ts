@@ -1,15 +1,25 @@
 import { debug } from "../utils/logger";
 import { minutesUntilReset } from "../utils/formatters";
+import { getRateLimitForecast } from "../utils/rate-limit-forecast";
 import type { ClaudeHookData } from "../utils/claude";
+import type { RateLimitForecast } from "../utils/rate-limit-forecast";
 
 export interface BlockInfo {
   nativeUtilization: number;
   timeRemaining: number;
+  /** Where the utilization trend leads, when requested and known. */
+  forecast: RateLimitForecast | null;
+}
+
+export interface BlockInfoOptions {
+  /** Record this utilization sample and forecast from the persisted trend. */
+  forecast?: boolean;
 }
 
 export class BlockProvider {
   async getActiveBlockInfo(
     hookData?: ClaudeHookData,
+    options: BlockInfoOptions = {},
   ): Promise<BlockInfo | null> {
     const fiveHour = hookData?.rate_limits?.five_hour;
     if (!fiveHour) {
@@ -26,6 +36,9 @@ export class BlockProvider {
     return {
       nativeUtilization: fiveHour.used_percentage,
       timeRemaining,
+      forecast: options.forecast
+        ? await getRateLimitForecast("five_hour", fiveHour)
+        : null,
     };
   }
 }
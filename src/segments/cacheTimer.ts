@@ -1,5 +1,7 @@
-import { readFile, stat } from "node:fs/promises";
+import { stat } from "node:fs/promises";
 import { debug } from "../utils/logger";
+import { readTranscriptIncrementally } from "../utils/transcript-reader";
+import type { TranscriptFold } from "../utils/transcript-reader";
 import type { ClaudeHookData } from "../utils/claude";
 
 export interface CacheTimerInfo {
@@ -22,6 +24,32 @@ interface TranscriptEntry {
   };
 }
 
+/** The latest user turn and the cache TTL of the latest cache write. */
+interface TranscriptActivity {
+  lastUserTimestamp: number | null;
+  ttlSeconds: number | null;
+}
+
+const ACTIVITY_FOLD: TranscriptFold<TranscriptActivity> = {
+  name: "cache-timer",
+  initial: () => ({ lastUserTimestamp: null, ttlSeconds: null }),
+  add: (activity, line) => {
+    const entry = line as TranscriptEntry;
+    const role = entry.type || entry.message?.role || entry.message?.type;
+    if (role === "user" && entry.timestamp) {
+      const t = Date.parse(entry.timestamp);
+      if (!Number.isNaN(t)) activity.lastUserTimestamp = t;
+    } else if (role === "assistant") {
+      const cc = entry.message?.usage?.cache_creation;
+      if ((cc?.ephemeral_1h_input_tokens ?? 0) > 0) {
+        activity.ttlSeconds = 3600;
+      } else if ((cc?.ephemeral_5m_input_tokens ?? 0) > 0) {
+        activity.ttlSeconds = 300;
+      }
+    }
+  },
+};
+
 export class CacheTimerProvider {
   async getCacheTimerInfo(
     hookData: ClaudeHookData,
@@ -32,70 +60,18 @@ export class CacheTimerProvider {
       return null;
     }
 
-    const lines = await this.readTranscriptLines(path);
-    const anchor =
-      (lines && this.lastUserTimestamp(lines)) ?? (await this.fileMtime(path));
+    const activity = await readTranscriptIncrementally(path, ACTIVITY_FOLD);
+    const anchor = activity?.lastUserTimestamp ?? (await this.fileMtime(path));
     if (anchor === null) return null;
 
     const elapsedSeconds = Math.max(
       0,
       Math.floor((Date.now() - anchor) / 1000),
     );
-    const detectedTtlSeconds = lines
-      ? (this.detectTtlSeconds(lines) ?? undefined)
-      : undefined;
+    const detectedTtlSeconds = activity?.ttlSeconds ?? undefined;
     return { elapsedSeconds, detectedTtlSeconds };
   }
 
-  private async readTranscriptLines(path: string): Promise<string[] | null> {
-    try {
-      const content = await readFile(path, "utf-8");
-      return content.split("\n");
-    } catch (error) {
-      debug(`CacheTimer: readFile failed for ${path}: ${String(error)}`);
-      return null;
-    }
-  }
-
-  private lastUserTimestamp(lines: string[]): number | null {
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const line = lines[i]?.trim();
-      if (!line) continue;
-      try {
-        const entry = JSON.parse(line) as TranscriptEntry;
-        const messageType =
-          entry.type || entry.message?.role || entry.message?.type;
-        if (messageType !== "user") continue;
-        if (!entry.timestamp) continue;
-        const t = Date.parse(entry.timestamp);
-        if (Number.isNaN(t)) continue;
-        return t;
-      } catch {
-        continue;
-      }
-    }
-    return null;
-  }
-
-  private detectTtlSeconds(lines: string[]): number | null {
-    for (let i = lines.length - 1; i >= 0; i--) {
-      const line = lines[i]?.trim();
-      if (!line) continue;
-      try {
-        const entry = JSON.parse(line) as TranscriptEntry;
-        const role = entry.type || entry.message?.role || entry.message?.type;
-        if (role !== "assistant") continue;
-        const cc = entry.message?.usage?.cache_creation;
-        if (!cc) continue;
-        if ((cc.ephemeral_1h_input_tokens ?? 0) > 0) return 3600;
-        if ((cc.ephemeral_5m_input_tokens ?? 0) > 0) return 300;
-      } catch {
-        continue;
-      }
-    }
-    return null;
-  }
-
   private async fileMtime(path: string): Promise<number | null> {
     try {
       const { mtime } = await stat(path);
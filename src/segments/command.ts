@@ -0,0 +1,75 @@
+import { exec } from "node:child_process";
+import { promisify } from "node:util";
+import { debug } from "../utils/logger";
+import { CacheManager } from "../utils/cache";
+import type { CommandSegmentConfig } from "./renderer";
+
+const execAsync = promisify(exec);
+
+const DEFAULT_TIMEOUT_MS = 1000;
+const DEFAULT_CACHE_TTL_SECONDS = 30;
+
+export interface CommandInfo {
+  output: string;
+}
+
+export class CommandProvider {
+  async getCommandInfo(
+    config: CommandSegmentConfig,
+    cwd: string,
+  ): Promise<CommandInfo | null> {
+    const command = config.command?.trim();
+    if (!command) return null;
+
+    const ttlSeconds = config.cacheTtl ?? DEFAULT_CACHE_TTL_SECONDS;
+    const cacheKey = CacheManager.createCommandKey(command, cwd);
+
+    if (ttlSeconds > 0) {
+      const cached = await CacheManager.getCommandCache(
+        cacheKey,
+        ttlSeconds * 1000,
+      );
+      if (cached !== null) {
+        return cached ? { output: cached } : null;
+      }
+    }
+
+    const output = await this.runCommand(
+      command,
+      cwd,
+      config.timeout ?? DEFAULT_TIMEOUT_MS,
+    );
+
+    // Failures are cached too, so a hanging command costs one timeout per
+    // TTL instead of one per refresh.
+    if (ttlSeconds > 0) {
+      await CacheManager.setCommandCache(cacheKey, output);
+    }
+
+    return output ? { output } : null;
+  }
+
+  private async runCommand(
+    command: string,
+    cwd: string,
+    timeout: number,
+  ): Promise<string> {
+    try {
+      const result = await execAsync(command, {
+        cwd,
+        encoding: "utf8",
+        timeout,
+        windowsHide: true,
+      });
+      const firstLine = result.stdout
+        .split("\n")
+        .map((line) => line.trim())
+        .find((line) => line.length > 0);
+      debug(`Command "${command}" output: ${firstLine || "empty"}`);
+      return firstLine ?? "";
+    } catch (error) {
+      debug(`Command "${command}" failed:`, error);
+      return "";
+    }
+  }
+}
@@ -1,8 +1,8 @@
-import type { ParsedEntry, ClaudeHookData } from "../utils/claude";
+import type { ClaudeHookData } from "../utils/claude";
 import type { PowerlineConfig } from "../config/loader";
 
 import { debug } from "../utils/logger";
-import { parseJsonlFile } from "../utils/claude";
+import { readTranscriptUsage } from "../utils/usage-history";
 
 export interface ContextInfo {
   totalTokens: number;
@@ -138,36 +138,10 @@ export class ContextProvider {
     try {
       debug(`Calculating context tokens from transcript: ${transcriptPath}`);
 
-      const parsedEntries = await parseJsonlFile(transcriptPath);
-
-      if (parsedEntries.length === 0) {
-        debug("No entries in transcript");
-        return null;
-      }
-
-      let mostRecentEntry: ParsedEntry | null = null;
-
-      for (let i = parsedEntries.length - 1; i >= 0; i--) {
-        const entry = parsedEntries[i];
-        if (!entry) continue;
-
-        if (!entry.message?.usage?.input_tokens) continue;
-        if (entry.isSidechain === true) continue;
-
-        mostRecentEntry = entry;
-        debug(
-          `Context segment: Found most recent entry at ${entry.timestamp.toISOString()}, stopping search`,
-        );
-        break;
-      }
-
-      if (mostRecentEntry?.message?.usage) {
-        const usage = mostRecentEntry.message.usage;
-        const totalTokens =
-          (usage.input_tokens || 0) +
-          (usage.cache_read_input_tokens || 0) +
-          (usage.cache_creation_input_tokens || 0);
+      const usage = await readTranscriptUsage(transcriptPath);
 
+      if (usage && usage.contextTokens !== null) {
+        const totalTokens = usage.contextTokens;
         const contextLimit = modelId ? this.getContextLimit(modelId) : 200000;
 
         debug(
@@ -3,12 +3,23 @@ export type { GitInfo } from "./git";
 export { TmuxService } from "./tmux";
 export { SessionProvider, UsageProvider } from "./session";
 export type { SessionInfo, UsageInfo, TokenBreakdown } from "./session";
+export type { ModelFamily, ModelUsage } from "./pricing";
 export { ContextProvider } from "./context";
 export type { ContextInfo } from "./context";
 export { MetricsProvider } from "./metrics";
 export type { MetricsInfo } from "./metrics";
 export { CacheTimerProvider } from "./cacheTimer";
 export type { CacheTimerInfo } from "./cacheTimer";
+export { ProjectProvider } from "./project";
+export type { ProjectInfo, ProjectPeriod } from "./project";
+export { PeriodProvider } from "./period";
+export type { PeriodInfo, BudgetPeriod } from "./period";
+export { SparklineProvider } from "./sparkline";
+export { SubagentProvider } from "./subagents";
+export type { SubagentInfo, SubagentState } from "./subagents";
+export type { SparklineInfo, SparklineMetric } from "./sparkline";
+export { CommandProvider } from "./command";
+export type { CommandInfo } from "./command";
 export { SegmentRenderer, shouldShowWorktree } from "./renderer";
 export type {
   PowerlineSymbols,
@@ -20,10 +31,14 @@ export type {
   MetricsSegmentConfig,
   BlockSegmentConfig,
   TodaySegmentConfig,
+  ProjectSegmentConfig,
+  PeriodSegmentConfig,
   VersionSegmentConfig,
   SessionIdSegmentConfig,
   EnvSegmentConfig,
+  CommandSegmentConfig,
   WeeklySegmentConfig,
+  SparklineSegmentConfig,
   AgentSegmentConfig,
   ThinkingSegmentConfig,
   CacheTimerSegmentConfig,
@@ -1,8 +1,9 @@
 import type { ClaudeHookData } from "../utils/claude";
 
-import { readFile } from "node:fs/promises";
 import { debug } from "../utils/logger";
 import { findTranscriptFile } from "../utils/claude";
+import { readTranscriptIncrementally } from "../utils/transcript-reader";
+import type { TranscriptFold } from "../utils/transcript-reader";
 
 export interface MetricsInfo {
   responseTime: number | null;
@@ -33,65 +34,78 @@ interface TranscriptEntry {
   isSidechain?: boolean;
 }
 
+/** What the metrics segment keeps of a session's main-chain transcript. */
+interface TranscriptMetrics {
+  messageCount: number;
+  /** The latest entries, with message content reduced to its first part's type. */
+  recentEntries: TranscriptEntry[];
+}
+
+const RECENT_ENTRIES = 20;
+
+function isRealUserMessage(entry: TranscriptEntry): boolean {
+  const messageType = entry.type || entry.message?.role || entry.message?.type;
+  const isToolResult =
+    entry.type === "user" &&
+    entry.message?.content?.[0]?.type === "tool_result";
+  return messageType === "user" && !isToolResult;
+}
+
+const METRICS_FOLD: TranscriptFold<TranscriptMetrics> = {
+  name: "metrics",
+  initial: () => ({ messageCount: 0, recentEntries: [] }),
+  add: (metrics, line) => {
+    const entry = line as unknown as TranscriptEntry;
+    if (entry.isSidechain === true) return;
+
+    if (isRealUserMessage(entry)) metrics.messageCount++;
+    const content = entry.message?.content;
+    metrics.recentEntries.push({
+      timestamp: entry.timestamp,
+      type: entry.type,
+      message: entry.message && {
+        role: entry.message.role,
+        type: entry.message.type,
+        content: Array.isArray(content)
+          ? [{ type: content[0]?.type }]
+          : undefined,
+      },
+    });
+    if (metrics.recentEntries.length > RECENT_ENTRIES) {
+      metrics.recentEntries.shift();
+    }
+  },
+};
+
 export class MetricsProvider {
-  private async loadTranscriptEntries(
+  private async loadTranscriptMetrics(
     sessionId: string,
-  ): Promise<TranscriptEntry[]> {
+  ): Promise<TranscriptMetrics> {
+    const empty = METRICS_FOLD.initial();
     try {
       const transcriptPath = await findTranscriptFile(sessionId);
       if (!transcriptPath) {
         debug(`No transcript found for session: ${sessionId}`);
-        return [];
+        return empty;
       }
 
       debug(`Loading transcript from: ${transcriptPath}`);
-
-      const content = await readFile(transcriptPath, "utf-8");
-      const lines = content
-        .trim()
-        .split("\n")
-        .filter((line) => line.trim());
-
-      const entries: TranscriptEntry[] = [];
-
-      for (const line of lines) {
-        try {
-          const entry = JSON.parse(line) as TranscriptEntry;
-
-          if (entry.isSidechain === true) {
-            continue;
-          }
-
-          entries.push(entry);
-        } catch (parseError) {
-          debug(`Failed to parse JSONL line: ${parseError}`);
-          continue;
-        }
-      }
-
-      debug(`Loaded ${entries.length} transcript entries`);
-      return entries;
+      const metrics = await readTranscriptIncrementally(
+        transcriptPath,
+        METRICS_FOLD,
+      );
+      debug(`Counted ${metrics?.messageCount ?? 0} user messages`);
+      return metrics ?? empty;
     } catch (error) {
       debug(`Error loading transcript for ${sessionId}:`, error);
-      return [];
+      return empty;
     }
   }
 
-  private calculateMessageCount(entries: TranscriptEntry[]): number {
-    return entries.filter((entry) => {
-      const messageType =
-        entry.type || entry.message?.role || entry.message?.type;
-      const isToolResult =
-        entry.type === "user" &&
-        entry.message?.content?.[0]?.type === "tool_result";
-      return messageType === "user" && !isToolResult;
-    }).length;
-  }
-
   private calculateLastResponseTime(entries: TranscriptEntry[]): number | null {
     if (entries.length === 0) return null;
 
-    const recentEntries = entries.slice(-20);
+    const recentEntries = entries.slice(-RECENT_ENTRIES);
 
     let lastUserTime: Date | null = null;
     let bestResponseTime: number | null = null;
@@ -104,12 +118,7 @@ export class MetricsProvider {
         const messageType =
           entry.type || entry.message?.role || entry.message?.type;
 
-        const isToolResult =
-          entry.type === "user" &&
-          entry.message?.content?.[0]?.type === "tool_result";
-        const isRealUserMessage = messageType === "user" && !isToolResult;
-
-        if (isRealUserMessage) {
+        if (isRealUserMessage(entry)) {
           lastUserTime = timestamp;
         } else if (messageType === "assistant" && lastUserTime) {
           const responseTime =
@@ -145,9 +154,9 @@ export class MetricsProvider {
         };
       }
 
-      const entries = await this.loadTranscriptEntries(sessionId);
-      const messageCount = this.calculateMessageCount(entries);
-      const lastResponseTime = this.calculateLastResponseTime(entries);
+      const { messageCount, recentEntries } =
+        await this.loadTranscriptMetrics(sessionId);
+      const lastResponseTime = this.calculateLastResponseTime(recentEntries);
 
       return {
         responseTime: hookData.cost.total_api_duration_ms / 1000,
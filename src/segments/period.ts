@@ -0,0 +1,93 @@
+import type { TokenBreakdown } from "./session";
+import type { BudgetWindow } from "../utils/usage-history";
+
+import { debug } from "../utils/logger";
+import { CacheManager } from "../utils/cache";
+import { PricingService } from "./pricing";
+import {
+  addToTotals,
+  emptyTotals,
+  formatLocalDate,
+  getTotalTokens,
+  getWindowStart,
+  loadUsageRecords,
+} from "../utils/usage-history";
+
+export type BudgetPeriod = "week" | "month";
+
+export interface PeriodInfo {
+  cost: number | null;
+  tokens: number | null;
+  tokenBreakdown: TokenBreakdown | null;
+  period: BudgetPeriod;
+  /** First day the totals cover, e.g. `2026-10-19`. */
+  since: string;
+}
+
+export class PeriodProvider {
+  private async loadPeriodInfo(
+    period: BudgetPeriod,
+    budgetWindow: BudgetWindow,
+  ): Promise<PeriodInfo> {
+    const start = getWindowStart(period, budgetWindow);
+    const since = formatLocalDate(start);
+    const latestMtime = await CacheManager.getLatestTranscriptMtime();
+    const pricingHash = PricingService.getConfigHash();
+
+    const cached = (await CacheManager.getUsageCache(
+      period,
+      latestMtime,
+      pricingHash,
+    )) as PeriodInfo | null;
+    if (cached && cached.since === since) {
+      debug(`Using shared ${period} usage cache`);
+      return cached;
+    }
+
+    const records = await loadUsageRecords({ since: start });
+    debug(`${period} segment: Found ${records.length} entries since ${since}`);
+
+    const totals = emptyTotals();
+    records.forEach((record) => addToTotals(totals, record));
+    const info: PeriodInfo =
+      records.length === 0
+        ? { cost: null, tokens: null, tokenBreakdown: null, period, since }
+        : {
+            cost: totals.costUSD,
+            tokens: getTotalTokens(totals),
+            tokenBreakdown: {
+              input: totals.inputTokens,
+              output: totals.outputTokens,
+              cacheCreation: totals.cacheCreationTokens,
+              cacheRead: totals.cacheReadTokens,
+            },
+            period,
+            since,
+          };
+
+    await CacheManager.setUsageCache(period, info, latestMtime, pricingHash);
+    return info;
+  }
+
+  /**
+   * Spend across all projects in the current week or month window, as
+   * configured by `budget.week` or `budget.month`.
+   */
+  async getPeriodInfo(
+    period: BudgetPeriod,
+    budgetWindow: BudgetWindow = {},
+  ): Promise<PeriodInfo> {
+    try {
+      return await this.loadPeriodInfo(period, budgetWindow);
+    } catch (error) {
+      debug(`Error loading ${period} usage:`, error);
+      return {
+        cost: null,
+        tokens: null,
+        tokenBreakdown: null,
+        period,
+        since: formatLocalDate(getWindowStart(period, budgetWindow)),
+      };
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import { clearTimeout, setTimeout } from "node:timers";
+import { pathToFileURL } from "node:url";
+import { debug } from "../utils/logger";
+import type { ClaudeHookData } from "../utils/claude";
+import type { SegmentColor } from "../themes";
+import type { PowerlineConfig } from "../config/loader";
+import type { SegmentConfig } from "./renderer";
+
+const DEFAULT_TIMEOUT_MS = 1000;
+
+/**
+ * Config block for a plugin segment. Anything besides `enabled`/`showIcon`
+ * and `timeout` is passed through untouched, so plugins can define their
+ * own options.
+ */
+export interface PluginSegmentConfig extends SegmentConfig {
+  /** Milliseconds `provide` may take before the segment is hidden (default: 1000). */
+  timeout?: number;
+  [option: string]: unknown;
+}
+
+export interface SegmentPluginContext {
+  name: string;
+  hookData: ClaudeHookData;
+  config: PluginSegmentConfig;
+  charset: "unicode" | "text";
+}
+
+export interface SegmentPluginOutput {
+  text: string;
+  /** Named sub-values addressable from TUI grid areas as `<name>.<part>`. */
+  parts?: Record<string, string>;
+}
+
+/**
+ * Shape a plugin module must export, either as its default export or as a
+ * named `segment` export. `provide` fetches data (it may be async), `render`
+ * turns it into text; returning null or an empty string hides the segment.
+ */
+export interface SegmentPlugin<T = unknown> {
+  parts?: readonly string[];
+  colors?: SegmentColor;
+  provide?: (ctx: SegmentPluginContext) => T | null | Promise<T | null>;
+  render: (
+    data: T | null,
+    ctx: SegmentPluginContext,
+  ) => SegmentPluginOutput | string | null;
+}
+
+export function isSegmentPlugin(value: unknown): value is SegmentPlugin {
+  if (!value || typeof value !== "object") return false;
+  const candidate = value as Record<string, unknown>;
+  if (typeof candidate.render !== "function") return false;
+  if (
+    candidate.provide !== undefined &&
+    typeof candidate.provide !== "function"
+  ) {
+    return false;
+  }
+  if (
+    candidate.parts !== undefined &&
+    (!Array.isArray(candidate.parts) ||
+      !candidate.parts.every((p) => typeof p === "string"))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+async function importPluginModule(
+  name: string,
+  modulePath: string,
+): Promise<SegmentPlugin | null> {
+  try {
+    const mod = (await import(pathToFileURL(modulePath).href)) as Record<
+      string,
+      unknown
+    >;
+    const candidate = mod.default ?? mod.segment;
+    if (!isSegmentPlugin(candidate)) {
+      console.warn(
+        `Warning: plugin segment "${name}" (${modulePath}) does not export a segment with a render() function`,
+      );
+      return null;
+    }
+    return candidate;
+  } catch (error) {
+    console.warn(
+      `Warning: failed to load plugin segment "${name}" from ${modulePath}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return null;
+  }
+}
+
+export async function loadSegmentPlugins(
+  config: PowerlineConfig,
+): Promise<Map<string, SegmentPlugin>> {
+  const plugins = new Map<string, SegmentPlugin>();
+  const entries = Object.entries(config.plugins ?? {});
+
+  const loaded = await Promise.all(
+    entries.map(async ([name, modulePath]) => ({
+      name,
+      plugin: await importPluginModule(name, modulePath),
+    })),
+  );
+
+  for (const { name, plugin } of loaded) {
+    if (plugin) {
+      plugins.set(name, plugin);
+      debug(`Loaded plugin segment "${name}"`);
+    }
+  }
+
+  return plugins;
+}
+
+/** Resolves to what `provide` returns, or rejects once `timeout` passes. */
+async function provideWithin(
+  plugin: SegmentPlugin,
+  ctx: SegmentPluginContext,
+  timeout: number,
+): Promise<unknown> {
+  if (!plugin.provide) return null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    return await Promise.race([
+      plugin.provide(ctx),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new Error(`provide() timed out after ${timeout}ms`)),
+          timeout,
+        );
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs a plugin's provide/render pair. A plugin that throws or whose
+ * `provide` outlasts the segment's `timeout` only loses its own segment;
+ * the rest of the statusline still renders.
+ */
+export async function runSegmentPlugin(
+  plugin: SegmentPlugin,
+  ctx: SegmentPluginContext,
+): Promise<SegmentPluginOutput | null> {
+  try {
+    const data = await provideWithin(
+      plugin,
+      ctx,
+      ctx.config.timeout ?? DEFAULT_TIMEOUT_MS,
+    );
+    const output = plugin.render(data, ctx);
+    if (output === null || output === undefined) return null;
+    if (typeof output === "string") {
+      return output ? { text: output } : null;
+    }
+    return output.text || output.parts ? output : null;
+  } catch (error) {
+    debug(`Plugin segment "${ctx.name}" failed:`, error);
+    return null;
+  }
+}
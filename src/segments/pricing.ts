@@ -1,7 +1,9 @@
 import { debug } from "../utils/logger";
 import { get } from "node:https";
+import { createHash } from "node:crypto";
 import { URL } from "node:url";
 import { CacheManager } from "../utils/cache";
+import type { TokenBreakdown } from "./session";
 
 export interface ModelPricing {
   name: string;
@@ -11,6 +13,15 @@ export interface ModelPricing {
   cache_read: number;
   output: number;
 }
+/** Every rate a pricing table must give each model, in USD per million tokens. */
+const PRICING_RATES = [
+  "input",
+  "output",
+  "cache_write_5m",
+  "cache_write_1h",
+  "cache_read",
+] as const;
+
 const OFFLINE_PRICING_DATA: Record<string, ModelPricing> = {
   "claude-haiku-4-5-20251001": {
     name: "Claude Haiku 4.5",
@@ -134,18 +145,48 @@ const OFFLINE_PRICING_DATA: Record<string, ModelPricing> = {
   },
 };
 
+export type PricingSource = "cache" | "remote" | "offline";
+
+/** Rates that replace the published ones, in USD per million tokens. */
+export type PricingOverride = Partial<Omit<ModelPricing, "name">>;
+
+export interface PricingConfig {
+  /**
+   * Per-model rate overrides. A key covers every model ID it prefixes, so
+   * `claude-sonnet-4-5` also applies to `claude-sonnet-4-5-20250929`.
+   */
+  models?: Record<string, PricingOverride>;
+  /** Factor applied to every rate after overrides, e.g. 0.8 for a 20% discount (default: 1). */
+  multiplier?: number;
+  /**
+   * Custom model IDs (Bedrock or Vertex ARNs, gateway aliases) and the known
+   * model they are billed as. An alias also matches inside a longer ID.
+   */
+  aliases?: Record<string, string>;
+}
+
+export type ModelFamily = "opus" | "sonnet" | "haiku" | "other";
+
+export interface ModelUsage {
+  family: ModelFamily;
+  cost: number;
+  tokens: number;
+}
+
 export class PricingService {
   private static executionCache: Record<string, ModelPricing> | null = null;
+  private static pricingSource: PricingSource | null = null;
   private static modelPricingCache = new Map<string, ModelPricing>();
+  private static pricingConfig: PricingConfig = {};
   private static readonly GITHUB_PRICING_URL =
     "https://raw.githubusercontent.com/Owloops/claude-powerline/main/pricing.json";
 
-  private static async loadDiskCache(): Promise<Record<
-    string,
-    ModelPricing
-  > | null> {
+  /** With `ignoreTtl`, returns the last cached table however old it is. */
+  private static async loadDiskCache(
+    ignoreTtl = false,
+  ): Promise<Record<string, ModelPricing> | null> {
     const TTL_24H = 24 * 60 * 60 * 1000;
-    const minValidTime = Date.now() - TTL_24H;
+    const minValidTime = ignoreTtl ? undefined : Date.now() - TTL_24H;
     return (await CacheManager.getUsageCache(
       "pricing",
       minValidTime,
@@ -200,17 +241,12 @@ export class PricingService {
           response.on("end", () => {
             try {
               const json = JSON.parse(data);
-              const dataObj = json as Record<string, unknown>;
-              const meta = dataObj._meta as { updated?: string } | undefined;
-
-              const pricingData: Record<string, unknown> = {};
-              for (const [key, value] of Object.entries(dataObj)) {
-                if (key !== "_meta") {
-                  pricingData[key] = value;
-                }
-              }
+              const meta = (json as Record<string, unknown> | null)?._meta as
+                | { updated?: string }
+                | undefined;
+              const pricingData = this.parsePricingData(json);
 
-              if (this.validatePricingData(pricingData)) {
+              if (pricingData) {
                 debug(
                   `Fetched fresh pricing from GitHub for ${Object.keys(pricingData).length} models`,
                 );
@@ -262,6 +298,7 @@ export class PricingService {
         `[CACHE-HIT] Pricing disk cache: ${Object.keys(diskCached).length} models`,
       );
       this.executionCache = diskCached;
+      this.pricingSource = "cache";
       debug(
         `[CACHE-SET] Pricing execution cache stored: ${Object.keys(diskCached).length} models`,
       );
@@ -275,22 +312,106 @@ export class PricingService {
         `[CACHE-SET] Pricing disk cache stored: ${Object.keys(freshData).length} models`,
       );
       this.executionCache = freshData;
+      this.pricingSource = "remote";
       debug(
         `[CACHE-SET] Pricing execution cache stored: ${Object.keys(freshData).length} models`,
       );
       return freshData;
     }
 
+    // Air-gapped machines never reach GitHub; keep the last fetched or
+    // imported table rather than dropping back to the bundled rates.
+    const staleCached = await this.loadDiskCache(true);
+    if (staleCached) {
+      debug(
+        `[CACHE-FALLBACK] Using stale pricing disk cache: ${Object.keys(staleCached).length} models`,
+      );
+      this.executionCache = staleCached;
+      this.pricingSource = "cache";
+      return staleCached;
+    }
+
     debug(
       `[CACHE-FALLBACK] Using offline pricing data: ${Object.keys(OFFLINE_PRICING_DATA).length} models`,
     );
     this.executionCache = OFFLINE_PRICING_DATA;
+    this.pricingSource = "offline";
     debug(
       `[CACHE-SET] Pricing execution cache stored: ${Object.keys(OFFLINE_PRICING_DATA).length} models`,
     );
     return OFFLINE_PRICING_DATA;
   }
 
+  /** Skips the disk cache and GitHub fetch for the rest of this process. */
+  static useOfflinePricing(): void {
+    this.executionCache = OFFLINE_PRICING_DATA;
+    this.pricingSource = "offline";
+    this.modelPricingCache.clear();
+  }
+
+  /**
+   * Forgets the table this process loaded, so the next lookup goes back to
+   * the disk cache or GitHub. Long-lived processes call this periodically.
+   */
+  static reload(): void {
+    this.executionCache = null;
+    this.pricingSource = null;
+    this.modelPricingCache.clear();
+  }
+
+  /**
+   * Stores a table in the shape of the repo's `pricing.json` in the disk
+   * cache and uses it from now on. Returns null when the data is invalid.
+   */
+  static async importPricing(
+    json: unknown,
+  ): Promise<Record<string, ModelPricing> | null> {
+    const pricingData = this.parsePricingData(json);
+    if (!pricingData) return null;
+
+    await this.saveDiskCache(pricingData);
+    this.executionCache = pricingData;
+    this.pricingSource = "cache";
+    this.modelPricingCache.clear();
+    return pricingData;
+  }
+
+  /** Applies the config's `pricing` section to every later lookup. */
+  static configure(pricingConfig: PricingConfig | undefined): void {
+    this.pricingConfig = pricingConfig ?? {};
+    this.modelPricingCache.clear();
+  }
+
+  /** Identifies the `pricing` config in effect, for caches of costs priced under it. */
+  static getConfigHash(): string {
+    return createHash("md5")
+      .update(JSON.stringify(this.pricingConfig))
+      .digest("hex")
+      .substring(0, 8);
+  }
+
+  /** Where the pricing from getCurrentPricing came from, once it has run. */
+  static getPricingSource(): PricingSource | null {
+    return this.pricingSource;
+  }
+
+  /** Drops the `_meta` entry and validates the model entries that remain. */
+  private static parsePricingData(
+    json: unknown,
+  ): Record<string, ModelPricing> | null {
+    if (!json || typeof json !== "object" || Array.isArray(json)) return null;
+
+    const pricingData: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(json)) {
+      if (key !== "_meta") {
+        pricingData[key] = value;
+      }
+    }
+
+    if (Object.keys(pricingData).length === 0) return null;
+    return this.validatePricingData(pricingData) ? pricingData : null;
+  }
+
   private static validatePricingData(
     data: unknown,
   ): data is Record<string, ModelPricing> {
@@ -300,11 +421,7 @@ export class PricingService {
       if (!value || typeof value !== "object") return false;
       const pricing = value as Record<string, unknown>;
 
-      if (
-        typeof pricing.input !== "number" ||
-        typeof pricing.output !== "number" ||
-        typeof pricing.cache_read !== "number"
-      ) {
+      if (PRICING_RATES.some((rate) => typeof pricing[rate] !== "number")) {
         return false;
       }
     }
@@ -319,24 +436,81 @@ export class PricingService {
     }
 
     const allPricing = await this.getCurrentPricing();
+    const aliasTarget = this.findAliasTarget(modelId);
+    const targetId = aliasTarget ?? modelId;
     let pricing: ModelPricing;
 
-    if (allPricing[modelId]) {
-      pricing = allPricing[modelId];
+    if (allPricing[targetId]) {
+      pricing = allPricing[targetId];
     } else {
-      pricing = this.fuzzyMatchModel(modelId, allPricing);
+      pricing = this.fuzzyMatchModel(targetId, allPricing);
     }
+    pricing = this.applyOverrides(pricing, [modelId, targetId]);
 
     this.modelPricingCache.set(modelId, pricing);
     debug(`[CACHE-SET] Model pricing cache: ${modelId}`);
     return pricing;
   }
 
+  /** The model the longest `pricing.aliases` entry contained in `modelId` maps to. */
+  private static findAliasTarget(modelId: string): string | null {
+    const lowerModelId = modelId.toLowerCase();
+    let best: [string, string] | null = null;
+    for (const [alias, target] of Object.entries(
+      this.pricingConfig.aliases ?? {},
+    )) {
+      const lowerAlias = alias.toLowerCase();
+      const matches =
+        lowerAlias.length > 0 && lowerModelId.includes(lowerAlias);
+      if (matches && (!best || alias.length > best[0].length)) {
+        best = [alias, target];
+      }
+    }
+    return best ? best[1] : null;
+  }
+
+  /** Merges the longest matching `pricing.models` override and applies the multiplier. */
+  private static applyOverrides(
+    pricing: ModelPricing,
+    modelIds: string[],
+  ): ModelPricing {
+    let override: PricingOverride = {};
+    let matchedLength = -1;
+    for (const [key, rates] of Object.entries(
+      this.pricingConfig.models ?? {},
+    )) {
+      const lowerKey = key.toLowerCase();
+      const matches = modelIds.some((id) =>
+        id.toLowerCase().startsWith(lowerKey),
+      );
+      if (matches && key.length > matchedLength) {
+        override = rates;
+        matchedLength = key.length;
+      }
+    }
+
+    const multiplier = this.pricingConfig.multiplier ?? 1;
+    const rates = { ...pricing, ...override };
+    return {
+      name: pricing.name,
+      input: rates.input * multiplier,
+      cache_write_5m: rates.cache_write_5m * multiplier,
+      cache_write_1h: rates.cache_write_1h * multiplier,
+      cache_read: rates.cache_read * multiplier,
+      output: rates.output * multiplier,
+    };
+  }
+
   private static fuzzyMatchModel(
     modelId: string,
     allPricing: Record<string, ModelPricing>,
   ): ModelPricing {
-    const lowerModelId = modelId.toLowerCase();
+    // Custom IDs such as Bedrock inference-profile ARNs embed their alias.
+    const aliasTarget = this.findAliasTarget(modelId);
+    if (aliasTarget && allPricing[aliasTarget]) {
+      return allPricing[aliasTarget];
+    }
+    const lowerModelId = (aliasTarget ?? modelId).toLowerCase();
 
     for (const [key, pricing] of Object.entries(allPricing)) {
       if (key.toLowerCase() === lowerModelId) {
@@ -410,24 +584,57 @@ export class PricingService {
       return 0;
     }
 
-    const modelId = this.extractModelId(entry);
-    const pricing = await this.getModelPricing(modelId);
+    return this.calculateCost(this.extractModelId(entry), {
+      input: usage.input_tokens || 0,
+      output: usage.output_tokens || 0,
+      cacheCreation: usage.cache_creation_input_tokens || 0,
+      cacheRead: usage.cache_read_input_tokens || 0,
+    });
+  }
 
-    const inputTokens = usage.input_tokens || 0;
-    const outputTokens = usage.output_tokens || 0;
-    const cacheCreationTokens = usage.cache_creation_input_tokens || 0;
-    const cacheReadTokens = usage.cache_read_input_tokens || 0;
+  /** Cost of `tokens` at the rates of `modelId`. */
+  static async calculateCost(
+    modelId: string,
+    tokens: TokenBreakdown,
+  ): Promise<number> {
+    const pricing = await this.getModelPricing(modelId);
 
-    const inputCost = (inputTokens / 1_000_000) * pricing.input;
-    const outputCost = (outputTokens / 1_000_000) * pricing.output;
-    const cacheReadCost = (cacheReadTokens / 1_000_000) * pricing.cache_read;
+    const inputCost = (tokens.input / 1_000_000) * pricing.input;
+    const outputCost = (tokens.output / 1_000_000) * pricing.output;
+    const cacheReadCost = (tokens.cacheRead / 1_000_000) * pricing.cache_read;
     const cacheCreationCost =
-      (cacheCreationTokens / 1_000_000) * pricing.cache_write_5m;
+      (tokens.cacheCreation / 1_000_000) * pricing.cache_write_5m;
 
     return inputCost + outputCost + cacheCreationCost + cacheReadCost;
   }
 
-  private static extractModelId(entry: Record<string, unknown>): string {
+  /** The model family a model ID is priced as, e.g. "opus" for `claude-opus-4-1`. */
+  static getModelFamily(modelId: string): ModelFamily {
+    const lowerModelId = (
+      this.findAliasTarget(modelId) ?? modelId
+    ).toLowerCase();
+    if (lowerModelId.includes("opus")) return "opus";
+    if (lowerModelId.includes("sonnet")) return "sonnet";
+    if (lowerModelId.includes("haiku")) return "haiku";
+    return "other";
+  }
+
+  /** Sums cost and tokens per model family, most expensive family first. */
+  static groupByModelFamily(
+    entries: Array<{ model: string; costUSD: number; tokens: number }>,
+  ): ModelUsage[] {
+    const groups = new Map<ModelFamily, ModelUsage>();
+    for (const entry of entries) {
+      const family = this.getModelFamily(entry.model);
+      const group = groups.get(family) ?? { family, cost: 0, tokens: 0 };
+      group.cost += entry.costUSD;
+      group.tokens += entry.tokens;
+      groups.set(family, group);
+    }
+    return [...groups.values()].sort((a, b) => b.cost - a.cost);
+  }
+
+  static extractModelId(entry: Record<string, unknown>): string {
     if (entry.model && typeof entry.model === "string") {
       return entry.model;
     }
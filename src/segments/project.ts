@@ -0,0 +1,103 @@
+import type { TokenBreakdown } from "./session";
+
+import { debug } from "../utils/logger";
+import { CacheManager } from "../utils/cache";
+import { PricingService } from "./pricing";
+import {
+  addToTotals,
+  emptyTotals,
+  getPeriodStart,
+  getTotalTokens,
+  loadUsageRecords,
+} from "../utils/usage-history";
+
+export type ProjectPeriod = "today" | "week" | "all";
+
+export interface ProjectInfo {
+  cost: number | null;
+  tokens: number | null;
+  tokenBreakdown: TokenBreakdown | null;
+  period: ProjectPeriod;
+}
+
+interface CachedProjectInfo {
+  /** Start of the period the totals cover, so a new day or week misses. */
+  since: number | null;
+  info: ProjectInfo;
+}
+
+export class ProjectProvider {
+  private async loadProjectInfo(
+    projectDir: string,
+    period: ProjectPeriod,
+  ): Promise<ProjectInfo> {
+    const since =
+      period === "all"
+        ? null
+        : getPeriodStart(period === "today" ? "day" : "week");
+    const cacheType =
+      `project-${CacheManager.createProjectHash(projectDir)}-${period}` as const;
+    const latestMtime = await CacheManager.getLatestTranscriptMtime(projectDir);
+    const pricingHash = PricingService.getConfigHash();
+
+    const cached = (await CacheManager.getUsageCache(
+      cacheType,
+      latestMtime,
+      pricingHash,
+    )) as CachedProjectInfo | null;
+    if (cached && cached.since === (since?.getTime() ?? null)) {
+      debug(`Using project usage cache for ${projectDir} (${period})`);
+      return cached.info;
+    }
+
+    const records = await loadUsageRecords({
+      since: since ?? undefined,
+      projectDir,
+    });
+    debug(
+      `Project segment: Found ${records.length} entries for ${projectDir} (${period})`,
+    );
+
+    const totals = emptyTotals();
+    records.forEach((record) => addToTotals(totals, record));
+    const info: ProjectInfo =
+      records.length === 0
+        ? { cost: null, tokens: null, tokenBreakdown: null, period }
+        : {
+            cost: totals.costUSD,
+            tokens: getTotalTokens(totals),
+            tokenBreakdown: {
+              input: totals.inputTokens,
+              output: totals.outputTokens,
+              cacheCreation: totals.cacheCreationTokens,
+              cacheRead: totals.cacheReadTokens,
+            },
+            period,
+          };
+
+    const entry: CachedProjectInfo = { since: since?.getTime() ?? null, info };
+    await CacheManager.setUsageCache(
+      cacheType,
+      entry,
+      latestMtime,
+      pricingHash,
+    );
+    return info;
+  }
+
+  /**
+   * Cost and tokens of every session Claude Code stored for `projectDir`,
+   * limited to today or this week unless `period` is `all`.
+   */
+  async getProjectInfo(
+    projectDir: string,
+    period: ProjectPeriod = "all",
+  ): Promise<ProjectInfo> {
+    try {
+      return await this.loadProjectInfo(projectDir, period);
+    } catch (error) {
+      debug("Error loading project usage:", error);
+      return { cost: null, tokens: null, tokenBreakdown: null, period };
+    }
+  }
+}
@@ -1,9 +1,11 @@
 import type { ClaudeHookData } from "../utils/claude";
 import { getEffortLevel, getThinkingEnabled } from "../utils/claude";
 import type { PowerlineColors } from "../themes";
+import { getThresholdColors } from "../themes";
 import type { PowerlineConfig } from "../config/loader";
 import type { BlockInfo } from "./block";
 import type { CacheTimerInfo } from "./cacheTimer";
+import type { CommandInfo } from "./command";
 import type {
   UsageInfo,
   TokenBreakdown,
@@ -12,14 +14,23 @@ import type {
   MetricsInfo,
 } from ".";
 import type { TodayInfo } from "./today";
+import type { ModelUsage } from "./pricing";
+import type { ProjectInfo, ProjectPeriod } from "./project";
+import type { PeriodInfo } from "./period";
+import type { SparklineInfo, SparklineMetric } from "./sparkline";
+import type { SubagentInfo } from "./subagents";
+import type { PluginSegmentConfig } from "./plugin";
 
 import {
   formatModelName,
   abbreviateFishStyle,
   formatCost,
+  drawSparkline,
   formatTokens,
   formatTokenCount,
   formatTokenBreakdown,
+  formatModelBreakdown,
+  formatSubagents,
   formatTimeSince,
   formatDuration,
   formatLongTimeRemaining,
@@ -27,14 +38,26 @@ import {
   formatCacheTimerRemaining,
   collapseHome,
   minutesUntilReset,
+  formatRateLimitForecast,
 } from "../utils/formatters";
-import { resolveBudgetDisplay } from "../utils/budget";
+import type { RateLimitForecast } from "../utils/rate-limit-forecast";
+import { getSessionCost, resolveBudgetDisplay } from "../utils/budget";
 import type { BudgetItemConfig } from "../config/loader";
 import { shouldShowIcon } from "../utils/icon-visibility";
+import {
+  resolveThresholdLevel,
+  resolveUsageThresholdLevel,
+} from "../utils/thresholds";
+import type { SegmentThresholds } from "../utils/thresholds";
 
 export interface SegmentConfig {
   enabled: boolean;
   showIcon?: boolean;
+  /**
+   * Only render the segment while this expression holds, e.g.
+   * `rate_limits.five_hour.used_percentage > 50`. See utils/when.ts.
+   */
+  when?: string;
 }
 
 export interface DirectorySegmentConfig extends SegmentConfig {
@@ -68,10 +91,13 @@ export function shouldShowWorktree(config?: GitSegmentConfig): boolean {
 }
 
 export interface UsageSegmentConfig extends SegmentConfig {
-  type: "cost" | "tokens" | "both" | "breakdown";
+  /** `byModel` splits cost and tokens by model family (opus, sonnet, haiku). */
+  type: "cost" | "tokens" | "both" | "breakdown" | "byModel";
   costSource?: "calculated" | "official";
   /** Show the trailing "tokens" unit on token counts. Only affects `type: "tokens"` and `type: "both"` (default: true). Inert in the `tui` display style, which never renders the suffix. */
   showUnits?: boolean;
+  /** Color levels on the budget percentage (default: 50 and the budget's `warningThreshold`), or on the cost without a budget. */
+  thresholds?: SegmentThresholds;
 }
 
 export interface TmuxSegmentConfig extends SegmentConfig {}
@@ -94,6 +120,8 @@ export interface ContextSegmentConfig extends SegmentConfig {
   displayStyle?: BarDisplayStyle;
   autocompactBuffer?: number;
   percentageMode?: "remaining" | "used";
+  /** Color levels on the used percentage of usable context (default: 60 and 80). */
+  thresholds?: SegmentThresholds;
 }
 
 export interface MetricsSegmentConfig extends SegmentConfig {
@@ -109,12 +137,41 @@ export interface BlockSegmentConfig extends SegmentConfig {
   type: "cost" | "tokens" | "both" | "time" | "weighted";
   burnType?: "cost" | "tokens" | "both" | "none";
   displayStyle?: BarDisplayStyle;
+  /** Color levels on the five-hour utilization (default: 50 and `budget.block.warningThreshold`). */
+  thresholds?: SegmentThresholds;
+  /** Append when the utilization trend hits the limit, e.g. "limit at ~14:20" or "safe until reset" (default: false). */
+  showForecast?: boolean;
 }
 
 export interface TodaySegmentConfig extends SegmentConfig {
-  type: "cost" | "tokens" | "both" | "breakdown";
+  /** `byModel` splits cost and tokens by model family (opus, sonnet, haiku). */
+  type: "cost" | "tokens" | "both" | "breakdown" | "byModel";
   /** Show the trailing "tokens" unit on token counts. Only affects `type: "tokens"` and `type: "both"` (default: true). Inert in the `tui` display style, which never renders the suffix. */
   showUnits?: boolean;
+  /** Color levels on the budget percentage (default: 50 and the budget's `warningThreshold`), or on the cost without a budget. */
+  thresholds?: SegmentThresholds;
+  /** Append the cost projected for the end of the working day, and color the segment by it instead of the spend so far (default: false). */
+  showProjection?: boolean;
+  /** Hour of the day (0-24) the working day ends at, for the projection (default: 18). */
+  workdayEnd?: number;
+}
+
+export interface ProjectSegmentConfig extends SegmentConfig {
+  type: "cost" | "tokens" | "both" | "breakdown";
+  /** Which sessions of the project to sum: today's, this week's (from Monday) or all of them (default: "all"). */
+  period?: ProjectPeriod;
+  /** Show the trailing "tokens" unit on token counts. Only affects `type: "tokens"` and `type: "both"` (default: true). */
+  showUnits?: boolean;
+  /** Color levels on the `budget.project` percentage (default: 50 and its `warningThreshold`), or on the cost without a budget. */
+  thresholds?: SegmentThresholds;
+}
+
+export interface PeriodSegmentConfig extends SegmentConfig {
+  type: "cost" | "tokens" | "both" | "breakdown";
+  /** Show the trailing "tokens" unit on token counts. Only affects `type: "tokens"` and `type: "both"` (default: true). */
+  showUnits?: boolean;
+  /** Color levels on the `budget.week` or `budget.month` percentage (default: 50 and its `warningThreshold`), or on the cost without a budget. */
+  thresholds?: SegmentThresholds;
 }
 
 export interface VersionSegmentConfig extends SegmentConfig {}
@@ -128,12 +185,38 @@ export interface EnvSegmentConfig extends SegmentConfig {
   prefix?: string;
 }
 
+export interface CommandSegmentConfig extends SegmentConfig {
+  command: string;
+  prefix?: string;
+  /** Kill the command after this many milliseconds (default: 1000). */
+  timeout?: number;
+  /** Reuse the last output for this many seconds; 0 runs it every render (default: 30). */
+  cacheTtl?: number;
+}
+
 export interface WeeklySegmentConfig extends SegmentConfig {
   displayStyle?: BarDisplayStyle;
+  /** Color levels on the seven-day utilization (default: 50 and 80). */
+  thresholds?: SegmentThresholds;
+  /** Append when the utilization trend hits the limit, e.g. "limit at ~Thu 14:20" or "safe until reset" (default: false). */
+  showForecast?: boolean;
+}
+
+export interface SparklineSegmentConfig extends SegmentConfig {
+  /** What each bar measures: the turn's total tokens or its cost (default: "tokens"). */
+  metric?: SparklineMetric;
+  /** Number of recent assistant turns to draw (default: 12, at most 100). */
+  turns?: number;
+  /** Append the latest turn's value after the chart (default: false). */
+  showLast?: boolean;
 }
 
 export interface AgentSegmentConfig extends SegmentConfig {
   showLabel?: boolean;
+  /** List the session's subagents with their cost and tokens, or just count them (default: "off"). */
+  subagents?: "off" | "list" | "count";
+  /** Most subagents listed before the rest collapse into `+N` (default: 3). */
+  maxSubagents?: number;
 }
 
 export interface ThinkingSegmentConfig extends SegmentConfig {
@@ -144,6 +227,8 @@ export interface ThinkingSegmentConfig extends SegmentConfig {
 export interface CacheTimerSegmentConfig extends SegmentConfig {
   displayMode?: "elapsed" | "remaining";
   ttlSeconds?: number;
+  /** Color levels in seconds: elapsed time (default: 180 and 300), or time remaining in `remaining` mode, where lower is worse (default: 300 and 60). */
+  thresholds?: SegmentThresholds;
 }
 
 export type AnySegmentConfig =
@@ -156,13 +241,18 @@ export type AnySegmentConfig =
   | MetricsSegmentConfig
   | BlockSegmentConfig
   | TodaySegmentConfig
+  | ProjectSegmentConfig
+  | PeriodSegmentConfig
   | VersionSegmentConfig
   | SessionIdSegmentConfig
   | EnvSegmentConfig
+  | CommandSegmentConfig
   | WeeklySegmentConfig
+  | SparklineSegmentConfig
   | AgentSegmentConfig
   | ThinkingSegmentConfig
-  | CacheTimerSegmentConfig;
+  | CacheTimerSegmentConfig
+  | PluginSegmentConfig;
 
 export interface PowerlineSymbols {
   right: string;
@@ -183,6 +273,10 @@ export interface PowerlineSymbols {
   session_cost: string;
   block_cost: string;
   today_cost: string;
+  today_projected: string;
+  project_cost: string;
+  week_cost: string;
+  month_cost: string;
   context_time: string;
   metrics_response: string;
   metrics_last_response: string;
@@ -195,9 +289,14 @@ export interface PowerlineSymbols {
   bar_filled: string;
   bar_empty: string;
   env: string;
+  command: string;
   session_id: string;
   weekly_cost: string;
+  sparkline: string;
+  sparkline_levels: string;
   agent: string;
+  agent_active: string;
+  agent_finished: string;
   thinking: string;
   cache_timer: string;
 }
@@ -406,30 +505,36 @@ export class SegmentRenderer {
     const costSource = config?.costSource;
     const sessionBudget = this.config.budget?.session;
 
-    const getCost = () => {
-      if (costSource === "calculated") return usageInfo.session.calculatedCost;
-      if (costSource === "official") return usageInfo.session.officialCost;
-      return usageInfo.session.cost;
-    };
-
+    const cost = getSessionCost(usageInfo.session, costSource);
     const formattedUsage = this.formatUsageWithBudget(
-      getCost(),
+      cost,
       usageInfo.session.tokens,
       usageInfo.session.tokenBreakdown,
       type,
       sessionBudget,
       config?.showUnits ?? true,
+      usageInfo.session.modelBreakdown,
     );
 
     if (formattedUsage === null) return null;
 
     const text = `${this.leadingIcon(this.symbols.session_cost, config)}${formattedUsage}`;
+    const level = resolveUsageThresholdLevel(
+      cost,
+      usageInfo.session.tokens,
+      sessionBudget,
+      config?.thresholds,
+    );
+    if (level === "normal") {
+      return {
+        text,
+        bgColor: colors.sessionBg,
+        fgColor: colors.sessionFg,
+      };
+    }
 
-    return {
-      text,
-      bgColor: colors.sessionBg,
-      fgColor: colors.sessionFg,
-    };
+    const { bg, fg, bold } = getThresholdColors(colors, "session", level);
+    return { text, bgColor: bg, fgColor: fg, bold };
   }
 
   renderSessionId(
@@ -497,19 +602,16 @@ export class SegmentRenderer {
       };
     }
 
-    let bgColor = colors.contextBg;
-    let fgColor = colors.contextFg;
-    let bold = colors.contextBold;
-
-    if (contextInfo.contextLeftPercentage <= 20) {
-      bgColor = colors.contextCriticalBg;
-      fgColor = colors.contextCriticalFg;
-      bold = colors.contextCriticalBold;
-    } else if (contextInfo.contextLeftPercentage <= 40) {
-      bgColor = colors.contextWarningBg;
-      fgColor = colors.contextWarningFg;
-      bold = colors.contextWarningBold;
-    }
+    const level = resolveThresholdLevel(
+      contextInfo.usablePercentage,
+      { warning: 60, critical: 80 },
+      config?.thresholds,
+    );
+    const {
+      bg: bgColor,
+      fg: fgColor,
+      bold,
+    } = getThresholdColors(colors, "context", level);
 
     const pct =
       mode === "remaining"
@@ -598,6 +700,10 @@ export class SegmentRenderer {
     return timeStr ? `${pct}% (${timeStr})` : `${pct}%`;
   }
 
+  private formatForecast(forecast: RateLimitForecast | null): string {
+    return forecast ? ` · ${formatRateLimitForecast(forecast.exhaustsAt)}` : "";
+  }
+
   renderMetrics(
     metricsInfo: MetricsInfo | null,
     colors: PowerlineColors,
@@ -691,26 +797,20 @@ export class SegmentRenderer {
   ): SegmentData {
     const pct = Math.round(blockInfo.nativeUtilization);
     const timeStr = formatLongTimeRemaining(blockInfo.timeRemaining);
-    const blockBudget = this.config.budget?.block;
-    const warningThreshold = blockBudget?.warningThreshold ?? 80;
-
-    let bgColor = colors.blockBg;
-    let fgColor = colors.blockFg;
-    let bold = colors.blockBold;
-    if (pct >= warningThreshold) {
-      bgColor = colors.contextCriticalBg;
-      fgColor = colors.contextCriticalFg;
-      bold = colors.contextCriticalBold;
-    } else if (pct >= 50) {
-      bgColor = colors.contextWarningBg;
-      fgColor = colors.contextWarningFg;
-      bold = colors.contextWarningBold;
-    }
+    const level = resolveThresholdLevel(
+      pct,
+      {
+        warning: 50,
+        critical: this.config.budget?.block?.warningThreshold ?? 80,
+      },
+      config?.thresholds,
+    );
+    const { bg, fg, bold } = getThresholdColors(colors, "block", level);
 
     return {
-      text: `${this.leadingIcon(this.symbols.block_cost, config)}${this.formatPercentageWithBar(pct, config?.displayStyle, timeStr)}`,
-      bgColor,
-      fgColor,
+      text: `${this.leadingIcon(this.symbols.block_cost, config)}${this.formatPercentageWithBar(pct, config?.displayStyle, timeStr)}${this.formatForecast(blockInfo.forecast)}`,
+      bgColor: bg,
+      fgColor: fg,
       bold,
     };
   }
@@ -719,6 +819,7 @@ export class SegmentRenderer {
     hookData: ClaudeHookData,
     colors: PowerlineColors,
     config?: WeeklySegmentConfig,
+    forecast: RateLimitForecast | null = null,
   ): SegmentData | null {
     const sevenDay = hookData.rate_limits?.seven_day;
     if (!sevenDay) return null;
@@ -728,27 +829,44 @@ export class SegmentRenderer {
       minutesUntilReset(sevenDay.resets_at),
     );
 
-    let bgColor = colors.weeklyBg;
-    let fgColor = colors.weeklyFg;
-    let bold = colors.weeklyBold;
-    if (pct >= 80) {
-      bgColor = colors.contextCriticalBg;
-      fgColor = colors.contextCriticalFg;
-      bold = colors.contextCriticalBold;
-    } else if (pct >= 50) {
-      bgColor = colors.contextWarningBg;
-      fgColor = colors.contextWarningFg;
-      bold = colors.contextWarningBold;
-    }
+    const level = resolveThresholdLevel(
+      pct,
+      { warning: 50, critical: 80 },
+      config?.thresholds,
+    );
+    const { bg, fg, bold } = getThresholdColors(colors, "weekly", level);
 
     return {
-      text: `${this.leadingIcon(this.symbols.weekly_cost, config)}${this.formatPercentageWithBar(pct, config?.displayStyle, timeStr)}`,
-      bgColor,
-      fgColor,
+      text: `${this.leadingIcon(this.symbols.weekly_cost, config)}${this.formatPercentageWithBar(pct, config?.displayStyle, timeStr)}${this.formatForecast(forecast)}`,
+      bgColor: bg,
+      fgColor: fg,
       bold,
     };
   }
 
+  renderSparkline(
+    sparklineInfo: SparklineInfo,
+    colors: PowerlineColors,
+    config?: SparklineSegmentConfig,
+  ): SegmentData | null {
+    if (sparklineInfo.values.length === 0) return null;
+
+    const chart = drawSparkline(
+      sparklineInfo.values,
+      this.symbols.sparkline_levels,
+    );
+    const last = sparklineInfo.values[sparklineInfo.values.length - 1]!;
+    const lastText = config?.showLast
+      ? ` ${sparklineInfo.metric === "cost" ? formatCost(last) : formatTokenCount(last)}`
+      : "";
+
+    return {
+      text: `${this.leadingIcon(this.symbols.sparkline, config)}${chart}${lastText}`,
+      bgColor: colors.sparklineBg,
+      fgColor: colors.sparklineFg,
+    };
+  }
+
   renderToday(
     todayInfo: TodayInfo,
     colors: PowerlineColors,
@@ -760,6 +878,11 @@ export class SegmentRenderer {
         : configOrType;
     const type = config?.type ?? "cost";
     const todayBudget = this.config.budget?.today;
+    const projectedCost = config?.showProjection
+      ? todayInfo.projectedCost
+      : null;
+    // A shown projection is what the budget warns about, ahead of the spend.
+    const budgetCost = projectedCost ?? todayInfo.cost;
     const formattedUsage = this.formatUsageWithBudget(
       todayInfo.cost,
       todayInfo.tokens,
@@ -767,17 +890,103 @@ export class SegmentRenderer {
       type,
       todayBudget,
       config?.showUnits ?? true,
+      todayInfo.modelBreakdown,
+      budgetCost,
     );
 
     if (formattedUsage === null) return null;
 
-    const text = `${this.leadingIcon(this.symbols.today_cost, config)}${formattedUsage}`;
+    const projection =
+      projectedCost !== null
+        ? ` ${this.symbols.today_projected} ${formatCost(projectedCost)}`
+        : "";
+    const text = `${this.leadingIcon(this.symbols.today_cost, config)}${formattedUsage}${projection}`;
+    const level = resolveUsageThresholdLevel(
+      budgetCost,
+      todayInfo.tokens,
+      todayBudget,
+      config?.thresholds,
+    );
+    if (level === "normal") {
+      return {
+        text,
+        bgColor: colors.todayBg,
+        fgColor: colors.todayFg,
+      };
+    }
 
-    return {
-      text,
-      bgColor: colors.todayBg,
-      fgColor: colors.todayFg,
-    };
+    const { bg, fg, bold } = getThresholdColors(colors, "today", level);
+    return { text, bgColor: bg, fgColor: fg, bold };
+  }
+
+  renderProject(
+    projectInfo: ProjectInfo,
+    colors: PowerlineColors,
+    config?: ProjectSegmentConfig,
+  ): SegmentData | null {
+    const projectBudget = this.config.budget?.project;
+    const formattedUsage = this.formatUsageWithBudget(
+      projectInfo.cost,
+      projectInfo.tokens,
+      projectInfo.tokenBreakdown,
+      config?.type ?? "cost",
+      projectBudget,
+      config?.showUnits ?? true,
+    );
+
+    if (formattedUsage === null) return null;
+
+    const text = `${this.leadingIcon(this.symbols.project_cost, config)}${formattedUsage}`;
+    const level = resolveUsageThresholdLevel(
+      projectInfo.cost,
+      projectInfo.tokens,
+      projectBudget,
+      config?.thresholds,
+    );
+    if (level === "normal") {
+      return {
+        text,
+        bgColor: colors.projectBg,
+        fgColor: colors.projectFg,
+      };
+    }
+
+    const { bg, fg, bold } = getThresholdColors(colors, "project", level);
+    return { text, bgColor: bg, fgColor: fg, bold };
+  }
+
+  renderPeriod(
+    periodInfo: PeriodInfo,
+    colors: PowerlineColors,
+    config?: PeriodSegmentConfig,
+  ): SegmentData | null {
+    const { period } = periodInfo;
+    const periodBudget = this.config.budget?.[period];
+    const formattedUsage = this.formatUsageWithBudget(
+      periodInfo.cost,
+      periodInfo.tokens,
+      periodInfo.tokenBreakdown,
+      config?.type ?? "cost",
+      periodBudget,
+      config?.showUnits ?? true,
+    );
+
+    if (formattedUsage === null) return null;
+
+    const symbol =
+      period === "week" ? this.symbols.week_cost : this.symbols.month_cost;
+    const text = `${this.leadingIcon(symbol, config)}${formattedUsage}`;
+    const level = resolveUsageThresholdLevel(
+      periodInfo.cost,
+      periodInfo.tokens,
+      periodBudget,
+      config?.thresholds,
+    );
+    const { bg, fg, bold } = getThresholdColors(colors, period, level);
+    if (level === "normal") {
+      return { text, bgColor: bg, fgColor: fg };
+    }
+    return { text, bgColor: bg, fgColor: fg, bold };
   }
 
   private getDisplayDirectoryName(
@@ -804,6 +1013,7 @@ export class SegmentRenderer {
     tokenBreakdown: TokenBreakdown | null,
     type: string,
     showUnits: boolean,
+    modelBreakdown: ModelUsage[] | null,
   ): string {
     const tokenStr = showUnits
       ? formatTokens(tokens)
@@ -817,6 +1027,8 @@ export class SegmentRenderer {
         return `${formatCost(cost)} (${tokenStr})`;
       case "breakdown":
         return formatTokenBreakdown(tokenBreakdown);
+      case "byModel":
+        return formatModelBreakdown(modelBreakdown);
       default:
         return formatCost(cost);
     }
@@ -829,8 +1041,10 @@ export class SegmentRenderer {
     type: string,
     budget: BudgetItemConfig | undefined,
     showUnits: boolean,
+    modelBreakdown: ModelUsage[] | null = null,
+    budgetCost = cost,
   ): string | null {
-    const state = resolveBudgetDisplay(cost, tokens, budget);
+    const state = resolveBudgetDisplay(budgetCost, tokens, budget);
     if (state.suppressAll) return null;
     if (!state.showBase) return state.percentText;
 
@@ -840,6 +1054,7 @@ export class SegmentRenderer {
       tokenBreakdown,
       type,
       showUnits,
+      modelBreakdown,
     );
     return state.percentText
       ? `${baseDisplay} ${state.percentText}`
@@ -876,18 +1091,44 @@ export class SegmentRenderer {
     return { text, bgColor: colors.envBg, fgColor: colors.envFg };
   }
 
+  renderCommand(
+    info: CommandInfo,
+    colors: PowerlineColors,
+    config: CommandSegmentConfig,
+  ): SegmentData {
+    const iconPrefix = this.leadingIcon(this.symbols.command, config);
+    const text = config.prefix
+      ? `${iconPrefix}${config.prefix}: ${info.output}`
+      : `${iconPrefix}${info.output}`;
+    return { text, bgColor: colors.commandBg, fgColor: colors.commandFg };
+  }
+
   renderAgent(
     hookData: ClaudeHookData,
     colors: PowerlineColors,
     config?: AgentSegmentConfig,
+    subagents: SubagentInfo[] | null = null,
   ): SegmentData | null {
     const rawName = hookData.agent?.name;
-    if (typeof rawName !== "string") return null;
-    const name = rawName.trim();
-    if (!name) return null;
+    const name = typeof rawName === "string" ? rawName.trim() : "";
+    const mode = config?.subagents ?? "off";
+    const subagentText =
+      mode === "off"
+        ? ""
+        : formatSubagents(
+            subagents,
+            mode,
+            {
+              active: this.symbols.agent_active,
+              finished: this.symbols.agent_finished,
+            },
+            config?.maxSubagents,
+          );
+    if (!name && !subagentText) return null;
 
     const iconPrefix = this.leadingIcon(this.symbols.agent, config);
-    const body = config?.showLabel ? `agent: ${name}` : name;
+    const label = name && config?.showLabel ? `agent: ${name}` : name;
+    const body = [label, subagentText].filter(Boolean).join(" · ");
 
     return {
       text: `${iconPrefix}${body}`,
@@ -929,37 +1170,35 @@ export class SegmentRenderer {
     const e = info.elapsedSeconds;
     const iconPrefix = this.leadingIcon(this.symbols.cache_timer, config);
 
-    let bgColor = colors.cacheTimerBg;
-    let fgColor = colors.cacheTimerFg;
-    let bold = colors.cacheTimerBold;
-
     if (config?.displayMode === "remaining") {
       const ttl = config.ttlSeconds ?? info.detectedTtlSeconds ?? 3600;
       const remaining = Math.max(0, ttl - e);
-      const text = `${iconPrefix}${formatCacheTimerRemaining(remaining)}`;
-      if (remaining < 60) {
-        bgColor = colors.contextCriticalBg;
-        fgColor = colors.contextCriticalFg;
-        bold = colors.contextCriticalBold;
-      } else if (remaining < 300) {
-        bgColor = colors.contextWarningBg;
-        fgColor = colors.contextWarningFg;
-        bold = colors.contextWarningBold;
-      }
-      return { text, bgColor, fgColor, bold };
-    }
-
-    const text = `${iconPrefix}${formatCacheTimerElapsed(e)}`;
-    if (e >= 300) {
-      bgColor = colors.contextCriticalBg;
-      fgColor = colors.contextCriticalFg;
-      bold = colors.contextCriticalBold;
-    } else if (e >= 180) {
-      bgColor = colors.contextWarningBg;
-      fgColor = colors.contextWarningFg;
-      bold = colors.contextWarningBold;
+      const level = resolveThresholdLevel(
+        remaining,
+        { warning: 300, critical: 60 },
+        config.thresholds,
+        "falling",
+      );
+      const { bg, fg, bold } = getThresholdColors(colors, "cacheTimer", level);
+      return {
+        text: `${iconPrefix}${formatCacheTimerRemaining(remaining)}`,
+        bgColor: bg,
+        fgColor: fg,
+        bold,
+      };
     }
 
-    return { text, bgColor, fgColor, bold };
+    const level = resolveThresholdLevel(
+      e,
+      { warning: 180, critical: 300 },
+      config?.thresholds,
+    );
+    const { bg, fg, bold } = getThresholdColors(colors, "cacheTimer", level);
+    return {
+      text: `${iconPrefix}${formatCacheTimerElapsed(e)}`,
+      bgColor: bg,
+      fgColor: fg,
+      bold,
+    };
   }
 }
@@ -1,16 +1,29 @@
 import { debug } from "../utils/logger";
+import { CacheManager } from "../utils/cache";
+import type { ModelUsage } from "./pricing";
 import { PricingService } from "./pricing";
 import {
   findTranscriptFile,
   findAgentTranscripts,
-  parseJsonlFile,
-  type ParsedEntry,
   type ClaudeHookData,
 } from "../utils/claude";
+import {
+  RECENT_RESPONSES,
+  addToTotals,
+  collectUsageRecords,
+  emptyTotals,
+  getTotalTokens,
+  priceResponse,
+  readTranscriptUsage,
+  type RecentResponse,
+  type UsageRecord,
+} from "../utils/usage-history";
 import { dirname } from "node:path";
 
 export interface SessionUsageEntry {
   timestamp: string;
+  /** Model ID the entry is priced with. */
+  model?: string;
   message: {
     usage: {
       input_tokens: number;
@@ -22,8 +35,14 @@ export interface SessionUsageEntry {
   costUSD?: number;
 }
 
+/** Sessions whose last official cost is kept for the `guard` command. */
+const MAX_RECORDED_SESSIONS = 20;
+
 export interface SessionUsage {
   totalCost: number;
+  /** Usage per day and model across the session's transcripts. */
+  records: UsageRecord[];
+  /** The session's last assistant responses, oldest first. */
   entries: SessionUsageEntry[];
 }
 
@@ -40,25 +59,39 @@ export interface SessionInfo {
   officialCost: number | null;
   tokens: number | null;
   tokenBreakdown: TokenBreakdown | null;
+  /** Cost and tokens per model family, most expensive first. */
+  modelBreakdown: ModelUsage[] | null;
 }
 
 export interface UsageInfo {
   session: SessionInfo;
 }
 
-function convertToSessionEntry(entry: ParsedEntry): SessionUsageEntry {
+export function getEntryTokens(entry: SessionUsageEntry): number {
+  const usage = entry.message.usage;
+  return (
+    (usage.input_tokens || 0) +
+    (usage.output_tokens || 0) +
+    (usage.cache_creation_input_tokens || 0) +
+    (usage.cache_read_input_tokens || 0)
+  );
+}
+
+async function convertToSessionEntry(
+  response: RecentResponse,
+): Promise<SessionUsageEntry> {
   return {
-    timestamp: entry.timestamp.toISOString(),
+    timestamp: new Date(response.timestamp).toISOString(),
+    model: response.pricedAs,
     message: {
       usage: {
-        input_tokens: entry.message?.usage?.input_tokens || 0,
-        output_tokens: entry.message?.usage?.output_tokens || 0,
-        cache_creation_input_tokens:
-          entry.message?.usage?.cache_creation_input_tokens,
-        cache_read_input_tokens: entry.message?.usage?.cache_read_input_tokens,
+        input_tokens: response.tokens.input,
+        output_tokens: response.tokens.output,
+        cache_creation_input_tokens: response.tokens.cacheCreation,
+        cache_read_input_tokens: response.tokens.cacheRead,
       },
     },
-    costUSD: entry.costUSD,
+    costUSD: await priceResponse(response),
   };
 }
 
@@ -73,7 +106,6 @@ export class SessionProvider {
 
       debug(`Found transcript at: ${transcriptPath}`);
 
-      const parsedEntries = await parseJsonlFile(transcriptPath);
       const projectPath = dirname(transcriptPath);
       const agentTranscripts = await findAgentTranscripts(
         sessionId,
@@ -82,38 +114,24 @@ export class SessionProvider {
 
       debug(`Found ${agentTranscripts.length} agent transcripts for session`);
 
-      for (const agentPath of agentTranscripts) {
-        const agentEntries = await parseJsonlFile(agentPath);
-        parsedEntries.push(...agentEntries);
-      }
-
-      if (parsedEntries.length === 0) {
-        return { totalCost: 0, entries: [] };
-      }
-
-      const entries: SessionUsageEntry[] = [];
-      let totalCost = 0;
-
-      for (const entry of parsedEntries) {
-        if (entry.message?.usage) {
-          const sessionEntry = convertToSessionEntry(entry);
-
-          if (sessionEntry.costUSD !== undefined) {
-            totalCost += sessionEntry.costUSD;
-          } else {
-            const cost = await PricingService.calculateCostForEntry(entry.raw);
-            sessionEntry.costUSD = cost;
-            totalCost += cost;
-          }
-
-          entries.push(sessionEntry);
-        }
-      }
+      const usages = await Promise.all(
+        [transcriptPath, ...agentTranscripts].map(readTranscriptUsage),
+      );
+      const records = await collectUsageRecords(usages);
+      const recent = usages
+        .flatMap((usage) => usage?.recent ?? [])
+        .sort((a, b) => a.timestamp - b.timestamp)
+        .slice(-RECENT_RESPONSES);
+      const entries = await Promise.all(recent.map(convertToSessionEntry));
+      const totalCost = records.reduce(
+        (sum, record) => sum + record.costUSD,
+        0,
+      );
 
       debug(
-        `Parsed ${entries.length} usage entries, total cost: $${totalCost.toFixed(4)}`,
+        `Read ${records.length} usage records, total cost: $${totalCost.toFixed(4)}`,
       );
-      return { totalCost, entries };
+      return { totalCost, records, entries };
     } catch (error) {
       debug(`Error reading session usage for ${sessionId}:`, error);
       return null;
@@ -142,22 +160,19 @@ export class SessionProvider {
   ): Promise<SessionInfo> {
     const sessionUsage = await this.getSessionUsage(sessionId);
 
-    if (!sessionUsage || sessionUsage.entries.length === 0) {
+    if (!sessionUsage || sessionUsage.records.length === 0) {
       return {
         cost: null,
         calculatedCost: null,
         officialCost: null,
         tokens: null,
         tokenBreakdown: null,
+        modelBreakdown: null,
       };
     }
 
-    const tokenBreakdown = this.calculateTokenBreakdown(sessionUsage.entries);
-    const totalTokens =
-      tokenBreakdown.input +
-      tokenBreakdown.output +
-      tokenBreakdown.cacheCreation +
-      tokenBreakdown.cacheRead;
+    const totals = emptyTotals();
+    sessionUsage.records.forEach((record) => addToTotals(totals, record));
 
     const calculatedCost = sessionUsage.totalCost;
     const hookDataCost = hookData?.cost?.total_cost_usd ?? null;
@@ -167,8 +182,20 @@ export class SessionProvider {
       cost,
       calculatedCost,
       officialCost: hookDataCost,
-      tokens: totalTokens,
-      tokenBreakdown,
+      tokens: getTotalTokens(totals),
+      tokenBreakdown: {
+        input: totals.inputTokens,
+        output: totals.outputTokens,
+        cacheCreation: totals.cacheCreationTokens,
+        cacheRead: totals.cacheReadTokens,
+      },
+      modelBreakdown: PricingService.groupByModelFamily(
+        sessionUsage.records.map((record) => ({
+          model: record.pricedAs,
+          costUSD: record.costUSD,
+          tokens: getTotalTokens(record),
+        })),
+      ),
     };
   }
 }
@@ -200,8 +227,37 @@ export class UsageProvider {
           officialCost: null,
           tokens: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       };
     }
   }
 }
+
+/**
+ * Saves the official cost from the statusline's hook data for callers whose
+ * hook input has none, such as the `guard` command. The most recently
+ * recorded sessions are kept.
+ */
+export async function recordOfficialCost(
+  sessionId: string,
+  cost: number,
+): Promise<void> {
+  const recorded = ((await CacheManager.getUsageCache("session-cost")) ??
+    {}) as Record<string, number>;
+  delete recorded[sessionId];
+  recorded[sessionId] = cost;
+  const kept = Object.entries(recorded).slice(-MAX_RECORDED_SESSIONS);
+  await CacheManager.setUsageCache("session-cost", Object.fromEntries(kept));
+}
+
+/** The official cost last recorded for `sessionId`, or null. */
+export async function getLastOfficialCost(
+  sessionId: string,
+): Promise<number | null> {
+  const recorded = (await CacheManager.getUsageCache("session-cost")) as Record<
+    string,
+    number
+  > | null;
+  return recorded?.[sessionId] ?? null;
+}
@@ -0,0 +1,34 @@
+import { debug } from "../utils/logger";
+import { SessionProvider, getEntryTokens } from "./session";
+
+export type SparklineMetric = "tokens" | "cost";
+
+export interface SparklineInfo {
+  metric: SparklineMetric;
+  /** Per-turn values, oldest first. */
+  values: number[];
+}
+
+export class SparklineProvider {
+  private sessionProvider = new SessionProvider();
+
+  /** Tokens or cost of each of the session's last `turns` assistant responses. */
+  async getSparklineInfo(
+    sessionId: string,
+    metric: SparklineMetric = "tokens",
+    turns = 12,
+  ): Promise<SparklineInfo | null> {
+    const usage = await this.sessionProvider.getSessionUsage(sessionId);
+    if (!usage || usage.entries.length === 0) return null;
+
+    const values = [...usage.entries]
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp))
+      .slice(-turns)
+      .map((entry) =>
+        metric === "cost" ? (entry.costUSD ?? 0) : getEntryTokens(entry),
+      );
+
+    debug(`Sparkline segment: ${values.length} turns of ${metric}`);
+    return { metric, values };
+  }
+}
@@ -0,0 +1,79 @@
+import { readFile, stat } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+
+import { debug } from "../utils/logger";
+import { findAgentTranscripts, findTranscriptFile } from "../utils/claude";
+import {
+  addToTotals,
+  collectUsageRecords,
+  emptyTotals,
+  getTotalTokens,
+  readTranscriptUsage,
+} from "../utils/usage-history";
+
+export type SubagentState = "active" | "finished";
+
+export interface SubagentInfo {
+  /** Agent type from the transcript's metadata, or the agent ID when it has none. */
+  name: string;
+  cost: number;
+  tokens: number;
+  state: SubagentState;
+}
+
+/** A transcript untouched this long belongs to an agent that stopped, even without a final turn. */
+const IDLE_FINISHED_MS = 10 * 60 * 1000;
+
+async function readAgentName(transcriptPath: string): Promise<string> {
+  const id = basename(transcriptPath, ".jsonl").replace(/^agent-/, "");
+  try {
+    const meta = JSON.parse(
+      await readFile(transcriptPath.replace(/\.jsonl$/, ".meta.json"), "utf-8"),
+    ) as { agentType?: unknown };
+    if (typeof meta.agentType === "string" && meta.agentType.trim()) {
+      return meta.agentType.trim();
+    }
+  } catch {
+    // Older Claude Code versions write no metadata next to the transcript.
+  }
+  return id.slice(0, 8);
+}
+
+async function loadSubagent(transcriptPath: string): Promise<SubagentInfo> {
+  const usage = await readTranscriptUsage(transcriptPath);
+  const totals = emptyTotals();
+  const records = await collectUsageRecords([usage]);
+  records.forEach((record) => addToTotals(totals, record));
+
+  const { mtime } = await stat(transcriptPath);
+  const idle = Date.now() - mtime.getTime() > IDLE_FINISHED_MS;
+
+  return {
+    name: await readAgentName(transcriptPath),
+    cost: totals.costUSD,
+    tokens: getTotalTokens(totals),
+    state: usage?.endedTurn || idle ? "finished" : "active",
+  };
+}
+
+export class SubagentProvider {
+  /** Subagents spawned in the session, most expensive first. */
+  async getSubagents(sessionId: string): Promise<SubagentInfo[] | null> {
+    try {
+      const transcriptPath = await findTranscriptFile(sessionId);
+      if (!transcriptPath) return null;
+
+      const agentTranscripts = await findAgentTranscripts(
+        sessionId,
+        dirname(transcriptPath),
+      );
+      const subagents = await Promise.all(agentTranscripts.map(loadSubagent));
+      debug(`Agent segment: ${subagents.length} subagents in session`);
+
+      return subagents.sort((a, b) => b.cost - a.cost);
+    } catch (error) {
+      debug(`Error loading subagents for session ${sessionId}:`, error);
+      return null;
+    }
+  }
+}
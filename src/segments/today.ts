@@ -1,12 +1,15 @@
-import type { ParsedEntry } from "../utils/claude";
+import type { UsageRecord } from "../utils/usage-history";
 import type { TokenBreakdown } from "./session";
+import type { ModelUsage } from "./pricing";
 
 import { debug } from "../utils/logger";
 import { PricingService } from "./pricing";
 import { CacheManager } from "../utils/cache";
-import { loadEntriesFromProjects } from "../utils/claude";
+import { loadUsageRecords } from "../utils/usage-history";
 
+/** Today's usage of one session and model. */
 export interface TodayUsageEntry {
+  /** Time of the first response. */
   timestamp: Date;
   usage: {
     inputTokens: number;
@@ -22,9 +25,49 @@ export interface TodayInfo {
   cost: number | null;
   tokens: number | null;
   tokenBreakdown: TokenBreakdown | null;
+  /** Cost and tokens per model family, most expensive first. */
+  modelBreakdown: ModelUsage[] | null;
+  /** Cost by the end of the working day at today's burn rate, or null before the first response. */
+  projectedCost: number | null;
   date: string;
 }
 
+export interface TodayProjectionOptions {
+  /** Hour of the day (0-24) the working day ends at (default: 18). */
+  workdayEnd?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Extends today's spend to the end of the working day at the rate spent so
+ * far, measured from the first response. The rate is averaged over at least
+ * an hour so the first few responses don't project a runaway day.
+ */
+export function projectEndOfDayCost(
+  entries: TodayUsageEntry[],
+  now = new Date(),
+  workdayEnd = 18,
+): number | null {
+  if (entries.length === 0) return null;
+
+  const cost = entries.reduce((sum, entry) => sum + entry.costUSD, 0);
+  const first = entries.reduce(
+    (earliest, entry) =>
+      Math.min(earliest, new Date(entry.timestamp).getTime()),
+    Infinity,
+  );
+  const end = new Date(now);
+  end.setHours(0, 0, 0, 0);
+  end.setTime(end.getTime() + workdayEnd * HOUR_MS);
+
+  const remainingMs = end.getTime() - now.getTime();
+  if (remainingMs <= 0) return cost;
+
+  const elapsedMs = Math.max(now.getTime() - first, HOUR_MS);
+  return cost + (cost / elapsedMs) * remainingMs;
+}
+
 function formatDate(date: Date): string {
   const year = date.getFullYear();
   const month = String(date.getMonth() + 1).padStart(2, "0");
@@ -41,18 +84,17 @@ function getTotalTokens(usage: TodayUsageEntry["usage"]): number {
   );
 }
 
-function convertToTodayEntry(entry: ParsedEntry): TodayUsageEntry {
+function convertToTodayEntry(record: UsageRecord): TodayUsageEntry {
   return {
-    timestamp: entry.timestamp,
+    timestamp: record.firstAt,
     usage: {
-      inputTokens: entry.message?.usage?.input_tokens || 0,
-      outputTokens: entry.message?.usage?.output_tokens || 0,
-      cacheCreationInputTokens:
-        entry.message?.usage?.cache_creation_input_tokens || 0,
-      cacheReadInputTokens: entry.message?.usage?.cache_read_input_tokens || 0,
+      inputTokens: record.inputTokens,
+      outputTokens: record.outputTokens,
+      cacheCreationInputTokens: record.cacheCreationTokens,
+      cacheReadInputTokens: record.cacheReadTokens,
     },
-    costUSD: entry.costUSD || 0,
-    model: entry.message?.model || "unknown",
+    costUSD: record.costUSD,
+    model: record.model,
   };
 }
 
@@ -64,62 +106,36 @@ export class TodayProvider {
     debug(`Today segment: Loading entries for date ${todayDateString}`);
 
     const latestMtime = await CacheManager.getLatestTranscriptMtime();
+    const pricingHash = PricingService.getConfigHash();
 
     const sharedCached = (await CacheManager.getUsageCache(
       "today",
       latestMtime,
+      pricingHash,
     )) as TodayUsageEntry[] | null;
     if (sharedCached) {
       debug("Using shared today usage cache");
       return sharedCached;
     }
 
-    const yesterday = new Date();
-    yesterday.setDate(yesterday.getDate() - 1);
-    yesterday.setHours(0, 0, 0, 0);
-
-    const fileFilter = (_filePath: string, modTime: Date): boolean => {
-      return modTime >= yesterday;
-    };
-
     const todayMidnight = new Date();
     todayMidnight.setHours(0, 0, 0, 0);
 
-    const timeFilter = (entry: ParsedEntry): boolean => {
-      return entry.timestamp >= todayMidnight;
-    };
-
-    const parsedEntries = await loadEntriesFromProjects(
-      timeFilter,
-      fileFilter,
-      true,
-    );
-    const todayEntries: TodayUsageEntry[] = [];
-
-    let entriesFound = 0;
-
-    for (const entry of parsedEntries) {
-      const entryDateString = formatDate(entry.timestamp);
-
-      if (entryDateString === todayDateString && entry.message?.usage) {
-        const todayEntry = convertToTodayEntry(entry);
-
-        if (!todayEntry.costUSD && entry.raw) {
-          todayEntry.costUSD = await PricingService.calculateCostForEntry(
-            entry.raw,
-          );
-        }
-
-        todayEntries.push(todayEntry);
-        entriesFound++;
-      }
-    }
+    const records = await loadUsageRecords({ since: todayMidnight });
+    const todayEntries = records
+      .filter((record) => record.date === todayDateString)
+      .map(convertToTodayEntry);
 
     debug(
-      `Today segment: Found ${entriesFound} entries for today (${todayDateString})`,
+      `Today segment: Found ${todayEntries.length} entries for today (${todayDateString})`,
     );
 
-    await CacheManager.setUsageCache("today", todayEntries, latestMtime);
+    await CacheManager.setUsageCache(
+      "today",
+      todayEntries,
+      latestMtime,
+      pricingHash,
+    );
 
     return todayEntries;
   }
@@ -133,7 +149,7 @@ export class TodayProvider {
     }
   }
 
-  async getTodayInfo(): Promise<TodayInfo> {
+  async getTodayInfo(options: TodayProjectionOptions = {}): Promise<TodayInfo> {
     try {
       const entries = await this.getTodayEntries();
 
@@ -142,6 +158,8 @@ export class TodayProvider {
           cost: null,
           tokens: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
+          projectedCost: null,
           date: formatDate(new Date()),
         };
       }
@@ -176,6 +194,18 @@ export class TodayProvider {
         cost: totalCost,
         tokens: totalTokens,
         tokenBreakdown,
+        modelBreakdown: PricingService.groupByModelFamily(
+          entries.map((entry) => ({
+            model: entry.model,
+            costUSD: entry.costUSD,
+            tokens: getTotalTokens(entry.usage),
+          })),
+        ),
+        projectedCost: projectEndOfDayCost(
+          entries,
+          new Date(),
+          options.workdayEnd,
+        ),
         date: formatDate(new Date()),
       };
     } catch (error) {
@@ -184,6 +214,8 @@ export class TodayProvider {
         cost: null,
         tokens: null,
         tokenBreakdown: null,
+        modelBreakdown: null,
+        projectedCost: null,
         date: formatDate(new Date()),
       };
     }
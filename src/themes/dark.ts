@@ -5,19 +5,40 @@ export const darkTheme: ColorTheme = {
   git: { bg: "#404040", fg: "#ffffff" },
   model: { bg: "#2d2d2d", fg: "#ffffff" },
   session: { bg: "#202020", fg: "#00ffff" },
+  sessionWarning: { bg: "#92400e", fg: "#fbbf24" },
+  sessionCritical: { bg: "#991b1b", fg: "#fca5a5" },
   block: { bg: "#2a2a2a", fg: "#87ceeb" },
+  blockWarning: { bg: "#92400e", fg: "#fbbf24" },
+  blockCritical: { bg: "#991b1b", fg: "#fca5a5" },
   today: { bg: "#1a1a1a", fg: "#98fb98" },
+  todayWarning: { bg: "#92400e", fg: "#fbbf24" },
+  todayCritical: { bg: "#991b1b", fg: "#fca5a5" },
+  week: { bg: "#1a1a1a", fg: "#98fb98" },
+  weekWarning: { bg: "#92400e", fg: "#fbbf24" },
+  weekCritical: { bg: "#991b1b", fg: "#fca5a5" },
+  month: { bg: "#1a1a1a", fg: "#98fb98" },
+  monthWarning: { bg: "#92400e", fg: "#fbbf24" },
+  monthCritical: { bg: "#991b1b", fg: "#fca5a5" },
+  project: { bg: "#1a1a1a", fg: "#98fb98" },
+  projectWarning: { bg: "#92400e", fg: "#fbbf24" },
+  projectCritical: { bg: "#991b1b", fg: "#fca5a5" },
   tmux: { bg: "#2f4f2f", fg: "#90ee90" },
   context: { bg: "#4a5568", fg: "#cbd5e0" },
   contextWarning: { bg: "#92400e", fg: "#fbbf24" },
   contextCritical: { bg: "#991b1b", fg: "#fca5a5" },
   metrics: { bg: "#374151", fg: "#d1d5db" },
+  sparkline: { bg: "#374151", fg: "#d1d5db" },
   version: { bg: "#3a3a4a", fg: "#b8b8d0" },
   env: { bg: "#2d2d3d", fg: "#d0a0d0" },
   weekly: { bg: "#2a2a3a", fg: "#a0c4e8" },
+  weeklyWarning: { bg: "#92400e", fg: "#fbbf24" },
+  weeklyCritical: { bg: "#991b1b", fg: "#fca5a5" },
   agent: { bg: "#2a2a4a", fg: "#b0a8e0" },
   thinking: { bg: "#2a2a3a", fg: "#c792ea" },
   cacheTimer: { bg: "#1f3a1f", fg: "#90ee90" },
+  cacheTimerWarning: { bg: "#92400e", fg: "#fbbf24" },
+  cacheTimerCritical: { bg: "#991b1b", fg: "#fca5a5" },
+  command: { bg: "#263238", fg: "#80cbc4" },
 };
 
 export const darkAnsi256Theme: ColorTheme = {
@@ -25,19 +46,40 @@ export const darkAnsi256Theme: ColorTheme = {
   git: { bg: "#444444", fg: "#ffffff" },
   model: { bg: "#3a3a3a", fg: "#ffffff" },
   session: { bg: "#262626", fg: "#00ffff" },
+  sessionWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  sessionCritical: { bg: "#870000", fg: "#ff8787" },
   block: { bg: "#303030", fg: "#87ceeb" },
+  blockWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  blockCritical: { bg: "#870000", fg: "#ff8787" },
   today: { bg: "#1c1c1c", fg: "#87ff87" },
+  todayWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  todayCritical: { bg: "#870000", fg: "#ff8787" },
+  week: { bg: "#1c1c1c", fg: "#87ff87" },
+  weekWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  weekCritical: { bg: "#870000", fg: "#ff8787" },
+  month: { bg: "#1c1c1c", fg: "#87ff87" },
+  monthWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  monthCritical: { bg: "#870000", fg: "#ff8787" },
+  project: { bg: "#1c1c1c", fg: "#87ff87" },
+  projectWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  projectCritical: { bg: "#870000", fg: "#ff8787" },
   tmux: { bg: "#444444", fg: "#87ff87" },
   context: { bg: "#585858", fg: "#d0d0d0" },
   contextWarning: { bg: "#af5f00", fg: "#ffaf00" },
   contextCritical: { bg: "#870000", fg: "#ff8787" },
   metrics: { bg: "#4e4e4e", fg: "#d0d0d0" },
+  sparkline: { bg: "#4e4e4e", fg: "#d0d0d0" },
   version: { bg: "#444444", fg: "#d7afff" },
   env: { bg: "#3a3a3a", fg: "#d787d7" },
   weekly: { bg: "#303030", fg: "#87afd7" },
+  weeklyWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  weeklyCritical: { bg: "#870000", fg: "#ff8787" },
   agent: { bg: "#3a3a5f", fg: "#afafd7" },
   thinking: { bg: "#2a2a3a", fg: "#d787ff" },
   cacheTimer: { bg: "#1c2e1c", fg: "#87ff87" },
+  cacheTimerWarning: { bg: "#af5f00", fg: "#ffaf00" },
+  cacheTimerCritical: { bg: "#870000", fg: "#ff8787" },
+  command: { bg: "#303030", fg: "#87d7d7" },
 };
 
 export const darkAnsiTheme: ColorTheme = {
@@ -45,17 +87,38 @@ export const darkAnsiTheme: ColorTheme = {
   git: { bg: "#585858", fg: "#ffffff" },
   model: { bg: "#444444", fg: "#ffffff" },
   session: { bg: "#303030", fg: "#00ffff" },
+  sessionWarning: { bg: "#d75f00", fg: "#ffff00" },
+  sessionCritical: { bg: "#af0000", fg: "#ff0000" },
   block: { bg: "#3a3a3a", fg: "#5fafff" },
+  blockWarning: { bg: "#d75f00", fg: "#ffff00" },
+  blockCritical: { bg: "#af0000", fg: "#ff0000" },
   today: { bg: "#262626", fg: "#00ff00" },
+  todayWarning: { bg: "#d75f00", fg: "#ffff00" },
+  todayCritical: { bg: "#af0000", fg: "#ff0000" },
+  week: { bg: "#262626", fg: "#00ff00" },
+  weekWarning: { bg: "#d75f00", fg: "#ffff00" },
+  weekCritical: { bg: "#af0000", fg: "#ff0000" },
+  month: { bg: "#262626", fg: "#00ff00" },
+  monthWarning: { bg: "#d75f00", fg: "#ffff00" },
+  monthCritical: { bg: "#af0000", fg: "#ff0000" },
+  project: { bg: "#262626", fg: "#00ff00" },
+  projectWarning: { bg: "#d75f00", fg: "#ffff00" },
+  projectCritical: { bg: "#af0000", fg: "#ff0000" },
   tmux: { bg: "#585858", fg: "#00ff00" },
   context: { bg: "#808080", fg: "#ffffff" },
   contextWarning: { bg: "#d75f00", fg: "#ffff00" },
   contextCritical: { bg: "#af0000", fg: "#ff0000" },
   metrics: { bg: "#666666", fg: "#ffffff" },
+  sparkline: { bg: "#666666", fg: "#ffffff" },
   version: { bg: "#585858", fg: "#af87ff" },
   env: { bg: "#444444", fg: "#ff87ff" },
   weekly: { bg: "#3a3a3a", fg: "#5fafff" },
+  weeklyWarning: { bg: "#d75f00", fg: "#ffff00" },
+  weeklyCritical: { bg: "#af0000", fg: "#ff0000" },
   agent: { bg: "#444444", fg: "#af87ff" },
   thinking: { bg: "#444444", fg: "#ff87ff" },
   cacheTimer: { bg: "#2f4f2f", fg: "#00ff00" },
+  cacheTimerWarning: { bg: "#d75f00", fg: "#ffff00" },
+  cacheTimerCritical: { bg: "#af0000", fg: "#ff0000" },
+  command: { bg: "#444444", fg: "#5fd7d7" },
 };
@@ -5,19 +5,40 @@ export const gruvboxTheme: ColorTheme = {
   git: { bg: "#3c3836", fg: "#b8bb26" },
   model: { bg: "#665c54", fg: "#83a598" },
   session: { bg: "#282828", fg: "#8ec07c" },
+  sessionWarning: { bg: "#d79921", fg: "#282828" },
+  sessionCritical: { bg: "#cc241d", fg: "#ebdbb2" },
   block: { bg: "#3c3836", fg: "#83a598" },
+  blockWarning: { bg: "#d79921", fg: "#282828" },
+  blockCritical: { bg: "#cc241d", fg: "#ebdbb2" },
   today: { bg: "#282828", fg: "#fabd2f" },
+  todayWarning: { bg: "#d79921", fg: "#282828" },
+  todayCritical: { bg: "#cc241d", fg: "#ebdbb2" },
+  week: { bg: "#282828", fg: "#fabd2f" },
+  weekWarning: { bg: "#d79921", fg: "#282828" },
+  weekCritical: { bg: "#cc241d", fg: "#ebdbb2" },
+  month: { bg: "#282828", fg: "#fabd2f" },
+  monthWarning: { bg: "#d79921", fg: "#282828" },
+  monthCritical: { bg: "#cc241d", fg: "#ebdbb2" },
+  project: { bg: "#282828", fg: "#fabd2f" },
+  projectWarning: { bg: "#d79921", fg: "#282828" },
+  projectCritical: { bg: "#cc241d", fg: "#ebdbb2" },
   tmux: { bg: "#282828", fg: "#fe8019" },
   context: { bg: "#458588", fg: "#ebdbb2" },
   contextWarning: { bg: "#d79921", fg: "#282828" },
   contextCritical: { bg: "#cc241d", fg: "#ebdbb2" },
   metrics: { bg: "#d3869b", fg: "#282828" },
+  sparkline: { bg: "#d3869b", fg: "#282828" },
   version: { bg: "#504945", fg: "#8ec07c" },
   env: { bg: "#3c3836", fg: "#d3869b" },
   weekly: { bg: "#3c3836", fg: "#8ec07c" },
+  weeklyWarning: { bg: "#d79921", fg: "#282828" },
+  weeklyCritical: { bg: "#cc241d", fg: "#ebdbb2" },
   agent: { bg: "#504945", fg: "#d3869b" },
   thinking: { bg: "#3c3046", fg: "#d3869b" },
   cacheTimer: { bg: "#3c3836", fg: "#b8bb26" },
+  cacheTimerWarning: { bg: "#d79921", fg: "#282828" },
+  cacheTimerCritical: { bg: "#cc241d", fg: "#ebdbb2" },
+  command: { bg: "#32302f", fg: "#8ec07c" },
 };
 
 export const gruvboxAnsi256Theme: ColorTheme = {
@@ -25,19 +46,40 @@ export const gruvboxAnsi256Theme: ColorTheme = {
   git: { bg: "#444444", fg: "#afaf00" },
   model: { bg: "#6c6c6c", fg: "#87afaf" },
   session: { bg: "#303030", fg: "#87af87" },
+  sessionWarning: { bg: "#d7af00", fg: "#303030" },
+  sessionCritical: { bg: "#d70000", fg: "#ffffaf" },
   block: { bg: "#444444", fg: "#87afaf" },
+  blockWarning: { bg: "#d7af00", fg: "#303030" },
+  blockCritical: { bg: "#d70000", fg: "#ffffaf" },
   today: { bg: "#303030", fg: "#ffaf00" },
+  todayWarning: { bg: "#d7af00", fg: "#303030" },
+  todayCritical: { bg: "#d70000", fg: "#ffffaf" },
+  week: { bg: "#303030", fg: "#ffaf00" },
+  weekWarning: { bg: "#d7af00", fg: "#303030" },
+  weekCritical: { bg: "#d70000", fg: "#ffffaf" },
+  month: { bg: "#303030", fg: "#ffaf00" },
+  monthWarning: { bg: "#d7af00", fg: "#303030" },
+  monthCritical: { bg: "#d70000", fg: "#ffffaf" },
+  project: { bg: "#303030", fg: "#ffaf00" },
+  projectWarning: { bg: "#d7af00", fg: "#303030" },
+  projectCritical: { bg: "#d70000", fg: "#ffffaf" },
   tmux: { bg: "#303030", fg: "#ff8700" },
   context: { bg: "#5f8787", fg: "#ffffaf" },
   contextWarning: { bg: "#d7af00", fg: "#303030" },
   contextCritical: { bg: "#d70000", fg: "#ffffaf" },
   metrics: { bg: "#d787af", fg: "#303030" },
+  sparkline: { bg: "#d787af", fg: "#303030" },
   version: { bg: "#585858", fg: "#87af87" },
   env: { bg: "#444444", fg: "#d787af" },
   weekly: { bg: "#444444", fg: "#87af87" },
+  weeklyWarning: { bg: "#d7af00", fg: "#303030" },
+  weeklyCritical: { bg: "#d70000", fg: "#ffffaf" },
   agent: { bg: "#6c6c6c", fg: "#d787af" },
   thinking: { bg: "#444444", fg: "#d787af" },
   cacheTimer: { bg: "#444444", fg: "#afaf00" },
+  cacheTimerWarning: { bg: "#d7af00", fg: "#303030" },
+  cacheTimerCritical: { bg: "#d70000", fg: "#ffffaf" },
+  command: { bg: "#303030", fg: "#87af87" },
 };
 
 export const gruvboxAnsiTheme: ColorTheme = {
@@ -45,17 +87,38 @@ export const gruvboxAnsiTheme: ColorTheme = {
   git: { bg: "#585858", fg: "#00ff00" },
   model: { bg: "#808080", fg: "#00afff" },
   session: { bg: "#444444", fg: "#00d787" },
+  sessionWarning: { bg: "#d7af00", fg: "#000000" },
+  sessionCritical: { bg: "#d70000", fg: "#ffffff" },
   block: { bg: "#585858", fg: "#00afff" },
+  blockWarning: { bg: "#d7af00", fg: "#000000" },
+  blockCritical: { bg: "#d70000", fg: "#ffffff" },
   today: { bg: "#444444", fg: "#ffaf00" },
+  todayWarning: { bg: "#d7af00", fg: "#000000" },
+  todayCritical: { bg: "#d70000", fg: "#ffffff" },
+  week: { bg: "#444444", fg: "#ffaf00" },
+  weekWarning: { bg: "#d7af00", fg: "#000000" },
+  weekCritical: { bg: "#d70000", fg: "#ffffff" },
+  month: { bg: "#444444", fg: "#ffaf00" },
+  monthWarning: { bg: "#d7af00", fg: "#000000" },
+  monthCritical: { bg: "#d70000", fg: "#ffffff" },
+  project: { bg: "#444444", fg: "#ffaf00" },
+  projectWarning: { bg: "#d7af00", fg: "#000000" },
+  projectCritical: { bg: "#d70000", fg: "#ffffff" },
   tmux: { bg: "#444444", fg: "#ff8700" },
   context: { bg: "#008787", fg: "#ffffff" },
   contextWarning: { bg: "#d7af00", fg: "#000000" },
   contextCritical: { bg: "#d70000", fg: "#ffffff" },
   metrics: { bg: "#ff87af", fg: "#444444" },
+  sparkline: { bg: "#ff87af", fg: "#444444" },
   version: { bg: "#808080", fg: "#00d787" },
   env: { bg: "#585858", fg: "#ff87af" },
   weekly: { bg: "#585858", fg: "#00d787" },
+  weeklyWarning: { bg: "#d7af00", fg: "#000000" },
+  weeklyCritical: { bg: "#d70000", fg: "#ffffff" },
   agent: { bg: "#808080", fg: "#ff87af" },
   thinking: { bg: "#808080", fg: "#ff87af" },
   cacheTimer: { bg: "#585858", fg: "#ffff00" },
+  cacheTimerWarning: { bg: "#d7af00", fg: "#000000" },
+  cacheTimerCritical: { bg: "#d70000", fg: "#ffffff" },
+  command: { bg: "#444444", fg: "#87d787" },
 };
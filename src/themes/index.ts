@@ -12,6 +12,7 @@ import {
   rosePineAnsiTheme,
 } from "./rose-pine";
 import { gruvboxTheme, gruvboxAnsi256Theme, gruvboxAnsiTheme } from "./gruvbox";
+import type { ThresholdLevel } from "../utils/thresholds";
 
 export interface SegmentColor {
   bg: string;
@@ -24,19 +25,40 @@ export interface ColorTheme {
   git: SegmentColor;
   model: SegmentColor;
   session: SegmentColor;
+  sessionWarning: SegmentColor;
+  sessionCritical: SegmentColor;
   block: SegmentColor;
+  blockWarning: SegmentColor;
+  blockCritical: SegmentColor;
   today: SegmentColor;
+  todayWarning: SegmentColor;
+  todayCritical: SegmentColor;
+  project: SegmentColor;
+  projectWarning: SegmentColor;
+  projectCritical: SegmentColor;
+  week: SegmentColor;
+  weekWarning: SegmentColor;
+  weekCritical: SegmentColor;
+  month: SegmentColor;
+  monthWarning: SegmentColor;
+  monthCritical: SegmentColor;
   tmux: SegmentColor;
   context: SegmentColor;
   contextWarning: SegmentColor;
   contextCritical: SegmentColor;
   metrics: SegmentColor;
+  sparkline: SegmentColor;
   version: SegmentColor;
   env: SegmentColor;
   weekly: SegmentColor;
+  weeklyWarning: SegmentColor;
+  weeklyCritical: SegmentColor;
   agent: SegmentColor;
   thinking: SegmentColor;
   cacheTimer: SegmentColor;
+  cacheTimerWarning: SegmentColor;
+  cacheTimerCritical: SegmentColor;
+  command: SegmentColor;
 }
 
 export interface PowerlineColors {
@@ -53,12 +75,57 @@ export interface PowerlineColors {
   sessionBg: string;
   sessionFg: string;
   sessionBold: boolean;
+  sessionWarningBg: string;
+  sessionWarningFg: string;
+  sessionWarningBold: boolean;
+  sessionCriticalBg: string;
+  sessionCriticalFg: string;
+  sessionCriticalBold: boolean;
   blockBg: string;
   blockFg: string;
   blockBold: boolean;
+  blockWarningBg: string;
+  blockWarningFg: string;
+  blockWarningBold: boolean;
+  blockCriticalBg: string;
+  blockCriticalFg: string;
+  blockCriticalBold: boolean;
   todayBg: string;
   todayFg: string;
   todayBold: boolean;
+  todayWarningBg: string;
+  todayWarningFg: string;
+  todayWarningBold: boolean;
+  todayCriticalBg: string;
+  todayCriticalFg: string;
+  todayCriticalBold: boolean;
+  projectBg: string;
+  projectFg: string;
+  projectBold: boolean;
+  projectWarningBg: string;
+  projectWarningFg: string;
+  projectWarningBold: boolean;
+  projectCriticalBg: string;
+  projectCriticalFg: string;
+  projectCriticalBold: boolean;
+  weekBg: string;
+  weekFg: string;
+  weekBold: boolean;
+  weekWarningBg: string;
+  weekWarningFg: string;
+  weekWarningBold: boolean;
+  weekCriticalBg: string;
+  weekCriticalFg: string;
+  weekCriticalBold: boolean;
+  monthBg: string;
+  monthFg: string;
+  monthBold: boolean;
+  monthWarningBg: string;
+  monthWarningFg: string;
+  monthWarningBold: boolean;
+  monthCriticalBg: string;
+  monthCriticalFg: string;
+  monthCriticalBold: boolean;
   tmuxBg: string;
   tmuxFg: string;
   tmuxBold: boolean;
@@ -74,6 +141,9 @@ export interface PowerlineColors {
   metricsBg: string;
   metricsFg: string;
   metricsBold: boolean;
+  sparklineBg: string;
+  sparklineFg: string;
+  sparklineBold: boolean;
   versionBg: string;
   versionFg: string;
   versionBold: boolean;
@@ -83,6 +153,12 @@ export interface PowerlineColors {
   weeklyBg: string;
   weeklyFg: string;
   weeklyBold: boolean;
+  weeklyWarningBg: string;
+  weeklyWarningFg: string;
+  weeklyWarningBold: boolean;
+  weeklyCriticalBg: string;
+  weeklyCriticalFg: string;
+  weeklyCriticalBold: boolean;
   agentBg: string;
   agentFg: string;
   agentBold: boolean;
@@ -92,7 +168,46 @@ export interface PowerlineColors {
   cacheTimerBg: string;
   cacheTimerFg: string;
   cacheTimerBold: boolean;
+  cacheTimerWarningBg: string;
+  cacheTimerWarningFg: string;
+  cacheTimerWarningBold: boolean;
+  cacheTimerCriticalBg: string;
+  cacheTimerCriticalFg: string;
+  cacheTimerCriticalBold: boolean;
+  commandBg: string;
+  commandFg: string;
+  commandBold: boolean;
   partFg: Record<string, string>;
+  pluginColors?: Record<string, { bg: string; fg: string; bold: boolean }>;
+}
+
+/** Segments with warning/critical color variants. */
+export type ThresholdSegment =
+  | "context"
+  | "session"
+  | "block"
+  | "today"
+  | "project"
+  | "week"
+  | "month"
+  | "weekly"
+  | "cacheTimer";
+
+/** The colors a threshold segment renders with at the given level. */
+export function getThresholdColors(
+  colors: PowerlineColors,
+  segment: ThresholdSegment,
+  level: ThresholdLevel,
+): { bg: string; fg: string; bold: boolean } {
+  const key =
+    level === "normal"
+      ? segment
+      : (`${segment}${level === "warning" ? "Warning" : "Critical"}` as const);
+  return {
+    bg: colors[`${key}Bg`],
+    fg: colors[`${key}Fg`],
+    bold: colors[`${key}Bold`],
+  };
 }
 
 export const BUILT_IN_THEMES: Record<string, ColorTheme> = {
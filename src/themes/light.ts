@@ -5,19 +5,40 @@ export const lightTheme: ColorTheme = {
   git: { bg: "#4fb3d9", fg: "#ffffff" },
   model: { bg: "#87ceeb", fg: "#000000" },
   session: { bg: "#da70d6", fg: "#ffffff" },
+  sessionWarning: { bg: "#d97706", fg: "#ffffff" },
+  sessionCritical: { bg: "#dc2626", fg: "#ffffff" },
   block: { bg: "#6366f1", fg: "#ffffff" },
+  blockWarning: { bg: "#d97706", fg: "#ffffff" },
+  blockCritical: { bg: "#dc2626", fg: "#ffffff" },
   today: { bg: "#10b981", fg: "#ffffff" },
+  todayWarning: { bg: "#d97706", fg: "#ffffff" },
+  todayCritical: { bg: "#dc2626", fg: "#ffffff" },
+  week: { bg: "#10b981", fg: "#ffffff" },
+  weekWarning: { bg: "#d97706", fg: "#ffffff" },
+  weekCritical: { bg: "#dc2626", fg: "#ffffff" },
+  month: { bg: "#10b981", fg: "#ffffff" },
+  monthWarning: { bg: "#d97706", fg: "#ffffff" },
+  monthCritical: { bg: "#dc2626", fg: "#ffffff" },
+  project: { bg: "#10b981", fg: "#ffffff" },
+  projectWarning: { bg: "#d97706", fg: "#ffffff" },
+  projectCritical: { bg: "#dc2626", fg: "#ffffff" },
   tmux: { bg: "#32cd32", fg: "#ffffff" },
   context: { bg: "#718096", fg: "#ffffff" },
   contextWarning: { bg: "#d97706", fg: "#ffffff" },
   contextCritical: { bg: "#dc2626", fg: "#ffffff" },
   metrics: { bg: "#6b7280", fg: "#ffffff" },
+  sparkline: { bg: "#6b7280", fg: "#ffffff" },
   version: { bg: "#8b7dd8", fg: "#ffffff" },
   env: { bg: "#d45dbf", fg: "#ffffff" },
   weekly: { bg: "#4f46e5", fg: "#ffffff" },
+  weeklyWarning: { bg: "#d97706", fg: "#ffffff" },
+  weeklyCritical: { bg: "#dc2626", fg: "#ffffff" },
   agent: { bg: "#7c3aed", fg: "#ffffff" },
   thinking: { bg: "#7c3aed", fg: "#ffffff" },
   cacheTimer: { bg: "#059669", fg: "#ffffff" },
+  cacheTimerWarning: { bg: "#d97706", fg: "#ffffff" },
+  cacheTimerCritical: { bg: "#dc2626", fg: "#ffffff" },
+  command: { bg: "#5f9ea0", fg: "#ffffff" },
 };
 
 export const lightAnsi256Theme: ColorTheme = {
@@ -25,19 +46,40 @@ export const lightAnsi256Theme: ColorTheme = {
   git: { bg: "#5fafff", fg: "#ffffff" },
   model: { bg: "#87d7ff", fg: "#000000" },
   session: { bg: "#ff5fff", fg: "#ffffff" },
+  sessionWarning: { bg: "#d78700", fg: "#ffffff" },
+  sessionCritical: { bg: "#d70000", fg: "#ffffff" },
   block: { bg: "#5f5fff", fg: "#ffffff" },
+  blockWarning: { bg: "#d78700", fg: "#ffffff" },
+  blockCritical: { bg: "#d70000", fg: "#ffffff" },
   today: { bg: "#00d787", fg: "#ffffff" },
+  todayWarning: { bg: "#d78700", fg: "#ffffff" },
+  todayCritical: { bg: "#d70000", fg: "#ffffff" },
+  week: { bg: "#00d787", fg: "#ffffff" },
+  weekWarning: { bg: "#d78700", fg: "#ffffff" },
+  weekCritical: { bg: "#d70000", fg: "#ffffff" },
+  month: { bg: "#00d787", fg: "#ffffff" },
+  monthWarning: { bg: "#d78700", fg: "#ffffff" },
+  monthCritical: { bg: "#d70000", fg: "#ffffff" },
+  project: { bg: "#00d787", fg: "#ffffff" },
+  projectWarning: { bg: "#d78700", fg: "#ffffff" },
+  projectCritical: { bg: "#d70000", fg: "#ffffff" },
   tmux: { bg: "#00ff5f", fg: "#ffffff" },
   context: { bg: "#808080", fg: "#ffffff" },
   contextWarning: { bg: "#d78700", fg: "#ffffff" },
   contextCritical: { bg: "#d70000", fg: "#ffffff" },
   metrics: { bg: "#767676", fg: "#ffffff" },
+  sparkline: { bg: "#767676", fg: "#ffffff" },
   version: { bg: "#af87ff", fg: "#ffffff" },
   env: { bg: "#d787af", fg: "#ffffff" },
   weekly: { bg: "#5f5fff", fg: "#ffffff" },
+  weeklyWarning: { bg: "#d78700", fg: "#ffffff" },
+  weeklyCritical: { bg: "#d70000", fg: "#ffffff" },
   agent: { bg: "#8787d7", fg: "#ffffff" },
   thinking: { bg: "#8700d7", fg: "#ffffff" },
   cacheTimer: { bg: "#00875f", fg: "#ffffff" },
+  cacheTimerWarning: { bg: "#d78700", fg: "#ffffff" },
+  cacheTimerCritical: { bg: "#d70000", fg: "#ffffff" },
+  command: { bg: "#5f8787", fg: "#ffffff" },
 };
 
 export const lightAnsiTheme: ColorTheme = {
@@ -45,17 +87,38 @@ export const lightAnsiTheme: ColorTheme = {
   git: { bg: "#5fafff", fg: "#ffffff" },
   model: { bg: "#87d7ff", fg: "#000000" },
   session: { bg: "#ff5fff", fg: "#ffffff" },
+  sessionWarning: { bg: "#d78700", fg: "#ffffff" },
+  sessionCritical: { bg: "#d70000", fg: "#ffffff" },
   block: { bg: "#5f5fff", fg: "#ffffff" },
+  blockWarning: { bg: "#d78700", fg: "#ffffff" },
+  blockCritical: { bg: "#d70000", fg: "#ffffff" },
   today: { bg: "#00d787", fg: "#ffffff" },
+  todayWarning: { bg: "#d78700", fg: "#ffffff" },
+  todayCritical: { bg: "#d70000", fg: "#ffffff" },
+  week: { bg: "#00d787", fg: "#ffffff" },
+  weekWarning: { bg: "#d78700", fg: "#ffffff" },
+  weekCritical: { bg: "#d70000", fg: "#ffffff" },
+  month: { bg: "#00d787", fg: "#ffffff" },
+  monthWarning: { bg: "#d78700", fg: "#ffffff" },
+  monthCritical: { bg: "#d70000", fg: "#ffffff" },
+  project: { bg: "#00d787", fg: "#ffffff" },
+  projectWarning: { bg: "#d78700", fg: "#ffffff" },
+  projectCritical: { bg: "#d70000", fg: "#ffffff" },
   tmux: { bg: "#00ff5f", fg: "#ffffff" },
   context: { bg: "#808080", fg: "#ffffff" },
   contextWarning: { bg: "#d78700", fg: "#ffffff" },
   contextCritical: { bg: "#d70000", fg: "#ffffff" },
   metrics: { bg: "#767676", fg: "#ffffff" },
+  sparkline: { bg: "#767676", fg: "#ffffff" },
   version: { bg: "#af87ff", fg: "#ffffff" },
   env: { bg: "#d787af", fg: "#ffffff" },
   weekly: { bg: "#5f5fff", fg: "#ffffff" },
+  weeklyWarning: { bg: "#d78700", fg: "#ffffff" },
+  weeklyCritical: { bg: "#d70000", fg: "#ffffff" },
   agent: { bg: "#5f5fff", fg: "#ffffff" },
   thinking: { bg: "#8700d7", fg: "#ffffff" },
   cacheTimer: { bg: "#00875f", fg: "#ffffff" },
+  cacheTimerWarning: { bg: "#d78700", fg: "#ffffff" },
+  cacheTimerCritical: { bg: "#d70000", fg: "#ffffff" },
+  command: { bg: "#5f8787", fg: "#ffffff" },
 };
@@ -5,19 +5,40 @@ export const nordTheme: ColorTheme = {
   git: { bg: "#3b4252", fg: "#a3be8c" },
   model: { bg: "#4c566a", fg: "#81a1c1" },
   session: { bg: "#2e3440", fg: "#88c0d0" },
+  sessionWarning: { bg: "#d08770", fg: "#2e3440" },
+  sessionCritical: { bg: "#bf616a", fg: "#eceff4" },
   block: { bg: "#3b4252", fg: "#81a1c1" },
+  blockWarning: { bg: "#d08770", fg: "#2e3440" },
+  blockCritical: { bg: "#bf616a", fg: "#eceff4" },
   today: { bg: "#2e3440", fg: "#8fbcbb" },
+  todayWarning: { bg: "#d08770", fg: "#2e3440" },
+  todayCritical: { bg: "#bf616a", fg: "#eceff4" },
+  week: { bg: "#2e3440", fg: "#8fbcbb" },
+  weekWarning: { bg: "#d08770", fg: "#2e3440" },
+  weekCritical: { bg: "#bf616a", fg: "#eceff4" },
+  month: { bg: "#2e3440", fg: "#8fbcbb" },
+  monthWarning: { bg: "#d08770", fg: "#2e3440" },
+  monthCritical: { bg: "#bf616a", fg: "#eceff4" },
+  project: { bg: "#2e3440", fg: "#8fbcbb" },
+  projectWarning: { bg: "#d08770", fg: "#2e3440" },
+  projectCritical: { bg: "#bf616a", fg: "#eceff4" },
   tmux: { bg: "#2e3440", fg: "#8fbcbb" },
   context: { bg: "#5e81ac", fg: "#eceff4" },
   contextWarning: { bg: "#d08770", fg: "#2e3440" },
   contextCritical: { bg: "#bf616a", fg: "#eceff4" },
   metrics: { bg: "#b48ead", fg: "#2e3440" },
+  sparkline: { bg: "#b48ead", fg: "#2e3440" },
   version: { bg: "#434c5e", fg: "#88c0d0" },
   env: { bg: "#3b4252", fg: "#b48ead" },
   weekly: { bg: "#3b4252", fg: "#88c0d0" },
+  weeklyWarning: { bg: "#d08770", fg: "#2e3440" },
+  weeklyCritical: { bg: "#bf616a", fg: "#eceff4" },
   agent: { bg: "#4c566a", fg: "#b48ead" },
   thinking: { bg: "#3b4252", fg: "#b48ead" },
   cacheTimer: { bg: "#3b4252", fg: "#a3be8c" },
+  cacheTimerWarning: { bg: "#d08770", fg: "#2e3440" },
+  cacheTimerCritical: { bg: "#bf616a", fg: "#eceff4" },
+  command: { bg: "#3b4252", fg: "#88c0d0" },
 };
 
 export const nordAnsi256Theme: ColorTheme = {
@@ -25,19 +46,40 @@ export const nordAnsi256Theme: ColorTheme = {
   git: { bg: "#4e4e4e", fg: "#87d787" },
   model: { bg: "#6c6c6c", fg: "#87afd7" },
   session: { bg: "#3a3a3a", fg: "#5fafaf" },
+  sessionWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  sessionCritical: { bg: "#d75f5f", fg: "#ffffff" },
   block: { bg: "#4e4e4e", fg: "#87afd7" },
+  blockWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  blockCritical: { bg: "#d75f5f", fg: "#ffffff" },
   today: { bg: "#3a3a3a", fg: "#5fd7d7" },
+  todayWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  todayCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  week: { bg: "#3a3a3a", fg: "#5fd7d7" },
+  weekWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  weekCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  month: { bg: "#3a3a3a", fg: "#5fd7d7" },
+  monthWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  monthCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  project: { bg: "#3a3a3a", fg: "#5fd7d7" },
+  projectWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  projectCritical: { bg: "#d75f5f", fg: "#ffffff" },
   tmux: { bg: "#3a3a3a", fg: "#5fd7d7" },
   context: { bg: "#5f87d7", fg: "#ffffff" },
   contextWarning: { bg: "#d7875f", fg: "#3a3a3a" },
   contextCritical: { bg: "#d75f5f", fg: "#ffffff" },
   metrics: { bg: "#d787af", fg: "#3a3a3a" },
+  sparkline: { bg: "#d787af", fg: "#3a3a3a" },
   version: { bg: "#5f87af", fg: "#5fafaf" },
   env: { bg: "#4e4e4e", fg: "#d787af" },
   weekly: { bg: "#4e4e4e", fg: "#5fafaf" },
+  weeklyWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  weeklyCritical: { bg: "#d75f5f", fg: "#ffffff" },
   agent: { bg: "#6c6c6c", fg: "#d787af" },
   thinking: { bg: "#4e4e4e", fg: "#d787af" },
   cacheTimer: { bg: "#4e4e4e", fg: "#87af87" },
+  cacheTimerWarning: { bg: "#d7875f", fg: "#3a3a3a" },
+  cacheTimerCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  command: { bg: "#4e4e4e", fg: "#87d7d7" },
 };
 
 export const nordAnsiTheme: ColorTheme = {
@@ -45,17 +87,38 @@ export const nordAnsiTheme: ColorTheme = {
   git: { bg: "#585858", fg: "#87d700" },
   model: { bg: "#808080", fg: "#87afff" },
   session: { bg: "#444444", fg: "#00d7d7" },
+  sessionWarning: { bg: "#d78700", fg: "#000000" },
+  sessionCritical: { bg: "#d75f5f", fg: "#ffffff" },
   block: { bg: "#585858", fg: "#87afff" },
+  blockWarning: { bg: "#d78700", fg: "#000000" },
+  blockCritical: { bg: "#d75f5f", fg: "#ffffff" },
   today: { bg: "#444444", fg: "#00ffff" },
+  todayWarning: { bg: "#d78700", fg: "#000000" },
+  todayCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  week: { bg: "#444444", fg: "#00ffff" },
+  weekWarning: { bg: "#d78700", fg: "#000000" },
+  weekCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  month: { bg: "#444444", fg: "#00ffff" },
+  monthWarning: { bg: "#d78700", fg: "#000000" },
+  monthCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  project: { bg: "#444444", fg: "#00ffff" },
+  projectWarning: { bg: "#d78700", fg: "#000000" },
+  projectCritical: { bg: "#d75f5f", fg: "#ffffff" },
   tmux: { bg: "#444444", fg: "#00ffff" },
   context: { bg: "#0087ff", fg: "#ffffff" },
   contextWarning: { bg: "#d78700", fg: "#000000" },
   contextCritical: { bg: "#d75f5f", fg: "#ffffff" },
   metrics: { bg: "#ff87d7", fg: "#444444" },
+  sparkline: { bg: "#ff87d7", fg: "#444444" },
   version: { bg: "#0087af", fg: "#00d7d7" },
   env: { bg: "#585858", fg: "#ff87af" },
   weekly: { bg: "#585858", fg: "#00d7d7" },
+  weeklyWarning: { bg: "#d78700", fg: "#000000" },
+  weeklyCritical: { bg: "#d75f5f", fg: "#ffffff" },
   agent: { bg: "#808080", fg: "#ff87af" },
   thinking: { bg: "#585858", fg: "#ff87d7" },
   cacheTimer: { bg: "#585858", fg: "#87d787" },
+  cacheTimerWarning: { bg: "#d78700", fg: "#000000" },
+  cacheTimerCritical: { bg: "#d75f5f", fg: "#ffffff" },
+  command: { bg: "#585858", fg: "#5fd7ff" },
 };
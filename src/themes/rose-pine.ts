@@ -5,19 +5,40 @@ export const rosePineTheme: ColorTheme = {
   git: { bg: "#1f1d2e", fg: "#9ccfd8" },
   model: { bg: "#191724", fg: "#ebbcba" },
   session: { bg: "#26233a", fg: "#f6c177" },
+  sessionWarning: { bg: "#f6c177", fg: "#191724" },
+  sessionCritical: { bg: "#eb6f92", fg: "#191724" },
   block: { bg: "#2a273f", fg: "#eb6f92" },
+  blockWarning: { bg: "#f6c177", fg: "#191724" },
+  blockCritical: { bg: "#eb6f92", fg: "#191724" },
   today: { bg: "#232136", fg: "#9ccfd8" },
+  todayWarning: { bg: "#f6c177", fg: "#191724" },
+  todayCritical: { bg: "#eb6f92", fg: "#191724" },
+  week: { bg: "#232136", fg: "#9ccfd8" },
+  weekWarning: { bg: "#f6c177", fg: "#191724" },
+  weekCritical: { bg: "#eb6f92", fg: "#191724" },
+  month: { bg: "#232136", fg: "#9ccfd8" },
+  monthWarning: { bg: "#f6c177", fg: "#191724" },
+  monthCritical: { bg: "#eb6f92", fg: "#191724" },
+  project: { bg: "#232136", fg: "#9ccfd8" },
+  projectWarning: { bg: "#f6c177", fg: "#191724" },
+  projectCritical: { bg: "#eb6f92", fg: "#191724" },
   tmux: { bg: "#26233a", fg: "#908caa" },
   context: { bg: "#393552", fg: "#e0def4" },
   contextWarning: { bg: "#f6c177", fg: "#191724" },
   contextCritical: { bg: "#eb6f92", fg: "#191724" },
   metrics: { bg: "#524f67", fg: "#e0def4" },
+  sparkline: { bg: "#524f67", fg: "#e0def4" },
   version: { bg: "#2a273f", fg: "#c4a7e7" },
   env: { bg: "#21202e", fg: "#eb6f92" },
   weekly: { bg: "#21202e", fg: "#c4a7e7" },
+  weeklyWarning: { bg: "#f6c177", fg: "#191724" },
+  weeklyCritical: { bg: "#eb6f92", fg: "#191724" },
   agent: { bg: "#2a273f", fg: "#c4a7e7" },
   thinking: { bg: "#26223a", fg: "#c4a7e7" },
   cacheTimer: { bg: "#1f2d2e", fg: "#9ccfd8" },
+  cacheTimerWarning: { bg: "#f6c177", fg: "#191724" },
+  cacheTimerCritical: { bg: "#eb6f92", fg: "#191724" },
+  command: { bg: "#26233a", fg: "#9ccfd8" },
 };
 
 export const rosePineAnsi256Theme: ColorTheme = {
@@ -25,19 +46,40 @@ export const rosePineAnsi256Theme: ColorTheme = {
   git: { bg: "#262626", fg: "#87d7d7" },
   model: { bg: "#1c1c1c", fg: "#ffaf87" },
   session: { bg: "#444444", fg: "#d7af5f" },
+  sessionWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  sessionCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
   block: { bg: "#4e4e4e", fg: "#ff5f87" },
+  blockWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  blockCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
   today: { bg: "#3a3a3a", fg: "#87d7d7" },
+  todayWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  todayCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
+  week: { bg: "#3a3a3a", fg: "#87d7d7" },
+  weekWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  weekCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
+  month: { bg: "#3a3a3a", fg: "#87d7d7" },
+  monthWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  monthCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
+  project: { bg: "#3a3a3a", fg: "#87d7d7" },
+  projectWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  projectCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
   tmux: { bg: "#444444", fg: "#9e9e9e" },
   context: { bg: "#585858", fg: "#e4e4e4" },
   contextWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
   contextCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
   metrics: { bg: "#767676", fg: "#e4e4e4" },
+  sparkline: { bg: "#767676", fg: "#e4e4e4" },
   version: { bg: "#4e4e4e", fg: "#d787d7" },
   env: { bg: "#303030", fg: "#ff5f87" },
   weekly: { bg: "#303030", fg: "#d787d7" },
+  weeklyWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  weeklyCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
   agent: { bg: "#4e4e4e", fg: "#d787d7" },
   thinking: { bg: "#303030", fg: "#d787d7" },
   cacheTimer: { bg: "#303030", fg: "#87d7d7" },
+  cacheTimerWarning: { bg: "#d7af5f", fg: "#1c1c1c" },
+  cacheTimerCritical: { bg: "#ff5f87", fg: "#1c1c1c" },
+  command: { bg: "#303030", fg: "#87d7d7" },
 };
 
 export const rosePineAnsiTheme: ColorTheme = {
@@ -45,17 +87,38 @@ export const rosePineAnsiTheme: ColorTheme = {
   git: { bg: "#303030", fg: "#00d7d7" },
   model: { bg: "#262626", fg: "#ffaf87" },
   session: { bg: "#585858", fg: "#d7af00" },
+  sessionWarning: { bg: "#d7af00", fg: "#000000" },
+  sessionCritical: { bg: "#ff5f5f", fg: "#000000" },
   block: { bg: "#666666", fg: "#ff5f87" },
+  blockWarning: { bg: "#d7af00", fg: "#000000" },
+  blockCritical: { bg: "#ff5f5f", fg: "#000000" },
   today: { bg: "#444444", fg: "#00d7d7" },
+  todayWarning: { bg: "#d7af00", fg: "#000000" },
+  todayCritical: { bg: "#ff5f5f", fg: "#000000" },
+  week: { bg: "#444444", fg: "#00d7d7" },
+  weekWarning: { bg: "#d7af00", fg: "#000000" },
+  weekCritical: { bg: "#ff5f5f", fg: "#000000" },
+  month: { bg: "#444444", fg: "#00d7d7" },
+  monthWarning: { bg: "#d7af00", fg: "#000000" },
+  monthCritical: { bg: "#ff5f5f", fg: "#000000" },
+  project: { bg: "#444444", fg: "#00d7d7" },
+  projectWarning: { bg: "#d7af00", fg: "#000000" },
+  projectCritical: { bg: "#ff5f5f", fg: "#000000" },
   tmux: { bg: "#585858", fg: "#bcbcbc" },
   context: { bg: "#808080", fg: "#ffffff" },
   contextWarning: { bg: "#d7af00", fg: "#000000" },
   contextCritical: { bg: "#ff5f5f", fg: "#000000" },
   metrics: { bg: "#a8a8a8", fg: "#000000" },
+  sparkline: { bg: "#a8a8a8", fg: "#000000" },
   version: { bg: "#666666", fg: "#ff87ff" },
   env: { bg: "#444444", fg: "#ff5f87" },
   weekly: { bg: "#444444", fg: "#ff87ff" },
+  weeklyWarning: { bg: "#d7af00", fg: "#000000" },
+  weeklyCritical: { bg: "#ff5f5f", fg: "#000000" },
   agent: { bg: "#666666", fg: "#ff87ff" },
   thinking: { bg: "#444444", fg: "#ff87ff" },
   cacheTimer: { bg: "#444444", fg: "#00d7d7" },
+  cacheTimerWarning: { bg: "#d7af00", fg: "#000000" },
+  cacheTimerCritical: { bg: "#ff5f5f", fg: "#000000" },
+  command: { bg: "#444444", fg: "#5fd7d7" },
 };
@@ -5,19 +5,40 @@ export const tokyoNightTheme: ColorTheme = {
   git: { bg: "#1e2030", fg: "#c3e88d" },
   model: { bg: "#191b29", fg: "#fca7ea" },
   session: { bg: "#222436", fg: "#86e1fc" },
+  sessionWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  sessionCritical: { bg: "#f7768e", fg: "#1a1b26" },
   block: { bg: "#2d3748", fg: "#7aa2f7" },
+  blockWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  blockCritical: { bg: "#f7768e", fg: "#1a1b26" },
   today: { bg: "#1a202c", fg: "#4fd6be" },
+  todayWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  todayCritical: { bg: "#f7768e", fg: "#1a1b26" },
+  week: { bg: "#1a202c", fg: "#4fd6be" },
+  weekWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  weekCritical: { bg: "#f7768e", fg: "#1a1b26" },
+  month: { bg: "#1a202c", fg: "#4fd6be" },
+  monthWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  monthCritical: { bg: "#f7768e", fg: "#1a1b26" },
+  project: { bg: "#1a202c", fg: "#4fd6be" },
+  projectWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  projectCritical: { bg: "#f7768e", fg: "#1a1b26" },
   tmux: { bg: "#191b29", fg: "#4fd6be" },
   context: { bg: "#414868", fg: "#c0caf5" },
   contextWarning: { bg: "#ff9e64", fg: "#1a1b26" },
   contextCritical: { bg: "#f7768e", fg: "#1a1b26" },
   metrics: { bg: "#3d59a1", fg: "#c0caf5" },
+  sparkline: { bg: "#3d59a1", fg: "#c0caf5" },
   version: { bg: "#292e42", fg: "#bb9af7" },
   env: { bg: "#24283b", fg: "#fca7ea" },
   weekly: { bg: "#24283b", fg: "#7dcfff" },
+  weeklyWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  weeklyCritical: { bg: "#f7768e", fg: "#1a1b26" },
   agent: { bg: "#2d2b55", fg: "#bb9af7" },
   thinking: { bg: "#2f2a3d", fg: "#bb9af7" },
   cacheTimer: { bg: "#1f2e2a", fg: "#9ece6a" },
+  cacheTimerWarning: { bg: "#ff9e64", fg: "#1a1b26" },
+  cacheTimerCritical: { bg: "#f7768e", fg: "#1a1b26" },
+  command: { bg: "#1f2335", fg: "#7dcfff" },
 };
 
 export const tokyoNightAnsi256Theme: ColorTheme = {
@@ -25,19 +46,40 @@ export const tokyoNightAnsi256Theme: ColorTheme = {
   git: { bg: "#262640", fg: "#afff87" },
   model: { bg: "#1c1c30", fg: "#ff87ff" },
   session: { bg: "#3a3a50", fg: "#5fd7ff" },
+  sessionWarning: { bg: "#ffaf5f", fg: "#262626" },
+  sessionCritical: { bg: "#ff5f87", fg: "#262626" },
   block: { bg: "#4e4e68", fg: "#5f87ff" },
+  blockWarning: { bg: "#ffaf5f", fg: "#262626" },
+  blockCritical: { bg: "#ff5f87", fg: "#262626" },
   today: { bg: "#262640", fg: "#00d7af" },
+  todayWarning: { bg: "#ffaf5f", fg: "#262626" },
+  todayCritical: { bg: "#ff5f87", fg: "#262626" },
+  week: { bg: "#262640", fg: "#00d7af" },
+  weekWarning: { bg: "#ffaf5f", fg: "#262626" },
+  weekCritical: { bg: "#ff5f87", fg: "#262626" },
+  month: { bg: "#262640", fg: "#00d7af" },
+  monthWarning: { bg: "#ffaf5f", fg: "#262626" },
+  monthCritical: { bg: "#ff5f87", fg: "#262626" },
+  project: { bg: "#262640", fg: "#00d7af" },
+  projectWarning: { bg: "#ffaf5f", fg: "#262626" },
+  projectCritical: { bg: "#ff5f87", fg: "#262626" },
   tmux: { bg: "#1c1c30", fg: "#00d7af" },
   context: { bg: "#5f5f87", fg: "#d7d7ff" },
   contextWarning: { bg: "#ffaf5f", fg: "#262626" },
   contextCritical: { bg: "#ff5f87", fg: "#262626" },
   metrics: { bg: "#5f5faf", fg: "#d7d7ff" },
+  sparkline: { bg: "#5f5faf", fg: "#d7d7ff" },
   version: { bg: "#444460", fg: "#d787ff" },
   env: { bg: "#303050", fg: "#ff87ff" },
   weekly: { bg: "#303050", fg: "#5fd7ff" },
+  weeklyWarning: { bg: "#ffaf5f", fg: "#262626" },
+  weeklyCritical: { bg: "#ff5f87", fg: "#262626" },
   agent: { bg: "#5f5f87", fg: "#af87ff" },
   thinking: { bg: "#444460", fg: "#d787ff" },
   cacheTimer: { bg: "#1c3a30", fg: "#87d787" },
+  cacheTimerWarning: { bg: "#ffaf5f", fg: "#262626" },
+  cacheTimerCritical: { bg: "#ff5f87", fg: "#262626" },
+  command: { bg: "#262640", fg: "#5fd7ff" },
 };
 
 export const tokyoNightAnsiTheme: ColorTheme = {
@@ -45,17 +87,38 @@ export const tokyoNightAnsiTheme: ColorTheme = {
   git: { bg: "#303050", fg: "#87ff87" },
   model: { bg: "#262640", fg: "#ff87ff" },
   session: { bg: "#444470", fg: "#00d7ff" },
+  sessionWarning: { bg: "#ffaf00", fg: "#000000" },
+  sessionCritical: { bg: "#ff5f5f", fg: "#000000" },
   block: { bg: "#666680", fg: "#5f87ff" },
+  blockWarning: { bg: "#ffaf00", fg: "#000000" },
+  blockCritical: { bg: "#ff5f5f", fg: "#000000" },
   today: { bg: "#303050", fg: "#00d787" },
+  todayWarning: { bg: "#ffaf00", fg: "#000000" },
+  todayCritical: { bg: "#ff5f5f", fg: "#000000" },
+  week: { bg: "#303050", fg: "#00d787" },
+  weekWarning: { bg: "#ffaf00", fg: "#000000" },
+  weekCritical: { bg: "#ff5f5f", fg: "#000000" },
+  month: { bg: "#303050", fg: "#00d787" },
+  monthWarning: { bg: "#ffaf00", fg: "#000000" },
+  monthCritical: { bg: "#ff5f5f", fg: "#000000" },
+  project: { bg: "#303050", fg: "#00d787" },
+  projectWarning: { bg: "#ffaf00", fg: "#000000" },
+  projectCritical: { bg: "#ff5f5f", fg: "#000000" },
   tmux: { bg: "#262640", fg: "#00d787" },
   context: { bg: "#808080", fg: "#ffffff" },
   contextWarning: { bg: "#ffaf00", fg: "#000000" },
   contextCritical: { bg: "#ff5f5f", fg: "#000000" },
   metrics: { bg: "#8787d7", fg: "#ffffff" },
+  sparkline: { bg: "#8787d7", fg: "#ffffff" },
   version: { bg: "#585870", fg: "#d787ff" },
   env: { bg: "#444470", fg: "#ff87ff" },
   weekly: { bg: "#444470", fg: "#00d7ff" },
+  weeklyWarning: { bg: "#ffaf00", fg: "#000000" },
+  weeklyCritical: { bg: "#ff5f5f", fg: "#000000" },
   agent: { bg: "#5f5faf", fg: "#d787ff" },
   thinking: { bg: "#585870", fg: "#d787ff" },
   cacheTimer: { bg: "#305050", fg: "#00d787" },
+  cacheTimerWarning: { bg: "#ffaf00", fg: "#000000" },
+  cacheTimerCritical: { bg: "#ff5f5f", fg: "#000000" },
+  command: { bg: "#303050", fg: "#5fd7ff" },
 };
@@ -134,6 +134,32 @@ export function parseAreas(areas: string[]): GridCell[][] {
   return matrix;
 }
 
+/**
+ * Segments a grid config shows anywhere: in the areas of any breakpoint or
+ * as `{segment.part}` tokens in the title and footer.
+ */
+export function getGridSegmentNames(config: TuiGridConfig): Set<string> {
+  const refs = config.breakpoints.flatMap((bp) =>
+    bp.areas.flatMap((row) => row.trim().split(/\s+/)),
+  );
+  const tokens = [
+    config.title?.left,
+    config.title?.right,
+    config.footer?.left,
+    config.footer?.right,
+  ];
+  for (const template of tokens) {
+    for (const match of template?.matchAll(/\{([^}]+)\}/g) ?? []) {
+      refs.push(match[1]!);
+    }
+  }
+  return new Set(
+    refs
+      .filter((ref) => ref !== EMPTY_CELL && ref !== DIVIDER)
+      .map((ref) => ref.split(".")[0]!),
+  );
+}
+
 // --- Matrix Culling ---
 
 export function cullMatrix(
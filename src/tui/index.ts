@@ -1,4 +1,6 @@
 export type { BoxChars, TuiData } from "./types";
+export { registerPluginSegment } from "./types";
 
+export { getGridSegmentNames } from "./grid";
 export { renderTuiPanel } from "./renderer";
 export type { TuiPanelOptions } from "./renderer";
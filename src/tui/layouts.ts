@@ -102,7 +102,7 @@ export function renderMediumMetrics(ctx: RenderCtx): void {
   if (sevenDay) {
     line1Parts.push(
       colorize(
-        formatWeeklySegment(sevenDay, sym, showWeeklyIcon),
+        formatWeeklySegment(sevenDay, sym, showWeeklyIcon, data.weeklyForecast),
         colors.weeklyFg,
         reset,
         colors.weeklyBold,
@@ -238,7 +238,12 @@ export function renderNarrowMetrics(ctx: RenderCtx): void {
       contentRow(
         box,
         colorize(
-          formatWeeklySegment(narrowSevenDay, sym, showWeeklyIcon),
+          formatWeeklySegment(
+            narrowSevenDay,
+            sym,
+            showWeeklyIcon,
+            data.weeklyForecast,
+          ),
           colors.weeklyFg,
           reset,
           colors.weeklyBold,
@@ -9,6 +9,7 @@ import {
   buildContextBar,
   buildBlockBar,
   buildWeeklyBar,
+  getSegmentThresholds,
   resolveSegments,
   composeTemplate,
   resolveTitleToken,
@@ -108,22 +109,58 @@ export async function renderTuiPanel(
     const resolvedData = resolved.data;
     const templates = resolved.templates;
 
+    const hidden = new Set(data.hiddenSegments ?? []);
+    const isHidden = (segment: string) => hidden.has(segment.split(".")[0]!);
+    for (const key of Object.keys(resolvedData)) {
+      if (isHidden(key)) {
+        resolvedData[key] = "";
+      }
+    }
+
     const pf = colors.partFg;
     const lateResolve = (
       segment: string,
       cellWidth: number,
     ): string | undefined => {
+      if (isHidden(segment)) {
+        return "";
+      }
       if (segment === "context") {
-        return buildContextLine(data, cellWidth, sym, reset, colors) ?? "";
+        return (
+          buildContextLine(
+            data,
+            cellWidth,
+            sym,
+            reset,
+            colors,
+            getSegmentThresholds(config, "context"),
+          ) ?? ""
+        );
       }
       if (segment === "context.bar") {
-        return buildContextBar(data, cellWidth, sym, reset, colors, pf);
+        return buildContextBar(
+          data,
+          cellWidth,
+          sym,
+          reset,
+          colors,
+          pf,
+          getSegmentThresholds(config, "context"),
+        );
       }
       if (segment === "block.bar") {
         return buildBlockBar(data, cellWidth, sym, reset, colors, config, pf);
       }
       if (segment === "weekly.bar") {
-        return buildWeeklyBar(data, cellWidth, sym, reset, colors, pf);
+        return buildWeeklyBar(
+          data,
+          cellWidth,
+          sym,
+          reset,
+          colors,
+          pf,
+          getSegmentThresholds(config, "weekly"),
+        );
       }
       const tmpl = templates[segment];
       if (tmpl) {
@@ -173,7 +210,14 @@ export async function renderTuiPanel(
 
   lines.push(buildTitleBar(data, box, innerWidth));
 
-  const contextLine = buildContextLine(data, contentWidth, sym, reset, colors);
+  const contextLine = buildContextLine(
+    data,
+    contentWidth,
+    sym,
+    reset,
+    colors,
+    getSegmentThresholds(config, "context"),
+  );
   if (contextLine) {
     lines.push(contentRow(box, contextLine, innerWidth));
   }
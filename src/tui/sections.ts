@@ -1,5 +1,6 @@
 import type { PowerlineConfig } from "../config/loader";
-import type { PowerlineColors } from "../themes";
+import type { PowerlineColors, ThresholdSegment } from "../themes";
+import { getThresholdColors } from "../themes";
 import type {
   TuiData,
   SymbolSet,
@@ -14,19 +15,28 @@ import { visibleLength } from "../utils/terminal";
 import {
   formatCost,
   formatTokenCount,
+  formatModelBreakdown,
+  formatSubagents,
   collapseHome,
   formatDuration,
   formatModelName,
   formatResponseTime,
   formatTimeRemaining,
   formatLongTimeRemaining,
+  formatRateLimitForecast,
   minutesUntilReset,
   abbreviateFishStyle,
   formatCacheTimerElapsed,
   formatCacheTimerRemaining,
+  drawSparkline,
 } from "../utils/formatters";
-import { resolveBudgetDisplay } from "../utils/budget";
+import { getTodayBudgetCost, resolveBudgetDisplay } from "../utils/budget";
 import type { CacheTimerSegmentConfig } from "../segments/renderer";
+import {
+  resolveThresholdLevel,
+  resolveUsageThresholdLevel,
+} from "../utils/thresholds";
+import type { SegmentThresholds, ThresholdLevel } from "../utils/thresholds";
 import { colorize, truncateAnsi } from "./primitives";
 import { getEffortLevel, getThinkingEnabled } from "../utils/claude";
 import { resolveIconVisibility } from "../utils/icon-visibility";
@@ -117,18 +127,62 @@ export function buildTitleBar(
 }
 
 function resolveThresholdStyle(
-  pct: number,
+  level: ThresholdLevel,
+  segment: ThresholdSegment,
   defaultFg: string,
   defaultBold: boolean,
   colors: PowerlineColors,
-  warningAt = 60,
-  criticalAt = 80,
 ): { fg: string; bold: boolean } {
-  if (pct >= criticalAt)
-    return { fg: colors.contextCriticalFg, bold: colors.contextCriticalBold };
-  if (pct >= warningAt)
-    return { fg: colors.contextWarningFg, bold: colors.contextWarningBold };
-  return { fg: defaultFg, bold: defaultBold };
+  if (level === "normal") return { fg: defaultFg, bold: defaultBold };
+  const { fg, bold } = getThresholdColors(colors, segment, level);
+  return { fg, bold };
+}
+
+/** The `thresholds` of the first enabled line segment of this type. */
+export function getSegmentThresholds(
+  config: PowerlineConfig,
+  segment: ThresholdSegment,
+): SegmentThresholds | undefined {
+  for (const line of config.display.lines) {
+    const segmentConfig = line.segments[segment] as
+      | { enabled: boolean; thresholds?: SegmentThresholds }
+      | undefined;
+    if (segmentConfig?.enabled) return segmentConfig.thresholds;
+  }
+  return undefined;
+}
+
+function contextLevel(
+  contextInfo: NonNullable<TuiData["contextInfo"]>,
+  thresholds?: SegmentThresholds,
+): ThresholdLevel {
+  return resolveThresholdLevel(
+    contextInfo.usablePercentage,
+    { warning: 60, critical: 80 },
+    thresholds,
+  );
+}
+
+function blockLevel(
+  blockInfo: NonNullable<TuiData["blockInfo"]>,
+  config: PowerlineConfig,
+): ThresholdLevel {
+  return resolveThresholdLevel(
+    blockInfo.nativeUtilization,
+    { warning: 50, critical: config.budget?.block?.warningThreshold ?? 80 },
+    getSegmentThresholds(config, "block"),
+  );
+}
+
+function weeklyLevel(
+  usedPercentage: number,
+  thresholds?: SegmentThresholds,
+): ThresholdLevel {
+  return resolveThresholdLevel(
+    usedPercentage,
+    { warning: 50, critical: 80 },
+    thresholds,
+  );
 }
 
 function buildBarString(
@@ -178,13 +232,15 @@ export function buildContextBar(
   reset: string,
   colors: PowerlineColors,
   partFg?: Record<string, string>,
+  thresholds?: SegmentThresholds,
 ): string {
   if (!data.contextInfo) return "";
   const usedPct = data.contextInfo.usablePercentage;
   const defaultFg =
     partFg?.["context.bar"] ?? partFg?.["context"] ?? colors.contextFg;
   const { fg, bold } = resolveThresholdStyle(
-    usedPct,
+    contextLevel(data.contextInfo, thresholds),
+    "context",
     defaultFg,
     colors.contextBold,
     colors,
@@ -204,16 +260,14 @@ export function buildBlockBar(
   if (!data.blockInfo) return "";
 
   const pct = data.blockInfo.nativeUtilization;
-  const warningThreshold = config.budget?.block?.warningThreshold ?? 80;
   const defaultFg =
     partFg?.["block.bar"] ?? partFg?.["block"] ?? colors.blockFg;
   const { fg, bold } = resolveThresholdStyle(
-    pct,
+    blockLevel(data.blockInfo, config),
+    "block",
     defaultFg,
     colors.blockBold,
     colors,
-    50,
-    warningThreshold,
   );
   return buildBarString(pct, barWidth, sym, reset, fg, bold);
 }
@@ -225,6 +279,7 @@ export function buildWeeklyBar(
   reset: string,
   colors: PowerlineColors,
   partFg?: Record<string, string>,
+  thresholds?: SegmentThresholds,
 ): string {
   const sevenDay = data.hookData.rate_limits?.seven_day;
   if (!sevenDay) return "";
@@ -233,7 +288,8 @@ export function buildWeeklyBar(
   const defaultFg =
     partFg?.["weekly.bar"] ?? partFg?.["weekly"] ?? colors.weeklyFg;
   const { fg, bold } = resolveThresholdStyle(
-    pct,
+    weeklyLevel(pct, thresholds),
+    "weekly",
     defaultFg,
     colors.weeklyBold,
     colors,
@@ -247,6 +303,7 @@ export function buildContextLine(
   sym: SymbolSet,
   reset: string,
   colors: PowerlineColors,
+  thresholds?: SegmentThresholds,
 ): string | null {
   if (!data.contextInfo) {
     return null;
@@ -266,7 +323,8 @@ export function buildContextLine(
     sym.bar_filled.repeat(filledCount) + sym.bar_empty.repeat(emptyCount);
 
   const { fg, bold } = resolveThresholdStyle(
-    usedPct,
+    contextLevel(data.contextInfo, thresholds),
+    "context",
     colors.contextFg,
     colors.contextBold,
     colors,
@@ -312,6 +370,7 @@ export function collectMetricSegments(
           sevenDay,
           sym,
           resolveIconVisibility(config, "weekly"),
+          data.weeklyForecast,
         ),
         colors.weeklyFg,
         reset,
@@ -548,6 +607,9 @@ export function formatBlockParts(
     time,
     budget: "",
     bar: " ",
+    forecast: blockInfo.forecast
+      ? formatRateLimitForecast(blockInfo.forecast.exhaustsAt)
+      : "",
   };
 }
 
@@ -561,6 +623,7 @@ export function formatBlockSegment(
   let text = parts.icon ? `${parts.icon} ${parts.value}` : (parts.value ?? "");
   if (parts.time) text += ` · ${parts.time}`;
   if (parts.budget) text += parts.budget;
+  if (parts.forecast) text += ` · ${parts.forecast}`;
   return text;
 }
 
@@ -568,6 +631,7 @@ export function formatWeeklyParts(
   sevenDay: { used_percentage: number; resets_at: number },
   sym: SymbolSet,
   iconVisible = true,
+  forecast: TuiData["weeklyForecast"] = null,
 ): Record<string, string> {
   const pct = `${Math.round(sevenDay.used_percentage)}%`;
   const time = formatLongTimeRemaining(minutesUntilReset(sevenDay.resets_at));
@@ -577,6 +641,7 @@ export function formatWeeklyParts(
     pct,
     time,
     bar: " ",
+    forecast: forecast ? formatRateLimitForecast(forecast.exhaustsAt) : "",
   };
 }
 
@@ -584,10 +649,12 @@ export function formatWeeklySegment(
   sevenDay: { used_percentage: number; resets_at: number },
   sym: SymbolSet,
   iconVisible = true,
+  forecast: TuiData["weeklyForecast"] = null,
 ): string {
-  const parts = formatWeeklyParts(sevenDay, sym, iconVisible);
+  const parts = formatWeeklyParts(sevenDay, sym, iconVisible, forecast);
   let text = parts.icon ? `${parts.icon} ${parts.pct}` : (parts.pct ?? "");
   if (parts.time) text += ` · ${parts.time}`;
+  if (parts.forecast) text += ` · ${parts.forecast}`;
   return text;
 }
 
@@ -604,7 +671,14 @@ export function formatSessionParts(
   );
 
   if (state.suppressAll) {
-    return { icon: "", label: "", cost: "", tokens: "", budget: "" };
+    return {
+      icon: "",
+      label: "",
+      cost: "",
+      tokens: "",
+      budget: "",
+      models: "",
+    };
   }
 
   const sessionTokens = usageInfo.session.tokens;
@@ -619,6 +693,9 @@ export function formatSessionParts(
     cost: state.showBase ? formatCost(usageInfo.session.cost) : "",
     tokens: tokenStr,
     budget: state.percentText ? ` ${state.percentText}` : "",
+    models: state.showBase
+      ? formatModelBreakdown(usageInfo.session.modelBreakdown)
+      : "",
   };
 }
 
@@ -641,6 +718,15 @@ export function formatSessionSegment(
     return icon ? `${icon} ${state.percentText}` : state.percentText;
   }
 
+  const sessionConfig = config.display.lines
+    .map((line) => line.segments.session)
+    .find((s) => s?.enabled);
+  if (sessionConfig?.type === "byModel") {
+    const models = formatModelBreakdown(usageInfo.session.modelBreakdown);
+    const text = icon ? `${icon} ${models}` : models;
+    return state.percentText ? `${text} ${state.percentText}` : text;
+  }
+
   const costStr = formatCost(usageInfo.session.cost);
   const sessionTokens = usageInfo.session.tokens;
   let text = icon ? `${icon} ${costStr}` : costStr;
@@ -651,6 +737,17 @@ export function formatSessionSegment(
   return text;
 }
 
+/** Today's end-of-day projection, when the today segment turns it on. */
+function getTodayProjection(
+  todayInfo: TuiData["todayInfo"] & {},
+  config: PowerlineConfig,
+): number | null {
+  const todayConfig = config.display.lines
+    .map((line) => line.segments.today)
+    .find((t) => t?.enabled);
+  return todayConfig?.showProjection ? todayInfo.projectedCost : null;
+}
+
 export function formatTodayParts(
   todayInfo: TuiData["todayInfo"] & {},
   sym: SymbolSet,
@@ -658,13 +755,20 @@ export function formatTodayParts(
   iconVisible = true,
 ): Record<string, string> {
   const state = resolveBudgetDisplay(
-    todayInfo.cost,
+    getTodayBudgetCost(todayInfo, config),
     todayInfo.tokens,
     config.budget?.today,
   );
 
   if (state.suppressAll) {
-    return { icon: "", label: "", cost: "", budget: "" };
+    return {
+      icon: "",
+      label: "",
+      cost: "",
+      budget: "",
+      projected: "",
+      models: "",
+    };
   }
 
   return {
@@ -672,6 +776,13 @@ export function formatTodayParts(
     cost: state.showBase ? formatCost(todayInfo.cost) : "",
     label: state.percentageOnly ? "" : "today",
     budget: state.percentText ? ` ${state.percentText}` : "",
+    projected:
+      todayInfo.projectedCost !== null
+        ? `${sym.today_projected} ${formatCost(todayInfo.projectedCost)}`
+        : "",
+    models: state.showBase
+      ? formatModelBreakdown(todayInfo.modelBreakdown)
+      : "",
   };
 }
 
@@ -682,21 +793,137 @@ export function formatTodaySegment(
   iconVisible = true,
 ): string {
   const state = resolveBudgetDisplay(
-    todayInfo.cost,
+    getTodayBudgetCost(todayInfo, config),
     todayInfo.tokens,
     config.budget?.today,
   );
   if (state.suppressAll) return "";
 
   const icon = iconVisible ? sym.today_cost : "";
+  const projectedCost = getTodayProjection(todayInfo, config);
+  const projection =
+    projectedCost !== null
+      ? ` ${sym.today_projected} ${formatCost(projectedCost)}`
+      : "";
 
   if (!state.showBase) {
-    return icon ? `${icon} ${state.percentText}` : state.percentText;
+    const percentText = icon
+      ? `${icon} ${state.percentText}`
+      : state.percentText;
+    return `${percentText}${projection}`;
   }
 
-  const costStr = formatCost(todayInfo.cost);
+  const todayConfig = config.display.lines
+    .map((line) => line.segments.today)
+    .find((t) => t?.enabled);
+  const costStr =
+    todayConfig?.type === "byModel"
+      ? formatModelBreakdown(todayInfo.modelBreakdown)
+      : formatCost(todayInfo.cost);
   let text = icon ? `${icon} ${costStr} today` : `${costStr} today`;
   if (state.percentText) text += ` ${state.percentText}`;
+  return `${text}${projection}`;
+}
+
+export function formatProjectParts(
+  projectInfo: TuiData["projectInfo"] & {},
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible = true,
+): Record<string, string> {
+  const state = resolveBudgetDisplay(
+    projectInfo.cost,
+    projectInfo.tokens,
+    config.budget?.project,
+  );
+
+  if (state.suppressAll) {
+    return { icon: "", label: "", cost: "", budget: "" };
+  }
+
+  return {
+    icon: iconVisible ? sym.project_cost : "",
+    cost: state.showBase ? formatCost(projectInfo.cost) : "",
+    label: state.percentageOnly ? "" : "project",
+    budget: state.percentText ? ` ${state.percentText}` : "",
+  };
+}
+
+export function formatProjectSegment(
+  projectInfo: TuiData["projectInfo"] & {},
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible = true,
+): string {
+  const state = resolveBudgetDisplay(
+    projectInfo.cost,
+    projectInfo.tokens,
+    config.budget?.project,
+  );
+  if (state.suppressAll) return "";
+
+  const icon = iconVisible ? sym.project_cost : "";
+
+  if (!state.showBase) {
+    return icon ? `${icon} ${state.percentText}` : state.percentText;
+  }
+
+  const costStr = formatCost(projectInfo.cost);
+  let text = icon ? `${icon} ${costStr} project` : `${costStr} project`;
+  if (state.percentText) text += ` ${state.percentText}`;
+  return text;
+}
+
+export function formatPeriodParts(
+  periodInfo: TuiData["weekInfo"] & {},
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible = true,
+): Record<string, string> {
+  const { period } = periodInfo;
+  const state = resolveBudgetDisplay(
+    periodInfo.cost,
+    periodInfo.tokens,
+    config.budget?.[period],
+  );
+
+  if (state.suppressAll) {
+    return { icon: "", label: "", cost: "", budget: "" };
+  }
+
+  const icon = period === "week" ? sym.week_cost : sym.month_cost;
+  return {
+    icon: iconVisible ? icon : "",
+    cost: state.showBase ? formatCost(periodInfo.cost) : "",
+    label: state.percentageOnly ? "" : period,
+    budget: state.percentText ? ` ${state.percentText}` : "",
+  };
+}
+
+export function formatPeriodSegment(
+  periodInfo: TuiData["weekInfo"] & {},
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible = true,
+): string {
+  const { period } = periodInfo;
+  const state = resolveBudgetDisplay(
+    periodInfo.cost,
+    periodInfo.tokens,
+    config.budget?.[period],
+  );
+  if (state.suppressAll) return "";
+
+  const symbol = period === "week" ? sym.week_cost : sym.month_cost;
+  const icon = iconVisible ? symbol : "";
+
+  if (!state.showBase) {
+    return icon ? `${icon} ${state.percentText}` : state.percentText;
+  }
+
+  const costStr = formatCost(periodInfo.cost);
+  let text = icon ? `${icon} ${costStr} ${period}` : `${costStr} ${period}`;
+  if (state.percentText) text += ` ${state.percentText}`;
   return text;
 }
 
@@ -951,18 +1178,66 @@ function formatVersionSegment(
   return parts.icon ? `${parts.icon} ${parts.value}` : parts.value;
 }
 
+function formatSparklineParts(
+  data: TuiData,
+  sym: SymbolSet,
+  iconVisible = true,
+): Record<string, string> {
+  const info = data.sparklineInfo;
+  if (!info || info.values.length === 0) {
+    return { icon: "", chart: "", last: "" };
+  }
+  const last = info.values[info.values.length - 1]!;
+  return {
+    icon: iconVisible ? sym.sparkline : "",
+    chart: drawSparkline(info.values, sym.sparkline_levels),
+    last: info.metric === "cost" ? formatCost(last) : formatTokenCount(last),
+  };
+}
+
+function formatSparklineSegment(
+  data: TuiData,
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible = true,
+): string {
+  const parts = formatSparklineParts(data, sym, iconVisible);
+  if (!parts.chart) return "";
+  const sparklineConfig = config.display.lines
+    .map((line) => line.segments.sparkline)
+    .find((s) => s?.enabled);
+  const body = sparklineConfig?.showLast
+    ? `${parts.chart} ${parts.last}`
+    : parts.chart;
+  return parts.icon ? `${parts.icon} ${body}` : body;
+}
+
 function formatAgentParts(
   data: TuiData,
   sym: SymbolSet,
+  config: PowerlineConfig,
   iconVisible = true,
 ): Record<string, string> {
   const raw = data.hookData.agent?.name;
-  if (typeof raw !== "string") return { icon: "", name: "" };
-  const name = raw.trim();
-  if (!name) return { icon: "", name: "" };
+  const name = typeof raw === "string" ? raw.trim() : "";
+  const agentConfig = config.display.lines
+    .map((line) => line.segments.agent)
+    .find((a) => a?.enabled);
+  const mode = agentConfig?.subagents ?? "off";
+  const subagents =
+    mode === "off"
+      ? ""
+      : formatSubagents(
+          data.subagents,
+          mode,
+          { active: sym.agent_active, finished: sym.agent_finished },
+          agentConfig?.maxSubagents,
+        );
+  if (!name && !subagents) return { icon: "", name: "", subagents: "" };
   return {
     icon: iconVisible ? sym.agent : "",
     name,
+    subagents,
   };
 }
 
@@ -972,12 +1247,14 @@ function formatAgentSegment(
   config: PowerlineConfig,
   iconVisible = true,
 ): string {
-  const parts = formatAgentParts(data, sym, iconVisible);
-  if (!parts.name) return "";
+  const parts = formatAgentParts(data, sym, config, iconVisible);
+  if (!parts.name && !parts.subagents) return "";
   const agentConfig = config.display.lines
     .map((line) => line.segments.agent)
     .find((a) => a?.enabled);
-  const body = agentConfig?.showLabel ? `agent: ${parts.name}` : parts.name;
+  const label =
+    parts.name && agentConfig?.showLabel ? `agent: ${parts.name}` : parts.name;
+  const body = [label, parts.subagents].filter(Boolean).join(" · ");
   return parts.icon ? `${parts.icon} ${body}` : body;
 }
 
@@ -1082,25 +1359,26 @@ function cacheTimerStyle(
   colors: PowerlineColors,
   config?: CacheTimerSegmentConfig,
 ): { fg: string; bold: boolean } {
-  if (config?.displayMode === "remaining") {
-    const remaining = cacheTimerRemaining(info, config);
-    if (remaining < 60) {
-      return { fg: colors.contextCriticalFg, bold: colors.contextCriticalBold };
-    }
-    if (remaining < 300) {
-      return { fg: colors.contextWarningFg, bold: colors.contextWarningBold };
-    }
-    return { fg: colors.cacheTimerFg, bold: colors.cacheTimerBold };
-  }
-
-  const elapsed = info.elapsedSeconds;
-  if (elapsed >= 300) {
-    return { fg: colors.contextCriticalFg, bold: colors.contextCriticalBold };
-  }
-  if (elapsed >= 180) {
-    return { fg: colors.contextWarningFg, bold: colors.contextWarningBold };
-  }
-  return { fg: colors.cacheTimerFg, bold: colors.cacheTimerBold };
+  const level =
+    config?.displayMode === "remaining"
+      ? resolveThresholdLevel(
+          cacheTimerRemaining(info, config),
+          { warning: 300, critical: 60 },
+          config.thresholds,
+          "falling",
+        )
+      : resolveThresholdLevel(
+          info.elapsedSeconds,
+          { warning: 180, critical: 300 },
+          config?.thresholds,
+        );
+  return resolveThresholdStyle(
+    level,
+    "cacheTimer",
+    colors.cacheTimerFg,
+    colors.cacheTimerBold,
+    colors,
+  );
 }
 function formatTmuxParts(data: TuiData): Record<string, string> {
   if (!data.tmuxSessionId) return { label: "", value: "" };
@@ -1131,6 +1409,38 @@ function formatEnvSegment(config: PowerlineConfig): string {
   return parts.prefix ? `${parts.prefix}:${parts.value}` : parts.value;
 }
 
+function formatCommandParts(
+  data: TuiData,
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible: boolean,
+): Record<string, string> {
+  const commandConfig = config.display.lines
+    .map((line) => line.segments.command)
+    .find((command) => command?.enabled);
+
+  if (!commandConfig || !data.commandInfo) {
+    return { icon: "", prefix: "", value: "" };
+  }
+  return {
+    icon: iconVisible ? sym.command : "",
+    prefix: commandConfig.prefix ?? "",
+    value: data.commandInfo.output,
+  };
+}
+
+function formatCommandSegment(
+  data: TuiData,
+  sym: SymbolSet,
+  config: PowerlineConfig,
+  iconVisible: boolean,
+): string {
+  const parts = formatCommandParts(data, sym, config, iconVisible);
+  if (!parts.value) return "";
+  const text = parts.prefix ? `${parts.prefix}:${parts.value}` : parts.value;
+  return parts.icon ? `${parts.icon} ${text}` : text;
+}
+
 function addParts(
   result: Record<string, string>,
   segment: string,
@@ -1230,13 +1540,18 @@ export function resolveSegments(
     block: resolveIconVisibility(config, "block"),
     session: resolveIconVisibility(config, "session"),
     today: resolveIconVisibility(config, "today"),
+    project: resolveIconVisibility(config, "project"),
+    week: resolveIconVisibility(config, "week"),
+    month: resolveIconVisibility(config, "month"),
     weekly: resolveIconVisibility(config, "weekly"),
     git: resolveIconVisibility(config, "git"),
     directory: resolveIconVisibility(config, "directory"),
     version: resolveIconVisibility(config, "version"),
+    sparkline: resolveIconVisibility(config, "sparkline"),
     agent: resolveIconVisibility(config, "agent"),
     thinking: resolveIconVisibility(config, "thinking"),
     cacheTimer: resolveIconVisibility(config, "cacheTimer"),
+    command: resolveIconVisibility(config, "command"),
   };
 
   // Model
@@ -1260,18 +1575,21 @@ export function resolveSegments(
   );
 
   // Context (bar is width-dependent, resolved later via lateResolve)
+  const contextThresholds = getSegmentThresholds(config, "context");
   const contextLine = buildContextLine(
     data,
     ctx.contentWidth,
     sym,
     reset,
     colors,
+    contextThresholds,
   );
   result.context = contextLine ?? "";
   const ctxParts = formatContextParts(data, sym, iconVisible.context);
   const ctxStyle = data.contextInfo
     ? resolveThresholdStyle(
-        data.contextInfo.usablePercentage,
+        contextLevel(data.contextInfo, contextThresholds),
+        "context",
         colors.contextFg,
         colors.contextBold,
         colors,
@@ -1281,20 +1599,26 @@ export function resolveSegments(
 
   // Block
   if (data.blockInfo) {
-    const blockColor = pf?.["block"] ?? colors.blockFg;
+    const blockStyle = resolveThresholdStyle(
+      blockLevel(data.blockInfo, config),
+      "block",
+      colors.blockFg,
+      colors.blockBold,
+      colors,
+    );
     result.block = colorizeOrEmpty(
       formatBlockSegment(data.blockInfo, sym, config, iconVisible.block),
-      blockColor,
-      colors.blockBold,
+      pf?.["block"] ?? blockStyle.fg,
+      blockStyle.bold,
     );
     addParts(
       result,
       "block",
       formatBlockParts(data.blockInfo, sym, config, iconVisible.block),
-      colors.blockFg,
+      blockStyle.fg,
       reset,
       pf,
-      colors.blockBold,
+      blockStyle.bold,
     );
   } else {
     result.block = "";
@@ -1302,20 +1626,31 @@ export function resolveSegments(
 
   // Session
   if (data.usageInfo) {
-    const sessionColor = pf?.["session"] ?? colors.sessionFg;
+    const sessionStyle = resolveThresholdStyle(
+      resolveUsageThresholdLevel(
+        data.usageInfo.session.cost,
+        data.usageInfo.session.tokens,
+        config.budget?.session,
+        getSegmentThresholds(config, "session"),
+      ),
+      "session",
+      colors.sessionFg,
+      colors.sessionBold,
+      colors,
+    );
     result.session = colorizeOrEmpty(
       formatSessionSegment(data.usageInfo, sym, config, iconVisible.session),
-      sessionColor,
-      colors.sessionBold,
+      pf?.["session"] ?? sessionStyle.fg,
+      sessionStyle.bold,
     );
     addParts(
       result,
       "session",
       formatSessionParts(data.usageInfo, sym, config, iconVisible.session),
-      colors.sessionFg,
+      sessionStyle.fg,
       reset,
       pf,
-      colors.sessionBold,
+      sessionStyle.bold,
     );
   } else {
     result.session = "";
@@ -1323,42 +1658,133 @@ export function resolveSegments(
 
   // Today
   if (data.todayInfo) {
-    const todayColor = pf?.["today"] ?? colors.todayFg;
+    const todayStyle = resolveThresholdStyle(
+      resolveUsageThresholdLevel(
+        getTodayBudgetCost(data.todayInfo, config),
+        data.todayInfo.tokens,
+        config.budget?.today,
+        getSegmentThresholds(config, "today"),
+      ),
+      "today",
+      colors.todayFg,
+      colors.todayBold,
+      colors,
+    );
     result.today = colorizeOrEmpty(
       formatTodaySegment(data.todayInfo, sym, config, iconVisible.today),
-      todayColor,
-      colors.todayBold,
+      pf?.["today"] ?? todayStyle.fg,
+      todayStyle.bold,
     );
     addParts(
       result,
       "today",
       formatTodayParts(data.todayInfo, sym, config, iconVisible.today),
-      colors.todayFg,
+      todayStyle.fg,
       reset,
       pf,
-      colors.todayBold,
+      todayStyle.bold,
     );
   } else {
     result.today = "";
   }
 
+  // Project
+  if (data.projectInfo) {
+    const projectStyle = resolveThresholdStyle(
+      resolveUsageThresholdLevel(
+        data.projectInfo.cost,
+        data.projectInfo.tokens,
+        config.budget?.project,
+        getSegmentThresholds(config, "project"),
+      ),
+      "project",
+      colors.projectFg,
+      colors.projectBold,
+      colors,
+    );
+    result.project = colorizeOrEmpty(
+      formatProjectSegment(data.projectInfo, sym, config, iconVisible.project),
+      pf?.["project"] ?? projectStyle.fg,
+      projectStyle.bold,
+    );
+    addParts(
+      result,
+      "project",
+      formatProjectParts(data.projectInfo, sym, config, iconVisible.project),
+      projectStyle.fg,
+      reset,
+      pf,
+      projectStyle.bold,
+    );
+  } else {
+    result.project = "";
+  }
+
+  // Week and month
+  result.week = "";
+  result.month = "";
+  for (const periodInfo of [data.weekInfo, data.monthInfo]) {
+    if (!periodInfo) continue;
+    const { period } = periodInfo;
+    const periodStyle = resolveThresholdStyle(
+      resolveUsageThresholdLevel(
+        periodInfo.cost,
+        periodInfo.tokens,
+        config.budget?.[period],
+        getSegmentThresholds(config, period),
+      ),
+      period,
+      colors[`${period}Fg`],
+      colors[`${period}Bold`],
+      colors,
+    );
+    result[period] = colorizeOrEmpty(
+      formatPeriodSegment(periodInfo, sym, config, iconVisible[period]),
+      pf?.[period] ?? periodStyle.fg,
+      periodStyle.bold,
+    );
+    addParts(
+      result,
+      period,
+      formatPeriodParts(periodInfo, sym, config, iconVisible[period]),
+      periodStyle.fg,
+      reset,
+      pf,
+      periodStyle.bold,
+    );
+  }
+
   // Weekly
   const sevenDay = data.hookData.rate_limits?.seven_day;
   if (sevenDay) {
-    const weeklyColor = pf?.["weekly"] ?? colors.weeklyFg;
-    result.weekly = colorizeOrEmpty(
-      formatWeeklySegment(sevenDay, sym, iconVisible.weekly),
-      weeklyColor,
+    const weeklyStyle = resolveThresholdStyle(
+      weeklyLevel(
+        sevenDay.used_percentage,
+        getSegmentThresholds(config, "weekly"),
+      ),
+      "weekly",
+      colors.weeklyFg,
       colors.weeklyBold,
+      colors,
+    );
+    result.weekly = colorizeOrEmpty(
+      formatWeeklySegment(
+        sevenDay,
+        sym,
+        iconVisible.weekly,
+        data.weeklyForecast,
+      ),
+      pf?.["weekly"] ?? weeklyStyle.fg,
+      weeklyStyle.bold,
     );
     addParts(
       result,
       "weekly",
-      formatWeeklyParts(sevenDay, sym, iconVisible.weekly),
-      colors.weeklyFg,
+      formatWeeklyParts(sevenDay, sym, iconVisible.weekly, data.weeklyForecast),
+      weeklyStyle.fg,
       reset,
       pf,
-      colors.weeklyBold,
+      weeklyStyle.bold,
     );
   } else {
     result.weekly = "";
@@ -1483,6 +1909,40 @@ export function resolveSegments(
     colors.envBold,
   );
 
+  // Command
+  const commandColor = pf?.["command"] ?? colors.commandFg;
+  result.command = colorizeOrEmpty(
+    formatCommandSegment(data, sym, config, iconVisible.command),
+    commandColor,
+    colors.commandBold,
+  );
+  addParts(
+    result,
+    "command",
+    formatCommandParts(data, sym, config, iconVisible.command),
+    colors.commandFg,
+    reset,
+    pf,
+    colors.commandBold,
+  );
+
+  // Sparkline
+  const sparklineColor = pf?.["sparkline"] ?? colors.sparklineFg;
+  result.sparkline = colorizeOrEmpty(
+    formatSparklineSegment(data, sym, config, iconVisible.sparkline),
+    sparklineColor,
+    colors.sparklineBold,
+  );
+  addParts(
+    result,
+    "sparkline",
+    formatSparklineParts(data, sym, iconVisible.sparkline),
+    colors.sparklineFg,
+    reset,
+    pf,
+    colors.sparklineBold,
+  );
+
   // Agent
   const agentColor = pf?.["agent"] ?? colors.agentFg;
   result.agent = colorizeOrEmpty(
@@ -1493,7 +1953,7 @@ export function resolveSegments(
   addParts(
     result,
     "agent",
-    formatAgentParts(data, sym, iconVisible.agent),
+    formatAgentParts(data, sym, config, iconVisible.agent),
     colors.agentFg,
     reset,
     pf,
@@ -1546,6 +2006,25 @@ export function resolveSegments(
     cacheTimerStyleResolved.bold,
   );
 
+  // Plugin segments
+  for (const [name, output] of Object.entries(data.pluginData ?? {})) {
+    const pluginStyle = colors.pluginColors?.[name];
+    const pluginColor = pf?.[name] ?? pluginStyle?.fg ?? colors.envFg;
+    const pluginBold = pluginStyle?.bold ?? colors.envBold;
+    result[name] = colorizeOrEmpty(output.text, pluginColor, pluginBold);
+    if (output.parts) {
+      addParts(
+        result,
+        name,
+        output.parts,
+        pluginStyle?.fg ?? colors.envFg,
+        reset,
+        pf,
+        pluginBold,
+      );
+    }
+  }
+
   // Apply segment templates: resolve items and compose default value
   const templates: Record<string, ResolvedTemplate> = {};
   const segmentConfigs = config.display.tui?.segments;
@@ -1,13 +1,20 @@
 import type { UsageInfo } from "../segments/session";
 import type { BlockInfo } from "../segments/block";
 import type { TodayInfo } from "../segments/today";
+import type { ProjectInfo } from "../segments/project";
+import type { PeriodInfo } from "../segments/period";
+import type { SparklineInfo } from "../segments/sparkline";
+import type { SubagentInfo } from "../segments/subagents";
 import type { ContextInfo } from "../segments/context";
 import type { MetricsInfo } from "../segments/metrics";
 import type { GitInfo } from "../segments/git";
 import type { CacheTimerInfo } from "../segments/cacheTimer";
+import type { CommandInfo } from "../segments/command";
 import type { ClaudeHookData } from "../utils/claude";
+import type { RateLimitForecast } from "../utils/rate-limit-forecast";
 import type { PowerlineColors } from "../themes";
 import type { PowerlineConfig } from "../config/loader";
+import type { SegmentPluginOutput } from "../segments/plugin";
 
 import type { SYMBOLS, TEXT_SYMBOLS } from "../utils/constants";
 
@@ -27,11 +34,23 @@ export interface TuiData {
   usageInfo: UsageInfo | null;
   blockInfo: BlockInfo | null;
   todayInfo: TodayInfo | null;
+  projectInfo: ProjectInfo | null;
+  weekInfo: PeriodInfo | null;
+  monthInfo: PeriodInfo | null;
   contextInfo: ContextInfo | null;
   metricsInfo: MetricsInfo | null;
   gitInfo: GitInfo | null;
   cacheTimerInfo: CacheTimerInfo | null;
+  commandInfo: CommandInfo | null;
+  /** Seven-day limit forecast, when the weekly segment asks for it. */
+  weeklyForecast: RateLimitForecast | null;
+  sparklineInfo: SparklineInfo | null;
+  /** Subagents of the session, when the agent segment lists or counts them. */
+  subagents: SubagentInfo[] | null;
   tmuxSessionId: string | null;
+  pluginData?: Record<string, SegmentPluginOutput>;
+  /** Segments whose `when` clause is false; grid layouts leave their cells empty. */
+  hiddenSegments?: string[];
   colors: PowerlineColors;
 }
 
@@ -44,6 +63,9 @@ const SEGMENT_NAME_LIST = [
   "block",
   "session",
   "today",
+  "project",
+  "week",
+  "month",
   "weekly",
   "git",
   "dir",
@@ -52,10 +74,12 @@ const SEGMENT_NAME_LIST = [
   "tmux",
   "metrics",
   "activity",
+  "sparkline",
   "env",
   "agent",
   "thinking",
   "cacheTimer",
+  "command",
 ] as const;
 
 export type SegmentName = (typeof SEGMENT_NAME_LIST)[number];
@@ -65,10 +89,13 @@ export const VALID_SEGMENT_NAMES: ReadonlySet<string> = new Set<SegmentName>(
 );
 
 export const SEGMENT_PARTS: Record<SegmentName, readonly string[]> = {
-  session: ["icon", "label", "cost", "tokens", "budget"],
-  block: ["icon", "label", "value", "time", "budget", "bar"],
-  today: ["icon", "cost", "label", "budget"],
-  weekly: ["icon", "label", "pct", "time", "bar"],
+  session: ["icon", "label", "cost", "tokens", "budget", "models"],
+  block: ["icon", "label", "value", "time", "budget", "bar", "forecast"],
+  today: ["icon", "cost", "label", "budget", "projected", "models"],
+  project: ["icon", "cost", "label", "budget"],
+  week: ["icon", "cost", "label", "budget"],
+  month: ["icon", "cost", "label", "budget"],
+  weekly: ["icon", "label", "pct", "time", "bar", "forecast"],
   git: [
     "icon",
     "headVal",
@@ -103,25 +130,45 @@ export const SEGMENT_PARTS: Record<SegmentName, readonly string[]> = {
     "messagesIcon",
     "messagesVal",
   ],
+  sparkline: ["icon", "chart", "last"],
   model: ["icon", "value"],
   version: ["icon", "value"],
   tmux: ["label", "value"],
   dir: ["icon", "value"],
   env: ["prefix", "value"],
-  agent: ["icon", "name"],
+  agent: ["icon", "name", "subagents"],
   thinking: ["icon", "enabled", "effort"],
   cacheTimer: ["icon", "value"],
+  command: ["icon", "prefix", "value"],
 } as const;
 
+// Plugin segments are registered at runtime once their modules load, so
+// grid areas can reference them exactly like the built-in segments.
+const PLUGIN_SEGMENT_PARTS = new Map<string, readonly string[]>();
+
+export function registerPluginSegment(
+  name: string,
+  parts: readonly string[],
+): void {
+  if (VALID_SEGMENT_NAMES.has(name)) return;
+  PLUGIN_SEGMENT_PARTS.set(name, parts);
+}
+
+export function getPluginSegmentNames(): string[] {
+  return [...PLUGIN_SEGMENT_PARTS.keys()];
+}
+
 export function isValidSegmentRef(name: string): boolean {
   if (name === "." || name === "---") return true;
   if (VALID_SEGMENT_NAMES.has(name)) return true;
+  if (PLUGIN_SEGMENT_PARTS.has(name)) return true;
   const dotIdx = name.indexOf(".");
   if (dotIdx === -1) return false;
   const seg = name.slice(0, dotIdx);
   const part = name.slice(dotIdx + 1);
   if (!seg || !part) return false;
-  const parts = SEGMENT_PARTS[seg as SegmentName];
+  const parts =
+    SEGMENT_PARTS[seg as SegmentName] ?? PLUGIN_SEGMENT_PARTS.get(seg);
   return parts ? parts.includes(part) : false;
 }
 
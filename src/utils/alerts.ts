@@ -0,0 +1,276 @@
+import fs from "node:fs";
+import { spawn } from "node:child_process";
+import { debug } from "./logger";
+import { CacheManager } from "./cache";
+import { getBudgetStatus, getTodayBudgetCost, pickBudgetValue } from "./budget";
+import type { ClaudeHookData } from "./claude";
+import type { PowerlineConfig, BudgetItemConfig } from "../config/loader";
+import type { UsageInfo } from "../segments/session";
+import type { TodayInfo } from "../segments/today";
+import type { ProjectInfo } from "../segments/project";
+import type { PeriodInfo } from "../segments/period";
+import type { ContextInfo } from "../segments/context";
+
+export type AlertMethod = "bell" | "osc9" | "osc777" | "command";
+
+export interface AlertsConfig {
+  enabled?: boolean;
+  /**
+   * How an alert is delivered: a terminal bell, an OSC 9 or OSC 777 desktop
+   * notification, or `command` (default: "bell").
+   */
+  method?: AlertMethod;
+  /**
+   * Shell command run for `method: "command"`. It receives the alert in
+   * `CLAUDE_POWERLINE_ALERT` (its key) and `CLAUDE_POWERLINE_ALERT_MESSAGE`.
+   */
+  command?: string;
+  /** Alert when a budget reaches its `warningThreshold` (default: true). */
+  budgets?: boolean;
+  /** Context usage percentage to alert at (default: off). */
+  context?: number;
+  /** Five-hour or seven-day rate-limit utilization to alert at (default: off). */
+  rateLimit?: number;
+}
+
+/** One value that can cross a threshold, e.g. today's spend against its budget. */
+export interface AlertReading {
+  /** Identifies the crossing; session-scoped readings include the session ID. */
+  key: string;
+  message: string;
+  crossed: boolean;
+}
+
+/** The segment data an alert reading is computed from. */
+export interface AlertInputs {
+  usageInfo: UsageInfo | null;
+  todayInfo: TodayInfo | null;
+  projectInfo: ProjectInfo | null;
+  weekInfo: PeriodInfo | null;
+  monthInfo: PeriodInfo | null;
+  contextInfo: ContextInfo | null;
+}
+
+/** Keys that already fired and when, persisted until their value drops back. */
+type AlertState = Record<string, number>;
+
+/** Crossings of sessions that are no longer refreshed are forgotten after this long. */
+const STATE_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const RATE_LIMIT_LABELS = { five_hour: "5-hour", seven_day: "7-day" };
+
+function budgetReading(
+  key: string,
+  label: string,
+  cost: number | null | undefined,
+  tokens: number | null | undefined,
+  budget: BudgetItemConfig | undefined,
+): AlertReading | null {
+  const value = pickBudgetValue(cost ?? null, tokens ?? null, budget?.type);
+  if (value === null || !budget?.amount) return null;
+
+  const status = getBudgetStatus(value, budget.amount, budget.warningThreshold);
+  if (status.percentage === null) return null;
+  return {
+    key,
+    message: `${label} budget at ${status.percentage.toFixed(0)}%`,
+    crossed: status.isWarning,
+  };
+}
+
+/** Budget, context and rate-limit readings for the thresholds that are configured. */
+export function collectAlertReadings(
+  config: PowerlineConfig,
+  hookData: ClaudeHookData,
+  inputs: AlertInputs,
+): AlertReading[] {
+  const alerts = config.alerts ?? {};
+  const budget = config.budget;
+  const sessionId = hookData.session_id;
+  const readings: Array<AlertReading | null> = [];
+
+  if (alerts.budgets ?? true) {
+    const session = inputs.usageInfo?.session;
+    readings.push(
+      budgetReading(
+        `budget.session:${sessionId}`,
+        "Session",
+        session?.cost,
+        session?.tokens,
+        budget?.session,
+      ),
+      budgetReading(
+        "budget.today",
+        "Today",
+        inputs.todayInfo && getTodayBudgetCost(inputs.todayInfo, config),
+        inputs.todayInfo?.tokens,
+        budget?.today,
+      ),
+      budgetReading(
+        "budget.project",
+        "Project",
+        inputs.projectInfo?.cost,
+        inputs.projectInfo?.tokens,
+        budget?.project,
+      ),
+      budgetReading(
+        "budget.week",
+        "Week",
+        inputs.weekInfo?.cost,
+        inputs.weekInfo?.tokens,
+        budget?.week,
+      ),
+      budgetReading(
+        "budget.month",
+        "Month",
+        inputs.monthInfo?.cost,
+        inputs.monthInfo?.tokens,
+        budget?.month,
+      ),
+    );
+  }
+
+  if (alerts.context !== undefined && inputs.contextInfo) {
+    const percentage = inputs.contextInfo.usablePercentage;
+    readings.push({
+      key: `context:${sessionId}`,
+      message: `Context at ${percentage.toFixed(0)}%`,
+      crossed: percentage >= alerts.context,
+    });
+  }
+
+  if (alerts.rateLimit !== undefined) {
+    for (const window of ["five_hour", "seven_day"] as const) {
+      const limit = hookData.rate_limits?.[window];
+      if (!limit) continue;
+      readings.push({
+        key: `rateLimit.${window}`,
+        message: `${RATE_LIMIT_LABELS[window]} rate limit at ${limit.used_percentage.toFixed(0)}%`,
+        crossed: limit.used_percentage >= alerts.rateLimit,
+      });
+    }
+  }
+
+  return readings.filter((reading): reading is AlertReading => !!reading);
+}
+
+let terminalWriter: ((sequence: string) => void) | null = null;
+
+/**
+ * Hands terminal alert sequences to `writer` instead of writing them, or
+ * restores writing with null. The daemon collects them for the CLI it renders
+ * for, which writes them to its own terminal.
+ */
+export function setTerminalWriter(
+  writer: ((sequence: string) => void) | null,
+): void {
+  terminalWriter = writer;
+}
+
+export function writeToTerminal(sequence: string): void {
+  if (terminalWriter) {
+    terminalWriter(sequence);
+    return;
+  }
+  // stdout belongs to Claude Code, which renders it as the statusline.
+  try {
+    fs.writeFileSync("/dev/tty", sequence);
+  } catch (error) {
+    debug("Could not write alert to the terminal:", error);
+  }
+}
+
+/** Sends one alert the way `alerts.method` asks for. */
+export function deliverAlert(
+  alerts: AlertsConfig,
+  reading: AlertReading,
+): void {
+  const message = `Claude: ${reading.message}`;
+  switch (alerts.method ?? "bell") {
+    case "bell":
+      writeToTerminal("\x07");
+      break;
+    case "osc9":
+      writeToTerminal(`\x1b]9;${message}\x07`);
+      break;
+    case "osc777":
+      writeToTerminal(`\x1b]777;notify;claude-powerline;${message}\x07`);
+      break;
+    case "command": {
+      const command = alerts.command?.trim();
+      if (!command) {
+        debug("Alert method is command but alerts.command is empty");
+        return;
+      }
+      // Detached, so a slow notifier never holds up the statusline.
+      const child = spawn(command, {
+        shell: true,
+        detached: true,
+        stdio: "ignore",
+        windowsHide: true,
+        env: {
+          ...process.env,
+          CLAUDE_POWERLINE_ALERT: reading.key,
+          CLAUDE_POWERLINE_ALERT_MESSAGE: message,
+        },
+      });
+      child.on("error", (error) => {
+        debug(`Alert command "${command}" failed:`, error);
+      });
+      child.unref();
+      break;
+    }
+  }
+}
+
+/**
+ * Alerts once for each reading that crossed its threshold since the last
+ * refresh. A reading re-arms when it drops back below, so the next crossing
+ * alerts again. Returns the readings that fired.
+ */
+export async function processAlerts(
+  alerts: AlertsConfig,
+  readings: AlertReading[],
+  notify: (reading: AlertReading) => void = (reading) =>
+    deliverAlert(alerts, reading),
+  now = Date.now(),
+): Promise<AlertReading[]> {
+  try {
+    const cached = (await CacheManager.getUsageCache(
+      "alerts",
+    )) as AlertState | null;
+    const state: AlertState = {};
+    let changed = false;
+    for (const [key, firedAt] of Object.entries(cached ?? {})) {
+      if (now - firedAt < STATE_MAX_AGE_MS) {
+        state[key] = firedAt;
+      } else {
+        changed = true;
+      }
+    }
+
+    const fired: AlertReading[] = [];
+    for (const reading of readings) {
+      if (!reading.crossed && state[reading.key] !== undefined) {
+        delete state[reading.key];
+        changed = true;
+      } else if (reading.crossed && state[reading.key] === undefined) {
+        state[reading.key] = now;
+        fired.push(reading);
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      await CacheManager.setUsageCache("alerts", state);
+    }
+    for (const reading of fired) {
+      debug(`Alert: ${reading.message}`);
+      notify(reading);
+    }
+    return fired;
+  } catch (error) {
+    debug("Error processing alerts:", error);
+    return [];
+  }
+}
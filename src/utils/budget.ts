@@ -1,4 +1,7 @@
-import type { BudgetItemConfig } from "../config/loader";
+import type { BudgetItemConfig, PowerlineConfig } from "../config/loader";
+import type { SessionInfo } from "../segments/session";
+import type { TodayInfo } from "../segments/today";
+import { convertCost } from "./formatters";
 
 export interface BudgetStatus {
   percentage: number | null;
@@ -55,12 +58,52 @@ export function getBudgetStatus(
   };
 }
 
+/** The session cost from `costSource`, or the calculated cost by default. */
+export function getSessionCost(
+  session: SessionInfo,
+  costSource?: "calculated" | "official",
+): number | null {
+  if (costSource === "calculated") return session.calculatedCost;
+  if (costSource === "official") return session.officialCost;
+  return session.cost;
+}
+
+/** The session cost the enabled session segment shows, following its `costSource`. */
+export function getSessionBudgetCost(
+  session: SessionInfo,
+  config: PowerlineConfig,
+): number | null {
+  const sessionConfig = config.display.lines
+    .map((line) => line.segments.session)
+    .find((s) => s?.enabled);
+  return getSessionCost(session, sessionConfig?.costSource);
+}
+
+/**
+ * The spend today's budget is measured against: the end-of-day projection
+ * while the today segment shows it, so a projected overrun warns early.
+ */
+export function getTodayBudgetCost(
+  todayInfo: TodayInfo,
+  config: PowerlineConfig,
+): number | null {
+  const todayConfig = config.display.lines
+    .map((line) => line.segments.today)
+    .find((t) => t?.enabled);
+  return (
+    (todayConfig?.showProjection ? todayInfo.projectedCost : null) ??
+    todayInfo.cost
+  );
+}
+
+/** The value a budget measures. Cost budgets are set in the display currency. */
 export function pickBudgetValue(
   cost: number | null,
   tokens: number | null,
   budgetType: "cost" | "tokens" | undefined,
 ): number | null {
-  return budgetType === "tokens" ? tokens : cost;
+  if (budgetType === "tokens") return tokens;
+  return cost === null ? null : convertCost(cost);
 }
 
 export function resolveBudgetDisplay(
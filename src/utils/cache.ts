@@ -1,33 +1,72 @@
 import fs from "node:fs";
 import path from "node:path";
 import { homedir } from "node:os";
-import { createHash } from "node:crypto";
+import { createHash, randomBytes } from "node:crypto";
 import { setTimeout } from "node:timers/promises";
 import { debug } from "./logger";
 import {
   getClaudePaths,
   findProjectPaths,
-  getFileModificationDate,
   collectProjectFiles,
+  encodeProjectPath,
 } from "./claude";
 
 interface ErrnoError extends Error {
   code?: string;
 }
 
+/**
+ * Usage caches; project caches are keyed by `createProjectHash` and period,
+ * rate-limit sample histories by window. `alerts` holds the thresholds
+ * already alerted on.
+ */
+type UsageCacheType =
+  | "alerts"
+  | "today"
+  | "block"
+  | "pricing"
+  | "session-cost"
+  | "week"
+  | "month"
+  | `project-${string}`
+  | `rate-limit-${string}`;
+
+/**
+ * Transcript state not rewritten for this long is deleted, whether its
+ * transcript is gone or just no longer changing; the latter is read from the
+ * start again the next time it is needed.
+ */
+const TRANSCRIPT_STATE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+const TRANSCRIPT_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
 export interface CacheEntry<T> {
   data: T;
   timestamp: number;
+  /** What the data was computed under, e.g. a pricing config hash. */
+  key?: string;
 }
 
 export class CacheManager {
-  private static readonly CACHE_DIR = path.join(
-    homedir(),
-    ".claude",
-    "powerline",
-  );
-  private static readonly USAGE_CACHE_DIR = path.join(this.CACHE_DIR, "usage");
-  private static readonly LOCKS_DIR = path.join(this.CACHE_DIR, "locks");
+  // Resolved on each access so CLAUDE_POWERLINE_CACHE_DIR can point a single
+  // run (sample renders, tests) at a throwaway directory.
+  private static get CACHE_DIR(): string {
+    return (
+      process.env.CLAUDE_POWERLINE_CACHE_DIR ||
+      path.join(homedir(), ".claude", "powerline")
+    );
+  }
+  private static get USAGE_CACHE_DIR(): string {
+    return path.join(this.CACHE_DIR, "usage");
+  }
+  private static get LOCKS_DIR(): string {
+    return path.join(this.CACHE_DIR, "locks");
+  }
+  private static get COMMANDS_CACHE_DIR(): string {
+    return path.join(this.CACHE_DIR, "commands");
+  }
+  private static get TRANSCRIPTS_CACHE_DIR(): string {
+    return path.join(this.CACHE_DIR, "transcripts");
+  }
 
   private static isLocked(name: string): boolean {
     const lockFile = path.join(this.LOCKS_DIR, name);
@@ -112,19 +151,147 @@ export class CacheManager {
         fs.promises.mkdir(this.CACHE_DIR, { recursive: true }),
         fs.promises.mkdir(this.USAGE_CACHE_DIR, { recursive: true }),
         fs.promises.mkdir(this.LOCKS_DIR, { recursive: true }),
+        fs.promises.mkdir(this.COMMANDS_CACHE_DIR, { recursive: true }),
+        fs.promises.mkdir(this.TRANSCRIPTS_CACHE_DIR, { recursive: true }),
       ]);
     } catch (error) {
       debug("Failed to create cache directories:", error);
     }
   }
 
+  static getCacheDirectory(): string {
+    return this.CACHE_DIR;
+  }
+
   static createProjectHash(projectPath: string): string {
     return createHash("md5").update(projectPath).digest("hex").substring(0, 8);
   }
 
+  static createCommandKey(command: string, cwd: string): string {
+    return createHash("md5").update(`${cwd}\0${command}`).digest("hex");
+  }
+
+  /**
+   * Cached stdout of a `command` segment, or null when missing or older
+   * than `ttlMs`. An empty string is a cached failure, not a miss.
+   */
+  static async getCommandCache(
+    key: string,
+    ttlMs: number,
+  ): Promise<string | null> {
+    const cachePath = path.join(this.COMMANDS_CACHE_DIR, `${key}.json`);
+    try {
+      const content = await fs.promises.readFile(cachePath, "utf-8");
+      const cached: CacheEntry<string> = JSON.parse(content);
+      if (
+        typeof cached.data !== "string" ||
+        Date.now() - cached.timestamp > ttlMs
+      ) {
+        return null;
+      }
+      debug(`[CACHE-HIT] command ${key} disk cache: found`);
+      return cached.data;
+    } catch (error) {
+      if ((error as ErrnoError).code !== "ENOENT") {
+        debug(`Failed to read command cache ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  static async setCommandCache(key: string, output: string): Promise<void> {
+    try {
+      await this.ensureCacheDirectories();
+      const cachePath = path.join(this.COMMANDS_CACHE_DIR, `${key}.json`);
+      const cacheEntry: CacheEntry<string> = {
+        data: output,
+        timestamp: Date.now(),
+      };
+      await fs.promises.writeFile(
+        cachePath,
+        JSON.stringify(cacheEntry),
+        "utf-8",
+      );
+      debug(`[CACHE-SET] command ${key} disk cache stored`);
+    } catch (error) {
+      debug(`Failed to save command cache ${key}:`, error);
+    }
+  }
+
+  static createTranscriptKey(name: string, filePath: string): string {
+    return createHash("md5").update(`${name}\0${filePath}`).digest("hex");
+  }
+
+  /** State saved for a transcript by the incremental reader, or null. */
+  static async getTranscriptState(key: string): Promise<unknown> {
+    const cachePath = path.join(this.TRANSCRIPTS_CACHE_DIR, `${key}.json`);
+    try {
+      return JSON.parse(await fs.promises.readFile(cachePath, "utf-8"));
+    } catch (error) {
+      if ((error as ErrnoError).code !== "ENOENT") {
+        debug(`Failed to read transcript state ${key}:`, error);
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Written through a temporary file, since sessions refreshing at the same
+   * time read each other's transcripts.
+   */
+  static async setTranscriptState(key: string, state: unknown): Promise<void> {
+    const cachePath = path.join(this.TRANSCRIPTS_CACHE_DIR, `${key}.json`);
+    const tempPath = `${cachePath}.${randomBytes(4).toString("hex")}.tmp`;
+    try {
+      await this.ensureCacheDirectories();
+      await fs.promises.writeFile(tempPath, JSON.stringify(state), "utf-8");
+      await fs.promises.rename(tempPath, cachePath);
+    } catch (error) {
+      debug(`Failed to save transcript state ${key}:`, error);
+      await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+    }
+    await this.pruneTranscriptStates();
+  }
+
+  /**
+   * Deletes transcript state older than TRANSCRIPT_STATE_MAX_AGE_MS, at most
+   * once a day, as recorded by the mtime of a marker file.
+   */
+  static async pruneTranscriptStates(now = Date.now()): Promise<void> {
+    const dir = this.TRANSCRIPTS_CACHE_DIR;
+    const marker = path.join(dir, ".pruned");
+    try {
+      const lastPruned = await fs.promises
+        .stat(marker)
+        .then((stats) => stats.mtimeMs)
+        .catch(() => 0);
+      if (now - lastPruned < TRANSCRIPT_PRUNE_INTERVAL_MS) return;
+      await fs.promises.writeFile(marker, "", "utf-8");
+
+      let removed = 0;
+      for (const name of await fs.promises.readdir(dir)) {
+        if (name === ".pruned") continue;
+        const file = path.join(dir, name);
+        const stats = await fs.promises.stat(file).catch(() => null);
+        if (stats && now - stats.mtimeMs > TRANSCRIPT_STATE_MAX_AGE_MS) {
+          await fs.promises.rm(file, { force: true });
+          removed++;
+        }
+      }
+      debug(`Pruned ${removed} stale transcript states`);
+    } catch (error) {
+      debug(`Failed to prune transcript states:`, error);
+    }
+  }
+
+  /**
+   * A usage cache, or null when missing, older than `latestMtime` or stored
+   * under another `key`.
+   */
   static async getUsageCache(
-    cacheType: "today" | "block" | "pricing",
+    cacheType: UsageCacheType,
     latestMtime?: number,
+    key?: string,
   ): Promise<unknown> {
     const MAX_RETRIES = 3;
     const RETRY_DELAY_MS = 75;
@@ -145,14 +312,16 @@ export class CacheManager {
       try {
         const content = await fs.promises.readFile(cachePath, FILE_ENCODING);
         const cached: CacheEntry<unknown> = JSON.parse(content);
-        const cacheIsValid = !latestMtime || cached.timestamp >= latestMtime;
+        const cacheIsValid =
+          (!latestMtime || cached.timestamp >= latestMtime) &&
+          cached.key === key;
 
         if (cacheIsValid) {
           debug(`[CACHE-HIT] ${cacheType} disk cache: found`);
           return this.deserializeDates(cached.data);
         } else {
           debug(
-            `${cacheType} cache outdated: cache=${cached.timestamp}, latest=${latestMtime}`,
+            `${cacheType} cache outdated: cache=${cached.timestamp}, latest=${latestMtime}, key=${cached.key} vs ${key}`,
           );
           return null;
         }
@@ -184,9 +353,10 @@ export class CacheManager {
   }
 
   static async setUsageCache(
-    cacheType: "today" | "block" | "pricing",
+    cacheType: UsageCacheType,
     data: unknown,
     latestMtime?: number,
+    key?: string,
   ): Promise<void> {
     const lockName = `${cacheType}.usage.lock`;
     const lockAcquired = await this.acquireLock(lockName);
@@ -202,6 +372,7 @@ export class CacheManager {
       const cacheEntry: CacheEntry<unknown> = {
         data,
         timestamp: cacheTimestamp,
+        key,
       };
       const cacheContent = JSON.stringify(cacheEntry);
 
@@ -219,12 +390,16 @@ export class CacheManager {
    * the same files as collectProjectFiles: when it saw only top-level session
    * transcripts, agent usage could land without moving this timestamp, so the
    * today cache stayed valid while session cost had already grown past it
-   * (issue #98).
+   * (issue #98). With `projectDir`, only that project's transcripts count.
    */
-  static async getLatestTranscriptMtime(): Promise<number> {
+  static async getLatestTranscriptMtime(projectDir?: string): Promise<number> {
     try {
       const claudePaths = getClaudePaths();
-      const projectPaths = await findProjectPaths(claudePaths);
+      const projectName = projectDir ? encodeProjectPath(projectDir) : null;
+      const projectPaths = (await findProjectPaths(claudePaths)).filter(
+        (projectPath) =>
+          !projectName || path.basename(projectPath) === projectName,
+      );
 
       const fileGroups = await Promise.all(
         projectPaths.map((projectPath) => collectProjectFiles(projectPath)),
@@ -1,8 +1,7 @@
 import { readdir, readFile, stat } from "node:fs/promises";
-import { existsSync, createReadStream } from "node:fs";
-import { join } from "node:path";
+import { existsSync } from "node:fs";
+import { basename, join } from "node:path";
 import { homedir } from "node:os";
-import { createInterface } from "node:readline";
 import { debug } from "./logger";
 
 export interface ClaudeHookData {
@@ -290,149 +289,6 @@ export async function getFileModificationDate(
   }
 }
 
-export interface ParsedEntry {
-  timestamp: Date;
-  message?: {
-    id?: string;
-    usage?: {
-      input_tokens?: number;
-      output_tokens?: number;
-      cache_creation_input_tokens?: number;
-      cache_read_input_tokens?: number;
-    };
-    model?: string;
-  };
-  costUSD?: number;
-  isSidechain?: boolean;
-  raw: Record<string, unknown>;
-}
-
-export function createUniqueHash(entry: ParsedEntry): string | null {
-  const messageId =
-    entry.message?.id ||
-    (typeof entry.raw.message === "object" &&
-    entry.raw.message !== null &&
-    "id" in entry.raw.message
-      ? (entry.raw.message.id as string)
-      : undefined);
-  const requestId =
-    "requestId" in entry.raw ? (entry.raw.requestId as string) : undefined;
-
-  if (!messageId || !requestId) {
-    return null;
-  }
-
-  return `${messageId}:${requestId}`;
-}
-
-const STREAMING_THRESHOLD_BYTES = 1024 * 1024;
-
-export async function parseJsonlFile(filePath: string): Promise<ParsedEntry[]> {
-  try {
-    const stats = await stat(filePath);
-    const fileSizeBytes = stats.size;
-    let entries: ParsedEntry[];
-
-    if (fileSizeBytes > STREAMING_THRESHOLD_BYTES) {
-      debug(
-        `Using streaming parser for large file ${filePath} (${Math.round(fileSizeBytes / 1024)}KB)`,
-      );
-      entries = await parseJsonlFileStreaming(filePath);
-    } else {
-      entries = await parseJsonlFileInMemory(filePath);
-    }
-
-    debug(`Parsed ${entries.length} entries from ${filePath}`);
-
-    return entries;
-  } catch (error) {
-    debug(`Failed to read file ${filePath}:`, error);
-    return [];
-  }
-}
-
-async function parseJsonlFileInMemory(
-  filePath: string,
-): Promise<ParsedEntry[]> {
-  const content = await readFile(filePath, "utf-8");
-  const lines = content
-    .trim()
-    .split("\n")
-    .filter((line) => line.trim());
-  const entries: ParsedEntry[] = [];
-
-  for (const line of lines) {
-    try {
-      const raw = JSON.parse(line);
-      if (!raw.timestamp) continue;
-
-      const entry: ParsedEntry = {
-        timestamp: new Date(raw.timestamp),
-        message: raw.message,
-        costUSD: typeof raw.costUSD === "number" ? raw.costUSD : undefined,
-        isSidechain: raw.isSidechain === true,
-        raw,
-      };
-
-      entries.push(entry);
-    } catch (parseError) {
-      debug(`Failed to parse JSONL line: ${parseError}`);
-      continue;
-    }
-  }
-
-  return entries;
-}
-
-async function parseJsonlFileStreaming(
-  filePath: string,
-): Promise<ParsedEntry[]> {
-  return new Promise((resolve, reject) => {
-    const entries: ParsedEntry[] = [];
-    const fileStream = createReadStream(filePath, { encoding: "utf8" });
-    const rl = createInterface({
-      input: fileStream,
-      crlfDelay: Infinity,
-    });
-
-    rl.on("line", (line) => {
-      const trimmedLine = line.trim();
-      if (!trimmedLine) return;
-
-      try {
-        const raw = JSON.parse(trimmedLine);
-        if (!raw.timestamp) return;
-
-        const entry: ParsedEntry = {
-          timestamp: new Date(raw.timestamp),
-          message: raw.message,
-          costUSD: typeof raw.costUSD === "number" ? raw.costUSD : undefined,
-          isSidechain: raw.isSidechain === true,
-          raw,
-        };
-
-        entries.push(entry);
-      } catch (parseError) {
-        debug(`Failed to parse JSONL line: ${parseError}`);
-      }
-    });
-
-    rl.on("close", () => {
-      resolve(entries);
-    });
-
-    rl.on("error", (error) => {
-      debug(`Streaming parser error for ${filePath}:`, error);
-      reject(error);
-    });
-
-    fileStream.on("error", (error) => {
-      debug(`File stream error for ${filePath}:`, error);
-      reject(error);
-    });
-  });
-}
-
 interface FileStat {
   filePath: string;
   mtime: Date;
@@ -481,64 +337,37 @@ export async function collectProjectFiles(
 }
 
 /**
- * Loads entries from Claude projects with deterministic deduplication.
- * @param timeFilter Optional filter to apply based on timestamp
- * @param fileFilter Optional filter to apply based on file path and modification time
- * @param sortFiles Whether to sort files by modification time
- * @returns Deduplicated entries sorted by timestamp
- * @note Sorts entries by timestamp before deduplication to ensure consistent
- *       duplicate selection. Otherwise, parallel file loading causes race conditions
- *       where different duplicates are kept on each run, leading to flickering values.
+ * The directory name Claude Code stores a project's transcripts under, e.g.
+ * `/home/me/work/api` becomes `-home-me-work-api`.
  */
-export async function loadEntriesFromProjects(
-  timeFilter?: (entry: ParsedEntry) => boolean,
-  fileFilter?: (filePath: string, modTime: Date) => boolean,
-  sortFiles = false,
-): Promise<ParsedEntry[]> {
-  const claudePaths = getClaudePaths();
-  const projectPaths = await findProjectPaths(claudePaths);
-  const processedHashes = new Set<string>();
+export function encodeProjectPath(projectDir: string): string {
+  return projectDir.replace(/[^a-zA-Z0-9]/g, "-");
+}
 
-  const allFilesPromises = projectPaths.map((projectPath) =>
-    collectProjectFiles(projectPath, fileFilter),
+/**
+ * Transcripts under `getClaudePaths()`, including subagent transcripts.
+ * @param projectDir Only list the transcripts of this project directory
+ * @param modifiedSince Skip transcripts last written before this time
+ */
+export async function findUsageTranscripts(
+  projectDir?: string,
+  modifiedSince?: Date,
+): Promise<string[]> {
+  const claudePaths = getClaudePaths();
+  const projectName = projectDir ? encodeProjectPath(projectDir) : null;
+  const projectPaths = (await findProjectPaths(claudePaths)).filter(
+    (projectPath) => !projectName || basename(projectPath) === projectName,
   );
 
-  const allFileResults = await Promise.all(allFilesPromises);
-  const allFilesWithMtime = allFileResults
-    .flat()
-    .filter((file): file is { filePath: string; mtime: Date } => file !== null);
-
-  if (sortFiles) {
-    allFilesWithMtime.sort((a, b) => b.mtime.getTime() - a.mtime.getTime());
-  }
-
-  const allFiles = allFilesWithMtime.map((file) => file.filePath);
-
-  const entries: ParsedEntry[] = [];
-
-  const filePromises = allFiles.map(async (filePath) => {
-    const fileEntries = await parseJsonlFile(filePath);
-    return fileEntries.filter((entry) => !timeFilter || timeFilter(entry));
-  });
-
-  const fileResults = await Promise.all(filePromises);
-  for (const fileEntries of fileResults) {
-    entries.push(...fileEntries);
-  }
-
-  entries.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-  const deduplicatedEntries: ParsedEntry[] = [];
-  for (const entry of entries) {
-    const uniqueHash = createUniqueHash(entry);
-    if (uniqueHash && processedHashes.has(uniqueHash)) {
-      continue;
-    }
-    if (uniqueHash) {
-      processedHashes.add(uniqueHash);
-    }
-    deduplicatedEntries.push(entry);
-  }
-
-  return deduplicatedEntries;
+  const files = await Promise.all(
+    projectPaths.map((projectPath) =>
+      collectProjectFiles(
+        projectPath,
+        modifiedSince
+          ? (_filePath, mtime) => mtime >= modifiedSince
+          : undefined,
+      ),
+    ),
+  );
+  return files.flat().map((file) => file.filePath);
 }
@@ -20,6 +20,10 @@ export const SYMBOLS = {
   session_cost: "§",
   block_cost: "◱",
   today_cost: "☉",
+  today_projected: "→",
+  project_cost: "⊞",
+  week_cost: "◫",
+  month_cost: "▦",
   context_time: "◔",
   metrics_response: "⧖",
   metrics_last_response: "Δ",
@@ -32,11 +36,16 @@ export const SYMBOLS = {
   bar_filled: "▪",
   bar_empty: "▫",
   env: "⚙",
+  command: "❯",
   session_id: "⌗",
   weekly_cost: "◑",
+  sparkline: "⌁",
+  sparkline_levels: "▁▂▃▄▅▆▇█",
   dir: "📁",
   activity: "⚡",
   agent: "◇",
+  agent_active: "●",
+  agent_finished: "○",
   thinking: "✦",
   cache_timer: "◴",
 } as const;
@@ -160,6 +169,10 @@ export const TEXT_SYMBOLS = {
   session_cost: "S",
   block_cost: "B",
   today_cost: "D",
+  today_projected: "->",
+  project_cost: "P",
+  week_cost: "WK",
+  month_cost: "MO",
   context_time: "C",
   metrics_response: "R",
   metrics_last_response: "L",
@@ -172,11 +185,16 @@ export const TEXT_SYMBOLS = {
   bar_filled: "=",
   bar_empty: "-",
   env: "$",
+  command: ">",
   session_id: "#",
   weekly_cost: "W",
+  sparkline: "^",
+  sparkline_levels: "_.-~=+*#",
   dir: "D",
   activity: "A",
   agent: "&",
+  agent_active: "*",
+  agent_finished: ".",
   thinking: "T",
   cache_timer: "C!",
 } as const;
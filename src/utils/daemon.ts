@@ -0,0 +1,102 @@
+import net from "node:net";
+import path from "node:path";
+import { CacheManager } from "./cache";
+import { debug } from "./logger";
+import type { ClaudeHookData } from "./claude";
+
+/** One statusline render, with everything the CLI would have read itself. */
+export interface DaemonRequest {
+  /** CLI arguments after the executable, e.g. `["--style=powerline"]`. */
+  args: string[];
+  cwd: string;
+  env: Record<string, string | undefined>;
+  /** The CLI process; its terminal is the one measured for width. */
+  pid: number;
+  hookData: ClaudeHookData;
+}
+
+/** A statusline rendered by the daemon. */
+export interface DaemonRender {
+  output: string;
+  /** Alert sequences for the CLI to write to its terminal; often empty. */
+  terminal: string;
+}
+
+export type DaemonResponse = DaemonRender | { error: string };
+
+/**
+ * How long the CLI waits for the daemon before rendering in-process. A cold
+ * daemon scanning a large projects tree answers within this on its own.
+ */
+const REQUEST_TIMEOUT_MS = 3000;
+
+export function getDaemonSocketPath(): string {
+  return (
+    process.env.CLAUDE_POWERLINE_SOCKET ||
+    path.join(CacheManager.getCacheDirectory(), "daemon.sock")
+  );
+}
+
+/**
+ * Reads newline-delimited JSON messages from a socket; the protocol sends one
+ * request and one response per connection.
+ */
+export function readMessage(
+  socket: net.Socket,
+  onMessage: (message: unknown) => void,
+): void {
+  let buffer = "";
+  socket.setEncoding("utf-8");
+  socket.on("data", (chunk: string) => {
+    buffer += chunk;
+    const end = buffer.indexOf("\n");
+    if (end === -1) return;
+    try {
+      onMessage(JSON.parse(buffer.slice(0, end)));
+    } catch (error) {
+      socket.destroy(error instanceof Error ? error : undefined);
+    }
+  });
+}
+
+/**
+ * Asks a running daemon to render the statusline. Resolves to null when no
+ * daemon listens, it does not answer in time, or it fails to render, so the
+ * caller can render in-process instead.
+ */
+export function renderViaDaemon(
+  request: DaemonRequest,
+  socketPath = getDaemonSocketPath(),
+  timeoutMs = REQUEST_TIMEOUT_MS,
+): Promise<DaemonRender | null> {
+  if (process.platform === "win32") return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const socket = net.createConnection(socketPath);
+    let settled = false;
+    const finish = (served: DaemonRender | null, reason?: string) => {
+      if (settled) return;
+      settled = true;
+      if (reason) debug(`Daemon render skipped: ${reason}`);
+      socket.destroy();
+      resolve(served);
+    };
+
+    socket.setTimeout(timeoutMs, () =>
+      finish(null, `no answer within ${timeoutMs}ms`),
+    );
+    socket.on("error", (error) => finish(null, error.message));
+    socket.on("close", () => finish(null, "connection closed"));
+    socket.on("connect", () => {
+      socket.write(`${JSON.stringify(request)}\n`);
+    });
+    readMessage(socket, (message) => {
+      const response = message as DaemonResponse;
+      if ("output" in response) {
+        finish(response);
+      } else {
+        finish(null, response.error);
+      }
+    });
+  });
+}
@@ -5,10 +5,72 @@ interface TokenBreakdown {
   cacheRead: number;
 }
 
+interface ModelUsage {
+  family: string;
+  cost: number;
+  tokens: number;
+}
+
+interface SubagentUsage {
+  name: string;
+  cost: number;
+  tokens: number;
+  state: "active" | "finished";
+}
+
+export interface CurrencyOptions {
+  /** ISO 4217 code, e.g. "EUR" (default: "USD"). */
+  currency?: string;
+  /** BCP 47 locale for the symbol, separators and grouping (default: the system locale). */
+  locale?: string;
+  /** Units of `currency` per US dollar (default: 1). */
+  exchangeRate?: number;
+}
+
+let costFormat: Intl.NumberFormat | null = null;
+let exchangeRate = 1;
+
+/** Whether `currency` names one other than the USD pricing is in. */
+export function isForeignCurrency(currency: string | undefined): boolean {
+  return !!currency && currency.toUpperCase() !== "USD";
+}
+
+/**
+ * Sets the currency every cost is shown in. Pricing stays in USD; costs are
+ * converted at the given rate only when another currency is set, so a locale
+ * alone formats dollars and budgets stay in dollars too. Without a currency
+ * or locale, costs keep the plain `$12.34` form.
+ */
+export function setCurrencyFormat(options: CurrencyOptions = {}): void {
+  exchangeRate = isForeignCurrency(options.currency)
+    ? (options.exchangeRate ?? 1)
+    : 1;
+  costFormat =
+    options.currency || options.locale
+      ? new Intl.NumberFormat(options.locale, {
+          style: "currency",
+          currency: options.currency ?? "USD",
+          minimumFractionDigits: 2,
+          maximumFractionDigits: 2,
+        })
+      : null;
+}
+
+/** A USD amount in the currency set by `setCurrencyFormat`. */
+export function convertCost(usd: number): number {
+  return usd * exchangeRate;
+}
+
 export function formatCost(cost: number | null): string {
-  if (cost === null) return "$0.00";
-  if (cost < 0.01) return "<$0.01";
-  return `$${cost.toFixed(2)}`;
+  if (!costFormat) {
+    if (cost === null) return "$0.00";
+    if (cost < 0.01) return "<$0.01";
+    return `$${cost.toFixed(2)}`;
+  }
+  if (cost === null) return costFormat.format(0);
+  const value = convertCost(cost);
+  if (value < 0.01) return `<${costFormat.format(0.01)}`;
+  return costFormat.format(value);
 }
 
 export function formatTokens(tokens: number | null): string {
@@ -43,6 +105,47 @@ export function formatTokenBreakdown(breakdown: TokenBreakdown | null): string {
   return parts.length > 0 ? parts.join(" + ") : "0 tokens";
 }
 
+export function formatModelBreakdown(models: ModelUsage[] | null): string {
+  if (!models || models.length === 0) return formatCost(null);
+  return models
+    .map(
+      (model) =>
+        `${model.family} ${formatCost(model.cost)} (${formatTokenCount(model.tokens)})`,
+    )
+    .join(" · ");
+}
+
+/**
+ * Subagents as `● Explore $0.42 (18.2K)` entries, or a `3 agents (1 active)`
+ * count. Lists longer than `max` end with a `+N` overflow.
+ */
+export function formatSubagents(
+  subagents: SubagentUsage[] | null,
+  mode: "list" | "count",
+  stateSymbols: { active: string; finished: string },
+  max = 3,
+): string {
+  if (!subagents || subagents.length === 0) return "";
+
+  if (mode === "count") {
+    const active = subagents.filter((s) => s.state === "active").length;
+    const noun = subagents.length === 1 ? "agent" : "agents";
+    return active > 0
+      ? `${subagents.length} ${noun} (${active} active)`
+      : `${subagents.length} ${noun}`;
+  }
+
+  const shown = subagents
+    .slice(0, Math.max(1, max))
+    .map(
+      (s) =>
+        `${stateSymbols[s.state]} ${s.name} ${formatCost(s.cost)} (${formatTokenCount(s.tokens)})`,
+    );
+  const hidden = subagents.length - shown.length;
+  if (hidden > 0) shown.push(`+${hidden}`);
+  return shown.join(" · ");
+}
+
 export function formatTimeSince(seconds: number): string {
   if (seconds < 60) return `${seconds}s`;
   if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
@@ -122,6 +225,7 @@ export function formatTokenCount(tokens: number | null): string {
 
 export function formatBurnRate(rate: number | null | undefined): string {
   if (rate === null || rate === undefined || rate <= 0) return "";
+  if (costFormat) return `${formatCost(rate)}/h`;
   return rate < 1 ? `${(rate * 100).toFixed(0)}c/h` : `$${rate.toFixed(2)}/h`;
 }
 
@@ -136,6 +240,32 @@ export function collapseHome(dirPath: string, homeDir?: string): string {
   return dirPath;
 }
 
+/**
+ * Left-aligns the first column and right-aligns the rest, with a rule under
+ * the header and, when given, above the footer.
+ */
+export function formatTable(rows: string[][], footer?: string[]): string {
+  const all = footer ? [...rows, footer] : rows;
+  const widths = all[0]!.map((_, col) =>
+    Math.max(...all.map((row) => row[col]!.length)),
+  );
+  const format = (row: string[]) =>
+    row
+      .map((cell, col) =>
+        col === 0 ? cell.padEnd(widths[col]!) : cell.padStart(widths[col]!),
+      )
+      .join("  ");
+  const rule = "-".repeat(
+    widths.reduce((sum, w) => sum + w, 0) + 2 * (widths.length - 1),
+  );
+
+  const lines = [format(rows[0]!), rule, ...rows.slice(1).map(format)];
+  if (footer) {
+    lines.push(rule, format(footer));
+  }
+  return lines.join("\n");
+}
+
 export function formatTimeRemaining(totalMinutes: number): string {
   const hours = Math.floor(totalMinutes / 60);
   const minutes = totalMinutes % 60;
@@ -159,6 +289,42 @@ export function minutesUntilReset(epochSeconds: number): number {
   return Math.round(Math.max(0, epochSeconds * 1000 - Date.now()) / 60000);
 }
 
+/**
+ * "limit at ~14:20" (with the weekday when it isn't today), "limit reached",
+ * or "safe until reset" when the trend stays under the limit.
+ */
+export function formatRateLimitForecast(
+  exhaustsAt: number | null,
+  now = Date.now(),
+): string {
+  if (exhaustsAt === null) return "safe until reset";
+  if (exhaustsAt <= now) return "limit reached";
+
+  const at = new Date(exhaustsAt);
+  const time = `${String(at.getHours()).padStart(2, "0")}:${String(at.getMinutes()).padStart(2, "0")}`;
+  if (at.toDateString() === new Date(now).toDateString()) {
+    return `limit at ~${time}`;
+  }
+  const weekday = at.toLocaleDateString("en-US", { weekday: "short" });
+  return `limit at ~${weekday} ${time}`;
+}
+
+/**
+ * Draws `values` with one level character per value, scaled from zero to the
+ * largest value so a run of equal turns reads as equal, not as a flat floor.
+ */
+export function drawSparkline(values: number[], levels: string): string {
+  const chars = [...levels];
+  const max = Math.max(0, ...values);
+  return values
+    .map((value) => {
+      if (max <= 0) return chars[0];
+      const index = Math.round((value / max) * (chars.length - 1));
+      return chars[Math.max(0, index)];
+    })
+    .join("");
+}
+
 export function formatCacheTimerElapsed(seconds: number): string {
   if (seconds >= 3600) return "1h+";
   if (seconds >= 300) return `${Math.floor(seconds / 60)}m`;
@@ -0,0 +1,89 @@
+import { debug } from "./logger";
+
+/**
+ * What a memoized result was read from: `transcripts` for anything parsed
+ * from `~/.claude/projects`, `git` for repository state.
+ */
+export type MemoScope = "transcripts" | "git";
+
+interface MemoEntry {
+  scope: MemoScope;
+  value: Promise<unknown>;
+  expiresAt: number;
+}
+
+/**
+ * Upper bounds on how long a result is reused. Watchers invalidate sooner;
+ * the TTLs cover what they miss: the date rolling over, and working-tree
+ * edits that do not touch `.git`.
+ */
+const TTL_MS: Record<MemoScope, number> = {
+  transcripts: 60_000,
+  git: 5_000,
+};
+
+const MAX_ENTRIES = 500;
+
+let entries: Map<string, MemoEntry> | null = null;
+
+/** Keeps provider results in memory between renders of a long-lived process. */
+export function enableMemo(): void {
+  entries ??= new Map();
+}
+
+export function disableMemo(): void {
+  entries = null;
+}
+
+/**
+ * Makes room for one more entry: drops expired ones, then the oldest, which
+ * come first since entries are re-inserted when they are loaded again.
+ */
+function prune(now: number): void {
+  if (!entries || entries.size < MAX_ENTRIES) return;
+  for (const [key, entry] of entries) {
+    if (entry.expiresAt <= now) entries.delete(key);
+  }
+  for (const key of entries.keys()) {
+    if (entries.size < MAX_ENTRIES) break;
+    entries.delete(key);
+  }
+}
+
+/**
+ * Returns the result of `load`, reused for later calls with the same scope
+ * and key while memoization is enabled. A one-shot CLI run loads every time.
+ */
+export function memoize<T>(
+  scope: MemoScope,
+  key: string,
+  load: () => Promise<T>,
+): Promise<T> {
+  if (!entries) return load();
+
+  const now = Date.now();
+  const fullKey = `${scope}:${key}`;
+  const hit = entries.get(fullKey);
+  if (hit && hit.expiresAt > now) {
+    debug(`[MEMO-HIT] ${fullKey}`);
+    return hit.value as Promise<T>;
+  }
+
+  entries.delete(fullKey);
+  prune(now);
+  const value = load();
+  const entry = { scope, value, expiresAt: now + TTL_MS[scope] };
+  entries.set(fullKey, entry);
+  value.catch(() => {
+    if (entries?.get(fullKey) === entry) entries.delete(fullKey);
+  });
+  return value;
+}
+
+/** Drops every result read from `scope`, after its files changed. */
+export function invalidateMemo(scope: MemoScope): void {
+  if (!entries) return;
+  for (const [key, entry] of entries) {
+    if (entry.scope === scope) entries.delete(key);
+  }
+}
@@ -0,0 +1,170 @@
+import fs from "node:fs";
+import { debug } from "./logger";
+import type { ClaudeHookData } from "./claude";
+import type { SessionInfo, TokenBreakdown } from "../segments/session";
+import type { TodayInfo } from "../segments/today";
+
+export interface OpenMetricsConfig {
+  /**
+   * File rewritten on every statusline refresh, e.g. in node_exporter's
+   * `--collector.textfile.directory`. Must end in `.prom` for node_exporter.
+   */
+  textfile?: string;
+}
+
+/** The values one statusline refresh exports. */
+export interface OpenMetricsSnapshot {
+  sessionId: string;
+  session: SessionInfo;
+  today: TodayInfo;
+  contextPercentage: number | null;
+  rateLimits: NonNullable<ClaudeHookData["rate_limits"]>;
+  cacheRemainingSeconds: number | null;
+}
+
+interface Sample {
+  labels: Record<string, string>;
+  value: number | null | undefined;
+}
+
+interface MetricFamily {
+  name: string;
+  help: string;
+  unit?: string;
+  samples: Sample[];
+}
+
+const PREFIX = "claude_powerline";
+
+const TOKEN_TYPES: Array<[keyof TokenBreakdown, string]> = [
+  ["input", "input"],
+  ["output", "output"],
+  ["cacheCreation", "cache_creation"],
+  ["cacheRead", "cache_read"],
+];
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function formatSample(name: string, sample: Sample): string {
+  const labels = Object.entries(sample.labels)
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(",");
+  return `${name}${labels ? `{${labels}}` : ""} ${sample.value}`;
+}
+
+function tokenSamples(
+  breakdown: TokenBreakdown | null,
+  labels: Record<string, string> = {},
+): Sample[] {
+  return TOKEN_TYPES.map(([field, type]) => ({
+    labels: { ...labels, type },
+    value: breakdown?.[field],
+  }));
+}
+
+/**
+ * Renders the snapshot as OpenMetrics gauges. Values that are unknown on this
+ * refresh are left out rather than reported as zero.
+ */
+export function formatOpenMetrics(
+  snapshot: OpenMetricsSnapshot,
+  now = Date.now(),
+): string {
+  const session = { session: snapshot.sessionId };
+  const families: MetricFamily[] = [
+    {
+      name: "session_cost",
+      help: "Cost of the Claude Code session that refreshed last.",
+      unit: "usd",
+      samples: [{ labels: session, value: snapshot.session.cost }],
+    },
+    {
+      name: "session_tokens",
+      help: "Tokens used by the session that refreshed last, by type.",
+      samples: tokenSamples(snapshot.session.tokenBreakdown, session),
+    },
+    {
+      name: "today_cost",
+      help: "Cost of all Claude Code usage today.",
+      unit: "usd",
+      samples: [{ labels: {}, value: snapshot.today.cost }],
+    },
+    {
+      name: "today_tokens",
+      help: "Tokens used today across all sessions, by type.",
+      samples: tokenSamples(snapshot.today.tokenBreakdown),
+    },
+    {
+      name: "context_used",
+      help: "Share of the usable context window the session fills.",
+      unit: "percent",
+      samples: [{ labels: session, value: snapshot.contextPercentage }],
+    },
+    {
+      name: "rate_limit_utilization",
+      help: "Utilization of the five-hour and seven-day rate limits.",
+      unit: "percent",
+      samples: [
+        {
+          labels: { window: "five_hour" },
+          value: snapshot.rateLimits.five_hour?.used_percentage,
+        },
+        {
+          labels: { window: "seven_day" },
+          value: snapshot.rateLimits.seven_day?.used_percentage,
+        },
+      ],
+    },
+    {
+      name: "cache_ttl_remaining",
+      help: "Time until the session's prompt cache expires.",
+      unit: "seconds",
+      samples: [{ labels: session, value: snapshot.cacheRemainingSeconds }],
+    },
+    {
+      name: "last_update_timestamp",
+      help: "When the statusline last wrote this file.",
+      unit: "seconds",
+      samples: [{ labels: {}, value: Math.floor(now / 1000) }],
+    },
+  ];
+
+  const lines: string[] = [];
+  for (const family of families) {
+    const samples = family.samples.filter(
+      (sample) => typeof sample.value === "number" && isFinite(sample.value),
+    );
+    if (samples.length === 0) continue;
+
+    const name = `${PREFIX}_${family.name}${family.unit ? `_${family.unit}` : ""}`;
+    lines.push(`# TYPE ${name} gauge`);
+    if (family.unit) lines.push(`# UNIT ${name} ${family.unit}`);
+    lines.push(`# HELP ${name} ${family.help}`);
+    lines.push(...samples.map((sample) => formatSample(name, sample)));
+  }
+  lines.push("# EOF");
+  return `${lines.join("\n")}\n`;
+}
+
+/**
+ * Replaces the textfile atomically, so a collector scraping mid-write never
+ * reads half a file.
+ */
+export async function writeOpenMetricsTextfile(
+  filePath: string,
+  text: string,
+): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    await fs.promises.writeFile(tempPath, text, "utf-8");
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    debug(`Failed to write OpenMetrics textfile ${filePath}:`, error);
+    await fs.promises.rm(tempPath, { force: true }).catch(() => {});
+  }
+}
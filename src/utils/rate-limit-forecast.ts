@@ -0,0 +1,123 @@
+import { debug } from "./logger";
+import { CacheManager } from "./cache";
+
+export type RateLimitWindow = "five_hour" | "seven_day";
+
+export interface UtilizationSample {
+  /** Epoch milliseconds. */
+  at: number;
+  pct: number;
+}
+
+export interface RateLimitForecast {
+  /** When utilization reaches 100% at the current trend (epoch ms), or null when it stays below the limit until the reset. */
+  exhaustsAt: number | null;
+  /** End of the rate-limit window (epoch ms). */
+  resetsAt: number;
+}
+
+interface SampleHistory {
+  resetsAt: number;
+  samples: UtilizationSample[];
+}
+
+const MINUTE_MS = 60 * 1000;
+const MAX_SAMPLES = 120;
+/** How far back the trend looks: recent pace, not the whole window's average. */
+const TREND_SPAN_MS: Record<RateLimitWindow, number> = {
+  five_hour: 60 * MINUTE_MS,
+  seven_day: 24 * 60 * MINUTE_MS,
+};
+/** Less history than this is too noisy to forecast from. */
+const MIN_TREND_SPAN_MS = 5 * MINUTE_MS;
+
+/**
+ * Where the utilization trend of the last hour (five-hour window) or day
+ * (seven-day window) leads. Null until the samples span a few minutes.
+ */
+export function forecastExhaustion(
+  window: RateLimitWindow,
+  samples: UtilizationSample[],
+  resetsAt: number,
+  now = Date.now(),
+): RateLimitForecast | null {
+  const latest = samples[samples.length - 1];
+  if (!latest) return null;
+  if (latest.pct >= 100) return { exhaustsAt: latest.at, resetsAt };
+
+  const oldest = samples.find(
+    (sample) => sample.at >= now - TREND_SPAN_MS[window],
+  );
+  if (!oldest || now - oldest.at < MIN_TREND_SPAN_MS) return null;
+
+  const rate = (latest.pct - oldest.pct) / (now - oldest.at);
+  if (rate <= 0) return { exhaustsAt: null, resetsAt };
+
+  const exhaustsAt = now + (100 - latest.pct) / rate;
+  return { exhaustsAt: exhaustsAt < resetsAt ? exhaustsAt : null, resetsAt };
+}
+
+/**
+ * Adds the current utilization to the samples persisted for this window and
+ * returns them. Samples from an earlier window (a different reset time) are
+ * dropped.
+ */
+export async function recordUtilizationSample(
+  window: RateLimitWindow,
+  limit: { used_percentage: number; resets_at: number },
+  now = Date.now(),
+): Promise<UtilizationSample[]> {
+  const cacheType = `rate-limit-${window}` as const;
+  const resetsAt = limit.resets_at * 1000;
+  const cached = (await CacheManager.getUsageCache(
+    cacheType,
+  )) as SampleHistory | null;
+
+  // Reset times jitter by a few seconds between hook payloads.
+  const sameWindow =
+    cached && Math.abs(cached.resetsAt - resetsAt) < 5 * MINUTE_MS;
+  const samples = sameWindow ? cached.samples : [];
+  const last = samples[samples.length - 1];
+  if (last?.pct === limit.used_percentage && now - last.at < MINUTE_MS) {
+    return samples;
+  }
+
+  samples.push({ at: now, pct: limit.used_percentage });
+  const history: SampleHistory = {
+    resetsAt,
+    samples: samples.slice(-MAX_SAMPLES),
+  };
+  await CacheManager.setUsageCache(cacheType, history);
+  return history.samples;
+}
+
+/** Records the current utilization of `window` and forecasts from the trend. */
+export async function getRateLimitForecast(
+  window: RateLimitWindow,
+  limit: { used_percentage: number; resets_at: number },
+): Promise<RateLimitForecast | null> {
+  try {
+    const now = Date.now();
+    const samples = await recordUtilizationSample(window, limit, now);
+    return forecastExhaustion(window, samples, limit.resets_at * 1000, now);
+  } catch (error) {
+    debug(`Error forecasting ${window} rate limit:`, error);
+    return null;
+  }
+}
+
+/**
+ * The utilization last recorded for `window`, for callers without hook data
+ * of their own. Null when nothing was recorded or that window has reset.
+ */
+export async function getLastUtilization(
+  window: RateLimitWindow,
+  now = Date.now(),
+): Promise<{ used_percentage: number; resets_at: number } | null> {
+  const cached = (await CacheManager.getUsageCache(
+    `rate-limit-${window}`,
+  )) as SampleHistory | null;
+  const latest = cached?.samples[cached.samples.length - 1];
+  if (!cached || !latest || cached.resetsAt <= now) return null;
+  return { used_percentage: latest.pct, resets_at: cached.resetsAt / 1000 };
+}
@@ -1,11 +1,33 @@
 import { execSync } from "node:child_process";
 
+export type TerminalWidthSource =
+  | "COLUMNS"
+  | "stdout"
+  | "mode con"
+  | "stty"
+  | "tput";
+
+export interface MeasuredWidth {
+  columns: number;
+  source: TerminalWidthSource;
+}
+
 const VALID_TTY_PATTERN = /^[a-zA-Z0-9/]+$/;
 
+/**
+ * Process whose terminal is measured. The daemon measures from each client
+ * process, since its own stdout is not the terminal being drawn on.
+ */
+let measuredPid: number | null = null;
+
+export function setMeasuredProcess(pid: number | null): void {
+  measuredPid = pid;
+}
+
 function findParentTty(): string | null {
   if (process.platform === "win32") return null;
 
-  let pid = process.pid.toString();
+  let pid = (measuredPid ?? process.pid).toString();
 
   for (let i = 0; i < 10; i++) {
     try {
@@ -47,7 +69,7 @@ function getWindowsTerminalWidth(): number | null {
   return null;
 }
 
-function getUnixTerminalWidth(): number | null {
+function getUnixTerminalWidth(): MeasuredWidth | null {
   const tty = findParentTty();
   if (tty) {
     try {
@@ -59,7 +81,9 @@ function getUnixTerminalWidth(): number | null {
       const width = size.split(" ")[1];
       if (width) {
         const parsed = parseInt(width, 10);
-        if (!isNaN(parsed) && parsed > 0) return parsed;
+        if (!isNaN(parsed) && parsed > 0) {
+          return { columns: parsed, source: "stty" };
+        }
       }
     } catch {}
   }
@@ -71,7 +95,9 @@ function getUnixTerminalWidth(): number | null {
     }).trim();
 
     const parsed = parseInt(width, 10);
-    if (!isNaN(parsed) && parsed > 0) return parsed;
+    if (!isNaN(parsed) && parsed > 0) {
+      return { columns: parsed, source: "tput" };
+    }
   } catch {}
 
   return null;
@@ -83,26 +109,38 @@ function getUnixTerminalWidth(): number | null {
  */
 const RESERVED_CHARS = 45;
 
-export function getTerminalWidth(): number | null {
-  const applyReserve = (w: number) => Math.max(1, w - RESERVED_CHARS);
-
+/**
+ * Full terminal width and where it came from, before the UI reserve is
+ * applied. Sources are tried in the order getTerminalWidth relies on.
+ */
+export function detectTerminalWidth(): MeasuredWidth | null {
   const envColumns = process.env.COLUMNS;
   if (envColumns) {
     const parsed = parseInt(envColumns, 10);
-    if (!isNaN(parsed) && parsed > 0) return applyReserve(parsed);
+    if (!isNaN(parsed) && parsed > 0) {
+      return { columns: parsed, source: "COLUMNS" };
+    }
   }
 
-  if (process.stdout.columns && process.stdout.columns > 0) {
-    return applyReserve(process.stdout.columns);
+  if (
+    measuredPid === null &&
+    process.stdout.columns &&
+    process.stdout.columns > 0
+  ) {
+    return { columns: process.stdout.columns, source: "stdout" };
   }
 
   if (process.platform === "win32") {
     const width = getWindowsTerminalWidth();
-    if (width) return applyReserve(width);
+    if (width) return { columns: width, source: "mode con" };
   }
 
-  const width = getUnixTerminalWidth();
-  return width ? applyReserve(width) : null;
+  return getUnixTerminalWidth();
+}
+
+export function getTerminalWidth(): number | null {
+  const measured = detectTerminalWidth();
+  return measured ? Math.max(1, measured.columns - RESERVED_CHARS) : null;
 }
 
 export function getRawTerminalWidth(): number | null {
@@ -113,5 +151,5 @@ export function getRawTerminalWidth(): number | null {
     return getWindowsTerminalWidth();
   }
 
-  return getUnixTerminalWidth();
+  return getUnixTerminalWidth()?.columns ?? null;
 }
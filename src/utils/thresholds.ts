@@ -0,0 +1,70 @@
+import type { BudgetItemConfig } from "../config/loader";
+import { calculateBudgetPercentage, pickBudgetValue } from "./budget";
+import { convertCost } from "./formatters";
+
+/** Values at which a numeric segment switches to its warning and critical colors. */
+export interface SegmentThresholds {
+  warning?: number;
+  critical?: number;
+}
+
+export type ThresholdLevel = "normal" | "warning" | "critical";
+
+/**
+ * Classifies a value against a segment's thresholds, falling back to the
+ * segment's built-in defaults for any level left unset. Rising values
+ * (percentages, elapsed time) reach a level at the threshold; falling ones
+ * (time remaining) once they drop below it.
+ */
+export function resolveThresholdLevel(
+  value: number,
+  defaults: Required<SegmentThresholds>,
+  thresholds?: SegmentThresholds,
+  direction: "rising" | "falling" = "rising",
+): ThresholdLevel {
+  const warning = thresholds?.warning ?? defaults.warning;
+  const critical = thresholds?.critical ?? defaults.critical;
+  const reached = (limit: number) =>
+    direction === "rising" ? value >= limit : value < limit;
+
+  if (reached(critical)) return "critical";
+  if (reached(warning)) return "warning";
+  return "normal";
+}
+
+/**
+ * Levels for the session and today segments. With a budget they key off the
+ * budget percentage (defaults: 50% and the budget's `warningThreshold`),
+ * matching the `+`/`!` indicators. Without one, explicit thresholds compare
+ * against the cost in the display currency and there are no defaults.
+ */
+export function resolveUsageThresholdLevel(
+  cost: number | null,
+  tokens: number | null,
+  budget: BudgetItemConfig | undefined,
+  thresholds?: SegmentThresholds,
+): ThresholdLevel {
+  const budgetValue = pickBudgetValue(cost, tokens, budget?.type);
+  const percentage =
+    budgetValue === null
+      ? null
+      : calculateBudgetPercentage(budgetValue, budget?.amount);
+
+  if (percentage !== null) {
+    return resolveThresholdLevel(
+      percentage,
+      { warning: 50, critical: budget?.warningThreshold ?? 80 },
+      thresholds,
+    );
+  }
+
+  if (cost === null || !thresholds) return "normal";
+  return resolveThresholdLevel(
+    convertCost(cost),
+    {
+      warning: Number.POSITIVE_INFINITY,
+      critical: Number.POSITIVE_INFINITY,
+    },
+    thresholds,
+  );
+}
@@ -0,0 +1,207 @@
+import { open, stat } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import { CacheManager } from "./cache";
+import { debug } from "./logger";
+
+/**
+ * Reduces a transcript to the state one consumer needs, one line at a time.
+ * The state is saved with the byte offset it covers, so later reads only
+ * parse lines appended since.
+ */
+export interface TranscriptFold<S> {
+  /** Names the saved state; change it whenever the state's shape changes. */
+  name: string;
+  initial: () => S;
+  /** Adds one parsed line to the state, in file order. */
+  add: (state: S, line: Record<string, unknown>) => void;
+}
+
+interface SavedTranscriptState<S> {
+  size: number;
+  mtimeMs: number;
+  /** Bytes folded into `state`: the file up to its last complete line. */
+  offset: number;
+  /** Hash of the first `headLength` bytes, to notice a rewritten file. */
+  head: string;
+  headLength: number;
+  state: S;
+}
+
+const CHUNK_BYTES = 1024 * 1024;
+const HEAD_BYTES = 4096;
+const NEWLINE = 0x0a;
+
+async function hashHead(filePath: string, length: number): Promise<string> {
+  const handle = await open(filePath, "r");
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await handle.read(buffer, 0, length, 0);
+    return createHash("md5")
+      .update(buffer.subarray(0, bytesRead))
+      .digest("hex");
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Calls `onLine` for each complete line from byte `start` on, reading in
+ * chunks. Resolves to the offset after the last newline and the text after
+ * it, which is a line still being written or a final line without newline.
+ */
+async function readLinesFrom(
+  filePath: string,
+  start: number,
+  onLine: (line: string) => void,
+): Promise<{ end: number; fragment: string }> {
+  const handle = await open(filePath, "r");
+  try {
+    const chunk = Buffer.alloc(CHUNK_BYTES);
+    let position = start;
+    let pending = Buffer.alloc(0);
+
+    while (true) {
+      const { bytesRead } = await handle.read(chunk, 0, CHUNK_BYTES, position);
+      if (bytesRead === 0) break;
+      position += bytesRead;
+
+      const data = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+      let lineStart = 0;
+      let newline = data.indexOf(NEWLINE, lineStart);
+      while (newline !== -1) {
+        onLine(data.toString("utf8", lineStart, newline));
+        lineStart = newline + 1;
+        newline = data.indexOf(NEWLINE, lineStart);
+      }
+      pending = Buffer.from(data.subarray(lineStart));
+    }
+
+    return {
+      end: position - pending.length,
+      fragment: pending.toString("utf8"),
+    };
+  } finally {
+    await handle.close();
+  }
+}
+
+function addLine<S>(fold: TranscriptFold<S>, state: S, line: string): void {
+  const trimmed = line.trim();
+  if (!trimmed) return;
+  try {
+    const parsed: unknown = JSON.parse(trimmed);
+    if (typeof parsed === "object" && parsed !== null) {
+      fold.add(state, parsed as Record<string, unknown>);
+    }
+  } catch (parseError) {
+    debug(`Failed to parse JSONL line: ${parseError}`);
+  }
+}
+
+function isSavedState<S>(value: unknown): value is SavedTranscriptState<S> {
+  const saved = value as SavedTranscriptState<S> | null;
+  return (
+    typeof saved?.size === "number" &&
+    typeof saved.mtimeMs === "number" &&
+    typeof saved.offset === "number" &&
+    typeof saved.head === "string" &&
+    typeof saved.headLength === "number" &&
+    saved.state !== undefined
+  );
+}
+
+/**
+ * Folds a transcript with `fold`, resuming from the state saved by the
+ * previous read of the same file. A file that is unchanged by size and
+ * mtime is not opened; one that grew is read from the saved offset; one
+ * that shrank or whose first bytes changed is read again from the start.
+ * Resolves to null when the file cannot be read.
+ */
+export async function readTranscriptIncrementally<S>(
+  filePath: string,
+  fold: TranscriptFold<S>,
+): Promise<S | null> {
+  const key = CacheManager.createTranscriptKey(fold.name, filePath);
+  try {
+    const stats = await stat(filePath);
+    const loaded = await CacheManager.getTranscriptState(key);
+    let saved = isSavedState<S>(loaded) ? loaded : null;
+
+    if (
+      saved &&
+      saved.size === stats.size &&
+      saved.mtimeMs === stats.mtimeMs &&
+      saved.offset === stats.size
+    ) {
+      debug(`[CACHE-HIT] ${fold.name} transcript state: ${filePath}`);
+      return saved.state;
+    }
+
+    if (
+      saved &&
+      (stats.size < saved.offset ||
+        (await hashHead(filePath, saved.headLength)) !== saved.head)
+    ) {
+      debug(`Transcript ${filePath} was rewritten, reading it again`);
+      saved = null;
+    }
+
+    const state = saved?.state ?? fold.initial();
+    const start = saved?.offset ?? 0;
+    const { end, fragment } = await readLinesFrom(filePath, start, (line) =>
+      addLine(fold, state, line),
+    );
+    debug(
+      `Read ${end - start} new bytes of ${filePath} for ${fold.name} state`,
+    );
+
+    if (
+      !saved ||
+      end !== start ||
+      saved.size !== stats.size ||
+      saved.mtimeMs !== stats.mtimeMs
+    ) {
+      const headLength = Math.min(end, HEAD_BYTES);
+      await CacheManager.setTranscriptState(key, {
+        size: stats.size,
+        mtimeMs: stats.mtimeMs,
+        offset: end,
+        head: await hashHead(filePath, headLength),
+        headLength,
+        state,
+      } satisfies SavedTranscriptState<S>);
+    }
+
+    if (!fragment.trim()) return state;
+    // The unterminated last line counts now but is not saved, since it may
+    // still be growing.
+    const withFragment = JSON.parse(JSON.stringify(state)) as S;
+    addLine(fold, withFragment, fragment);
+    return withFragment;
+  } catch (error) {
+    debug(`Failed to read transcript ${filePath}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Folds a whole transcript with `fold` without saving the state, for
+ * one-off reads such as exports. Resolves to null when the file cannot be
+ * read.
+ */
+export async function readTranscript<S>(
+  filePath: string,
+  fold: TranscriptFold<S>,
+): Promise<S | null> {
+  try {
+    const state = fold.initial();
+    const { fragment } = await readLinesFrom(filePath, 0, (line) =>
+      addLine(fold, state, line),
+    );
+    addLine(fold, state, fragment);
+    return state;
+  } catch (error) {
+    debug(`Failed to read transcript ${filePath}:`, error);
+    return null;
+  }
+}
@@ -0,0 +1,546 @@
+import type { TokenBreakdown } from "../segments/session";
+import type { TranscriptFold } from "./transcript-reader";
+import { findUsageTranscripts } from "./claude";
+import {
+  readTranscript,
+  readTranscriptIncrementally,
+} from "./transcript-reader";
+import { PricingService } from "../segments/pricing";
+
+export type UsagePeriod = "day" | "week" | "month";
+
+export type WeekStart =
+  | "monday"
+  | "tuesday"
+  | "wednesday"
+  | "thursday"
+  | "friday"
+  | "saturday"
+  | "sunday";
+
+const WEEK_DAYS: WeekStart[] = [
+  "sunday",
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+];
+
+/** How a week or month budget decides which days it covers. */
+export interface BudgetWindow {
+  /** `calendar` resets on the week start or the 1st; `rolling` covers the last 7 or 30 days including today (default: "calendar"). */
+  window?: "calendar" | "rolling";
+  /** First day of a calendar week (default: "monday"). */
+  weekStart?: WeekStart;
+}
+
+/** Usage of one session, project and model on one local day, priced. */
+export interface UsageRecord {
+  /** Local date of the responses, e.g. `2026-10-19`. */
+  date: string;
+  /** Time of the first response. */
+  firstAt: Date;
+  /** Session the responses belong to, or "unknown". */
+  sessionId: string;
+  /** Model as logged, or "unknown". */
+  model: string;
+  /** Model ID the responses are priced with. */
+  pricedAs: string;
+  /** Working directory the responses were made in, or "unknown". */
+  project: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUSD: number;
+  responses: number;
+}
+
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUSD: number;
+  /** Number of responses summed. */
+  responses: number;
+}
+
+/** Local calendar date, e.g. `2026-10-19`. */
+export function formatLocalDate(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Local midnight at the start of the calendar period containing `now`. Weeks
+ * start on Monday unless `weekStart` says otherwise.
+ */
+export function getPeriodStart(
+  period: UsagePeriod,
+  now = new Date(),
+  weekStart: WeekStart = "monday",
+): Date {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  if (period === "month") {
+    start.setDate(1);
+  } else if (period === "week") {
+    const offset = WEEK_DAYS.indexOf(weekStart);
+    start.setDate(start.getDate() - ((start.getDay() - offset + 7) % 7));
+  }
+  return start;
+}
+
+/**
+ * Local midnight at the start of a week or month budget window. Rolling
+ * windows start whole days back so they move once a day.
+ */
+export function getWindowStart(
+  period: "week" | "month",
+  budgetWindow: BudgetWindow = {},
+  now = new Date(),
+): Date {
+  if (budgetWindow.window !== "rolling") {
+    return getPeriodStart(period, now, budgetWindow.weekStart);
+  }
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - (period === "week" ? 6 : 29));
+  return start;
+}
+
+/** One assistant response with usage, as logged in a transcript. */
+export interface UsageResponse {
+  /** `messageId:requestId`, shared by every copy of the response, or null. */
+  id: string | null;
+  /** Time of the response in milliseconds. */
+  timestamp: number;
+  /** Session the response belongs to, or "unknown". */
+  sessionId: string;
+  /** Working directory the response was made in, or "unknown". */
+  project: string;
+  /** Model as logged, or "unknown". */
+  model: string;
+  /** Model ID the response is priced with. */
+  pricedAs: string;
+  tokens: TokenBreakdown;
+  /** Cost recorded in the transcript, or null to price `tokens`. */
+  costUSD: number | null;
+}
+
+/** The fields of a response the sparkline draws. */
+export type RecentResponse = Pick<
+  UsageResponse,
+  "timestamp" | "pricedAs" | "tokens" | "costUSD"
+>;
+
+/** Usage of one session, project and model on one local day, in one transcript. */
+interface UsageBucket {
+  date: string;
+  firstAt: number;
+  sessionId: string;
+  project: string;
+  model: string;
+  pricedAs: string;
+  tokens: TokenBreakdown;
+  /** Tokens of the responses without a recorded cost, priced when read. */
+  unpricedTokens: TokenBreakdown;
+  recordedCostUSD: number;
+  responses: number;
+}
+
+/**
+ * What a response added to its bucket, so that a copy of it in another
+ * transcript can be taken back out: `[bucket, input, output, cacheCreation,
+ * cacheRead, recorded cost or null]`.
+ */
+type ResponseAmounts = [number, number, number, number, number, number | null];
+
+/**
+ * Usage totals of one transcript, as saved by the incremental reader. Its
+ * size grows with the number of responses, not with message content.
+ */
+export interface TranscriptUsage {
+  buckets: UsageBucket[];
+  /** What each response with an ID added, by `messageId:requestId`. */
+  responses: Record<string, ResponseAmounts>;
+  /** The last `RECENT_RESPONSES` responses, oldest first. */
+  recent: RecentResponse[];
+  /** Context size at the last main-chain response with input tokens. */
+  contextTokens: number | null;
+  /** Whether the last line is an assistant message that ended its turn. */
+  endedTurn: boolean;
+}
+
+/** Responses kept per transcript for the sparkline. */
+export const RECENT_RESPONSES = 100;
+
+function emptyTokens(): TokenBreakdown {
+  return { input: 0, output: 0, cacheCreation: 0, cacheRead: 0 };
+}
+
+function addTokens(
+  total: TokenBreakdown,
+  tokens: TokenBreakdown,
+  sign = 1,
+): void {
+  total.input += sign * tokens.input;
+  total.output += sign * tokens.output;
+  total.cacheCreation += sign * tokens.cacheCreation;
+  total.cacheRead += sign * tokens.cacheRead;
+}
+
+function readString(value: unknown): string {
+  return typeof value === "string" && value ? value : "unknown";
+}
+
+function toUsageResponse(line: Record<string, unknown>): UsageResponse | null {
+  const message = line.message as Record<string, unknown> | undefined;
+  const usage = message?.usage as Record<string, number> | undefined;
+  const timestamp = Date.parse(String(line.timestamp));
+  if (typeof usage !== "object" || usage === null || Number.isNaN(timestamp)) {
+    return null;
+  }
+
+  const messageId = message?.id;
+  const { requestId } = line;
+  return {
+    id:
+      typeof messageId === "string" &&
+      messageId &&
+      typeof requestId === "string" &&
+      requestId
+        ? `${messageId}:${requestId}`
+        : null,
+    timestamp,
+    sessionId: readString(line.sessionId),
+    project: readString(line.cwd),
+    model: readString(message?.model),
+    pricedAs: PricingService.extractModelId(line),
+    tokens: {
+      input: usage.input_tokens || 0,
+      output: usage.output_tokens || 0,
+      cacheCreation: usage.cache_creation_input_tokens || 0,
+      cacheRead: usage.cache_read_input_tokens || 0,
+    },
+    costUSD:
+      typeof line.costUSD === "number" && line.costUSD ? line.costUSD : null,
+  };
+}
+
+function addToBucket(buckets: UsageBucket[], response: UsageResponse): number {
+  const date = formatLocalDate(new Date(response.timestamp));
+  let index = buckets.findIndex(
+    (bucket) =>
+      bucket.date === date &&
+      bucket.sessionId === response.sessionId &&
+      bucket.project === response.project &&
+      bucket.model === response.model &&
+      bucket.pricedAs === response.pricedAs,
+  );
+  let bucket = buckets[index];
+  if (!bucket) {
+    bucket = {
+      date,
+      firstAt: response.timestamp,
+      sessionId: response.sessionId,
+      project: response.project,
+      model: response.model,
+      pricedAs: response.pricedAs,
+      tokens: emptyTokens(),
+      unpricedTokens: emptyTokens(),
+      recordedCostUSD: 0,
+      responses: 0,
+    };
+    index = buckets.push(bucket) - 1;
+  }
+
+  bucket.firstAt = Math.min(bucket.firstAt, response.timestamp);
+  addTokens(bucket.tokens, response.tokens);
+  if (response.costUSD === null) {
+    addTokens(bucket.unpricedTokens, response.tokens);
+  } else {
+    bucket.recordedCostUSD += response.costUSD;
+  }
+  bucket.responses++;
+  return index;
+}
+
+/**
+ * Sums a transcript's responses by day, session, project and model. Copies
+ * of a response within the transcript count once. Bucket dates are local,
+ * so the fold is named after the time zone and state saved in another one
+ * is not reused.
+ */
+const USAGE_FOLD: TranscriptFold<TranscriptUsage> = {
+  name: `usage-${Intl.DateTimeFormat().resolvedOptions().timeZone}`,
+  initial: () => ({
+    buckets: [],
+    responses: {},
+    recent: [],
+    contextTokens: null,
+    endedTurn: false,
+  }),
+  add: (usage, line) => {
+    if (!line.timestamp) return;
+    const message = line.message as Record<string, unknown> | undefined;
+    usage.endedTurn =
+      line.type === "assistant" && message?.stop_reason === "end_turn";
+
+    const response = toUsageResponse(line);
+    if (!response) return;
+    const { tokens } = response;
+    if (tokens.input && line.isSidechain !== true) {
+      usage.contextTokens =
+        tokens.input + tokens.cacheRead + tokens.cacheCreation;
+    }
+    if (response.id && response.id in usage.responses) return;
+
+    const index = addToBucket(usage.buckets, response);
+    if (response.id) {
+      usage.responses[response.id] = [
+        index,
+        tokens.input,
+        tokens.output,
+        tokens.cacheCreation,
+        tokens.cacheRead,
+        response.costUSD,
+      ];
+    }
+    const { timestamp, pricedAs, costUSD } = response;
+    usage.recent.push({ timestamp, pricedAs, tokens, costUSD });
+    if (usage.recent.length > RECENT_RESPONSES) usage.recent.shift();
+  },
+};
+
+/** Collects every response of a transcript, for reads that are not saved. */
+const RESPONSES_FOLD: TranscriptFold<UsageResponse[]> = {
+  name: "usage-responses",
+  initial: () => [],
+  add: (responses, line) => {
+    const response = toUsageResponse(line);
+    if (response) responses.push(response);
+  },
+};
+
+/**
+ * Usage totals of a transcript, read incrementally: only lines appended
+ * since the previous call are parsed. Resolves to null when the transcript
+ * cannot be read.
+ */
+export function readTranscriptUsage(
+  filePath: string,
+): Promise<TranscriptUsage | null> {
+  return readTranscriptIncrementally(filePath, USAGE_FOLD);
+}
+
+/**
+ * The buckets of `usages` dated in `[since, until)`, less the responses an
+ * earlier transcript already logged, as resumed sessions copy them.
+ * Transcripts are taken in order of their first response, so the original
+ * keeps each response and the totals don't depend on read order.
+ */
+function dedupeBuckets(
+  usages: TranscriptUsage[],
+  since?: string,
+  until?: string,
+): UsageBucket[] {
+  const ordered = usages
+    .filter((usage) => usage.buckets.length > 0)
+    .map((usage) => ({
+      usage,
+      firstAt: Math.min(...usage.buckets.map((bucket) => bucket.firstAt)),
+    }))
+    .sort((a, b) => a.firstAt - b.firstAt);
+  const seen = new Set<string>();
+  const kept: UsageBucket[] = [];
+
+  for (const { usage } of ordered) {
+    const buckets = usage.buckets.map((bucket) =>
+      (!since || bucket.date >= since) && (!until || bucket.date < until)
+        ? {
+            ...bucket,
+            tokens: { ...bucket.tokens },
+            unpricedTokens: { ...bucket.unpricedTokens },
+          }
+        : null,
+    );
+
+    for (const [id, amounts] of Object.entries(usage.responses)) {
+      const [index, input, output, cacheCreation, cacheRead, costUSD] = amounts;
+      const bucket = buckets[index];
+      if (!bucket) continue;
+      if (!seen.has(id)) {
+        seen.add(id);
+        continue;
+      }
+      const tokens = { input, output, cacheCreation, cacheRead };
+      addTokens(bucket.tokens, tokens, -1);
+      if (costUSD === null) {
+        addTokens(bucket.unpricedTokens, tokens, -1);
+      } else {
+        bucket.recordedCostUSD -= costUSD;
+      }
+      bucket.responses--;
+    }
+
+    for (const bucket of buckets) {
+      if (bucket && bucket.responses > 0) kept.push(bucket);
+    }
+  }
+  return kept;
+}
+
+async function toUsageRecord(bucket: UsageBucket): Promise<UsageRecord> {
+  return {
+    date: bucket.date,
+    firstAt: new Date(bucket.firstAt),
+    sessionId: bucket.sessionId,
+    model: bucket.model,
+    pricedAs: bucket.pricedAs,
+    project: bucket.project,
+    inputTokens: bucket.tokens.input,
+    outputTokens: bucket.tokens.output,
+    cacheCreationTokens: bucket.tokens.cacheCreation,
+    cacheReadTokens: bucket.tokens.cacheRead,
+    costUSD:
+      bucket.recordedCostUSD +
+      (await PricingService.calculateCost(
+        bucket.pricedAs,
+        bucket.unpricedTokens,
+      )),
+    responses: bucket.responses,
+  };
+}
+
+/** Cost of a response: the one recorded in the transcript, or its tokens priced. */
+export async function priceResponse(response: RecentResponse): Promise<number> {
+  return (
+    response.costUSD ??
+    PricingService.calculateCost(response.pricedAs, response.tokens)
+  );
+}
+
+export interface UsageQuery {
+  /** First day to include; only its date counts. */
+  since?: Date;
+  /** Day after the last one to include; only its date counts. */
+  until?: Date;
+  /** Only read the transcripts Claude Code stores for this project directory. */
+  projectDir?: string;
+}
+
+/**
+ * Prices the usage of transcripts read with `readTranscriptUsage`, by day,
+ * session, project and model. A response logged in several transcripts
+ * counts once.
+ */
+export async function collectUsageRecords(
+  usages: Array<TranscriptUsage | null>,
+  query: Pick<UsageQuery, "since" | "until"> = {},
+): Promise<UsageRecord[]> {
+  const buckets = dedupeBuckets(
+    usages.filter((usage): usage is TranscriptUsage => usage !== null),
+    query.since && formatLocalDate(query.since),
+    query.until && formatLocalDate(query.until),
+  );
+  return Promise.all(buckets.map(toUsageRecord));
+}
+
+/**
+ * Loads the usage of the days in `[since, until)` from the transcripts under
+ * `getClaudePaths()`, including subagent transcripts. Costs come from the
+ * transcript when recorded there and from the pricing table otherwise.
+ */
+export async function loadUsageRecords(
+  query: UsageQuery = {},
+): Promise<UsageRecord[]> {
+  const files = await findUsageTranscripts(query.projectDir, query.since);
+  return collectUsageRecords(
+    await Promise.all(files.map(readTranscriptUsage)),
+    query,
+  );
+}
+
+/**
+ * Every response with usage in `[since, until)`, oldest first, each once
+ * across transcripts. Transcripts are read whole and nothing is saved, so
+ * this suits one-off commands rather than the statusline.
+ */
+export async function loadUsageResponses(
+  query: UsageQuery = {},
+): Promise<UsageResponse[]> {
+  const { since, until, projectDir } = query;
+  const files = await findUsageTranscripts(projectDir, since);
+  const read = await Promise.all(
+    files.map((file) => readTranscript(file, RESPONSES_FOLD)),
+  );
+  const responses = read
+    .flatMap((fileResponses) => fileResponses ?? [])
+    .filter(
+      (response) =>
+        (!since || response.timestamp >= since.getTime()) &&
+        (!until || response.timestamp < until.getTime()),
+    )
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const seen = new Set<string>();
+  return responses.filter((response) => {
+    if (!response.id) return true;
+    if (seen.has(response.id)) return false;
+    seen.add(response.id);
+    return true;
+  });
+}
+
+export function emptyTotals(): UsageTotals {
+  return {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    costUSD: 0,
+    responses: 0,
+  };
+}
+
+export function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  totals.cacheCreationTokens += record.cacheCreationTokens;
+  totals.cacheReadTokens += record.cacheReadTokens;
+  totals.costUSD += record.costUSD;
+  totals.responses += record.responses;
+}
+
+export function getTotalTokens(totals: UsageTotals): number {
+  return (
+    totals.inputTokens +
+    totals.outputTokens +
+    totals.cacheCreationTokens +
+    totals.cacheReadTokens
+  );
+}
+
+/** Sums records per key, in first-seen order. */
+export function groupUsage(
+  records: UsageRecord[],
+  keyOf: (record: UsageRecord) => string,
+): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = keyOf(record);
+    let totals = groups.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      groups.set(key, totals);
+    }
+    addToTotals(totals, record);
+  }
+  return groups;
+}
@@ -0,0 +1,285 @@
+/**
+ * `when` clauses: small boolean expressions that decide whether a segment is
+ * rendered, e.g. `rate_limits.five_hour.used_percentage > 50` or
+ * `git && today.cost >= 1`.
+ *
+ *   expr       := and ("||" and)*
+ *   and        := unary ("&&" unary)*
+ *   unary      := "!" unary | "(" expr ")" | comparison
+ *   comparison := operand (("==" | "!=" | ">" | ">=" | "<" | "<=") operand)?
+ *   operand    := number | 'string' | "string" | true | false | null | path
+ *   path       := name ("." name)*
+ *
+ * A bare operand tests truthiness; missing values are `undefined`, and
+ * ordering comparisons against them are false.
+ */
+
+type CompareOp = "==" | "!=" | ">" | ">=" | "<" | "<=";
+
+export type WhenNode =
+  | { kind: "literal"; value: string | number | boolean | null }
+  | { kind: "path"; path: string[] }
+  | { kind: "not"; operand: WhenNode }
+  | { kind: "and" | "or"; left: WhenNode; right: WhenNode }
+  | { kind: "compare"; op: CompareOp; left: WhenNode; right: WhenNode };
+
+interface Token {
+  type: "op" | "number" | "string" | "name" | "end";
+  value: string;
+  offset: number;
+}
+
+const OPERATORS = ["&&", "||", "==", "!=", ">=", "<=", ">", "<", "!", "(", ")"];
+const COMPARE_OPS = new Set<string>(["==", "!=", ">", ">=", "<", "<="]);
+
+class WhenSyntaxError extends Error {}
+
+function tokenize(source: string): Token[] | string {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  while (pos < source.length) {
+    const ch = source[pos]!;
+    if (/\s/.test(ch)) {
+      pos++;
+      continue;
+    }
+
+    const op = OPERATORS.find((candidate) => source.startsWith(candidate, pos));
+    if (op) {
+      tokens.push({ type: "op", value: op, offset: pos });
+      pos += op.length;
+      continue;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?/.exec(source.slice(pos));
+    if (number) {
+      tokens.push({ type: "number", value: number[0], offset: pos });
+      pos += number[0].length;
+      continue;
+    }
+
+    if (ch === "'" || ch === '"') {
+      const end = source.indexOf(ch, pos + 1);
+      if (end === -1) {
+        return `unterminated string at column ${pos + 1}`;
+      }
+      tokens.push({
+        type: "string",
+        value: source.slice(pos + 1, end),
+        offset: pos,
+      });
+      pos = end + 1;
+      continue;
+    }
+
+    const name = /^[A-Za-z_][\w]*(?:\.[A-Za-z_][\w]*)*/.exec(source.slice(pos));
+    if (name) {
+      tokens.push({ type: "name", value: name[0], offset: pos });
+      pos += name[0].length;
+      continue;
+    }
+
+    return `unexpected "${ch}" at column ${pos + 1}`;
+  }
+
+  tokens.push({ type: "end", value: "", offset: source.length });
+  return tokens;
+}
+
+/**
+ * Parses a `when` expression. Returns the syntax tree, or an error message
+ * describing the first problem.
+ */
+export function parseWhen(source: string): WhenNode | string {
+  const tokens = tokenize(source);
+  if (typeof tokens === "string") {
+    return tokens;
+  }
+
+  let index = 0;
+  const peek = () => tokens[index]!;
+  const describe = (token: Token) =>
+    token.type === "end"
+      ? "unexpected end of expression"
+      : `unexpected "${token.value}" at column ${token.offset + 1}`;
+
+  const fail = (token: Token): never => {
+    throw new WhenSyntaxError(describe(token));
+  };
+
+  const parseOperand = (): WhenNode => {
+    const token = peek();
+    index++;
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: Number(token.value) };
+      case "string":
+        return { kind: "literal", value: token.value };
+      case "name":
+        if (token.value === "true" || token.value === "false") {
+          return { kind: "literal", value: token.value === "true" };
+        }
+        if (token.value === "null") {
+          return { kind: "literal", value: null };
+        }
+        return { kind: "path", path: token.value.split(".") };
+      default:
+        return fail(token);
+    }
+  };
+
+  const parseUnary = (): WhenNode => {
+    const token = peek();
+    if (token.type === "op" && token.value === "!") {
+      index++;
+      return { kind: "not", operand: parseUnary() };
+    }
+    if (token.type === "op" && token.value === "(") {
+      index++;
+      const inner = parseOr();
+      if (peek().value !== ")") {
+        fail(peek());
+      }
+      index++;
+      return inner;
+    }
+
+    const left = parseOperand();
+    const next = peek();
+    if (next.type === "op" && COMPARE_OPS.has(next.value)) {
+      index++;
+      return {
+        kind: "compare",
+        op: next.value as CompareOp,
+        left,
+        right: parseOperand(),
+      };
+    }
+    return left;
+  };
+
+  const parseAnd = (): WhenNode => {
+    let left = parseUnary();
+    while (peek().value === "&&") {
+      index++;
+      left = { kind: "and", left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  const parseOr = (): WhenNode => {
+    let left = parseAnd();
+    while (peek().value === "||") {
+      index++;
+      left = { kind: "or", left, right: parseAnd() };
+    }
+    return left;
+  };
+
+  try {
+    const tree = parseOr();
+    if (peek().type !== "end") {
+      fail(peek());
+    }
+    return tree;
+  } catch (error) {
+    if (error instanceof WhenSyntaxError) {
+      return error.message;
+    }
+    throw error;
+  }
+}
+
+/** Top-level names an expression reads, e.g. `git` or `rate_limits`. */
+export function getWhenRoots(node: WhenNode): string[] {
+  switch (node.kind) {
+    case "literal":
+      return [];
+    case "path":
+      return [node.path[0]!];
+    case "not":
+      return getWhenRoots(node.operand);
+    default:
+      return [...getWhenRoots(node.left), ...getWhenRoots(node.right)];
+  }
+}
+
+function resolvePath(
+  path: string[],
+  context: Record<string, unknown>,
+): unknown {
+  let current: unknown = context;
+  for (const key of path) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function isMissing(value: unknown): boolean {
+  return value === null || value === undefined;
+}
+
+function compare(op: CompareOp, left: unknown, right: unknown): boolean {
+  if (op === "==" || op === "!=") {
+    const equal = left === right || (isMissing(left) && isMissing(right));
+    return op === "==" ? equal : !equal;
+  }
+
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+  if (!comparable) {
+    return false;
+  }
+
+  const a = left as number | string;
+  const b = right as number | string;
+  switch (op) {
+    case ">":
+      return a > b;
+    case ">=":
+      return a >= b;
+    case "<":
+      return a < b;
+    default:
+      return a <= b;
+  }
+}
+
+function evaluate(node: WhenNode, context: Record<string, unknown>): unknown {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "path":
+      return resolvePath(node.path, context);
+    case "not":
+      return !evaluate(node.operand, context);
+    case "and":
+      return (
+        Boolean(evaluate(node.left, context)) &&
+        Boolean(evaluate(node.right, context))
+      );
+    case "or":
+      return (
+        Boolean(evaluate(node.left, context)) ||
+        Boolean(evaluate(node.right, context))
+      );
+    case "compare":
+      return compare(
+        node.op,
+        evaluate(node.left, context),
+        evaluate(node.right, context),
+      );
+  }
+}
+
+export function evaluateWhen(
+  node: WhenNode,
+  context: Record<string, unknown>,
+): boolean {
+  return Boolean(evaluate(node, context));
+}
@@ -0,0 +1,200 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { loadConfig } from "../src/config/loader";
+import { PowerlineRenderer } from "../src/powerline";
+import {
+  collectAlertReadings,
+  processAlerts,
+  setTerminalWriter,
+} from "../src/utils/alerts";
+import type { AlertInputs, AlertReading } from "../src/utils/alerts";
+import { useTranscriptSandbox, writeSession } from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+const DAY = 24 * 60 * 60 * 1000;
+
+const noInputs: AlertInputs = {
+  usageInfo: null,
+  todayInfo: null,
+  projectInfo: null,
+  weekInfo: null,
+  monthInfo: null,
+  contextInfo: null,
+};
+
+describe("threshold alerts", () => {
+  let root: string;
+  const originalEnv = { ...process.env };
+
+  const reading = (key: string, crossed: boolean): AlertReading => ({
+    key,
+    message: key,
+    crossed,
+  });
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "alerts-test-"));
+    process.env.CLAUDE_POWERLINE_CACHE_DIR = root;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("alerts once per crossing and re-arms when the value drops back", async () => {
+    const notified: string[] = [];
+    const run = (crossed: boolean, at = NOW) =>
+      processAlerts(
+        {},
+        [reading("budget.today", crossed)],
+        (r) => notified.push(r.key),
+        at,
+      );
+
+    await run(false);
+    await run(true);
+    await run(true);
+    expect(notified).toEqual(["budget.today"]);
+
+    await run(false);
+    await run(true);
+    expect(notified).toEqual(["budget.today", "budget.today"]);
+  });
+
+  it("forgets crossings that were not refreshed for a week", async () => {
+    const notify = jest.fn();
+    await processAlerts({}, [reading("context:old", true)], notify, NOW);
+    await processAlerts({}, [], notify, NOW + 8 * DAY);
+    await processAlerts(
+      {},
+      [reading("context:old", true)],
+      notify,
+      NOW + 8 * DAY,
+    );
+
+    expect(notify).toHaveBeenCalledTimes(2);
+  });
+
+  it("reads budgets, context and rate limits against their thresholds", () => {
+    const config = {
+      budget: {
+        session: { amount: 10, warningThreshold: 80 },
+        today: { amount: 20 },
+        week: { amount: 1_000_000, type: "tokens" },
+      },
+      alerts: { enabled: true, context: 90, rateLimit: 75 },
+      display: { lines: [] },
+    } as any;
+    const hookData = {
+      session_id: "abc",
+      rate_limits: {
+        five_hour: { used_percentage: 76, resets_at: 0 },
+        seven_day: { used_percentage: 40, resets_at: 0 },
+      },
+    } as any;
+
+    const readings = collectAlertReadings(config, hookData, {
+      ...noInputs,
+      usageInfo: { session: { cost: 8.5, tokens: 1000 } } as any,
+      todayInfo: { cost: 5, tokens: 2000 } as any,
+      weekInfo: { cost: 50, tokens: 900_000 } as any,
+      contextInfo: { usablePercentage: 62 } as any,
+    });
+
+    expect(readings).toEqual([
+      {
+        key: "budget.session:abc",
+        message: "Session budget at 85%",
+        crossed: true,
+      },
+      { key: "budget.today", message: "Today budget at 25%", crossed: false },
+      { key: "budget.week", message: "Week budget at 90%", crossed: true },
+      { key: "context:abc", message: "Context at 62%", crossed: false },
+      {
+        key: "rateLimit.five_hour",
+        message: "5-hour rate limit at 76%",
+        crossed: true,
+      },
+      {
+        key: "rateLimit.seven_day",
+        message: "7-day rate limit at 40%",
+        crossed: false,
+      },
+    ]);
+
+    const projecting = {
+      ...config,
+      display: {
+        lines: [
+          { segments: { today: { enabled: true, showProjection: true } } },
+        ],
+      },
+    };
+    expect(
+      collectAlertReadings(projecting, hookData, {
+        ...noInputs,
+        todayInfo: { cost: 5, tokens: 2000, projectedCost: 18 } as any,
+      }),
+    ).toContainEqual({
+      key: "budget.today",
+      message: "Today budget at 90%",
+      crossed: true,
+    });
+
+    expect(
+      collectAlertReadings(
+        { ...config, alerts: { enabled: true, budgets: false } },
+        hookData,
+        noInputs,
+      ),
+    ).toEqual([]);
+  });
+});
+
+describe("statusline alerts", () => {
+  const sandbox = useTranscriptSandbox("statusline-alerts-test", new Date(NOW));
+  let terminal: string;
+
+  beforeEach(() => {
+    terminal = "";
+    setTerminalWriter((sequence) => {
+      terminal += sequence;
+    });
+  });
+
+  afterEach(() => {
+    setTerminalWriter(null);
+  });
+
+  it("checks budgets and context whose segments are not shown", async () => {
+    const transcript = writeSession(sandbox.root, "-work-api", "abc", [
+      { at: new Date(NOW - 60_000), costUSD: 3, inputTokens: 150_000 },
+    ]);
+    const configPath = path.join(sandbox.root, "config.json");
+    fs.writeFileSync(
+      configPath,
+      JSON.stringify({
+        budget: { week: { amount: 2 }, month: { amount: 10 } },
+        alerts: { enabled: true, method: "osc9", context: 50 },
+        display: { lines: [{ segments: { model: { enabled: true } } }] },
+      }),
+    );
+
+    await new PowerlineRenderer(
+      loadConfig([`--config=${configPath}`], sandbox.root),
+    ).generateStatusline({
+      hook_event_name: "Status",
+      session_id: "abc",
+      transcript_path: transcript,
+      cwd: sandbox.root,
+      model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+      workspace: { current_dir: sandbox.root, project_dir: sandbox.root },
+    });
+
+    expect(terminal).toContain("Week budget at 100%");
+    expect(terminal).not.toContain("Month budget");
+    expect(terminal).toMatch(/Context at \d+%/);
+  });
+});
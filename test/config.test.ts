@@ -244,6 +244,41 @@ describe("config", () => {
       consoleSpy.mockRestore();
     });
 
+    it("should ignore exchangeRate without currency or locale", () => {
+      const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({ exchangeRate: 0.92 })
+      );
+
+      const config = loadConfig();
+      expect(config.exchangeRate).toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Ignoring exchangeRate")
+      );
+      consoleSpy.mockRestore();
+    });
+
+    it("should ignore exchangeRate with a locale but no other currency", () => {
+      const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({ locale: "de-DE", exchangeRate: 0.92 })
+      );
+
+      const config = loadConfig();
+      expect(config.locale).toBe("de-DE");
+      expect(config.exchangeRate).toBeUndefined();
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining("Ignoring exchangeRate")
+      );
+      consoleSpy.mockRestore();
+    });
+
     it("should fallback invalid style in config file to minimal", () => {
       const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
       mockFs.existsSync.mockImplementation(
@@ -448,5 +483,258 @@ describe("config", () => {
       expect(config.display.tui).toBeDefined();
       expect(stderrSpy).not.toHaveBeenCalled();
     });
+
+    it("should accept plugin segment names and parts in areas", () => {
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          plugins: { weather: "./weather.mjs" },
+          display: {
+            style: "tui",
+            tui: {
+              breakpoints: [{
+                minWidth: 0,
+                areas: ["block weather weather.temp"],
+                columns: ["1fr", "1fr", "auto"],
+              }],
+            },
+          },
+        })
+      );
+      const config = loadConfig();
+      expect(config.display.tui).toBeDefined();
+      expect(stderrSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("plugins", () => {
+    it("should resolve plugin paths relative to the config file", () => {
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          plugins: {
+            weather: "./plugins/weather.mjs",
+            abs: "/opt/seg.mjs",
+            home: "~/segments/home.mjs",
+          },
+        })
+      );
+
+      const config = loadConfig();
+      expect(config.plugins).toEqual({
+        weather: path.resolve("/project", "plugins/weather.mjs"),
+        abs: "/opt/seg.mjs",
+        home: path.resolve("/home/user", "segments/home.mjs"),
+      });
+    });
+
+    it("should ignore plugin entries without a module path", () => {
+      const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({ plugins: { broken: 42, ok: "./ok.mjs" } })
+      );
+
+      const config = loadConfig();
+      expect(Object.keys(config.plugins ?? {})).toEqual(["ok"]);
+      expect(consoleSpy).toHaveBeenCalledWith(expect.stringContaining("broken"));
+      consoleSpy.mockRestore();
+    });
+
+    it("should ignore plugins named like a built-in segment", () => {
+      const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          plugins: {
+            git: "./git.mjs",
+            directory: "./dir.mjs",
+            weather: "./weather.mjs",
+          },
+        })
+      );
+
+      const config = loadConfig();
+      expect(Object.keys(config.plugins ?? {})).toEqual(["weather"]);
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining('"git" has the name of a built-in segment')
+      );
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("extends", () => {
+    const mockFiles = (files: Record<string, unknown>) => {
+      mockFs.existsSync.mockImplementation((p) => String(p) in files);
+      mockFs.readFileSync.mockImplementation((p) => {
+        const file = files[String(p)];
+        if (file === undefined) {
+          throw new Error(`ENOENT: ${String(p)}`);
+        }
+        return JSON.stringify(file);
+      });
+    };
+
+    it("should layer extended files underneath the config in order", () => {
+      mockFiles({
+        "/project/.claude-powerline.json": {
+          extends: ["./team.json", "~/personal.json"],
+          display: { style: "capsule" }
+        },
+        "/project/team.json": {
+          theme: "nord",
+          display: { style: "powerline", padding: 2 },
+          budget: { today: { amount: 20 } }
+        },
+        "/home/user/personal.json": { budget: { today: { amount: 50 } } }
+      });
+
+      const config = loadConfig();
+      expect(config.theme).toBe("nord");
+      expect(config.display.style).toBe("capsule");
+      expect(config.display.padding).toBe(2);
+      expect(config.budget?.today?.amount).toBe(50);
+      expect(config).not.toHaveProperty("extends");
+    });
+
+    it("should resolve nested extends and plugins relative to each file", () => {
+      mockFiles({
+        "/project/.claude-powerline.json": { extends: "../shared/base.json" },
+        "/shared/base.json": {
+          extends: "./core.json",
+          plugins: { weather: "./weather.mjs" }
+        },
+        "/shared/core.json": { theme: "gruvbox" }
+      });
+
+      const config = loadConfig();
+      expect(config.theme).toBe("gruvbox");
+      expect(config.plugins).toEqual({ weather: "/shared/weather.mjs" });
+    });
+
+    it("should load presets without their setup placeholders", () => {
+      mockFiles({
+        "/project/.claude-powerline.json": {
+          extends: "preset:standard",
+          theme: "nord"
+        }
+      });
+
+      const config = loadConfig();
+      expect(config.theme).toBe("nord");
+      expect(config.display.style).toBe("minimal");
+      expect(config.display.lines).toHaveLength(2);
+      expect(config.display.lines[0]?.segments.directory).toEqual({
+        enabled: true,
+        style: "fish"
+      });
+      expect(config.budget?.today?.amount).toBe(
+        DEFAULT_CONFIG.budget?.today?.amount
+      );
+    });
+
+    it("should warn about unknown presets, missing files and cycles", () => {
+      const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+      mockFiles({
+        "/project/.claude-powerline.json": {
+          extends: [
+            "preset:nope",
+            "preset:constructor",
+            "./missing.json",
+            "./a.json"
+          ],
+          theme: "nord"
+        },
+        "/project/a.json": { extends: "./b.json", display: { padding: 3 } },
+        "/project/b.json": { extends: "./a.json" }
+      });
+
+      const config = loadConfig();
+      expect(config.theme).toBe("nord");
+      expect(config.display.padding).toBe(3);
+      const warnings = consoleSpy.mock.calls.map((call) => String(call[0]));
+      expect(warnings).toEqual([
+        expect.stringContaining('unknown preset "nope"'),
+        expect.stringContaining('unknown preset "constructor"'),
+        expect.stringContaining("missing.json"),
+        expect.stringContaining(
+          "circular extends /project/.claude-powerline.json -> /project/a.json -> /project/b.json -> /project/a.json"
+        )
+      ]);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe("profiles", () => {
+    const originalProfile = process.env.CLAUDE_POWERLINE_PROFILE;
+
+    beforeEach(() => {
+      delete process.env.CLAUDE_POWERLINE_PROFILE;
+      mockFs.existsSync.mockImplementation(
+        (p) => p === path.join("/project", ".claude-powerline.json")
+      );
+      mockFs.readFileSync.mockReturnValue(
+        JSON.stringify({
+          theme: "nord",
+          profiles: {
+            focus: { display: { style: "minimal", padding: 0 } },
+            demo: { theme: "rose-pine" }
+          }
+        })
+      );
+    });
+
+    afterEach(() => {
+      if (originalProfile === undefined) {
+        delete process.env.CLAUDE_POWERLINE_PROFILE;
+      } else {
+        process.env.CLAUDE_POWERLINE_PROFILE = originalProfile;
+      }
+    });
+
+    it("should not apply profiles unless one is selected", () => {
+      const config = loadConfig([]);
+      expect(config.theme).toBe("nord");
+      expect(config).not.toHaveProperty("profiles");
+    });
+
+    it("should apply the profile selected with --profile", () => {
+      const config = loadConfig(["--profile=focus"]);
+      expect(config.theme).toBe("nord");
+      expect(config.display.padding).toBe(0);
+    });
+
+    it("should prefer --profile over CLAUDE_POWERLINE_PROFILE", () => {
+      process.env.CLAUDE_POWERLINE_PROFILE = "focus";
+      expect(loadConfig([]).display.padding).toBe(0);
+      expect(loadConfig(["--profile", "demo"]).theme).toBe("rose-pine");
+    });
+
+    it("should let CLI flags override the profile", () => {
+      const config = loadConfig(["--profile=demo", "--theme=light"]);
+      expect(config.theme).toBe("light");
+    });
+
+    it("should warn about unknown profiles", () => {
+      const consoleSpy = jest.spyOn(console, "warn").mockImplementation();
+      const config = loadConfig(["--profile=nope"]);
+      expect(config.theme).toBe("nord");
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining("unknown profile 'nope' (available: focus, demo)")
+      );
+      expect(loadConfig(["--profile=toString"]).theme).toBe("nord");
+      expect(consoleSpy).toHaveBeenCalledWith(
+        expect.stringContaining("unknown profile 'toString'")
+      );
+      consoleSpy.mockRestore();
+    });
   });
 });
@@ -0,0 +1,201 @@
+import fs from "fs";
+import path from "path";
+import { startDaemon } from "../src/commands/daemon";
+import type { DaemonServer } from "../src/commands/daemon";
+import { loadConfig } from "../src/config/loader";
+import { PowerlineRenderer } from "../src/powerline";
+import { UsageProvider } from "../src/segments/session";
+import { renderViaDaemon } from "../src/utils/daemon";
+import type { DaemonRequest } from "../src/utils/daemon";
+import { stripAnsi } from "../src/utils/terminal";
+import type { ClaudeHookData } from "../src/utils/claude";
+import {
+  transcriptLine,
+  useTranscriptSandbox,
+  writeTranscript,
+} from "./helpers/transcripts";
+
+describe("daemon", () => {
+  const sandbox = useTranscriptSandbox("daemon-test");
+  let transcript: string;
+  let socketPath: string;
+  let daemon: DaemonServer | null;
+
+  function turn(id: string, costUSD?: number): string {
+    return transcriptLine("warm", id, {
+      at: new Date(),
+      costUSD,
+      outputTokens: 100,
+    });
+  }
+
+  function request(
+    env: Record<string, string> = {},
+    configFile = "powerline.json",
+  ): DaemonRequest {
+    const hookData: ClaudeHookData = {
+      hook_event_name: "Status",
+      session_id: "warm",
+      transcript_path: transcript,
+      cwd: sandbox.root,
+      model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+      workspace: { current_dir: sandbox.root, project_dir: sandbox.root },
+    };
+    return {
+      args: [`--config=${path.join(sandbox.root, configFile)}`],
+      cwd: sandbox.root,
+      env: { ...process.env, ...env },
+      pid: process.pid,
+      hookData,
+    };
+  }
+
+  beforeEach(() => {
+    socketPath = path.join(sandbox.root, "daemon.sock");
+    daemon = null;
+    process.env.COLUMNS = "200";
+    transcript = writeTranscript(
+      path.join(sandbox.root, "projects", "-work-api", "warm.jsonl"),
+      [turn("1", 0.75)],
+    );
+    fs.writeFileSync(
+      path.join(sandbox.root, "powerline.json"),
+      JSON.stringify({
+        display: {
+          lines: [
+            {
+              segments: {
+                session: { enabled: true, type: "cost" },
+                env: { enabled: true, variable: "DEPLOY_ENV" },
+              },
+            },
+          ],
+        },
+      }),
+    );
+  });
+
+  afterEach(async () => {
+    await daemon?.close();
+  });
+
+  it("renders what the CLI would, with the client's environment", async () => {
+    daemon = await startDaemon(socketPath);
+    const req = request({ DEPLOY_ENV: "staging" });
+
+    const served = await renderViaDaemon(req, socketPath);
+
+    process.env.DEPLOY_ENV = "staging";
+    const inProcess = await new PowerlineRenderer(
+      loadConfig(req.args, sandbox.root),
+    ).generateStatusline(req.hookData);
+    expect(served?.output).toBe(inProcess);
+    expect(stripAnsi(served?.output ?? "")).toContain("$0.75");
+    expect(stripAnsi(served?.output ?? "")).toContain("staging");
+    expect(served?.terminal).toBe("");
+    expect(process.env.DEPLOY_ENV).toBe("staging");
+  });
+
+  it("renders overlapping requests one at a time", async () => {
+    daemon = await startDaemon(socketPath);
+    const second = await startDaemon(path.join(sandbox.root, "second.sock"));
+
+    try {
+      const [staging, production] = await Promise.all([
+        renderViaDaemon(request({ DEPLOY_ENV: "staging" }), socketPath),
+        renderViaDaemon(
+          request({ DEPLOY_ENV: "production" }),
+          second.socketPath,
+        ),
+      ]);
+
+      expect(stripAnsi(staging?.output ?? "")).toContain("staging");
+      expect(stripAnsi(production?.output ?? "")).toContain("production");
+      expect((fs.statSync(socketPath).mode & 0o777).toString(8)).toBe("600");
+    } finally {
+      await second.close();
+    }
+  });
+
+  it("returns alerts for the CLI to write to its own terminal", async () => {
+    const writeFileSync = jest.spyOn(fs, "writeFileSync");
+    fs.writeFileSync(
+      path.join(sandbox.root, "powerline.json"),
+      JSON.stringify({
+        budget: { session: { amount: 0.5 } },
+        alerts: { enabled: true, method: "osc9" },
+      }),
+    );
+    daemon = await startDaemon(socketPath);
+
+    const served = await renderViaDaemon(request(), socketPath);
+
+    expect(served?.terminal).toBe("\x1b]9;Claude: Session budget at 100%\x07");
+    expect(writeFileSync).not.toHaveBeenCalledWith(
+      "/dev/tty",
+      expect.anything(),
+    );
+  });
+
+  it("reuses results until a transcript changes", async () => {
+    const getUsageInfo = jest.spyOn(UsageProvider.prototype, "getUsageInfo");
+    daemon = await startDaemon(socketPath);
+    await renderViaDaemon(request(), socketPath);
+    expect(
+      stripAnsi((await renderViaDaemon(request(), socketPath))?.output ?? ""),
+    ).toContain("$0.75");
+    expect(getUsageInfo).toHaveBeenCalledTimes(1);
+
+    fs.appendFileSync(transcript, `${turn("2", 0.5)}\n`);
+    let output = "";
+    for (let attempt = 0; attempt < 30; attempt++) {
+      output = stripAnsi(
+        (await renderViaDaemon(request(), socketPath))?.output ?? "",
+      );
+      if (output.includes("$1.25")) break;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(output).toContain("$1.25");
+    expect(getUsageInfo.mock.calls.length).toBeGreaterThan(1);
+  });
+
+  it("keeps results apart for configs with different pricing", async () => {
+    writeTranscript(transcript, [turn("1")]);
+    for (const [file, multiplier] of [
+      ["list.json", 1000],
+      ["discounted.json", 500],
+    ] as const) {
+      fs.writeFileSync(
+        path.join(sandbox.root, file),
+        JSON.stringify({
+          pricing: { multiplier },
+          display: {
+            lines: [{ segments: { session: { enabled: true, type: "cost" } } }],
+          },
+        }),
+      );
+    }
+    daemon = await startDaemon(socketPath);
+
+    const list = await renderViaDaemon(request({}, "list.json"), socketPath);
+    const discounted = await renderViaDaemon(
+      request({}, "discounted.json"),
+      socketPath,
+    );
+
+    expect(stripAnsi(list?.output ?? "")).toContain("$4.50");
+    expect(stripAnsi(discounted?.output ?? "")).toContain("$2.25");
+  });
+
+  it("falls back when no daemon listens and refuses a second daemon", async () => {
+    expect(await renderViaDaemon(request(), socketPath)).toBeNull();
+
+    daemon = await startDaemon(socketPath);
+    await expect(startDaemon(socketPath)).rejects.toThrow(
+      `a daemon is already listening on ${socketPath}`,
+    );
+    await daemon.close();
+    daemon = null;
+    expect(fs.existsSync(socketPath)).toBe(false);
+  });
+});
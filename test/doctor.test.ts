@@ -0,0 +1,66 @@
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { runDoctor } from "../src/commands/doctor";
+import { PricingService } from "../src/segments/pricing";
+
+describe("doctor command", () => {
+  let tempDir: string;
+  let output: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "powerline-doctor-"));
+    output = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "warn").mockImplementation();
+    jest.spyOn(PricingService, "getCurrentPricing").mockResolvedValue({});
+    jest.spyOn(PricingService, "getPricingSource").mockReturnValue("offline");
+    process.env.COLUMNS = "120";
+    process.env.CLAUDE_CONFIG_DIR = tempDir;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("reports the config file, terminal source and merged config", async () => {
+    const configPath = join(tempDir, "powerline.json");
+    writeFileSync(configPath, JSON.stringify({ theme: "nord" }));
+
+    const code = await runDoctor([`--config=${configPath}`]);
+
+    expect(code).toBe(0);
+    expect(output).toContain(`✓ file     ${configPath}`);
+    expect(output).toContain("theme    nord");
+    expect(output).toMatch(/width\s+120 columns/);
+    expect(output).toMatch(/source\s+COLUMNS/);
+    expect(output).toContain(`${tempDir} (0 projects)`);
+    expect(output).toContain("offline fallback");
+    expect(output).toContain('"theme": "nord"');
+  });
+
+  it("fails when the configured path does not exist", async () => {
+    const code = await runDoctor([
+      `--config=${join(tempDir, "missing.json")}`,
+    ]);
+
+    expect(code).toBe(1);
+    expect(output).toContain("✗ file     configured path does not exist");
+    expect(output).toContain("1 problem found");
+  });
+
+  it("flags a config file that is not valid JSON", async () => {
+    const configPath = join(tempDir, "broken.json");
+    writeFileSync(configPath, "{ theme: ");
+
+    const code = await runDoctor([`--config=${configPath}`]);
+
+    expect(code).toBe(1);
+    expect(output).toContain(`✗ file     ${configPath} (`);
+  });
+});
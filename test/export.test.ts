@@ -0,0 +1,98 @@
+import path from "path";
+import { runExport } from "../src/commands/export";
+import {
+  transcriptLine,
+  useTranscriptSandbox,
+  writeTranscript,
+} from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 21, 12, 0, 0);
+
+describe("export command", () => {
+  const sandbox = useTranscriptSandbox("export-test", NOW);
+  let output: string;
+  let errors: string;
+
+  function turn(id: string, at: Date, cwd: string, costUSD?: number) {
+    return transcriptLine(id.split("_")[0]!, id, {
+      at,
+      cwd,
+      costUSD,
+      cacheCreationTokens: 200,
+      cacheReadTokens: 3000,
+    });
+  }
+
+  function writeProject(project: string, id: string, lines: string[]) {
+    writeTranscript(
+      path.join(sandbox.root, "projects", project, `${id}.jsonl`),
+      lines,
+    );
+  }
+
+  beforeEach(() => {
+    output = "";
+    errors = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors += `${args.join(" ")}\n`;
+    });
+
+    const early = turn("a_1", new Date(2026, 9, 5, 9), "/work/api", 0.25);
+    writeProject("-work-api", "a", [
+      turn("a_0", new Date(2026, 8, 30, 9), "/work/api", 9),
+      early,
+      turn("a_2", new Date(2026, 9, 20, 23, 30), "/work/api"),
+    ]);
+    // A resumed session repeats the earlier response; it is exported once.
+    writeProject("-work-web-app", "b", [
+      early,
+      turn("b_0", new Date(2026, 9, 19, 10), "/work/web,app", 1.5),
+    ]);
+  });
+
+  it("writes one CSV row per response in the date range, oldest first", async () => {
+    expect(await runExport(["--from=2026-10-01", "--to=2026-10-20"])).toBe(0);
+
+    const calculated = (1000 * 3 + 500 * 15 + 200 * 3.75 + 3000 * 0.3) / 1e6;
+    expect(output.trimEnd().split("\n")).toEqual([
+      "timestamp,session,project,model,input_tokens,output_tokens,cache_creation_tokens,cache_read_tokens,cost_usd",
+      `${new Date(2026, 9, 5, 9).toISOString()},a,/work/api,claude-sonnet-4-5,1000,500,200,3000,0.25`,
+      `${new Date(2026, 9, 19, 10).toISOString()},b,"/work/web,app",claude-sonnet-4-5,1000,500,200,3000,1.5`,
+      `${new Date(2026, 9, 20, 23, 30).toISOString()},a,/work/api,claude-sonnet-4-5,1000,500,200,3000,${calculated}`,
+    ]);
+  });
+
+  it("writes JSON Lines and defaults to the current month", async () => {
+    expect(await runExport(["--format=jsonl"])).toBe(0);
+
+    const rows = output
+      .trimEnd()
+      .split("\n")
+      .map((line) => JSON.parse(line));
+    expect(rows.map((row) => row.session)).toEqual(["a", "b", "a"]);
+    expect(rows[1]).toEqual({
+      timestamp: new Date(2026, 9, 19, 10).toISOString(),
+      session: "b",
+      project: "/work/web,app",
+      model: "claude-sonnet-4-5",
+      input_tokens: 1000,
+      output_tokens: 500,
+      cache_creation_tokens: 200,
+      cache_read_tokens: 3000,
+      cost_usd: 1.5,
+    });
+  });
+
+  it("rejects unknown formats and malformed or reversed dates", async () => {
+    expect(await runExport(["--format=xlsx"])).toBe(1);
+    expect(errors).toContain("(available: csv, jsonl)");
+    expect(await runExport(["--from=2026-02-30"])).toBe(1);
+    expect(errors).toContain('invalid date "2026-02-30"');
+    expect(await runExport(["--from=2026-10-10", "--to=2026-10-01"])).toBe(1);
+    expect(errors).toContain("--to 2026-10-01 is before --from 2026-10-10");
+    expect(output).toBe("");
+  });
+});
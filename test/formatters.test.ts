@@ -1,4 +1,10 @@
-import { formatModelName } from "../src/utils/formatters";
+import {
+  formatBurnRate,
+  formatCost,
+  formatModelName,
+  setCurrencyFormat,
+} from "../src/utils/formatters";
+import { resolveBudgetDisplay } from "../src/utils/budget";
 
 describe("formatModelName", () => {
   describe("AWS Bedrock models", () => {
@@ -153,3 +159,52 @@ describe("formatModelName", () => {
     });
   });
 });
+
+describe("currency formatting", () => {
+  afterEach(() => {
+    setCurrencyFormat();
+  });
+
+  it("keeps plain dollars without a currency or locale", () => {
+    expect(formatCost(1234.5)).toBe("$1234.50");
+    expect(formatCost(0.004)).toBe("<$0.01");
+    expect(formatBurnRate(0.5)).toBe("50c/h");
+  });
+
+  it("converts and formats costs for the configured locale", () => {
+    setCurrencyFormat({ currency: "EUR", locale: "de-DE", exchangeRate: 0.9 });
+
+    expect(formatCost(1000)).toBe("900,00\u00a0€");
+    expect(formatCost(null)).toBe("0,00\u00a0€");
+    expect(formatCost(0.005)).toBe("<0,01\u00a0€");
+    expect(formatBurnRate(2)).toBe("1,80\u00a0€/h");
+
+    setCurrencyFormat({ currency: "GBP", locale: "en-GB", exchangeRate: 0.8 });
+    expect(formatCost(1500)).toBe("£1,200.00");
+  });
+
+  it("ignores an exchange rate without a currency or locale", () => {
+    setCurrencyFormat({ exchangeRate: 0.5 });
+
+    expect(formatCost(10)).toBe("$10.00");
+    expect(resolveBudgetDisplay(10, null, { amount: 10 }).percentText).toBe(
+      "!100%",
+    );
+  });
+
+  it("formats dollars for a locale alone without converting them", () => {
+    setCurrencyFormat({ locale: "de-DE", exchangeRate: 0.92 });
+    expect(formatCost(10)).toBe("10,00\u00a0$");
+
+    setCurrencyFormat({ currency: "usd", exchangeRate: 0.92 });
+    expect(formatCost(10)).toBe("$10.00");
+  });
+
+  it("compares cost budgets in the display currency", () => {
+    setCurrencyFormat({ currency: "EUR", locale: "de-DE", exchangeRate: 0.5 });
+
+    expect(resolveBudgetDisplay(10, null, { amount: 10 }).percentText).toBe(
+      "+50%",
+    );
+  });
+});
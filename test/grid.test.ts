@@ -7,6 +7,7 @@ import {
   renderGridDivider,
   renderGrid,
   selectBreakpoint,
+  getGridSegmentNames,
 } from "../src/tui/grid";
 import type { GridCell, AlignValue, TuiGridConfig, BoxChars } from "../src/tui/types";
 import { isValidSegmentRef } from "../src/tui/types";
@@ -389,6 +390,24 @@ describe("selectBreakpoint", () => {
   });
 });
 
+// --- getGridSegmentNames ---
+
+describe("getGridSegmentNames", () => {
+  it("should collect base segments from areas, title and footer", () => {
+    const names = getGridSegmentNames({
+      breakpoints: [
+        { minWidth: 80, areas: ["project.cost block", "---", "git ."], columns: ["1fr", "1fr"] },
+        { minWidth: 0, areas: ["context"], columns: ["1fr"] },
+      ],
+      title: { left: "{model} {week.cost}" },
+      footer: { right: "{month.budget}" },
+    });
+    expect([...names].sort()).toEqual(
+      ["block", "context", "git", "model", "month", "project", "week"],
+    );
+  });
+});
+
 // --- renderGridRow ---
 
 describe("renderGridRow", () => {
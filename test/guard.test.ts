@@ -0,0 +1,165 @@
+import fs from "fs";
+import path from "path";
+import { Readable } from "stream";
+import { runGuard } from "../src/commands/guard";
+import { loadConfig } from "../src/config/loader";
+import { PowerlineRenderer } from "../src/powerline";
+import { useTranscriptSandbox, writeSession } from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+describe("guard command", () => {
+  const sandbox = useTranscriptSandbox("guard-test", NOW);
+  let configPath: string;
+  let output: string;
+
+  function writeCosts(id: string, costs: number[]): void {
+    writeSession(
+      sandbox.root,
+      "-work-api",
+      id,
+      costs.map((costUSD, i) => ({
+        at: new Date(NOW.getTime() - (i + 1) * 60_000),
+        costUSD,
+        outputTokens: 100,
+      })),
+    );
+  }
+
+  function writeConfig(budget: object, display?: object): void {
+    fs.writeFileSync(configPath, JSON.stringify({ budget, display }));
+  }
+
+  function guard(event: string, args: string[] = []): Promise<number> {
+    const input = Readable.from([
+      JSON.stringify({
+        hook_event_name: event,
+        session_id: "current",
+        cwd: sandbox.root,
+        tool_name: "Bash",
+      }),
+    ]);
+    return runGuard([`--config=${configPath}`, ...args], input);
+  }
+
+  beforeEach(() => {
+    configPath = path.join(sandbox.root, "config.json");
+    output = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "error").mockImplementation(() => {});
+
+    writeCosts("current", [2, 2]);
+    writeCosts("earlier", [5]);
+  });
+
+  it("stays silent while every budget has room", async () => {
+    writeConfig({ session: { amount: 10 }, today: { amount: 20 } });
+
+    expect(await guard("PreToolUse")).toBe(0);
+    expect(output).toBe("");
+  });
+
+  it("denies tool calls once the session budget is used up", async () => {
+    writeConfig({ session: { amount: 4 }, today: { amount: 20 } });
+
+    expect(await guard("PreToolUse")).toBe(0);
+    expect(JSON.parse(output)).toEqual({
+      hookSpecificOutput: {
+        hookEventName: "PreToolUse",
+        permissionDecision: "deny",
+        permissionDecisionReason: expect.stringContaining(
+          "The session budget is used up",
+        ),
+      },
+    });
+  });
+
+  it("blocks prompts at today's warning threshold with --at=warning", async () => {
+    writeConfig({ today: { amount: 10, warningThreshold: 80 } });
+
+    expect(await guard("UserPromptSubmit")).toBe(0);
+    expect(output).toBe("");
+
+    expect(await guard("UserPromptSubmit", ["--at=warning"])).toBe(0);
+    expect(JSON.parse(output)).toEqual({
+      decision: "block",
+      reason: expect.stringContaining(
+        "The today budget is at 90%, past its warning threshold",
+      ),
+    });
+  });
+
+  it("denies tool calls at the five-hour limit the statusline last saw", async () => {
+    writeConfig({ block: {} });
+    await new PowerlineRenderer(
+      loadConfig([`--config=${configPath}`], sandbox.root),
+    ).generateStatusline({
+      hook_event_name: "Status",
+      session_id: "current",
+      transcript_path: "",
+      cwd: sandbox.root,
+      model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+      workspace: { current_dir: sandbox.root, project_dir: sandbox.root },
+      rate_limits: {
+        five_hour: {
+          used_percentage: 100,
+          resets_at: NOW.getTime() / 1000 + 3600,
+        },
+      },
+    });
+
+    expect(await guard("PreToolUse")).toBe(0);
+    expect(JSON.parse(output).hookSpecificOutput).toMatchObject({
+      permissionDecision: "deny",
+      permissionDecisionReason: expect.stringContaining(
+        "The five-hour rate limit is used up",
+      ),
+    });
+  });
+
+  it("measures the session budget by the cost source the statusline shows", async () => {
+    writeConfig(
+      { session: { amount: 5 } },
+      {
+        lines: [
+          { segments: { session: { enabled: true, costSource: "official" } } },
+        ],
+      },
+    );
+    await new PowerlineRenderer(
+      loadConfig([`--config=${configPath}`], sandbox.root),
+    ).generateStatusline({
+      hook_event_name: "Status",
+      session_id: "current",
+      transcript_path: "",
+      cwd: sandbox.root,
+      model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+      workspace: { current_dir: sandbox.root, project_dir: sandbox.root },
+      cost: {
+        total_cost_usd: 6,
+        total_duration_ms: 0,
+        total_api_duration_ms: 0,
+        total_lines_added: 0,
+        total_lines_removed: 0,
+      },
+    });
+
+    expect(await guard("PreToolUse")).toBe(0);
+    expect(JSON.parse(output).hookSpecificOutput).toMatchObject({
+      permissionDecision: "deny",
+      permissionDecisionReason: expect.stringContaining(
+        "The session budget is used up",
+      ),
+    });
+  });
+
+  it("never blocks events it does not guard", async () => {
+    writeConfig({ session: { amount: 1 } });
+
+    expect(await guard("Stop")).toBe(0);
+    expect(output).toBe("");
+    expect(await guard("PreToolUse", ["--at=soon"])).toBe(1);
+  });
+});
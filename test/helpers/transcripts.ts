@@ -0,0 +1,109 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PricingService } from "../../src/segments/pricing";
+
+/** One assistant response; unset usage fields are 1000 input, 500 output. */
+export interface TranscriptTurn {
+  at: Date;
+  costUSD?: number;
+  model?: string;
+  cwd?: string;
+  stopReason?: string | null;
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+/** A transcript line for `turn`; `id` names its request and message. */
+export function transcriptLine(
+  sessionId: string,
+  id: string,
+  turn: TranscriptTurn,
+): string {
+  return JSON.stringify({
+    timestamp: turn.at.toISOString(),
+    type: "assistant",
+    sessionId,
+    cwd: turn.cwd,
+    requestId: `req_${id}`,
+    costUSD: turn.costUSD,
+    message: {
+      id: `msg_${id}`,
+      model: turn.model ?? "claude-sonnet-4-5",
+      stop_reason: turn.stopReason,
+      usage: {
+        input_tokens: turn.inputTokens ?? 1000,
+        output_tokens: turn.outputTokens ?? 500,
+        cache_creation_input_tokens: turn.cacheCreationTokens ?? 0,
+        cache_read_input_tokens: turn.cacheReadTokens ?? 0,
+      },
+    },
+  });
+}
+
+/**
+ * Writes `lines` to `file`, creating its directory, and dates it `mtime`:
+ * by default the current time, which is the frozen one under fake timers.
+ */
+export function writeTranscript(
+  file: string,
+  lines: string[],
+  mtime = new Date(),
+): string {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, `${lines.join("\n")}\n`);
+  fs.utimesSync(file, mtime, mtime);
+  return file;
+}
+
+/**
+ * Writes session `sessionId` of `project` under `root/projects`, one line per
+ * turn, with request IDs `req_<sessionId>_<index>`.
+ */
+export function writeSession(
+  root: string,
+  project: string,
+  sessionId: string,
+  turns: TranscriptTurn[],
+): string {
+  return writeTranscript(
+    path.join(root, "projects", project, `${sessionId}.jsonl`),
+    turns.map((turn, i) =>
+      transcriptLine(sessionId, `${sessionId}_${i}`, turn),
+    ),
+  );
+}
+
+/**
+ * Points the Claude config and cache directories at a fresh temporary
+ * directory for each test, with offline pricing, and freezes the clock at
+ * `now` when given. The returned `root` is set before each test.
+ */
+export function useTranscriptSandbox(
+  prefix: string,
+  now?: Date,
+): { root: string } {
+  const sandbox = { root: "" };
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    if (now) {
+      jest.useFakeTimers({ now, doNotFake: ["nextTick", "setImmediate"] });
+    }
+    sandbox.root = fs.mkdtempSync(path.join(os.tmpdir(), `${prefix}-`));
+    process.env.CLAUDE_CONFIG_DIR = sandbox.root;
+    process.env.CLAUDE_POWERLINE_CACHE_DIR = path.join(sandbox.root, "cache");
+    PricingService.useOfflinePricing();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+    fs.rmSync(sandbox.root, { recursive: true, force: true });
+  });
+
+  return sandbox;
+}
@@ -0,0 +1,167 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { PowerlineRenderer } from "../src/powerline";
+import { DEFAULT_CONFIG } from "../src/config/defaults";
+import { PricingService } from "../src/segments/pricing";
+import { formatOpenMetrics } from "../src/utils/openmetrics";
+import type { ClaudeHookData } from "../src/utils/claude";
+
+const NOW = new Date(2026, 9, 19, 12, 0);
+
+describe("OpenMetrics textfile", () => {
+  it("formats known values as gauges and leaves out unknown ones", () => {
+    const text = formatOpenMetrics(
+      {
+        sessionId: 'ab"c',
+        session: {
+          cost: 1.25,
+          calculatedCost: 1.25,
+          officialCost: null,
+          tokens: 4600,
+          tokenBreakdown: {
+            input: 1000,
+            output: 500,
+            cacheCreation: 100,
+            cacheRead: 3000,
+          },
+          modelBreakdown: null,
+        },
+        today: {
+          cost: null,
+          tokens: null,
+          tokenBreakdown: null,
+          modelBreakdown: null,
+          projectedCost: null,
+          date: "2026-10-19",
+        },
+        contextPercentage: 42,
+        rateLimits: { five_hour: { used_percentage: 61, resets_at: 0 } },
+        cacheRemainingSeconds: null,
+      },
+      NOW.getTime(),
+    );
+
+    expect(text).toBe(
+      [
+        "# TYPE claude_powerline_session_cost_usd gauge",
+        "# UNIT claude_powerline_session_cost_usd usd",
+        "# HELP claude_powerline_session_cost_usd Cost of the Claude Code session that refreshed last.",
+        'claude_powerline_session_cost_usd{session="ab\\"c"} 1.25',
+        "# TYPE claude_powerline_session_tokens gauge",
+        "# HELP claude_powerline_session_tokens Tokens used by the session that refreshed last, by type.",
+        'claude_powerline_session_tokens{session="ab\\"c",type="input"} 1000',
+        'claude_powerline_session_tokens{session="ab\\"c",type="output"} 500',
+        'claude_powerline_session_tokens{session="ab\\"c",type="cache_creation"} 100',
+        'claude_powerline_session_tokens{session="ab\\"c",type="cache_read"} 3000',
+        "# TYPE claude_powerline_context_used_percent gauge",
+        "# UNIT claude_powerline_context_used_percent percent",
+        "# HELP claude_powerline_context_used_percent Share of the usable context window the session fills.",
+        'claude_powerline_context_used_percent{session="ab\\"c"} 42',
+        "# TYPE claude_powerline_rate_limit_utilization_percent gauge",
+        "# UNIT claude_powerline_rate_limit_utilization_percent percent",
+        "# HELP claude_powerline_rate_limit_utilization_percent Utilization of the five-hour and seven-day rate limits.",
+        'claude_powerline_rate_limit_utilization_percent{window="five_hour"} 61',
+        "# TYPE claude_powerline_last_update_timestamp_seconds gauge",
+        "# UNIT claude_powerline_last_update_timestamp_seconds seconds",
+        "# HELP claude_powerline_last_update_timestamp_seconds When the statusline last wrote this file.",
+        `claude_powerline_last_update_timestamp_seconds ${Math.floor(NOW.getTime() / 1000)}`,
+        "# EOF",
+        "",
+      ].join("\n"),
+    );
+  });
+
+  describe("statusline export", () => {
+    let root: string;
+    const originalEnv = { ...process.env };
+
+    beforeEach(() => {
+      jest.useFakeTimers({
+        now: NOW,
+        doNotFake: ["nextTick", "setImmediate"],
+      });
+      root = fs.mkdtempSync(path.join(os.tmpdir(), "openmetrics-test-"));
+      process.env.CLAUDE_CONFIG_DIR = root;
+      process.env.CLAUDE_POWERLINE_CACHE_DIR = path.join(root, "cache");
+      PricingService.useOfflinePricing();
+
+      const dir = path.join(root, "projects", "-work-api");
+      fs.mkdirSync(dir, { recursive: true });
+      const file = path.join(dir, "metrics.jsonl");
+      fs.writeFileSync(
+        file,
+        `${JSON.stringify({
+          timestamp: new Date(NOW.getTime() - 60_000).toISOString(),
+          type: "assistant",
+          sessionId: "metrics",
+          requestId: "req_1",
+          costUSD: 0.75,
+          message: {
+            id: "msg_1",
+            model: "claude-sonnet-4-5",
+            usage: {
+              input_tokens: 2000,
+              output_tokens: 300,
+              cache_creation_input_tokens: 0,
+              cache_read_input_tokens: 0,
+            },
+          },
+        })}\n`,
+      );
+      fs.utimesSync(file, NOW, NOW);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+      process.env = { ...originalEnv };
+      fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it("writes gauges for segments that are not displayed", async () => {
+      const textfile = path.join(root, "claude.prom");
+      const hookData: ClaudeHookData = {
+        hook_event_name: "Status",
+        session_id: "metrics",
+        transcript_path: path.join(
+          root,
+          "projects",
+          "-work-api",
+          "metrics.jsonl",
+        ),
+        cwd: "/work/api",
+        model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+        workspace: { current_dir: "/work/api", project_dir: "/work/api" },
+        rate_limits: {
+          seven_day: { used_percentage: 23, resets_at: 0 },
+        },
+      };
+      const renderer = new PowerlineRenderer({
+        ...DEFAULT_CONFIG,
+        display: {
+          ...DEFAULT_CONFIG.display,
+          lines: [{ segments: { model: { enabled: true } } }],
+        },
+        openMetrics: { textfile },
+      });
+
+      await renderer.generateStatusline(hookData);
+      const text = fs.readFileSync(textfile, "utf-8");
+
+      expect(text).toContain(
+        'claude_powerline_session_cost_usd{session="metrics"} 0.75',
+      );
+      expect(text).toContain("claude_powerline_today_cost_usd 0.75");
+      expect(text).toContain(
+        'claude_powerline_today_tokens{type="input"} 2000',
+      );
+      expect(text).toContain(
+        'claude_powerline_rate_limit_utilization_percent{window="seven_day"} 23',
+      );
+      expect(text.endsWith("# EOF\n")).toBe(true);
+      expect(fs.readdirSync(root).filter((f) => f.endsWith(".tmp"))).toEqual(
+        [],
+      );
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { PeriodProvider } from "../src/segments/period";
+import { PricingService } from "../src/segments/pricing";
+import { SegmentRenderer } from "../src/segments/renderer";
+import { DEFAULT_CONFIG } from "../src/config/defaults";
+import type { PowerlineConfig } from "../src/config/loader";
+import { getWindowStart } from "../src/utils/usage-history";
+import { useTranscriptSandbox, writeSession } from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 21, 12, 0, 0);
+
+describe("getWindowStart", () => {
+  it("starts calendar weeks on the configured day", () => {
+    expect(getWindowStart("week", {}, NOW)).toEqual(new Date(2026, 9, 19));
+    expect(getWindowStart("week", { weekStart: "sunday" }, NOW)).toEqual(
+      new Date(2026, 9, 18),
+    );
+    expect(getWindowStart("week", { weekStart: "wednesday" }, NOW)).toEqual(
+      new Date(2026, 9, 21),
+    );
+    expect(getWindowStart("week", { weekStart: "thursday" }, NOW)).toEqual(
+      new Date(2026, 9, 15),
+    );
+  });
+
+  it("starts rolling windows whole days back", () => {
+    expect(getWindowStart("week", { window: "rolling" }, NOW)).toEqual(
+      new Date(2026, 9, 15),
+    );
+    expect(getWindowStart("month", { window: "rolling" }, NOW)).toEqual(
+      new Date(2026, 8, 22),
+    );
+    expect(getWindowStart("month", {}, NOW)).toEqual(new Date(2026, 9, 1));
+  });
+});
+
+describe("week and month segments", () => {
+  const sandbox = useTranscriptSandbox("period-test", NOW);
+
+  beforeEach(() => {
+    writeSession(sandbox.root, "-work-api", "a", [
+      { at: new Date(2026, 8, 25, 9), costUSD: 40 },
+      { at: new Date(2026, 9, 3, 9), costUSD: 8 },
+      { at: new Date(2026, 9, 16, 9), costUSD: 4 },
+    ]);
+    writeSession(sandbox.root, "-work-web", "b", [
+      { at: new Date(2026, 9, 20, 9), costUSD: 1.5 },
+      { at: new Date(2026, 9, 21, 9), costUSD: 0.5 },
+    ]);
+  });
+
+  afterEach(() => {
+    PricingService.configure(undefined);
+  });
+
+  it("sums every project over the calendar week and month", async () => {
+    const provider = new PeriodProvider();
+
+    const week = await provider.getPeriodInfo("week");
+    expect(week.cost).toBe(2);
+    expect(week.since).toBe("2026-10-19");
+
+    const month = await provider.getPeriodInfo("month");
+    expect(month.cost).toBe(14);
+    expect(month.tokens).toBe(6000);
+  });
+
+  it("prices cached totals again after the pricing config changes", async () => {
+    writeSession(sandbox.root, "-work-cli", "c", [
+      { at: new Date(2026, 9, 21, 10) },
+    ]);
+    const provider = new PeriodProvider();
+
+    expect((await provider.getPeriodInfo("week")).cost).toBeCloseTo(2.0105);
+    PricingService.configure({ multiplier: 2 });
+    expect((await provider.getPeriodInfo("week")).cost).toBeCloseTo(2.021);
+  });
+
+  it("follows rolling windows and the week start", async () => {
+    const provider = new PeriodProvider();
+
+    expect(
+      (await provider.getPeriodInfo("week", { window: "rolling" })).cost,
+    ).toBe(6);
+    expect(
+      (await provider.getPeriodInfo("month", { window: "rolling" })).cost,
+    ).toBe(54);
+    expect(
+      (await provider.getPeriodInfo("week", { weekStart: "thursday" })).cost,
+    ).toBe(6);
+  });
+
+  it("renders spend against budget.month", () => {
+    const renderer = new SegmentRenderer(
+      {
+        ...DEFAULT_CONFIG,
+        budget: { month: { amount: 20, warningThreshold: 70 } },
+      } as PowerlineConfig,
+      { week_cost: "WK", month_cost: "MO" } as any,
+    );
+    const colors = {
+      weekBg: "week",
+      weekFg: "week-fg",
+      monthCriticalBg: "month-critical",
+      monthCriticalFg: "month-critical-fg",
+      monthCriticalBold: true,
+    } as any;
+    const info = (period: "week" | "month") => ({
+      cost: 14,
+      tokens: 6000,
+      tokenBreakdown: null,
+      period,
+      since: "2026-10-01",
+    });
+
+    const month = renderer.renderPeriod(info("month"), colors, {
+      enabled: true,
+      type: "cost",
+    })!;
+    expect(month.text).toBe("MO $14.00 !70%");
+    expect(month.bgColor).toBe("month-critical");
+    expect(month.bold).toBe(true);
+
+    const week = renderer.renderPeriod(info("week"), colors)!;
+    expect(week.text).toBe("WK $14.00");
+    expect(week.bgColor).toBe("week");
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  isSegmentPlugin,
+  runSegmentPlugin,
+  type SegmentPlugin,
+  type SegmentPluginContext,
+} from "../src/segments/plugin";
+import type { ClaudeHookData } from "../src/utils/claude";
+
+const hookData: ClaudeHookData = {
+  hook_event_name: "Status",
+  session_id: "test-session",
+  transcript_path: "/tmp/test.jsonl",
+  cwd: "/tmp",
+  model: { id: "claude-3-5-sonnet", display_name: "Claude" },
+  workspace: { current_dir: "/tmp", project_dir: "/tmp" },
+};
+
+function makeCtx(config: Record<string, unknown> = {}): SegmentPluginContext {
+  return {
+    name: "weather",
+    hookData,
+    config: { enabled: true, ...config },
+    charset: "unicode",
+  };
+}
+
+describe("segment plugins", () => {
+  describe("isSegmentPlugin", () => {
+    it("should require a render function", () => {
+      expect(isSegmentPlugin({ render: () => "x" })).toBe(true);
+      expect(isSegmentPlugin({})).toBe(false);
+      expect(isSegmentPlugin(null)).toBe(false);
+      expect(isSegmentPlugin("render")).toBe(false);
+    });
+
+    it("should reject malformed provide and parts", () => {
+      expect(isSegmentPlugin({ render: () => "", provide: 1 })).toBe(false);
+      expect(isSegmentPlugin({ render: () => "", parts: [1] })).toBe(false);
+      expect(isSegmentPlugin({ render: () => "", parts: ["temp"] })).toBe(true);
+    });
+  });
+
+  describe("runSegmentPlugin", () => {
+    it("should pass provided data and options to render", async () => {
+      const plugin: SegmentPlugin<number> = {
+        provide: async (ctx) => (ctx.config.offset as number) + 20,
+        render: (temp) => ({ text: `${temp}°`, parts: { temp: `${temp}` } }),
+      };
+
+      const output = await runSegmentPlugin(
+        plugin as SegmentPlugin,
+        makeCtx({ offset: 1 }),
+      );
+      expect(output).toEqual({ text: "21°", parts: { temp: "21" } });
+    });
+
+    it("should wrap string output", async () => {
+      const output = await runSegmentPlugin(
+        { render: () => "hello" },
+        makeCtx(),
+      );
+      expect(output).toEqual({ text: "hello" });
+    });
+
+    it("should hide the segment on empty output", async () => {
+      expect(await runSegmentPlugin({ render: () => "" }, makeCtx())).toBeNull();
+      expect(
+        await runSegmentPlugin({ render: () => null }, makeCtx()),
+      ).toBeNull();
+    });
+
+    it("should swallow errors thrown by the plugin", async () => {
+      const plugin: SegmentPlugin = {
+        provide: () => {
+          throw new Error("boom");
+        },
+        render: () => "unreachable",
+      };
+      expect(await runSegmentPlugin(plugin, makeCtx())).toBeNull();
+    });
+
+    it("should hide the segment when provide outlasts its timeout", async () => {
+      const render = jest.fn(() => "late");
+      const plugin: SegmentPlugin = {
+        provide: () => new Promise(() => {}),
+        render,
+      };
+      expect(
+        await runSegmentPlugin(plugin, makeCtx({ timeout: 20 })),
+      ).toBeNull();
+      expect(render).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { runPricing } from "../src/commands/pricing";
+import { PricingService } from "../src/segments/pricing";
+
+const entry = (model: string) => ({
+  message: {
+    model,
+    usage: {
+      input_tokens: 1_000_000,
+      output_tokens: 100_000,
+      cache_creation_input_tokens: 0,
+      cache_read_input_tokens: 0,
+    },
+  },
+});
+
+describe("pricing config", () => {
+  beforeEach(() => {
+    PricingService.useOfflinePricing();
+  });
+
+  afterEach(() => {
+    PricingService.configure(undefined);
+  });
+
+  it("overrides rates for every model ID a key prefixes", async () => {
+    PricingService.configure({
+      models: {
+        "claude-sonnet-4-5": { input: 2, output: 10 },
+        "claude-sonnet-4-5-20250929": { output: 12 },
+      },
+    });
+
+    const dated = await PricingService.getModelPricing(
+      "claude-sonnet-4-5-20250929",
+    );
+    expect(dated.input).toBe(3);
+    expect(dated.output).toBe(12);
+
+    const undated = await PricingService.getModelPricing("claude-sonnet-4-5");
+    expect(undated.input).toBe(2);
+    expect(undated.cache_read).toBe(0.3);
+  });
+
+  it("applies the multiplier on top of overrides", async () => {
+    PricingService.configure({
+      models: { "claude-opus-4-1": { input: 10 } },
+      multiplier: 0.5,
+    });
+
+    expect(
+      await PricingService.calculateCostForEntry(entry("claude-opus-4-1")),
+    ).toBeCloseTo(5 + 3.75);
+    expect(
+      await PricingService.calculateCostForEntry(entry("claude-haiku-4-5")),
+    ).toBeCloseTo(0.5 + 0.25);
+  });
+
+  it("prices custom model IDs as the model they alias", async () => {
+    PricingService.configure({
+      aliases: {
+        "corp-fast": "claude-haiku-4-5",
+        "application-inference-profile/abc123": "claude-opus-4-5",
+      },
+      models: { "claude-opus-4-5": { output: 20 } },
+    });
+
+    expect((await PricingService.getModelPricing("corp-fast")).input).toBe(1);
+
+    const arn = await PricingService.getModelPricing(
+      "arn:aws:bedrock:us-east-1:123456789012:application-inference-profile/abc123",
+    );
+    expect(arn.name).toBe("Claude Opus 4.5");
+    expect(arn.input).toBe(5);
+    expect(arn.output).toBe(20);
+  });
+
+  it("groups custom model IDs under the family they alias", () => {
+    PricingService.configure({
+      aliases: { "corp-fast": "claude-haiku-4-5" },
+    });
+
+    expect(
+      PricingService.groupByModelFamily([
+        { model: "corp-fast-v2", costUSD: 1, tokens: 100 },
+        { model: "claude-haiku-4-5", costUSD: 0.5, tokens: 50 },
+      ]),
+    ).toEqual([{ family: "haiku", cost: 1.5, tokens: 150 }]);
+  });
+
+  it("forgets earlier lookups when reconfigured", async () => {
+    PricingService.configure({ multiplier: 2 });
+    expect(
+      (await PricingService.getModelPricing("claude-sonnet-4-6")).input,
+    ).toBe(6);
+
+    PricingService.configure(undefined);
+    expect(
+      (await PricingService.getModelPricing("claude-sonnet-4-6")).input,
+    ).toBe(3);
+  });
+});
+
+describe("pricing command", () => {
+  let root: string;
+  let output: string;
+  let errors: string;
+  const originalEnv = { ...process.env };
+
+  function writePricingFile(data: unknown): string {
+    const file = path.join(root, "pricing.json");
+    fs.writeFileSync(file, JSON.stringify(data));
+    return file;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "pricing-test-"));
+    process.env.CLAUDE_POWERLINE_CACHE_DIR = path.join(root, "cache");
+    PricingService.useOfflinePricing();
+    output = "";
+    errors = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors += `${args.join(" ")}\n`;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+    PricingService.configure(undefined);
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("imports a pricing.json into the disk cache and shows its rates", async () => {
+    const file = writePricingFile({
+      _meta: { updated: "2026-10-01" },
+      "claude-sonnet-5": {
+        name: "Claude Sonnet 5",
+        input: 2.5,
+        output: 12.5,
+        cache_write_5m: 3.125,
+        cache_write_1h: 5,
+        cache_read: 0.25,
+      },
+    });
+
+    expect(await runPricing(["import", file])).toBe(0);
+    expect(output).toContain("Imported pricing for 1 models");
+    expect(
+      (await PricingService.getModelPricing("claude-sonnet-5")).input,
+    ).toBe(2.5);
+
+    (PricingService as any).executionCache = null;
+    expect(Object.keys(await PricingService.getCurrentPricing())).toEqual([
+      "claude-sonnet-5",
+    ]);
+    expect(PricingService.getPricingSource()).toBe("cache");
+
+    output = "";
+    expect(await runPricing(["show"])).toBe(0);
+    expect(output).toContain("Pricing from disk cache");
+    expect(output).toMatch(
+      /claude-sonnet-5\s+2\.5\s+12\.5\s+3\.125\s+5\s+0\.25/,
+    );
+  });
+
+  it("rejects files that are not a pricing table", async () => {
+    const file = writePricingFile({
+      _meta: {},
+      "claude-sonnet-5": { input: "cheap" },
+    });
+
+    expect(await runPricing(["import", file])).toBe(1);
+    expect(errors).toContain("is not a pricing table");
+    const withoutCacheWrites = writePricingFile({
+      "claude-sonnet-5": { input: 2.5, output: 12.5, cache_read: 0.25 },
+    });
+    errors = "";
+    expect(await runPricing(["import", withoutCacheWrites])).toBe(1);
+    expect(errors).toContain("is not a pricing table");
+    expect(await runPricing(["import", path.join(root, "missing.json")])).toBe(
+      1,
+    );
+    expect(errors).toContain("cannot read");
+    expect(await runPricing(["update"])).toBe(1);
+    expect(errors).toContain("(available: import, show)");
+    expect(PricingService.getPricingSource()).toBe("offline");
+  });
+});
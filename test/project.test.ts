@@ -0,0 +1,128 @@
+import { ProjectProvider } from "../src/segments/project";
+import { PricingService } from "../src/segments/pricing";
+import { SegmentRenderer } from "../src/segments/renderer";
+import { DEFAULT_CONFIG } from "../src/config/defaults";
+import { PowerlineRenderer } from "../src/powerline";
+import type { PowerlineConfig } from "../src/config/loader";
+import { encodeProjectPath } from "../src/utils/claude";
+import { useTranscriptSandbox, writeSession } from "./helpers/transcripts";
+import type { TranscriptTurn } from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 21, 12, 0, 0);
+
+describe("project segment", () => {
+  const sandbox = useTranscriptSandbox("project-test", NOW);
+
+  function writeProjectSession(
+    projectDir: string,
+    id: string,
+    turns: TranscriptTurn[],
+  ): void {
+    writeSession(
+      sandbox.root,
+      encodeProjectPath(projectDir),
+      id,
+      turns.map((turn) => ({ ...turn, cwd: projectDir })),
+    );
+  }
+
+  beforeEach(() => {
+    writeProjectSession("/work/api", "a", [
+      { at: new Date(2026, 8, 30, 9), costUSD: 10 },
+      { at: new Date(2026, 9, 20, 9), costUSD: 2 },
+    ]);
+    writeProjectSession("/work/api", "b", [
+      { at: new Date(2026, 9, 21, 9), costUSD: 0.5 },
+    ]);
+    writeProjectSession("/work/web", "c", [
+      { at: new Date(2026, 9, 21, 10), costUSD: 7 },
+    ]);
+  });
+
+  it("sums every session of the current project only", async () => {
+    const info = await new ProjectProvider().getProjectInfo("/work/api");
+
+    expect(info.cost).toBe(12.5);
+    expect(info.tokens).toBe(4500);
+    expect(info.tokenBreakdown!.output).toBe(1500);
+  });
+
+  it("limits the totals to today or this week", async () => {
+    const provider = new ProjectProvider();
+
+    expect((await provider.getProjectInfo("/work/api", "today")).cost).toBe(
+      0.5,
+    );
+    expect((await provider.getProjectInfo("/work/api", "week")).cost).toBe(2.5);
+  });
+
+  it("returns empty totals for a project without transcripts", async () => {
+    const info = await new ProjectProvider().getProjectInfo("/work/other");
+
+    expect(info.cost).toBeNull();
+    expect(info.tokens).toBeNull();
+  });
+
+  it("scans transcripts for the TUI panel only when it shows the project", async () => {
+    const getProjectInfo = jest.spyOn(
+      ProjectProvider.prototype,
+      "getProjectInfo",
+    );
+    const hookData = {
+      hook_event_name: "Status",
+      session_id: "b",
+      transcript_path: "",
+      cwd: "/work/api",
+      model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+      workspace: { current_dir: "/work/api", project_dir: "/work/api" },
+    };
+    const tuiDisplay = { ...DEFAULT_CONFIG.display, style: "tui" as const };
+
+    await new PowerlineRenderer({
+      ...DEFAULT_CONFIG,
+      display: tuiDisplay,
+    }).generateStatusline(hookData);
+    expect(getProjectInfo).not.toHaveBeenCalled();
+
+    await new PowerlineRenderer({
+      ...DEFAULT_CONFIG,
+      display: {
+        ...tuiDisplay,
+        tui: {
+          breakpoints: [{ minWidth: 0, areas: ["project"], columns: ["1fr"] }],
+        },
+      },
+    }).generateStatusline(hookData);
+    expect(getProjectInfo).toHaveBeenCalledWith("/work/api", undefined);
+  });
+
+  it("renders against budget.project", () => {
+    const renderer = new SegmentRenderer(
+      {
+        ...DEFAULT_CONFIG,
+        budget: { project: { amount: 20, warningThreshold: 80 } },
+      } as PowerlineConfig,
+      { project_cost: "P" } as any,
+    );
+    const colors = {
+      projectBg: "project",
+      projectFg: "project-fg",
+      projectWarningBg: "project-warning",
+      projectWarningFg: "project-warning-fg",
+      projectWarningBold: false,
+    } as any;
+    const info = {
+      cost: 12.5,
+      tokens: 4500,
+      tokenBreakdown: null,
+      period: "all" as const,
+    };
+
+    const segment = renderer.renderProject(info, colors, {
+      enabled: true,
+      type: "cost",
+    })!;
+    expect(segment.text).toBe("P $12.50 +63%");
+    expect(segment.bgColor).toBe("project-warning");
+  });
+});
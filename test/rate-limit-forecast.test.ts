@@ -0,0 +1,145 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  forecastExhaustion,
+  getRateLimitForecast,
+  recordUtilizationSample,
+} from "../src/utils/rate-limit-forecast";
+import { formatRateLimitForecast } from "../src/utils/formatters";
+import { SegmentRenderer } from "../src/segments/renderer";
+
+const NOW = new Date(2026, 9, 19, 12, 0).getTime();
+const MINUTE = 60 * 1000;
+const RESETS_AT = NOW + 3 * 60 * MINUTE;
+
+describe("forecastExhaustion", () => {
+  it("waits for a few minutes of samples", () => {
+    expect(forecastExhaustion("five_hour", [], RESETS_AT, NOW)).toBeNull();
+    expect(
+      forecastExhaustion(
+        "five_hour",
+        [
+          { at: NOW - 2 * MINUTE, pct: 10 },
+          { at: NOW, pct: 12 },
+        ],
+        RESETS_AT,
+        NOW,
+      ),
+    ).toBeNull();
+  });
+
+  it("extends the trend of the last hour to 100%", () => {
+    const samples = [
+      { at: NOW - 90 * MINUTE, pct: 0 },
+      { at: NOW - 60 * MINUTE, pct: 40 },
+      { at: NOW - 30 * MINUTE, pct: 50 },
+      { at: NOW, pct: 60 },
+    ];
+
+    expect(forecastExhaustion("five_hour", samples, RESETS_AT, NOW)).toEqual({
+      exhaustsAt: NOW + 120 * MINUTE,
+      resetsAt: RESETS_AT,
+    });
+  });
+
+  it("is safe when the trend stays under the limit until the reset", () => {
+    const slow = [
+      { at: NOW - 60 * MINUTE, pct: 50 },
+      { at: NOW, pct: 55 },
+    ];
+    const flat = [
+      { at: NOW - 30 * MINUTE, pct: 70 },
+      { at: NOW, pct: 70 },
+    ];
+
+    expect(
+      forecastExhaustion("five_hour", slow, RESETS_AT, NOW)!.exhaustsAt,
+    ).toBeNull();
+    expect(
+      forecastExhaustion("five_hour", flat, RESETS_AT, NOW)!.exhaustsAt,
+    ).toBeNull();
+  });
+});
+
+describe("recordUtilizationSample", () => {
+  let cacheDir: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), "forecast-test-"));
+    process.env.CLAUDE_POWERLINE_CACHE_DIR = cacheDir;
+  });
+
+  afterEach(() => {
+    process.env = { ...originalEnv };
+    fs.rmSync(cacheDir, { recursive: true, force: true });
+  });
+
+  const limit = (pct: number, resetsAt = RESETS_AT) => ({
+    used_percentage: pct,
+    resets_at: resetsAt / 1000,
+  });
+
+  it("persists samples per window and starts over after a reset", async () => {
+    await recordUtilizationSample("five_hour", limit(10), NOW - 20 * MINUTE);
+    await recordUtilizationSample("five_hour", limit(10), NOW - 19.5 * MINUTE);
+    await recordUtilizationSample("seven_day", limit(3), NOW - 10 * MINUTE);
+    const samples = await recordUtilizationSample("five_hour", limit(20), NOW);
+
+    expect(samples).toEqual([
+      { at: NOW - 20 * MINUTE, pct: 10 },
+      { at: NOW, pct: 20 },
+    ]);
+
+    const next = await recordUtilizationSample(
+      "five_hour",
+      limit(1, RESETS_AT + 5 * 60 * MINUTE),
+      NOW + 3 * 60 * MINUTE,
+    );
+    expect(next).toEqual([{ at: NOW + 3 * 60 * MINUTE, pct: 1 }]);
+  });
+
+  it("forecasts from the recorded history", async () => {
+    jest.useFakeTimers({ now: NOW, doNotFake: ["nextTick", "setImmediate"] });
+    try {
+      await recordUtilizationSample("five_hour", limit(40), NOW - 30 * MINUTE);
+      const forecast = await getRateLimitForecast("five_hour", limit(70));
+
+      expect(forecast!.exhaustsAt).toBe(NOW + 30 * MINUTE);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
+
+describe("forecast display", () => {
+  it("formats the time the limit is hit", () => {
+    expect(formatRateLimitForecast(null, NOW)).toBe("safe until reset");
+    expect(formatRateLimitForecast(NOW + 140 * MINUTE, NOW)).toBe(
+      "limit at ~14:20",
+    );
+    expect(
+      formatRateLimitForecast(new Date(2026, 9, 22, 9, 5).getTime(), NOW),
+    ).toBe("limit at ~Thu 09:05");
+    expect(formatRateLimitForecast(NOW - MINUTE, NOW)).toBe("limit reached");
+  });
+
+  it("appends the forecast to the block segment", () => {
+    const renderer = new SegmentRenderer(
+      { theme: "dark", display: { style: "minimal", lines: [] } } as any,
+      { block_cost: "◱" } as any,
+    );
+    const segment = renderer.renderBlock(
+      {
+        nativeUtilization: 60,
+        timeRemaining: 90,
+        forecast: { exhaustsAt: null, resetsAt: RESETS_AT },
+      },
+      {} as any,
+      { enabled: true, type: "cost" },
+    );
+
+    expect(segment.text).toBe("◱ 60% (1h 30m) · safe until reset");
+  });
+});
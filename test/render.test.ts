@@ -0,0 +1,81 @@
+import { existsSync, readdirSync } from "fs";
+import { tmpdir } from "os";
+import { runRender } from "../src/commands/render";
+import { SAMPLE_NAMES } from "../src/commands/samples";
+
+describe("render command", () => {
+  let output: string;
+  let errors: string;
+  const originalEnv = { ...process.env };
+
+  function sampleDirs(): string[] {
+    return readdirSync(tmpdir()).filter((name) =>
+      name.startsWith("claude-powerline-sample-"),
+    );
+  }
+
+  beforeEach(() => {
+    output = "";
+    errors = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "warn").mockImplementation();
+    process.env.NO_COLOR = "1";
+    process.env.CLAUDE_CONFIG_DIR = "/nonexistent/claude";
+    delete process.env.CLAUDE_POWERLINE_CACHE_DIR;
+    delete process.env.CLAUDE_POWERLINE_CONFIG;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+  });
+
+  it.each(SAMPLE_NAMES)("renders the %s sample", async (sample) => {
+    const before = sampleDirs();
+
+    const code = await runRender([`--sample=${sample}`]);
+
+    expect(code).toBe(0);
+    expect(output).toContain("Sonnet 4.5");
+    expect(sampleDirs()).toEqual(before);
+    expect(process.env.CLAUDE_CONFIG_DIR).toBe("/nonexistent/claude");
+    expect(process.env.CLAUDE_POWERLINE_CACHE_DIR).toBeUndefined();
+  });
+
+  it("shows the rate limits of the rate-limited sample", async () => {
+    await runRender(["--sample=rate-limited"]);
+
+    expect(output).toContain("97%");
+    expect(output).toContain("91%");
+  });
+
+  it("applies CLI overrides on top of the sample config", async () => {
+    await runRender(["--sample=long-session", "--style=minimal"]);
+    const minimal = output;
+    output = "";
+    await runRender(["--sample=long-session"]);
+
+    expect(minimal).not.toEqual(output);
+  });
+
+  it("rejects an unknown sample", async () => {
+    const code = await runRender(["--sample=nope"]);
+
+    expect(code).toBe(1);
+    expect(errors).toContain('unknown sample "nope"');
+    expect(errors).toContain("long-session, rate-limited, worktree");
+    expect(existsSync("/nonexistent/claude")).toBe(false);
+  });
+
+  it("requires --sample", async () => {
+    const code = await runRender([]);
+
+    expect(code).toBe(1);
+    expect(errors).toContain("missing --sample");
+  });
+});
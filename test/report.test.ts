@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { runReport } from "../src/commands/report";
+import { getPeriodStart } from "../src/utils/usage-history";
+import {
+  transcriptLine,
+  useTranscriptSandbox,
+  writeSession,
+  writeTranscript,
+} from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 21, 12, 0, 0);
+
+describe("report command", () => {
+  const sandbox = useTranscriptSandbox("report-test", NOW);
+  let output: string;
+  let errors: string;
+
+  beforeEach(() => {
+    output = "";
+    errors = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      errors += `${args.join(" ")}\n`;
+    });
+
+    writeSession(sandbox.root, "-work-api", "a", [
+      {
+        at: new Date(2026, 8, 30, 9),
+        model: "claude-sonnet-4-5",
+        cwd: "/work/api",
+        costUSD: 100,
+        outputTokens: 500,
+      },
+      {
+        at: new Date(2026, 9, 5, 9),
+        model: "claude-sonnet-4-5",
+        cwd: "/work/api",
+        costUSD: 4,
+        outputTokens: 500,
+      },
+      {
+        at: new Date(2026, 9, 19, 10),
+        model: "claude-sonnet-4-5",
+        cwd: "/work/api",
+        costUSD: 1.5,
+        outputTokens: 500,
+      },
+    ]);
+    writeSession(sandbox.root, "-work-web", "b", [
+      {
+        at: new Date(2026, 9, 20, 9),
+        model: "claude-opus-4-1",
+        cwd: "/work/web",
+        costUSD: 2.25,
+        outputTokens: 2000,
+      },
+      {
+        at: new Date(2026, 9, 21, 11),
+        model: "claude-sonnet-4-5",
+        cwd: "/work/web",
+        costUSD: 0.75,
+        outputTokens: 500,
+      },
+    ]);
+  });
+
+  it("starts weeks on Monday and months on the 1st", () => {
+    expect(getPeriodStart("week", new Date(2026, 9, 25, 18))).toEqual(
+      new Date(2026, 9, 19),
+    );
+    expect(getPeriodStart("week", new Date(2026, 9, 19, 0, 30))).toEqual(
+      new Date(2026, 9, 19),
+    );
+    expect(getPeriodStart("month", NOW)).toEqual(new Date(2026, 9, 1));
+  });
+
+  it("reports this week by day", async () => {
+    expect(await runReport([])).toBe(0);
+
+    const lines = output.split("\n");
+    expect(lines[0]).toBe("Usage this week (since 2026-10-19), by day");
+    expect(output).toMatch(/^2026-10-19 .* \$1\.50$/m);
+    expect(output).toMatch(/^2026-10-20 .* \$2\.25$/m);
+    expect(output).toMatch(/^2026-10-21 .* \$0\.75$/m);
+    expect(output).toMatch(/^Total .* 3\.0K .* \$4\.50$/m);
+    expect(output).not.toContain("2026-10-05");
+  });
+
+  it("counts a response a resumed session copied once", async () => {
+    writeTranscript(
+      path.join(sandbox.root, "projects", "-work-api", "c.jsonl"),
+      [
+        transcriptLine("a", "a_2", {
+          at: new Date(2026, 9, 19, 10),
+          cwd: "/work/api",
+          costUSD: 1.5,
+          outputTokens: 500,
+        }),
+        transcriptLine("c", "c_0", {
+          at: new Date(2026, 9, 21, 9),
+          cwd: "/work/api",
+          costUSD: 1,
+          outputTokens: 500,
+        }),
+      ],
+    );
+
+    expect(await runReport([])).toBe(0);
+
+    expect(output).toMatch(/^2026-10-19 .* \$1\.50$/m);
+    expect(output).toMatch(/^2026-10-21 .* \$1\.75$/m);
+    expect(output).toMatch(/^Total .* \$5\.50$/m);
+  });
+
+  it("groups the month by model, most expensive first", async () => {
+    await runReport(["--period=month", "--by=model"]);
+
+    const rows = output
+      .split("\n")
+      .filter((line) => line.startsWith("claude-"));
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatch(/^claude-sonnet-4-5 .* \$6\.25$/);
+    expect(rows[1]).toMatch(/^claude-opus-4-1 .* 2\.0K .* \$2\.25$/);
+    expect(output).toMatch(/^Total .* \$8\.50$/m);
+  });
+
+  it("groups by project working directory", async () => {
+    await runReport(["--by", "project"]);
+
+    expect(output).toMatch(/^\/work\/web .* \$3\.00$/m);
+    expect(output).toMatch(/^\/work\/api .* \$1\.50$/m);
+  });
+
+  it("says so when there is no usage", async () => {
+    process.env.CLAUDE_CONFIG_DIR = path.join(sandbox.root, "empty");
+    fs.mkdirSync(process.env.CLAUDE_CONFIG_DIR);
+
+    expect(await runReport(["--period=month"])).toBe(0);
+    expect(output).toContain("No usage found.");
+  });
+
+  it("rejects unknown periods and groupings", async () => {
+    expect(await runReport(["--period=year"])).toBe(1);
+    expect(errors).toContain('unknown period "year" (available: week, month)');
+
+    expect(await runReport(["--by=session"])).toBe(1);
+    expect(errors).toContain(
+      'unknown grouping "session" (available: day, model, project)',
+    );
+  });
+});
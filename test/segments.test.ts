@@ -1,21 +1,26 @@
 import { BlockProvider } from "../src/segments/block";
-import { TodayProvider } from "../src/segments/today";
+import { TodayProvider, projectEndOfDayCost } from "../src/segments/today";
 import { SegmentRenderer, shouldShowWorktree } from "../src/segments/renderer";
 import { CacheTimerProvider } from "../src/segments/cacheTimer";
+import { CommandProvider } from "../src/segments/command";
+import { CacheManager } from "../src/utils/cache";
+import { PricingService } from "../src/segments/pricing";
 import {
   formatCacheTimerElapsed,
   formatCacheTimerRemaining,
 } from "../src/utils/formatters";
-import {
-  loadEntriesFromProjects,
-  type ClaudeHookData,
-} from "../src/utils/claude";
+import type { ClaudeHookData } from "../src/utils/claude";
+import { formatLocalDate, loadUsageRecords } from "../src/utils/usage-history";
 import { mkdirSync, rmSync, writeFileSync } from "fs";
 import { join } from "path";
 import { tmpdir } from "os";
 
+jest.mock("../src/utils/usage-history", () => ({
+  ...jest.requireActual("../src/utils/usage-history"),
+  loadUsageRecords: jest.fn(),
+}));
+
 jest.mock("../src/utils/claude", () => ({
-  loadEntriesFromProjects: jest.fn(),
   getEffortLevel: (hookData: any) => {
     const level = hookData?.effort?.level;
     if (typeof level !== "string") return null;
@@ -29,13 +34,13 @@ jest.mock("../src/utils/claude", () => ({
   },
 }));
 
-const mockLoadEntries = loadEntriesFromProjects as jest.MockedFunction<
-  typeof loadEntriesFromProjects
+const mockLoadRecords = loadUsageRecords as jest.MockedFunction<
+  typeof loadUsageRecords
 >;
 
 describe("Segment Time Logic", () => {
   let tempDir: string;
-  let mockEntries: any[];
+  let mockRecords: any[];
 
   beforeEach(() => {
     tempDir = join(tmpdir(), `powerline-test-${Date.now()}`);
@@ -50,38 +55,39 @@ describe("Segment Time Logic", () => {
     const blockStart = new Date();
     blockStart.setHours(blockNumber * 5, 0, 0, 0);
 
-    mockEntries = [
-      {
-        timestamp: new Date(midnight.getTime() + 2 * 60 * 60 * 1000),
-        message: {
-          usage: {
-            input_tokens: 1000,
-            output_tokens: 500,
-            cache_creation_input_tokens: 100,
-            cache_read_input_tokens: 50,
-          },
-          model: "claude-3-5-sonnet",
-        },
-        costUSD: 25.5,
-        raw: {},
-      },
-      {
-        timestamp: new Date(blockStart.getTime() + 60 * 60 * 1000),
-        message: {
-          usage: {
-            input_tokens: 2000,
-            output_tokens: 1000,
-            cache_creation_input_tokens: 200,
-            cache_read_input_tokens: 100,
-          },
-          model: "claude-3-5-sonnet",
-        },
-        costUSD: 45.75,
-        raw: {},
-      },
+    const record = (
+      firstAt: Date,
+      tokens: number[],
+      costUSD: number,
+    ): Record<string, unknown> => ({
+      date: formatLocalDate(firstAt),
+      firstAt,
+      sessionId: "session",
+      model: "claude-3-5-sonnet",
+      pricedAs: "claude-3-5-sonnet",
+      project: "/tmp",
+      inputTokens: tokens[0],
+      outputTokens: tokens[1],
+      cacheCreationTokens: tokens[2],
+      cacheReadTokens: tokens[3],
+      costUSD,
+      responses: 1,
+    });
+
+    mockRecords = [
+      record(
+        new Date(midnight.getTime() + 2 * 60 * 60 * 1000),
+        [1000, 500, 100, 50],
+        25.5,
+      ),
+      record(
+        new Date(blockStart.getTime() + 60 * 60 * 1000),
+        [2000, 1000, 200, 100],
+        45.75,
+      ),
     ];
 
-    mockLoadEntries.mockResolvedValue(mockEntries);
+    mockLoadRecords.mockResolvedValue(mockRecords);
   });
 
   afterEach(() => {
@@ -151,6 +157,81 @@ describe("Segment Time Logic", () => {
 
       expect(todayInfo.date).toBe(expectedDateStr);
     });
+
+    it("should break today's usage down by model family", async () => {
+      mockRecords[1].model = "claude-opus-4-1-20250805";
+      const todayProvider = new TodayProvider();
+      const todayInfo = await todayProvider.getTodayInfo();
+
+      expect(todayInfo.modelBreakdown).toEqual([
+        { family: "opus", cost: 45.75, tokens: 3300 },
+        { family: "sonnet", cost: 25.5, tokens: 1650 },
+      ]);
+    });
+
+    describe("end-of-day projection", () => {
+      const at = (hours: number, minutes = 0) =>
+        new Date(2026, 9, 19, hours, minutes);
+      const entry = (timestamp: Date, costUSD: number) =>
+        ({ timestamp, costUSD }) as any;
+
+      it("extends the burn rate since the first response to the workday end", () => {
+        const entries = [entry(at(9), 4), entry(at(11), 8)];
+
+        expect(projectEndOfDayCost(entries, at(13))).toBe(27);
+        expect(projectEndOfDayCost(entries, at(13), 17)).toBe(24);
+      });
+
+      it("averages over at least an hour", () => {
+        expect(projectEndOfDayCost([entry(at(9, 50), 1)], at(10))).toBe(9);
+      });
+
+      it("stops projecting once the workday is over", () => {
+        expect(projectEndOfDayCost([entry(at(9), 5)], at(19))).toBe(5);
+        expect(projectEndOfDayCost([], at(12))).toBeNull();
+      });
+
+      it("colors the segment by the projection when shown", () => {
+        const renderer = new SegmentRenderer(
+          {
+            theme: "dark",
+            display: { style: "minimal", showIcons: false, lines: [] },
+            budget: { today: { amount: 50, warningThreshold: 80 } },
+          } as any,
+          { today_cost: "☉", today_projected: "→" } as any,
+        );
+        const colors = {
+          todayBg: "today",
+          todayFg: "today-fg",
+          todayCriticalBg: "today-critical",
+          todayCriticalFg: "today-critical-fg",
+          todayCriticalBold: true,
+        } as any;
+        const todayInfo = {
+          cost: 10,
+          tokens: null,
+          tokenBreakdown: null,
+          modelBreakdown: null,
+          projectedCost: 60,
+          date: "2026-10-19",
+        };
+
+        const plain = renderer.renderToday(todayInfo, colors, {
+          enabled: true,
+          type: "cost",
+        })!;
+        expect(plain.text).toBe("$10.00 20%");
+        expect(plain.bgColor).toBe("today");
+
+        const projected = renderer.renderToday(todayInfo, colors, {
+          enabled: true,
+          type: "cost",
+          showProjection: true,
+        })!;
+        expect(projected.text).toBe("$10.00 !100% → $60.00");
+        expect(projected.bgColor).toBe("today-critical");
+      });
+    });
   });
 
   describe("Time Zone Consistency", () => {
@@ -177,7 +258,7 @@ describe("Segment Time Logic", () => {
       const blockProvider = new BlockProvider();
       const todayProvider = new TodayProvider();
 
-      mockLoadEntries.mockResolvedValue([]);
+      mockLoadRecords.mockResolvedValue([]);
       const blockInfo = await blockProvider.getActiveBlockInfo();
       const todayInfo = await todayProvider.getTodayInfo();
 
@@ -515,6 +596,126 @@ describe("Segment Time Logic", () => {
     });
   });
 
+  describe("Command Segment", () => {
+    const config = { theme: "dark", display: { style: "minimal" } } as any;
+    const symbols = { command: "❯" } as any;
+    const colors = { commandBg: "#263238", commandFg: "#80cbc4" } as any;
+
+    let renderer: SegmentRenderer;
+    let provider: CommandProvider;
+
+    beforeEach(() => {
+      renderer = new SegmentRenderer(config, symbols);
+      provider = new CommandProvider();
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it("should render command output with optional prefix", () => {
+      const info = { output: "prod-cluster" };
+      expect(
+        renderer.renderCommand(info, colors, {
+          enabled: true,
+          command: "kubectl config current-context",
+        }).text,
+      ).toBe("❯ prod-cluster");
+
+      const result = renderer.renderCommand(info, colors, {
+        enabled: true,
+        command: "kubectl config current-context",
+        prefix: "k8s",
+      });
+      expect(result.text).toBe("❯ k8s: prod-cluster");
+      expect(result.bgColor).toBe(colors.commandBg);
+      expect(result.fgColor).toBe(colors.commandFg);
+    });
+
+    it("should use the first non-empty line of stdout", async () => {
+      const info = await provider.getCommandInfo(
+        {
+          enabled: true,
+          command: "printf '\\n  first  \\nsecond\\n'",
+          cacheTtl: 0,
+        },
+        tmpdir(),
+      );
+      expect(info).toEqual({ output: "first" });
+    });
+
+    it("should run in the given working directory", async () => {
+      const dir = join(tmpdir(), `powerline-command-${process.pid}`);
+      mkdirSync(dir, { recursive: true });
+      try {
+        const info = await provider.getCommandInfo(
+          { enabled: true, command: 'basename "$(pwd)"', cacheTtl: 0 },
+          dir,
+        );
+        expect(info?.output).toBe(`powerline-command-${process.pid}`);
+      } finally {
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    it("should return null when the command fails or times out", async () => {
+      expect(
+        await provider.getCommandInfo(
+          { enabled: true, command: "exit 1", cacheTtl: 0 },
+          tmpdir(),
+        ),
+      ).toBeNull();
+      expect(
+        await provider.getCommandInfo(
+          { enabled: true, command: "sleep 2", timeout: 100, cacheTtl: 0 },
+          tmpdir(),
+        ),
+      ).toBeNull();
+    });
+
+    it("should serve cached output keyed by command and cwd", async () => {
+      const getSpy = jest
+        .spyOn(CacheManager, "getCommandCache")
+        .mockResolvedValue("cached-context");
+      const setSpy = jest
+        .spyOn(CacheManager, "setCommandCache")
+        .mockResolvedValue();
+
+      const info = await provider.getCommandInfo(
+        { enabled: true, command: "echo fresh", cacheTtl: 60 },
+        "/work/project",
+      );
+
+      expect(info).toEqual({ output: "cached-context" });
+      expect(getSpy).toHaveBeenCalledWith(
+        CacheManager.createCommandKey("echo fresh", "/work/project"),
+        60000,
+      );
+      expect(setSpy).not.toHaveBeenCalled();
+      expect(CacheManager.createCommandKey("echo fresh", "/a")).not.toBe(
+        CacheManager.createCommandKey("echo fresh", "/b"),
+      );
+    });
+
+    it("should store output after a cache miss", async () => {
+      jest.spyOn(CacheManager, "getCommandCache").mockResolvedValue(null);
+      const setSpy = jest
+        .spyOn(CacheManager, "setCommandCache")
+        .mockResolvedValue();
+
+      const info = await provider.getCommandInfo(
+        { enabled: true, command: "echo fresh" },
+        tmpdir(),
+      );
+
+      expect(info).toEqual({ output: "fresh" });
+      expect(setSpy).toHaveBeenCalledWith(
+        CacheManager.createCommandKey("echo fresh", tmpdir()),
+        "fresh",
+      );
+    });
+  });
+
   describe("Session ID Segment", () => {
     const config = { theme: "dark", display: { style: "minimal" } } as any;
     const symbols = { session_id: "⌗" } as any;
@@ -557,7 +758,7 @@ describe("Segment Time Logic", () => {
 
   describe("Block Segment - Native Rate Limits", () => {
     it("should use native rate_limits when present and skip transcript loading", async () => {
-      mockLoadEntries.mockClear();
+      mockLoadRecords.mockClear();
 
       const hookData: ClaudeHookData = {
         hook_event_name: "Status",
@@ -620,14 +821,18 @@ describe("Segment Time Logic", () => {
       const colors = {
         blockBg: "#2a2a2a",
         blockFg: "#87ceeb",
-        contextWarningBg: "#92400e",
-        contextWarningFg: "#fbbf24",
-        contextCriticalBg: "#991b1b",
-        contextCriticalFg: "#fca5a5",
+        blockWarningBg: "#92400e",
+        blockWarningFg: "#fbbf24",
+        blockCriticalBg: "#991b1b",
+        blockCriticalFg: "#fca5a5",
       } as any;
 
       const renderer = new SegmentRenderer(config, symbols);
-      const blockInfo = { nativeUtilization: 35, timeRemaining: 180 };
+      const blockInfo = {
+        nativeUtilization: 35,
+        timeRemaining: 180,
+        forecast: null,
+      };
 
       const result = renderer.renderBlock(blockInfo, colors, {
         enabled: true,
@@ -654,14 +859,18 @@ describe("Segment Time Logic", () => {
       const colors = {
         blockBg: "#2a2a2a",
         blockFg: "#87ceeb",
-        contextWarningBg: "#92400e",
-        contextWarningFg: "#fbbf24",
-        contextCriticalBg: "#991b1b",
-        contextCriticalFg: "#fca5a5",
+        blockWarningBg: "#92400e",
+        blockWarningFg: "#fbbf24",
+        blockCriticalBg: "#991b1b",
+        blockCriticalFg: "#fca5a5",
       } as any;
 
       const renderer = new SegmentRenderer(config, symbols);
-      const blockInfo = { nativeUtilization: 50, timeRemaining: 60 };
+      const blockInfo = {
+        nativeUtilization: 50,
+        timeRemaining: 60,
+        forecast: null,
+      };
 
       const result = renderer.renderBlock(blockInfo, colors, {
         enabled: true,
@@ -683,27 +892,27 @@ describe("Segment Time Logic", () => {
       const colors = {
         blockBg: "#2a2a2a",
         blockFg: "#87ceeb",
-        contextWarningBg: "#92400e",
-        contextWarningFg: "#fbbf24",
-        contextCriticalBg: "#991b1b",
-        contextCriticalFg: "#fca5a5",
+        blockWarningBg: "#92400e",
+        blockWarningFg: "#fbbf24",
+        blockCriticalBg: "#991b1b",
+        blockCriticalFg: "#fca5a5",
       } as any;
 
       const renderer = new SegmentRenderer(config, symbols);
 
       const at60 = renderer.renderBlock(
-        { nativeUtilization: 60, timeRemaining: 120 },
+        { nativeUtilization: 60, timeRemaining: 120, forecast: null },
         colors,
         { enabled: true, type: "cost" },
       );
-      expect(at60.bgColor).toBe(colors.contextWarningBg);
+      expect(at60.bgColor).toBe(colors.blockWarningBg);
 
       const at90 = renderer.renderBlock(
-        { nativeUtilization: 90, timeRemaining: 30 },
+        { nativeUtilization: 90, timeRemaining: 30, forecast: null },
         colors,
         { enabled: true, type: "cost" },
       );
-      expect(at90.bgColor).toBe(colors.contextCriticalBg);
+      expect(at90.bgColor).toBe(colors.blockCriticalBg);
     });
   });
 
@@ -975,6 +1184,7 @@ describe("Segment Time Logic", () => {
           calculatedCost: 1.23,
           officialCost: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       } as any;
       const session = renderer.renderSession(
@@ -1034,6 +1244,7 @@ describe("Segment Time Logic", () => {
           calculatedCost: 2.5,
           officialCost: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       } as any;
       const session = renderer.renderSession(
@@ -1146,12 +1357,12 @@ describe("Segment Time Logic", () => {
         cacheTimerBg: "#1f3a1f",
         cacheTimerFg: "#90ee90",
         cacheTimerBold: false,
-        contextWarningBg: "#92400e",
-        contextWarningFg: "#fbbf24",
-        contextWarningBold: false,
-        contextCriticalBg: "#991b1b",
-        contextCriticalFg: "#fca5a5",
-        contextCriticalBold: false,
+        cacheTimerWarningBg: "#92400e",
+        cacheTimerWarningFg: "#fbbf24",
+        cacheTimerWarningBold: false,
+        cacheTimerCriticalBg: "#991b1b",
+        cacheTimerCriticalFg: "#fca5a5",
+        cacheTimerCriticalBold: false,
       } as any;
       const renderer = new SegmentRenderer(config, symbols);
 
@@ -1169,27 +1380,27 @@ describe("Segment Time Logic", () => {
         { elapsedSeconds: 180 },
         colors,
       );
-      expect(warn180.bgColor).toBe(colors.contextWarningBg);
-      expect(warn180.fgColor).toBe(colors.contextWarningFg);
+      expect(warn180.bgColor).toBe(colors.cacheTimerWarningBg);
+      expect(warn180.fgColor).toBe(colors.cacheTimerWarningFg);
 
       const warn299 = renderer.renderCacheTimer(
         { elapsedSeconds: 299 },
         colors,
       );
-      expect(warn299.bgColor).toBe(colors.contextWarningBg);
+      expect(warn299.bgColor).toBe(colors.cacheTimerWarningBg);
 
       const critical300 = renderer.renderCacheTimer(
         { elapsedSeconds: 300 },
         colors,
       );
-      expect(critical300.bgColor).toBe(colors.contextCriticalBg);
-      expect(critical300.fgColor).toBe(colors.contextCriticalFg);
+      expect(critical300.bgColor).toBe(colors.cacheTimerCriticalBg);
+      expect(critical300.fgColor).toBe(colors.cacheTimerCriticalFg);
 
       const critical3600 = renderer.renderCacheTimer(
         { elapsedSeconds: 3600 },
         colors,
       );
-      expect(critical3600.bgColor).toBe(colors.contextCriticalBg);
+      expect(critical3600.bgColor).toBe(colors.cacheTimerCriticalBg);
       expect(critical3600.text).toContain("1h+");
     });
 
@@ -1303,12 +1514,12 @@ describe("Segment Time Logic", () => {
         cacheTimerBg: "#1f3a1f",
         cacheTimerFg: "#90ee90",
         cacheTimerBold: false,
-        contextWarningBg: "#92400e",
-        contextWarningFg: "#fbbf24",
-        contextWarningBold: false,
-        contextCriticalBg: "#991b1b",
-        contextCriticalFg: "#fca5a5",
-        contextCriticalBold: false,
+        cacheTimerWarningBg: "#92400e",
+        cacheTimerWarningFg: "#fbbf24",
+        cacheTimerWarningBold: false,
+        cacheTimerCriticalBg: "#991b1b",
+        cacheTimerCriticalFg: "#fca5a5",
+        cacheTimerCriticalBold: false,
       } as any;
       const renderer = new SegmentRenderer(config, symbols);
 
@@ -1332,7 +1543,7 @@ describe("Segment Time Logic", () => {
         { displayMode: "remaining", ttlSeconds: 60 } as any,
       );
       expect(explicitOverride.text).toContain("cold");
-      expect(explicitOverride.bgColor).toBe(colors.contextCriticalBg);
+      expect(explicitOverride.bgColor).toBe(colors.cacheTimerCriticalBg);
     });
 
     it("renders remaining mode with critical/warn thresholds and TTL override", () => {
@@ -1342,12 +1553,12 @@ describe("Segment Time Logic", () => {
         cacheTimerBg: "#1f3a1f",
         cacheTimerFg: "#90ee90",
         cacheTimerBold: false,
-        contextWarningBg: "#92400e",
-        contextWarningFg: "#fbbf24",
-        contextWarningBold: false,
-        contextCriticalBg: "#991b1b",
-        contextCriticalFg: "#fca5a5",
-        contextCriticalBold: false,
+        cacheTimerWarningBg: "#92400e",
+        cacheTimerWarningFg: "#fbbf24",
+        cacheTimerWarningBold: false,
+        cacheTimerCriticalBg: "#991b1b",
+        cacheTimerCriticalFg: "#fca5a5",
+        cacheTimerCriticalBold: false,
       } as any;
       const renderer = new SegmentRenderer(config, symbols);
 
@@ -1360,20 +1571,20 @@ describe("Segment Time Logic", () => {
       const warn = renderer.renderCacheTimer({ elapsedSeconds: 3500 }, colors, {
         displayMode: "remaining",
       } as any);
-      expect(warn.bgColor).toBe(colors.contextWarningBg);
+      expect(warn.bgColor).toBe(colors.cacheTimerWarningBg);
 
       const critical = renderer.renderCacheTimer(
         { elapsedSeconds: 3580 },
         colors,
         { displayMode: "remaining" } as any,
       );
-      expect(critical.bgColor).toBe(colors.contextCriticalBg);
+      expect(critical.bgColor).toBe(colors.cacheTimerCriticalBg);
 
       const cold = renderer.renderCacheTimer({ elapsedSeconds: 7200 }, colors, {
         displayMode: "remaining",
       } as any);
       expect(cold.text).toContain("cold");
-      expect(cold.bgColor).toBe(colors.contextCriticalBg);
+      expect(cold.bgColor).toBe(colors.cacheTimerCriticalBg);
 
       const customTtl = renderer.renderCacheTimer(
         { elapsedSeconds: 60 },
@@ -1381,7 +1592,7 @@ describe("Segment Time Logic", () => {
         { displayMode: "remaining", ttlSeconds: 300 } as any,
       );
       expect(customTtl.text).toContain("4:00");
-      expect(customTtl.bgColor).toBe(colors.contextWarningBg);
+      expect(customTtl.bgColor).toBe(colors.cacheTimerWarningBg);
     });
 
     it("anchors elapsed time to the last user entry in the transcript", async () => {
@@ -1453,6 +1664,8 @@ describe("Segment Time Logic", () => {
         cost: opts.cost,
         tokens: opts.tokens ?? null,
         tokenBreakdown: null,
+        modelBreakdown: null,
+        projectedCost: null,
         date: "2026-04-24",
       } as any;
       return renderer.renderToday(todayInfo, colors, {
@@ -1575,6 +1788,7 @@ describe("Segment Time Logic", () => {
             calculatedCost: opts.cost,
             officialCost: null,
             tokenBreakdown: null,
+            modelBreakdown: null,
           },
         } as any;
         return renderer.renderSession(usageInfo, sessionColors, {
@@ -1604,6 +1818,69 @@ describe("Segment Time Logic", () => {
     });
   });
 
+  describe("Per-model breakdown (type: byModel)", () => {
+    const renderer = new SegmentRenderer(
+      {
+        theme: "dark",
+        display: { style: "minimal", showIcons: false, lines: [] },
+      } as any,
+      { session_cost: "§", today_cost: "☉" } as any,
+    );
+    const modelBreakdown = [
+      { family: "opus" as const, cost: 3.2, tokens: 41_000 },
+      { family: "haiku" as const, cost: 0.004, tokens: 2_500 },
+    ];
+
+    it("groups entries by the model family they are priced as", () => {
+      expect(
+        PricingService.groupByModelFamily([
+          { model: "claude-sonnet-4-5-20250929", costUSD: 1, tokens: 100 },
+          { model: "claude-opus-4-1", costUSD: 2, tokens: 50 },
+          { model: "claude-sonnet-4-6", costUSD: 1.5, tokens: 200 },
+          { model: "unknown", costUSD: 0, tokens: 10 },
+        ]),
+      ).toEqual([
+        { family: "sonnet", cost: 2.5, tokens: 300 },
+        { family: "opus", cost: 2, tokens: 50 },
+        { family: "other", cost: 0, tokens: 10 },
+      ]);
+    });
+
+    it("renders cost and tokens per family", () => {
+      const usageInfo = {
+        session: {
+          cost: 3.204,
+          calculatedCost: 3.204,
+          officialCost: null,
+          tokens: 43_500,
+          tokenBreakdown: null,
+          modelBreakdown,
+        },
+      };
+      expect(
+        renderer.renderSession(usageInfo, {} as any, {
+          enabled: true,
+          type: "byModel",
+        })!.text,
+      ).toBe("opus $3.20 (41.0K) · haiku <$0.01 (2.5K)");
+
+      const todayInfo = {
+        cost: null,
+        tokens: null,
+        tokenBreakdown: null,
+        modelBreakdown: null,
+        projectedCost: null,
+        date: "2026-10-19",
+      };
+      expect(
+        renderer.renderToday(todayInfo, {} as any, {
+          enabled: true,
+          type: "byModel",
+        })!.text,
+      ).toBe("$0.00");
+    });
+  });
+
   describe("Token unit toggle (session / today showUnits)", () => {
     const sessionSymbols = { session_cost: "§" } as any;
     const todaySymbols = { today_cost: "☉" } as any;
@@ -1631,6 +1908,7 @@ describe("Segment Time Logic", () => {
           calculatedCost: 12.34,
           officialCost: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       } as any;
       return renderer.renderSession(usageInfo, sessionColors, {
@@ -1651,6 +1929,8 @@ describe("Segment Time Logic", () => {
           cacheCreation: 0,
           cacheRead: 500,
         },
+        modelBreakdown: null,
+        projectedCost: null,
         date: "2026-04-24",
       } as any;
       return renderer.renderToday(todayInfo, todayColors, {
@@ -1706,6 +1986,7 @@ describe("Segment Time Logic", () => {
           calculatedCost: 0,
           officialCost: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       } as any;
       const cfg = (showUnits: boolean) => ({
@@ -1737,6 +2018,7 @@ describe("Segment Time Logic", () => {
           calculatedCost: 10,
           officialCost: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       } as any;
       const cfg = (showUnits: boolean) => ({
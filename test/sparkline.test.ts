@@ -0,0 +1,84 @@
+import { SparklineProvider } from "../src/segments/sparkline";
+import { SegmentRenderer } from "../src/segments/renderer";
+import { drawSparkline } from "../src/utils/formatters";
+import { SYMBOLS, TEXT_SYMBOLS } from "../src/utils/constants";
+import { useTranscriptSandbox, writeSession } from "./helpers/transcripts";
+
+describe("drawSparkline", () => {
+  it("scales each value from zero to the largest", () => {
+    expect(drawSparkline([0, 1, 2, 4, 8], SYMBOLS.sparkline_levels)).toBe(
+      "▁▂▃▅█",
+    );
+    expect(drawSparkline([5, 5, 5], SYMBOLS.sparkline_levels)).toBe("███");
+    expect(drawSparkline([0, 0], SYMBOLS.sparkline_levels)).toBe("▁▁");
+  });
+
+  it("falls back to ASCII levels", () => {
+    expect(drawSparkline([0, 7, 14], TEXT_SYMBOLS.sparkline_levels)).toBe(
+      "_=#",
+    );
+  });
+});
+
+describe("sparkline segment", () => {
+  const sandbox = useTranscriptSandbox("sparkline-test");
+
+  function writeTurns(turns: Array<{ tokens: number; cost: number }>) {
+    writeSession(
+      sandbox.root,
+      "-work-api",
+      "spark",
+      turns.map((turn, i) => ({
+        at: new Date(Date.UTC(2026, 9, 19, 9, i)),
+        costUSD: turn.cost,
+        inputTokens: turn.tokens - 100,
+        outputTokens: 100,
+      })),
+    );
+  }
+
+  it("keeps the last turns of the session, oldest first", async () => {
+    writeTurns([
+      { tokens: 9000, cost: 0.9 },
+      { tokens: 1000, cost: 0.1 },
+      { tokens: 2000, cost: 0.2 },
+      { tokens: 4000, cost: 0.4 },
+    ]);
+    const provider = new SparklineProvider();
+
+    expect(await provider.getSparklineInfo("spark", "tokens", 3)).toEqual({
+      metric: "tokens",
+      values: [1000, 2000, 4000],
+    });
+    expect(await provider.getSparklineInfo("spark", "cost", 2)).toEqual({
+      metric: "cost",
+      values: [0.2, 0.4],
+    });
+    expect(await provider.getSparklineInfo("missing")).toBeNull();
+  });
+
+  it("renders the chart in the sparkline colors", () => {
+    const renderer = new SegmentRenderer(
+      { theme: "dark", display: { style: "minimal", lines: [] } } as any,
+      {
+        sparkline: "^",
+        sparkline_levels: TEXT_SYMBOLS.sparkline_levels,
+      } as any,
+    );
+    const colors = { sparklineBg: "spark-bg", sparklineFg: "spark-fg" } as any;
+    const info = { metric: "tokens" as const, values: [1000, 2000, 4000] };
+
+    const segment = renderer.renderSparkline(info, colors)!;
+    expect(segment.text).toBe("^ -=#");
+    expect(segment.bgColor).toBe("spark-bg");
+    expect(segment.fgColor).toBe("spark-fg");
+
+    expect(
+      renderer.renderSparkline(info, colors, { enabled: true, showLast: true })!
+        .text,
+    ).toBe("^ -=# 4.0K");
+    expect(
+      renderer.renderSparkline({ metric: "cost", values: [] }, colors),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,115 @@
+import fs from "fs";
+import path from "path";
+import { SubagentProvider } from "../src/segments/subagents";
+import { SegmentRenderer } from "../src/segments/renderer";
+import {
+  transcriptLine,
+  useTranscriptSandbox,
+  writeTranscript,
+} from "./helpers/transcripts";
+
+const NOW = new Date(2026, 9, 19, 12, 0);
+const MINUTE = 60 * 1000;
+
+describe("subagent breakdown", () => {
+  const sandbox = useTranscriptSandbox("subagents-test", NOW);
+
+  function turn(
+    id: string,
+    costUSD: number,
+    stopReason: string | null = "tool_use",
+  ) {
+    return transcriptLine("main", id, {
+      at: new Date(NOW.getTime() - 5 * MINUTE),
+      costUSD,
+      model: "claude-haiku-4-5",
+      stopReason,
+      outputTokens: 200,
+    });
+  }
+
+  function writeAgent(
+    id: string,
+    lines: string[],
+    options: { agentType?: string; idleMinutes?: number } = {},
+  ): void {
+    const dir = path.join(
+      sandbox.root,
+      "projects",
+      "-work-api",
+      "main",
+      "subagents",
+    );
+    writeTranscript(
+      path.join(dir, `agent-${id}.jsonl`),
+      lines,
+      new Date(NOW.getTime() - (options.idleMinutes ?? 0) * MINUTE),
+    );
+    if (options.agentType) {
+      fs.writeFileSync(
+        path.join(dir, `agent-${id}.meta.json`),
+        JSON.stringify({ agentType: options.agentType }),
+      );
+    }
+  }
+
+  beforeEach(() => {
+    writeTranscript(
+      path.join(sandbox.root, "projects", "-work-api", "main.jsonl"),
+      [turn("main", 1)],
+    );
+  });
+
+  it("totals each subagent and tells running agents from finished ones", async () => {
+    writeAgent("a1b2c3d4e5", [turn("a1", 0.1), turn("a2", 0.3)], {
+      agentType: "Explore",
+    });
+    writeAgent("f6e5d4c3b2", [turn("b1", 0.5, "end_turn")]);
+    writeAgent("0099887766", [turn("c1", 0.05)], { idleMinutes: 30 });
+
+    const subagents = await new SubagentProvider().getSubagents("main");
+
+    expect(subagents).toEqual([
+      { name: "f6e5d4c3", cost: 0.5, tokens: 1200, state: "finished" },
+      { name: "Explore", cost: 0.4, tokens: 2400, state: "active" },
+      { name: "00998877", cost: 0.05, tokens: 1200, state: "finished" },
+    ]);
+    expect(await new SubagentProvider().getSubagents("missing")).toBeNull();
+  });
+
+  it("lists or counts subagents in the agent segment", () => {
+    const renderer = new SegmentRenderer(
+      {
+        theme: "dark",
+        display: { style: "minimal", lines: [] },
+      } as any,
+      { agent: "◇", agent_active: "●", agent_finished: "○" } as any,
+    );
+    const hookData = { agent: { name: "researcher" } } as any;
+    const subagents = [
+      { name: "Explore", cost: 0.42, tokens: 18_200, state: "active" as const },
+      { name: "Plan", cost: 0.1, tokens: 5_100, state: "finished" as const },
+    ];
+    const colors = { agentBg: "agent", agentFg: "agent-fg" } as any;
+
+    expect(
+      renderer.renderAgent(
+        hookData,
+        colors,
+        { enabled: true, subagents: "list", maxSubagents: 1 },
+        subagents,
+      )!.text,
+    ).toBe("◇ researcher · ● Explore $0.42 (18.2K) · +1");
+    expect(
+      renderer.renderAgent(
+        {} as any,
+        colors,
+        { enabled: true, subagents: "count" },
+        subagents,
+      )!.text,
+    ).toBe("◇ 2 agents (1 active)");
+    expect(
+      renderer.renderAgent({} as any, colors, { enabled: true }, subagents),
+    ).toBeNull();
+  });
+});
@@ -23,19 +23,40 @@ function makeCustomTheme(overrides: Partial<ColorTheme> = {}): ColorTheme {
     git: { ...base },
     model: { ...base },
     session: { ...base },
+    sessionWarning: { ...base },
+    sessionCritical: { ...base },
     block: { ...base },
+    blockWarning: { ...base },
+    blockCritical: { ...base },
     today: { ...base },
+    todayWarning: { ...base },
+    todayCritical: { ...base },
+    project: { ...base },
+    projectWarning: { ...base },
+    projectCritical: { ...base },
+    week: { ...base },
+    weekWarning: { ...base },
+    weekCritical: { ...base },
+    month: { ...base },
+    monthWarning: { ...base },
+    monthCritical: { ...base },
     tmux: { ...base },
     context: { ...base },
     contextWarning: { ...base },
     contextCritical: { ...base },
     metrics: { ...base },
+    sparkline: { ...base },
     version: { ...base },
     env: { ...base },
     weekly: { ...base },
+    weeklyWarning: { ...base },
+    weeklyCritical: { ...base },
     agent: { ...base },
     thinking: { ...base },
     cacheTimer: { ...base },
+    cacheTimerWarning: { ...base },
+    cacheTimerCritical: { ...base },
+    command: { ...base },
     ...overrides,
   };
 }
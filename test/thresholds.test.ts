@@ -0,0 +1,208 @@
+import { SegmentRenderer } from "../src/segments/renderer";
+import { PowerlineRenderer } from "../src/powerline";
+import { DEFAULT_CONFIG } from "../src/config/defaults";
+import type { PowerlineConfig } from "../src/config/loader";
+import {
+  resolveThresholdLevel,
+  resolveUsageThresholdLevel,
+} from "../src/utils/thresholds";
+
+describe("resolveThresholdLevel", () => {
+  const defaults = { warning: 50, critical: 80 };
+
+  it("reaches rising levels at the threshold", () => {
+    expect(resolveThresholdLevel(49, defaults)).toBe("normal");
+    expect(resolveThresholdLevel(50, defaults)).toBe("warning");
+    expect(resolveThresholdLevel(80, defaults)).toBe("critical");
+  });
+
+  it("reaches falling levels below the threshold", () => {
+    const countdown = { warning: 300, critical: 60 };
+    expect(resolveThresholdLevel(300, countdown, undefined, "falling")).toBe(
+      "normal",
+    );
+    expect(resolveThresholdLevel(299, countdown, undefined, "falling")).toBe(
+      "warning",
+    );
+    expect(resolveThresholdLevel(59, countdown, undefined, "falling")).toBe(
+      "critical",
+    );
+  });
+
+  it("lets configured thresholds override each default separately", () => {
+    expect(resolveThresholdLevel(40, defaults, { warning: 30 })).toBe(
+      "warning",
+    );
+    expect(resolveThresholdLevel(70, defaults, { critical: 70 })).toBe(
+      "critical",
+    );
+  });
+});
+
+describe("resolveUsageThresholdLevel", () => {
+  it("uses the budget percentage and warningThreshold", () => {
+    const budget = { amount: 10, warningThreshold: 90 };
+    expect(resolveUsageThresholdLevel(4, null, budget)).toBe("normal");
+    expect(resolveUsageThresholdLevel(5, null, budget)).toBe("warning");
+    expect(resolveUsageThresholdLevel(9, null, budget)).toBe("critical");
+    expect(
+      resolveUsageThresholdLevel(null, 90_000, {
+        amount: 100_000,
+        type: "tokens",
+      }),
+    ).toBe("critical");
+  });
+
+  it("compares the cost without a budget only when thresholds are set", () => {
+    expect(resolveUsageThresholdLevel(25, null, undefined)).toBe("normal");
+    expect(
+      resolveUsageThresholdLevel(2, null, undefined, {
+        warning: 1,
+        critical: 5,
+      }),
+    ).toBe("warning");
+    expect(
+      resolveUsageThresholdLevel(null, null, undefined, { warning: 1 }),
+    ).toBe("normal");
+  });
+});
+
+describe("segment threshold colors", () => {
+  const colors = {
+    sessionBg: "session",
+    sessionFg: "session-fg",
+    sessionWarningBg: "session-warning",
+    sessionWarningFg: "session-warning-fg",
+    sessionWarningBold: false,
+    sessionCriticalBg: "session-critical",
+    sessionCriticalFg: "session-critical-fg",
+    sessionCriticalBold: true,
+    todayBg: "today",
+    todayFg: "today-fg",
+    todayWarningBg: "today-warning",
+    todayWarningFg: "today-warning-fg",
+    todayWarningBold: false,
+    weeklyBg: "weekly",
+    weeklyFg: "weekly-fg",
+    weeklyBold: false,
+    weeklyWarningBg: "weekly-warning",
+    weeklyWarningFg: "weekly-warning-fg",
+    weeklyWarningBold: false,
+    weeklyCriticalBg: "weekly-critical",
+    weeklyCriticalFg: "weekly-critical-fg",
+    weeklyCriticalBold: false,
+  } as any;
+  const symbols = { session_cost: "§", today_cost: "☉", weekly_cost: "◑" };
+
+  function makeRenderer(config: Partial<PowerlineConfig>) {
+    return new SegmentRenderer(
+      { ...DEFAULT_CONFIG, ...config } as PowerlineConfig,
+      symbols as any,
+    );
+  }
+
+  const session = (cost: number) => ({
+    session: {
+      cost,
+      calculatedCost: cost,
+      officialCost: null,
+      tokens: null,
+      tokenBreakdown: null,
+      modelBreakdown: null,
+    },
+  });
+
+  it("colors session by its budget percentage", () => {
+    const renderer = makeRenderer({ budget: { session: { amount: 10 } } });
+    const config = { enabled: true, type: "cost" as const };
+
+    expect(renderer.renderSession(session(2), colors, config)!.bgColor).toBe(
+      "session",
+    );
+    expect(renderer.renderSession(session(6), colors, config)!.bgColor).toBe(
+      "session-warning",
+    );
+    const critical = renderer.renderSession(session(8), colors, config)!;
+    expect(critical.bgColor).toBe("session-critical");
+    expect(critical.bold).toBe(true);
+  });
+
+  it("colors today by cost thresholds without a budget", () => {
+    const renderer = makeRenderer({ budget: {} });
+    const today = {
+      cost: 1.5,
+      tokens: null,
+      tokenBreakdown: null,
+      modelBreakdown: null,
+      projectedCost: null,
+      date: "2026-10-19",
+    };
+
+    expect(
+      renderer.renderToday(today, colors, { enabled: true, type: "cost" })!
+        .bgColor,
+    ).toBe("today");
+    expect(
+      renderer.renderToday(today, colors, {
+        enabled: true,
+        type: "cost",
+        thresholds: { warning: 1, critical: 10 },
+      })!.bgColor,
+    ).toBe("today-warning");
+  });
+
+  it("applies configured thresholds to weekly", () => {
+    const renderer = makeRenderer({});
+    const hookData = {
+      rate_limits: {
+        seven_day: {
+          used_percentage: 35,
+          resets_at: Math.floor(Date.now() / 1000) + 86400,
+        },
+      },
+    } as any;
+
+    expect(renderer.renderWeekly(hookData, colors)!.bgColor).toBe("weekly");
+    expect(
+      renderer.renderWeekly(hookData, colors, {
+        enabled: true,
+        thresholds: { warning: 25, critical: 30 },
+      })!.bgColor,
+    ).toBe("weekly-critical");
+  });
+});
+
+describe("custom theme threshold colors", () => {
+  it("falls back to contextWarning/contextCritical for other segments", () => {
+    const config: PowerlineConfig = {
+      ...DEFAULT_CONFIG,
+      theme: "custom",
+      display: { ...DEFAULT_CONFIG.display, colorCompatibility: "truecolor" },
+      colors: {
+        custom: {
+          contextWarning: { bg: "#ff8800", fg: "#000000" },
+          blockCritical: { bg: "#ff0000", fg: "#ffffff" },
+        } as any,
+      },
+    };
+    const colors = (
+      new PowerlineRenderer(config) as any
+    ).getThemeColors() as Record<string, string>;
+    const reference = (
+      new PowerlineRenderer({
+        ...config,
+        colors: {
+          custom: {
+            blockWarning: { bg: "#ff8800", fg: "#000000" },
+            blockCritical: { bg: "#ff0000", fg: "#ffffff" },
+          } as any,
+        },
+      }) as any
+    ).getThemeColors() as Record<string, string>;
+
+    expect(colors.blockWarningBg).toBe(reference.blockWarningBg);
+    expect(colors.weeklyWarningBg).toBe(reference.blockWarningBg);
+    expect(colors.blockCriticalBg).toBe(reference.blockCriticalBg);
+    expect(colors.blockCriticalBg).not.toBe(colors.weeklyCriticalBg);
+  });
+});
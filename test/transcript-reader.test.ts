@@ -0,0 +1,174 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CacheManager } from "../src/utils/cache";
+import { readTranscriptIncrementally } from "../src/utils/transcript-reader";
+import type { TranscriptFold } from "../src/utils/transcript-reader";
+import {
+  RECENT_RESPONSES,
+  readTranscriptUsage,
+} from "../src/utils/usage-history";
+
+describe("incremental transcript reader", () => {
+  let root: string;
+  let transcript: string;
+  const originalEnv = { ...process.env };
+
+  const idsFold: TranscriptFold<string[]> = {
+    name: "test-ids",
+    initial: () => [],
+    add: (ids, line) => {
+      ids.push(line.id as string);
+    },
+  };
+
+  function line(id: string): string {
+    return `${JSON.stringify({ id, timestamp: "2026-10-19T10:00:00.000Z" })}\n`;
+  }
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "transcript-reader-test-"));
+    process.env.CLAUDE_POWERLINE_CACHE_DIR = path.join(root, "cache");
+    transcript = path.join(root, "session.jsonl");
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("parses only the lines appended since the previous read", async () => {
+    const add = jest.spyOn(idsFold, "add");
+    fs.writeFileSync(transcript, line("a") + line("b"));
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+      "b",
+    ]);
+
+    fs.appendFileSync(transcript, line("c"));
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+    expect(add).toHaveBeenCalledTimes(3);
+  });
+
+  it("resumes a line that was still being written", async () => {
+    const [complete, partial] = [line("a"), line("b")];
+    fs.writeFileSync(transcript, complete + partial.slice(0, 10));
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+    ]);
+
+    fs.appendFileSync(transcript, partial.slice(10));
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+      "b",
+    ]);
+  });
+
+  it("counts a final line without newline without saving it", async () => {
+    fs.writeFileSync(transcript, line("a") + line("b").trimEnd());
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+      "b",
+    ]);
+
+    fs.appendFileSync(transcript, `\n${line("c")}`);
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "a",
+      "b",
+      "c",
+    ]);
+  });
+
+  it("reads a rewritten transcript from the start", async () => {
+    fs.writeFileSync(transcript, line("a") + line("b"));
+    await readTranscriptIncrementally(transcript, idsFold);
+
+    fs.writeFileSync(transcript, line("x") + line("y") + line("z"));
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "x",
+      "y",
+      "z",
+    ]);
+
+    fs.writeFileSync(transcript, line("q"));
+    expect(await readTranscriptIncrementally(transcript, idsFold)).toEqual([
+      "q",
+    ]);
+  });
+
+  it("deletes state that has not been rewritten for a month", async () => {
+    const other = path.join(root, "other.jsonl");
+    fs.writeFileSync(transcript, line("a"));
+    fs.writeFileSync(other, line("b"));
+    await readTranscriptIncrementally(transcript, idsFold);
+    await readTranscriptIncrementally(other, idsFold);
+    const stateDir = path.join(root, "cache", "transcripts");
+    const stale = path.join(
+      stateDir,
+      `${CacheManager.createTranscriptKey("test-ids", other)}.json`,
+    );
+    const monthAgo = new Date(Date.now() - 31 * 24 * 60 * 60 * 1000);
+    fs.utimesSync(stale, monthAgo, monthAgo);
+
+    await CacheManager.pruneTranscriptStates();
+    expect(fs.existsSync(stale)).toBe(true);
+
+    await CacheManager.pruneTranscriptStates(Date.now() + 25 * 60 * 60 * 1000);
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.readdirSync(stateDir)).toHaveLength(2);
+  });
+
+  it("saves usage totals instead of the lines they come from", async () => {
+    const response = (id: string, text: string) =>
+      `${JSON.stringify({
+        timestamp: "2026-10-19T10:00:00.000Z",
+        type: "assistant",
+        sessionId: "s1",
+        requestId: `req_${id}`,
+        message: {
+          id: `msg_${id}`,
+          model: "claude-sonnet-4-5",
+          content: [{ type: "text", text }],
+          usage: { input_tokens: 10, output_tokens: 5 },
+          stop_reason: "end_turn",
+        },
+      })}\n`;
+    const lines = Array.from({ length: 200 }, (_, i) =>
+      response(String(i), "x".repeat(2000)),
+    );
+    // Claude Code logs a response once per content block.
+    fs.writeFileSync(transcript, lines.join("") + response("199", "y"));
+
+    await readTranscriptUsage(transcript);
+    const usage = await readTranscriptUsage(transcript);
+
+    expect(usage?.buckets).toEqual([
+      expect.objectContaining({
+        sessionId: "s1",
+        model: "claude-sonnet-4-5",
+        tokens: { input: 2000, output: 1000, cacheCreation: 0, cacheRead: 0 },
+        responses: 200,
+      }),
+    ]);
+    expect(usage?.recent).toHaveLength(RECENT_RESPONSES);
+    expect(usage?.contextTokens).toBe(10);
+    expect(usage?.endedTurn).toBe(true);
+    const saved = fs
+      .readdirSync(path.join(root, "cache", "transcripts"))
+      .filter((name) => name.endsWith(".json"));
+    expect(saved).toHaveLength(1);
+    expect(
+      fs.statSync(path.join(root, "cache", "transcripts", saved[0]!)).size,
+    ).toBeLessThan(fs.statSync(transcript).size / 10);
+  });
+});
@@ -25,12 +25,57 @@ const PLAIN_COLORS: PowerlineColors = {
   sessionBg: "",
   sessionFg: "",
   sessionBold: false,
+  sessionWarningBg: "",
+  sessionWarningFg: "",
+  sessionWarningBold: false,
+  sessionCriticalBg: "",
+  sessionCriticalFg: "",
+  sessionCriticalBold: false,
   blockBg: "",
   blockFg: "",
   blockBold: false,
+  blockWarningBg: "",
+  blockWarningFg: "",
+  blockWarningBold: false,
+  blockCriticalBg: "",
+  blockCriticalFg: "",
+  blockCriticalBold: false,
   todayBg: "",
   todayFg: "",
   todayBold: false,
+  todayWarningBg: "",
+  todayWarningFg: "",
+  todayWarningBold: false,
+  todayCriticalBg: "",
+  todayCriticalFg: "",
+  todayCriticalBold: false,
+  projectBg: "",
+  projectFg: "",
+  projectBold: false,
+  projectWarningBg: "",
+  projectWarningFg: "",
+  projectWarningBold: false,
+  projectCriticalBg: "",
+  projectCriticalFg: "",
+  projectCriticalBold: false,
+  weekBg: "",
+  weekFg: "",
+  weekBold: false,
+  weekWarningBg: "",
+  weekWarningFg: "",
+  weekWarningBold: false,
+  weekCriticalBg: "",
+  weekCriticalFg: "",
+  weekCriticalBold: false,
+  monthBg: "",
+  monthFg: "",
+  monthBold: false,
+  monthWarningBg: "",
+  monthWarningFg: "",
+  monthWarningBold: false,
+  monthCriticalBg: "",
+  monthCriticalFg: "",
+  monthCriticalBold: false,
   tmuxBg: "",
   tmuxFg: "",
   tmuxBold: false,
@@ -46,6 +91,9 @@ const PLAIN_COLORS: PowerlineColors = {
   metricsBg: "",
   metricsFg: "",
   metricsBold: false,
+  sparklineBg: "",
+  sparklineFg: "",
+  sparklineBold: false,
   versionBg: "",
   versionFg: "",
   versionBold: false,
@@ -55,6 +103,12 @@ const PLAIN_COLORS: PowerlineColors = {
   weeklyBg: "",
   weeklyFg: "",
   weeklyBold: false,
+  weeklyWarningBg: "",
+  weeklyWarningFg: "",
+  weeklyWarningBold: false,
+  weeklyCriticalBg: "",
+  weeklyCriticalFg: "",
+  weeklyCriticalBold: false,
   agentBg: "",
   agentFg: "",
   agentBold: false,
@@ -64,6 +118,15 @@ const PLAIN_COLORS: PowerlineColors = {
   cacheTimerBg: "",
   cacheTimerFg: "",
   cacheTimerBold: false,
+  cacheTimerWarningBg: "",
+  cacheTimerWarningFg: "",
+  cacheTimerWarningBold: false,
+  cacheTimerCriticalBg: "",
+  cacheTimerCriticalFg: "",
+  cacheTimerCriticalBold: false,
+  commandBg: "",
+  commandFg: "",
+  commandBold: false,
   partFg: {},
 };
 
@@ -96,15 +159,21 @@ function makeTuiData(overrides: Partial<TuiData> = {}): TuiData {
         calculatedCost: 0.0523,
         officialCost: null,
         tokenBreakdown: null,
+        modelBreakdown: null,
       },
     },
-    blockInfo: { nativeUtilization: 35, timeRemaining: 258 },
+    blockInfo: { nativeUtilization: 35, timeRemaining: 258, forecast: null },
     todayInfo: {
       cost: 1.87,
       tokens: null,
       tokenBreakdown: null,
+      modelBreakdown: null,
+      projectedCost: null,
       date: "2026-03-17",
     },
+    projectInfo: null,
+    weekInfo: null,
+    monthInfo: null,
     contextInfo: {
       totalTokens: 90000,
       maxTokens: 200000,
@@ -123,6 +192,10 @@ function makeTuiData(overrides: Partial<TuiData> = {}): TuiData {
     },
     gitInfo: { branch: "feat/tui-mode", status: "dirty", ahead: 2, behind: 0 },
     cacheTimerInfo: null,
+    commandInfo: null,
+    weeklyForecast: null,
+    sparklineInfo: null,
+    subagents: null,
     tmuxSessionId: "dev",
     colors: PLAIN_COLORS,
     ...overrides,
@@ -460,6 +533,33 @@ describe("TUI Panel Rendering", () => {
       expect(result["git"]).not.toContain(SYMBOLS.git_worktree);
     });
 
+    it("resolves the command segment and its parts", () => {
+      const config: PowerlineConfig = {
+        ...DEFAULT_CONFIG,
+        display: {
+          ...DEFAULT_CONFIG.display,
+          style: "tui",
+          lines: [
+            {
+              segments: {
+                command: {
+                  enabled: true,
+                  command: "kubectl config current-context",
+                  prefix: "k8s",
+                },
+              },
+            },
+          ],
+        },
+      };
+      const data = makeTuiData({ commandInfo: { output: "prod" } });
+      const { data: result } = resolveSegments(data, mkCtx(config, data));
+
+      expect(result["command"]).toBe(`${SYMBOLS.command} k8s:prod`);
+      expect(result["command.value"]).toBe("prod");
+      expect(result["command.prefix"]).toBe("k8s");
+    });
+
     it("per-segment showIcon overrides global showIcons", () => {
       const config: PowerlineConfig = {
         ...DEFAULT_CONFIG,
@@ -606,6 +706,8 @@ describe("TUI Panel Rendering", () => {
       cost: 10,
       tokens: null as number | null,
       tokenBreakdown: null,
+      modelBreakdown: null,
+      projectedCost: null,
       date: "2026-04-24",
     };
 
@@ -613,6 +715,8 @@ describe("TUI Panel Rendering", () => {
       cost: 10,
       tokens: 250,
       tokenBreakdown: null,
+      modelBreakdown: null,
+      projectedCost: null,
       date: "2026-04-24",
     };
 
@@ -702,6 +806,7 @@ describe("TUI Panel Rendering", () => {
           calculatedCost: 5,
           officialCost: null,
           tokenBreakdown: null,
+          modelBreakdown: null,
         },
       };
       const parts = formatSessionParts(
@@ -720,6 +825,7 @@ describe("TUI Panel Rendering", () => {
         cost: "",
         tokens: "",
         budget: "",
+        models: "",
       });
     });
   });
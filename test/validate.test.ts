@@ -0,0 +1,303 @@
+import {
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "fs";
+import { join } from "path";
+import { tmpdir } from "os";
+import { validateConfigText } from "../src/config/validate";
+import { runValidate } from "../src/commands/validate";
+import { PRESET_NAMES } from "../src/config/presets";
+
+const TEMPLATE_DIR = join(__dirname, "..", "plugin", "templates");
+
+function fillTemplate(text: string): string {
+  return text
+    .replace(/"replace:THEME"/g, '"dark"')
+    .replace(/"replace:STYLE"/g, '"powerline"')
+    .replace(/"replace:CHARSET"/g, '"unicode"')
+    .replace(/"replace:BAR_STYLE"/g, '"bar"')
+    .replace(/"replace:[A-Z_]+"/g, "10");
+}
+
+describe("validateConfigText", () => {
+  it("accepts a minimal partial config", () => {
+    expect(validateConfigText('{ "theme": "nord" }')).toEqual([]);
+  });
+
+  it.each(readdirSync(TEMPLATE_DIR).filter((f) => f.endsWith(".json")))(
+    "accepts the %s template",
+    (file) => {
+      const text = fillTemplate(
+        readFileSync(join(TEMPLATE_DIR, file), "utf-8"),
+      );
+      expect(validateConfigText(text)).toEqual([]);
+    },
+  );
+
+  it("reports unknown keys at the key position with a suggestion", () => {
+    const text = [
+      "{",
+      '  "display": {',
+      '    "lines": [',
+      '      { "segments": { "git": { "enabled": true, "showWorkTree": true } } }',
+      "    ]",
+      "  }",
+      "}",
+    ].join("\n");
+
+    expect(validateConfigText(text)).toEqual([
+      {
+        path: "display.lines[0].segments.git.showWorkTree",
+        line: 4,
+        column: 49,
+        message: 'unknown key "showWorkTree" (did you mean "showWorktree"?)',
+      },
+    ]);
+  });
+
+  it("reports invalid enum values for themes, styles and bar styles", () => {
+    const text = JSON.stringify(
+      {
+        theme: "nrod",
+        display: {
+          style: "powerlin",
+          lines: [
+            { segments: { context: { enabled: true, displayStyle: "bloks" } } },
+          ],
+        },
+      },
+      null,
+      2,
+    );
+
+    const issues = validateConfigText(text);
+
+    expect(issues.map((i) => i.path)).toEqual([
+      "theme",
+      "display.style",
+      "display.lines[0].segments.context.displayStyle",
+    ]);
+    expect(issues[0]!.message).toContain('invalid value "nrod"');
+    expect(issues[0]!.message).toContain('"tokyo-night"');
+    expect(issues[2]!.message).toContain('"blocks-line"');
+    expect(issues[1]).toMatchObject({ line: 4, column: 14 });
+  });
+
+  it("reports wrong value types", () => {
+    const issues = validateConfigText(
+      '{ "budget": { "today": { "amount": "10" } } }',
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        path: "budget.today.amount",
+        message: "expected number, got string",
+      }),
+    ]);
+  });
+
+  it("flags unknown segment names unless they are declared plugins", () => {
+    const config = {
+      display: { lines: [{ segments: { gti: { enabled: true } } }] },
+    };
+
+    expect(validateConfigText(JSON.stringify(config))).toEqual([
+      expect.objectContaining({
+        path: "display.lines[0].segments.gti",
+        message: expect.stringContaining('(did you mean "git"?)'),
+      }),
+    ]);
+    expect(
+      validateConfigText(
+        JSON.stringify({ ...config, plugins: { gti: "./gti.mjs" } }),
+      ),
+    ).toEqual([]);
+  });
+
+  it("allows partial custom themes with part colors", () => {
+    const text = JSON.stringify({
+      theme: "custom",
+      colors: {
+        custom: { git: { bg: "#000000" }, "git.branch": { fg: "#ffffff" } },
+      },
+    });
+
+    expect(validateConfigText(text)).toEqual([]);
+  });
+
+  it("reports invalid grid areas at the breakpoint", () => {
+    const text = JSON.stringify(
+      {
+        display: {
+          style: "tui",
+          lines: [],
+          tui: {
+            breakpoints: [
+              {
+                minWidth: 0,
+                areas: ["git model", "foo context"],
+                columns: ["1fr", "1fr"],
+              },
+            ],
+          },
+        },
+      },
+      null,
+      2,
+    );
+
+    expect(validateConfigText(text)).toEqual([
+      {
+        path: "display.tui.breakpoints[0]",
+        line: 7,
+        column: 9,
+        message: 'unknown segment name "foo"',
+      },
+    ]);
+  });
+
+  it("registers every template as a preset", () => {
+    const templates = readdirSync(TEMPLATE_DIR)
+      .filter((f) => /^config-.+\.json$/.test(f))
+      .map((f) => f.replace(/^config-|\.json$/g, ""));
+
+    expect([...PRESET_NAMES].sort()).toEqual(templates.sort());
+  });
+
+  it("checks segment names inside profiles", () => {
+    const text = JSON.stringify({
+      profiles: {
+        focus: {
+          display: { lines: [{ segments: { modle: { enabled: true } } }] },
+        },
+      },
+    });
+
+    expect(validateConfigText(text)).toEqual([
+      expect.objectContaining({
+        path: "profiles.focus.display.lines[0].segments.modle",
+        message: expect.stringContaining('(did you mean "model"?)'),
+      }),
+    ]);
+  });
+
+  it("reports invalid when clauses", () => {
+    const text = JSON.stringify({
+      display: {
+        lines: [
+          {
+            segments: {
+              block: { enabled: true, when: "block.nativeUtilization >" },
+              git: { enabled: true, when: "git && !git.isWorktree" },
+            },
+          },
+        ],
+      },
+    });
+
+    expect(validateConfigText(text)).toEqual([
+      expect.objectContaining({
+        path: "display.lines[0].segments.block.when",
+        message: "invalid when clause: unexpected end of expression",
+      }),
+    ]);
+  });
+
+  it("reports JSON syntax errors with their position", () => {
+    expect(validateConfigText('{\n  "theme": "dark",\n}')).toEqual([
+      {
+        path: "(root)",
+        line: 3,
+        column: 1,
+        message:
+          'invalid JSON: expected property name, unexpected character "}"',
+      },
+    ]);
+  });
+});
+
+describe("validate command", () => {
+  let tempDir: string;
+  let output: string;
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "powerline-validate-"));
+    output = "";
+    jest.spyOn(console, "log").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+    jest.spyOn(console, "error").mockImplementation((...args: unknown[]) => {
+      output += `${args.join(" ")}\n`;
+    });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    process.env = { ...originalEnv };
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("prints file:line:column for each problem and exits 1", async () => {
+    const configPath = join(tempDir, "config.json");
+    writeFileSync(configPath, '{\n  "theme": "nrod"\n}\n');
+
+    const code = await runValidate([configPath]);
+
+    expect(code).toBe(1);
+    expect(output).toContain(`${configPath}:2:12: theme: invalid value "nrod"`);
+    expect(output).toContain("1 problem found");
+  });
+
+  it("validates the config file loadConfig would use", async () => {
+    const configPath = join(tempDir, "config.json");
+    writeFileSync(configPath, '{ "theme": "nord" }');
+    process.env.CLAUDE_POWERLINE_CONFIG = configPath;
+
+    const code = await runValidate([]);
+
+    expect(code).toBe(0);
+    expect(output).toContain(`✓ ${configPath} is valid`);
+  });
+
+  it("checks extends targets relative to the file", async () => {
+    writeFileSync(
+      join(tempDir, "base.json"),
+      JSON.stringify({ plugins: { weather: "./weather.mjs" } }),
+    );
+    const configPath = join(tempDir, "config.json");
+    writeFileSync(
+      configPath,
+      JSON.stringify(
+        {
+          extends: ["./base.json", "./missing.json", "preset:ful"],
+          display: { lines: [{ segments: { weather: { enabled: true } } }] },
+        },
+        null,
+        2,
+      ),
+    );
+
+    const code = await runValidate([configPath]);
+
+    expect(code).toBe(1);
+    expect(output).toContain(
+      `${configPath}:4:5: extends[1]: extended file ${join(tempDir, "missing.json")} not found`,
+    );
+    expect(output).toContain(
+      `${configPath}:5:5: extends[2]: unknown preset "ful" (did you mean "full"?)`,
+    );
+    expect(output).not.toContain("weather");
+    expect(output).toContain("2 problems found");
+  });
+
+  it("fails when the file cannot be read", async () => {
+    const code = await runValidate([join(tempDir, "missing.json")]);
+
+    expect(code).toBe(1);
+    expect(output).toContain("cannot read");
+  });
+});
@@ -0,0 +1,133 @@
+import { PowerlineRenderer } from "../src/powerline";
+import { DEFAULT_CONFIG } from "../src/config/defaults";
+import type { PowerlineConfig } from "../src/config/loader";
+import type { ClaudeHookData } from "../src/utils/claude";
+import {
+  evaluateWhen,
+  getWhenRoots,
+  parseWhen,
+  type WhenNode,
+} from "../src/utils/when";
+
+function rule(source: string): WhenNode {
+  const parsed = parseWhen(source);
+  if (typeof parsed === "string") {
+    throw new Error(parsed);
+  }
+  return parsed;
+}
+
+describe("when clauses", () => {
+  const context = {
+    rate_limits: { five_hour: { used_percentage: 62 } },
+    model: { id: "claude-opus-4-1", display_name: "Opus" },
+    today: { cost: 0.4 },
+    git: null,
+    cacheTimer: { remainingSeconds: 45 },
+  };
+
+  it.each([
+    ["rate_limits.five_hour.used_percentage > 50", true],
+    ["rate_limits.five_hour.used_percentage <= 50", false],
+    ["rate_limits.seven_day.used_percentage > 50", false],
+    ["today.cost >= 1", false],
+    ["!(today.cost >= 1)", true],
+    ["git", false],
+    ["!git", true],
+    ["cacheTimer.remainingSeconds < 60 && !git", true],
+    ["git || model.display_name == 'Opus'", true],
+    ['model.id != "claude-opus-4-1"', false],
+    ["missing == null", true],
+    ["today.cost > -1 && (git || true)", true],
+  ])("evaluates %s", (source, expected) => {
+    expect(evaluateWhen(rule(source), context)).toBe(expected);
+  });
+
+  it.each([
+    ["", "unexpected end of expression"],
+    ["today.cost >", "unexpected end of expression"],
+    ["(git", "unexpected end of expression"],
+    ["git git", 'unexpected "git" at column 5'],
+    ["cost > $1", 'unexpected "$" at column 8'],
+    ["name == 'x", "unterminated string at column 9"],
+  ])("rejects %j", (source, message) => {
+    expect(parseWhen(source)).toBe(message);
+  });
+
+  it("lists the top-level names an expression reads", () => {
+    expect(
+      getWhenRoots(rule("git && (block.timeRemaining < 30 || !context)")),
+    ).toEqual(["git", "block", "context"]);
+  });
+});
+
+describe("segment visibility", () => {
+  const hookData: ClaudeHookData = {
+    hook_event_name: "Status",
+    session_id: "when-test",
+    transcript_path: "/nonexistent/when-test.jsonl",
+    cwd: "/tmp",
+    model: { id: "claude-sonnet-4-5", display_name: "Sonnet 4.5" },
+    workspace: { current_dir: "/tmp", project_dir: "/tmp" },
+    version: "2.1.78",
+    rate_limits: {
+      five_hour: {
+        used_percentage: 37,
+        resets_at: Math.floor(Date.now() / 1000) + 3600,
+      },
+    },
+  };
+
+  function render(
+    segments: PowerlineConfig["display"]["lines"][0]["segments"],
+  ) {
+    const config: PowerlineConfig = {
+      ...DEFAULT_CONFIG,
+      display: { ...DEFAULT_CONFIG.display, lines: [{ segments }] },
+    };
+    return new PowerlineRenderer(config).generateStatusline(hookData);
+  }
+
+  it("renders a segment only while its when clause holds", async () => {
+    const hidden = await render({
+      model: { enabled: true },
+      version: {
+        enabled: true,
+        when: "rate_limits.five_hour.used_percentage > 50",
+      },
+    });
+    const shown = await render({
+      model: { enabled: true },
+      version: {
+        enabled: true,
+        when: "rate_limits.five_hour.used_percentage > 30",
+      },
+    });
+
+    expect(hidden).toContain("Sonnet 4.5");
+    expect(hidden).not.toContain("2.1.78");
+    expect(shown).toContain("2.1.78");
+  });
+
+  it("loads provider data a when clause refers to", async () => {
+    const output = await render({
+      version: { enabled: true, when: "block.nativeUtilization < 40" },
+    });
+
+    expect(output).toContain("2.1.78");
+  });
+
+  it("ignores invalid when clauses with a warning", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation();
+
+    const output = await render({
+      version: { enabled: true, when: "rate_limits >" },
+    });
+
+    expect(output).toContain("2.1.78");
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('invalid when clause "rate_limits >"'),
+    );
+    warn.mockRestore();
+  });
+});